@@ -0,0 +1,18 @@
+-- ============================================================================
+-- 1. SYNC GROUP CHANGE NOTIFICATION
+-- ============================================================================
+-- The WS manager and the state manager run one tick loop per sync group. Notify
+-- them when auth.sync_groups changes so loops can be started, stopped or
+-- re-timed without restarting either service.
+CREATE OR REPLACE FUNCTION auth.fn_notify_sync_groups_change()
+RETURNS trigger AS $$
+BEGIN
+    PERFORM pg_notify('sync_groups_changed', '{}');
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER notify_sync_groups_change
+    AFTER INSERT OR UPDATE OR DELETE OR TRUNCATE ON auth.sync_groups
+    FOR EACH STATEMENT
+    EXECUTE FUNCTION auth.fn_notify_sync_groups_change();
@@ -0,0 +1,27 @@
+-- ============================================================================
+-- 1. CONNECTIONS PER SESSION
+-- ============================================================================
+-- How many WebSockets one session may hold open on a WS manager at once, e.g.
+-- the world open in two tabs or a tool's control socket beside the render
+-- socket. Connecting beyond the limit closes the session's oldest connection.
+ALTER TABLE config.auth_config
+    ADD COLUMN auth_config__max_connections_per_session INTEGER NOT NULL DEFAULT 4
+        CHECK (auth_config__max_connections_per_session > 0);
+
+
+-- ============================================================================
+-- 2. CHANGE NOTIFICATION
+-- ============================================================================
+-- Notify Bun listeners so the limit applies to running managers
+CREATE OR REPLACE FUNCTION config.fn_notify_auth_config_change()
+RETURNS trigger AS $$
+BEGIN
+    PERFORM pg_notify('auth_config_changed', '{}');
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER notify_auth_config_change
+    AFTER INSERT OR UPDATE OR DELETE OR TRUNCATE ON config.auth_config
+    FOR EACH STATEMENT
+    EXECUTE FUNCTION config.fn_notify_auth_config_change();
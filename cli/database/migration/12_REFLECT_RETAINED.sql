@@ -0,0 +1,10 @@
+-- ============================================================================
+-- 1. SYNC GROUP RETAINED REFLECT CHANNELS
+-- ============================================================================
+
+-- Reflect channels of the group whose last message per publishing connection is
+-- kept by the WS managers and handed to sockets that start receiving the group,
+-- e.g. '{avatar_data}' so late joiners see every avatar before its next frame.
+-- Retained messages expire when their publisher disconnects.
+ALTER TABLE auth.sync_groups
+    ADD COLUMN server__reflect__retained_channels TEXT[] NOT NULL DEFAULT '{}';
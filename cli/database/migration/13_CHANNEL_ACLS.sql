@@ -0,0 +1,95 @@
+-- ============================================================================
+-- 1. CHANNEL ACL TABLE
+-- ============================================================================
+-- Narrows sync group permissions down to channels. A channel with no matching
+-- rule is open to everyone the sync group allows. Once any rule of the group
+-- matches a channel, only agents granted by a matching rule may read or publish
+-- on it (on top of the sync group permission).
+--
+-- channel__pattern is a channel name, a prefix ending in '*' (e.g. 'webrtc.*')
+-- or '*' for every channel. Rules name either one agent or a role:
+--   anon          - anonymous agents
+--   authenticated - every agent that is not anonymous
+--   admin         - admin agents
+CREATE TABLE auth.sync_group_channel_acls (
+    general__channel_acl_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    group__sync TEXT NOT NULL REFERENCES auth.sync_groups(general__sync_group) ON DELETE CASCADE,
+    channel__pattern TEXT NOT NULL CHECK (channel__pattern <> ''),
+    auth__agent_id UUID REFERENCES auth.agent_profiles(general__agent_profile_id) ON DELETE CASCADE,
+    auth__role TEXT CHECK (auth__role IN ('anon', 'authenticated', 'admin')),
+    permissions__can_read BOOLEAN NOT NULL DEFAULT true,
+    permissions__can_publish BOOLEAN NOT NULL DEFAULT false,
+    CHECK ((auth__agent_id IS NULL) <> (auth__role IS NULL))
+) INHERITS (auth._template);
+ALTER TABLE auth.sync_group_channel_acls ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_sync_group_channel_acls_group ON auth.sync_group_channel_acls (group__sync);
+
+CREATE TRIGGER update_sync_group_channel_acls_updated_at
+    BEFORE UPDATE ON auth.sync_group_channel_acls
+    FOR EACH ROW
+    EXECUTE FUNCTION auth.update_audit_columns();
+
+
+-- ============================================================================
+-- 2. POLICIES AND GRANTS
+-- ============================================================================
+CREATE POLICY "Allow viewing channel acls" ON auth.sync_group_channel_acls
+    FOR SELECT
+    TO PUBLIC
+    USING (true);
+
+CREATE POLICY "Allow admin channel acl modifications" ON auth.sync_group_channel_acls
+    FOR ALL
+    TO PUBLIC
+    USING (
+        auth.is_admin_agent()
+        OR auth.is_system_agent()
+    );
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON auth.sync_group_channel_acls TO vircadia_agent_proxy;
+
+
+-- ============================================================================
+-- 3. CHANGE NOTIFICATION
+-- ============================================================================
+-- Rules naming an agent go through the role change listener, which re-warms
+-- that agent's ACL on every manager
+CREATE OR REPLACE FUNCTION auth.fn_notify_channel_acl_agent_change()
+RETURNS trigger AS $$
+BEGIN
+    IF TG_OP <> 'INSERT' AND OLD.auth__agent_id IS NOT NULL THEN
+        PERFORM pg_notify(
+            'auth_roles_changed',
+            json_build_object('agentId', OLD.auth__agent_id)::text
+        );
+    END IF;
+    IF TG_OP <> 'DELETE' AND NEW.auth__agent_id IS NOT NULL THEN
+        PERFORM pg_notify(
+            'auth_roles_changed',
+            json_build_object('agentId', NEW.auth__agent_id)::text
+        );
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER notify_channel_acl_agent_change
+    AFTER INSERT OR UPDATE OR DELETE ON auth.sync_group_channel_acls
+    FOR EACH ROW
+    EXECUTE FUNCTION auth.fn_notify_channel_acl_agent_change();
+
+-- Any change can open or close channels for many agents, so WS managers also
+-- reload the rule set
+CREATE OR REPLACE FUNCTION auth.fn_notify_channel_acls_change()
+RETURNS trigger AS $$
+BEGIN
+    PERFORM pg_notify('channel_acls_changed', '{}');
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER notify_channel_acls_change
+    AFTER INSERT OR UPDATE OR DELETE OR TRUNCATE ON auth.sync_group_channel_acls
+    FOR EACH STATEMENT
+    EXECUTE FUNCTION auth.fn_notify_channel_acls_change();
@@ -0,0 +1,54 @@
+-- ============================================================================
+-- 1. NAMED QUERY REGISTRY
+-- ============================================================================
+-- Parameterized queries clients run by name with NAMED_QUERY_REQUEST instead of
+-- sending SQL. They run as the calling agent on the proxy connection, so RLS
+-- still applies. Register them here directly or from a user SQL seed file.
+--
+-- query__parameters lists the arguments in $1, $2, ... order, e.g.
+--   [{"name": "entityName", "type": "string"}, {"name": "limit", "type": "integer", "required": false}]
+-- Types are string, number, integer, boolean, uuid and json (bound as JSON
+-- text, so cast it with ::jsonb). Missing optional arguments bind NULL.
+--
+-- An agent may run a query when it has one of auth__roles (anon,
+-- authenticated, admin) or is listed in auth__agent_ids.
+CREATE TABLE config.named_queries (
+    general__query_name TEXT PRIMARY KEY
+        CHECK (general__query_name ~ '^[A-Za-z0-9_.:-]{1,128}$'),
+    query__sql TEXT NOT NULL,
+    query__description TEXT,
+    query__parameters JSONB NOT NULL DEFAULT '[]'
+        CHECK (jsonb_typeof(query__parameters) = 'array'),
+    -- Runs in a read-only transaction unless turned off
+    query__read_only BOOLEAN NOT NULL DEFAULT true,
+    auth__roles TEXT[] NOT NULL DEFAULT '{authenticated}'
+        CHECK (auth__roles <@ ARRAY['anon', 'authenticated', 'admin']),
+    auth__agent_ids UUID[] NOT NULL DEFAULT '{}'
+);
+
+
+-- ============================================================================
+-- 2. RAW QUERY SWITCH
+-- ============================================================================
+-- Set to false in production to reject QUERY_REQUEST (arbitrary SQL) entirely
+-- and leave named queries as the only way to read or write through queries
+ALTER TABLE config.auth_config
+    ADD COLUMN auth_config__allow_raw_queries BOOLEAN NOT NULL DEFAULT true;
+
+
+-- ============================================================================
+-- 3. CHANGE NOTIFICATION
+-- ============================================================================
+-- Notify Bun listeners so the registry can change without a redeploy
+CREATE OR REPLACE FUNCTION config.fn_notify_named_queries_change()
+RETURNS trigger AS $$
+BEGIN
+    PERFORM pg_notify('named_queries_changed', '{}');
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER notify_named_queries_change
+    AFTER INSERT OR UPDATE OR DELETE OR TRUNCATE ON config.named_queries
+    FOR EACH STATEMENT
+    EXECUTE FUNCTION config.fn_notify_named_queries_change();
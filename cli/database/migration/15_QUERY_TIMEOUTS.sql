@@ -0,0 +1,17 @@
+-- ============================================================================
+-- 1. STATEMENT TIMEOUTS
+-- ============================================================================
+-- statement_timeout the WS manager sets inside each QUERY_REQUEST,
+-- NAMED_QUERY_REQUEST and paged or streamed query transaction, by the role of
+-- the calling agent. Admin agents use the admin value, anonymous agents the
+-- anon value and everyone else the regular value. 0 leaves the role's own
+-- statement_timeout in place.
+--
+-- Changes reach running managers through the auth_config_changed notification.
+ALTER TABLE config.auth_config
+    ADD COLUMN auth_config__query_statement_timeout_anon_ms INTEGER NOT NULL DEFAULT 5000
+        CHECK (auth_config__query_statement_timeout_anon_ms >= 0),
+    ADD COLUMN auth_config__query_statement_timeout_regular_ms INTEGER NOT NULL DEFAULT 15000
+        CHECK (auth_config__query_statement_timeout_regular_ms >= 0),
+    ADD COLUMN auth_config__query_statement_timeout_admin_ms INTEGER NOT NULL DEFAULT 60000
+        CHECK (auth_config__query_statement_timeout_admin_ms >= 0);
@@ -0,0 +1,13 @@
+-- ============================================================================
+-- 1. SYNC GROUP AREA-OF-INTEREST SETTINGS
+-- ============================================================================
+
+-- Reflect deliveries that carry a position are only fanned out to sessions within
+-- server__reflect__interest__radius of it (NULL disables filtering for the group).
+-- server__reflect__interest__cell_size sizes the WS manager's spatial grid and
+-- defaults to the radius when NULL.
+ALTER TABLE auth.sync_groups
+    ADD COLUMN server__reflect__interest__radius DOUBLE PRECISION
+        CHECK (server__reflect__interest__radius IS NULL OR server__reflect__interest__radius > 0),
+    ADD COLUMN server__reflect__interest__cell_size DOUBLE PRECISION
+        CHECK (server__reflect__interest__cell_size IS NULL OR server__reflect__interest__cell_size > 0);
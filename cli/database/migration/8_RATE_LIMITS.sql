@@ -0,0 +1,64 @@
+-- ============================================================================
+-- 1. RATE LIMIT CONFIGURATION TABLE
+-- ============================================================================
+-- Token-bucket limits enforced by the WS manager on reflect publishes and queries.
+-- Each row applies to one agent (scope 'agent', target = agent id) or one sync group
+-- (scope 'sync_group', target = sync group name); target '*' is the default for
+-- every agent / sync group without a row of its own. NULL limits are unlimited.
+-- Query limits only apply to the 'agent' scope.
+CREATE TABLE config.rate_limit_config (
+    rate_limit_config__scope TEXT NOT NULL
+        CHECK (rate_limit_config__scope IN ('agent', 'sync_group')),
+    rate_limit_config__target TEXT NOT NULL DEFAULT '*',
+    rate_limit_config__reflect_messages_per_sec DOUBLE PRECISION
+        CHECK (rate_limit_config__reflect_messages_per_sec IS NULL OR rate_limit_config__reflect_messages_per_sec > 0),
+    rate_limit_config__reflect_bytes_per_sec DOUBLE PRECISION
+        CHECK (rate_limit_config__reflect_bytes_per_sec IS NULL OR rate_limit_config__reflect_bytes_per_sec > 0),
+    rate_limit_config__queries_per_sec DOUBLE PRECISION
+        CHECK (rate_limit_config__queries_per_sec IS NULL OR rate_limit_config__queries_per_sec > 0),
+    rate_limit_config__max_concurrent_queries INTEGER
+        CHECK (rate_limit_config__max_concurrent_queries IS NULL OR rate_limit_config__max_concurrent_queries > 0),
+    -- Bucket capacity in seconds of the rate, i.e. how large a burst is tolerated
+    rate_limit_config__burst_seconds DOUBLE PRECISION NOT NULL DEFAULT 2
+        CHECK (rate_limit_config__burst_seconds > 0),
+    PRIMARY KEY (rate_limit_config__scope, rate_limit_config__target)
+);
+
+
+-- ============================================================================
+-- 2. CHANGE NOTIFICATION
+-- ============================================================================
+-- Notify Bun listeners so limits can be tuned without a redeploy
+CREATE OR REPLACE FUNCTION config.fn_notify_rate_limit_config_change()
+RETURNS trigger AS $$
+BEGIN
+    PERFORM pg_notify('rate_limit_config_changed', '{}');
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER notify_rate_limit_config_change
+    AFTER INSERT OR UPDATE OR DELETE OR TRUNCATE ON config.rate_limit_config
+    FOR EACH STATEMENT
+    EXECUTE FUNCTION config.fn_notify_rate_limit_config_change();
+
+
+-- ============================================================================
+-- 3. INITIAL DATA
+-- ============================================================================
+INSERT INTO config.rate_limit_config (
+    rate_limit_config__scope,
+    rate_limit_config__target,
+    rate_limit_config__reflect_messages_per_sec,
+    rate_limit_config__reflect_bytes_per_sec,
+    rate_limit_config__queries_per_sec,
+    rate_limit_config__max_concurrent_queries
+) VALUES
+    ('agent', '*', 240, 2097152, 100, 16),     -- per agent: 240 msg/s, 2 MiB/s, 100 queries/s, 16 in flight
+    ('sync_group', '*', NULL, NULL, NULL, NULL); -- sync groups unlimited until tuned
+
+
+-- ============================================================================
+-- 4. PERMISSIONS
+-- ============================================================================
+REVOKE ALL ON config.rate_limit_config FROM PUBLIC;
@@ -0,0 +1,19 @@
+-- ============================================================================
+-- 1. BATCHED SESSION VALIDATION
+-- ============================================================================
+-- Set-based counterpart of auth.validate_session_id, used by the WS manager
+-- heartbeat to check every connected session in one round-trip. Returns the
+-- given session ids that no longer exist, are inactive or have expired.
+CREATE OR REPLACE FUNCTION auth.find_invalid_session_ids(
+    p_session_ids UUID[]
+) RETURNS SETOF UUID AS $$
+    SELECT requested.session_id
+    FROM unnest(p_session_ids) AS requested(session_id)
+    LEFT JOIN auth.agent_sessions s
+        ON s.general__session_id = requested.session_id
+    WHERE s.general__session_id IS NULL
+       OR NOT s.session__is_active
+       OR s.session__expires_at < NOW();
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION auth.find_invalid_session_ids(UUID[]) FROM PUBLIC;
@@ -0,0 +1,93 @@
+import { describe, expect, test } from "bun:test";
+import {
+    Histogram,
+    LabeledCounter,
+    OPENMETRICS_CONTENT_TYPE,
+    OpenMetricsWriter,
+} from "../../server/module/general.server.metrics";
+
+describe("OpenMetrics exposition", () => {
+    test("Counters get a _total suffix and gauges are written as they are", () => {
+        const writer = new OpenMetricsWriter("vircadia_ws");
+        writer.counter("messages", "Messages received", 3);
+        writer.gauge("connections", "Open connections", [
+            { labels: { sync_group: "public.NORMAL" }, value: 2 },
+        ]);
+
+        expect(writer.toString()).toBe(
+            [
+                "# TYPE vircadia_ws_messages counter",
+                "# HELP vircadia_ws_messages Messages received",
+                "vircadia_ws_messages_total 3",
+                "# TYPE vircadia_ws_connections gauge",
+                "# HELP vircadia_ws_connections Open connections",
+                'vircadia_ws_connections{sync_group="public.NORMAL"} 2',
+                "# EOF",
+                "",
+            ].join("\n"),
+        );
+    });
+
+    test("An empty exposition still ends with # EOF", () => {
+        expect(new OpenMetricsWriter("vircadia_ws").toString()).toBe("# EOF\n");
+    });
+
+    test("Histogram buckets are cumulative and end with +Inf", () => {
+        const histogram = new Histogram([0.1, 1]);
+        for (const value of [0.05, 0.1, 0.5, 2]) {
+            histogram.observe(value, { type: "query" });
+        }
+        const writer = new OpenMetricsWriter("vircadia_ws");
+        writer.histogram("duration_seconds", "Request duration", histogram);
+
+        expect(writer.toString().split("\n").slice(2, -2)).toEqual([
+            'vircadia_ws_duration_seconds_bucket{type="query",le="0.1"} 2',
+            'vircadia_ws_duration_seconds_bucket{type="query",le="1"} 3',
+            'vircadia_ws_duration_seconds_bucket{type="query",le="+Inf"} 4',
+            'vircadia_ws_duration_seconds_sum{type="query"} 2.65',
+            'vircadia_ws_duration_seconds_count{type="query"} 4',
+        ]);
+    });
+
+    test("Label values are escaped and special values spelled out", () => {
+        const writer = new OpenMetricsWriter("vircadia_ws");
+        writer.gauge("odd", "Odd values", [
+            { labels: { name: 'a "b"\\c\nd' }, value: Number.NaN },
+            { value: Number.POSITIVE_INFINITY },
+        ]);
+        expect(writer.toString()).toContain(
+            'vircadia_ws_odd{name="a \\"b\\"\\\\c\\nd"} NaN\nvircadia_ws_odd +Inf\n',
+        );
+    });
+
+    test("Counters add up per label set regardless of label order", () => {
+        const counter = new LabeledCounter();
+        counter.inc({ a: "1", b: "2" });
+        counter.inc({ b: "2", a: "1" }, 4);
+        counter.inc({ a: "other" });
+        expect(counter.samples().map((sample) => sample.value)).toEqual([5, 1]);
+
+        counter.remove({ a: "other" });
+        expect(counter.samples()).toHaveLength(1);
+    });
+
+    test("Process metrics are written without the namespace", () => {
+        const writer = new OpenMetricsWriter("vircadia_ws");
+        writer.processMetrics();
+        const text = writer.toString();
+        expect(text).toContain("# TYPE process_cpu_seconds counter\n");
+        expect(text).toMatch(/^process_cpu_seconds_total \d/m);
+        expect(text).toMatch(/^process_resident_memory_bytes \d+$/m);
+        expect(text).not.toContain("vircadia_ws_");
+    });
+
+    test("Responses carry the OpenMetrics content type", async () => {
+        const writer = new OpenMetricsWriter("vircadia_ws");
+        writer.gauge("up", "Up", 1);
+        const response = writer.toResponse();
+        expect(response.headers.get("Content-Type")).toBe(
+            OPENMETRICS_CONTENT_TYPE,
+        );
+        expect(await response.text()).toBe(writer.toString());
+    });
+});
@@ -0,0 +1,139 @@
+import { describe, expect, test } from "bun:test";
+import {
+    type ChannelAclRule,
+    channelAclRolesOf,
+    channelAllows,
+    isChannelRestricted,
+    matchesChannelPattern,
+} from "../../server/service/api_ws/volume/app/service/channelacl";
+
+const AGENT = "00000000-0000-0000-0000-000000000001";
+const OTHER = "00000000-0000-0000-0000-000000000002";
+
+function rule(
+    pattern: string,
+    grantee: { agentId: string } | { role: ChannelAclRule["role"] },
+    canRead: boolean,
+    canPublish: boolean,
+): ChannelAclRule {
+    return {
+        pattern,
+        agentId: "agentId" in grantee ? grantee.agentId : null,
+        role: "role" in grantee ? grantee.role : null,
+        canRead,
+        canPublish,
+    };
+}
+
+describe("Channel ACLs", () => {
+    test("Patterns match exact names, prefixes ending in * and everything", () => {
+        expect(matchesChannelPattern("webrtc.signal", "webrtc.signal")).toBe(
+            true,
+        );
+        expect(matchesChannelPattern("webrtc.signal", "webrtc.signals")).toBe(
+            false,
+        );
+        expect(matchesChannelPattern("webrtc.*", "webrtc.signal")).toBe(true);
+        expect(matchesChannelPattern("webrtc.*", "webrtc")).toBe(false);
+        expect(matchesChannelPattern("*", "anything")).toBe(true);
+        expect(matchesChannelPattern("*", "")).toBe(true);
+    });
+
+    test("Channels no rule covers stay open to everyone", () => {
+        const rules = [rule("staff.*", { role: "admin" }, true, true)];
+        expect(isChannelRestricted(rules, "chat")).toBe(false);
+        expect(channelAllows(rules, "chat", AGENT, ["anon"], "publish")).toBe(
+            true,
+        );
+        expect(channelAllows([], "chat", AGENT, [], "read")).toBe(true);
+    });
+
+    test("Covered channels need a matching grant for the agent or a role", () => {
+        const rules = [
+            rule("staff.*", { role: "admin" }, true, true),
+            rule("staff.radio", { agentId: AGENT }, true, false),
+        ];
+        expect(isChannelRestricted(rules, "staff.radio")).toBe(true);
+
+        expect(
+            channelAllows(
+                rules,
+                "staff.radio",
+                AGENT,
+                ["authenticated"],
+                "read",
+            ),
+        ).toBe(true);
+        expect(
+            channelAllows(
+                rules,
+                "staff.radio",
+                AGENT,
+                ["authenticated"],
+                "publish",
+            ),
+        ).toBe(false);
+        expect(
+            channelAllows(
+                rules,
+                "staff.radio",
+                OTHER,
+                ["authenticated"],
+                "read",
+            ),
+        ).toBe(false);
+        expect(
+            channelAllows(
+                rules,
+                "staff.radio",
+                OTHER,
+                ["authenticated", "admin"],
+                "publish",
+            ),
+        ).toBe(true);
+    });
+
+    test("Grants add up across patterns; a narrower rule never takes a broader grant away", () => {
+        const rules = [
+            rule("*", { role: "authenticated" }, true, false),
+            // Read-only for this agent, yet "*" already lets every authenticated agent read
+            rule("lobby", { agentId: AGENT }, false, true),
+        ];
+        expect(
+            channelAllows(rules, "lobby", AGENT, ["authenticated"], "read"),
+        ).toBe(true);
+        expect(
+            channelAllows(rules, "lobby", AGENT, ["authenticated"], "publish"),
+        ).toBe(true);
+        expect(
+            channelAllows(rules, "lobby", OTHER, ["authenticated"], "publish"),
+        ).toBe(false);
+        // "*" covers every channel, so anonymous agents lose even unnamed ones
+        expect(channelAllows(rules, "elsewhere", OTHER, ["anon"], "read")).toBe(
+            false,
+        );
+    });
+
+    test("A rule granting nothing still restricts its channels", () => {
+        const rules = [rule("muted", { role: "anon" }, false, false)];
+        expect(channelAllows(rules, "muted", AGENT, ["anon"], "read")).toBe(
+            false,
+        );
+        expect(
+            channelAllows(rules, "muted", AGENT, ["authenticated"], "read"),
+        ).toBe(false);
+    });
+
+    test("Profiles map to anon or authenticated, plus admin", () => {
+        expect(channelAclRolesOf({ isAdmin: false, isAnon: true })).toEqual([
+            "anon",
+        ]);
+        expect(channelAclRolesOf({ isAdmin: false, isAnon: false })).toEqual([
+            "authenticated",
+        ]);
+        expect(channelAclRolesOf({ isAdmin: true, isAnon: false })).toEqual([
+            "authenticated",
+            "admin",
+        ]);
+    });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, test } from "bun:test";
+import {
+    DEFAULT_WS_CODEC,
+    decodeWsMessage,
+    E_WsCodec,
+    EncodedWsMessage,
+    encodeWsMessage,
+    getEncodedByteLength,
+    parseWsCodec,
+} from "../../server/service/api_ws/volume/app/service/codec";
+
+const message = {
+    type: "GENERAL_ERROR_RESPONSE",
+    timestamp: 1700000000000,
+    requestId: "request",
+    errorMessage: "Ünïcødé",
+    nested: { values: [1, 2.5, true, null] },
+};
+
+describe("WS codec", () => {
+    test("Codec parameter defaults to JSON and rejects unknown codecs", () => {
+        expect(parseWsCodec(undefined)).toBe(DEFAULT_WS_CODEC);
+        expect(parseWsCodec(null)).toBe(E_WsCodec.JSON);
+        expect(parseWsCodec("  ")).toBe(E_WsCodec.JSON);
+        expect(parseWsCodec(" MsgPack ")).toBe(E_WsCodec.MSGPACK);
+        expect(parseWsCodec("cbor")).toBe(null);
+    });
+
+    test("JSON encodes to text and MessagePack to bytes", () => {
+        const json = encodeWsMessage(E_WsCodec.JSON, message);
+        expect(typeof json).toBe("string");
+        expect(JSON.parse(json as string)).toEqual(message);
+
+        const msgpack = encodeWsMessage(E_WsCodec.MSGPACK, message);
+        expect(msgpack).toBeInstanceOf(Uint8Array);
+        expect(
+            decodeWsMessage(E_WsCodec.MSGPACK, msgpack as Uint8Array),
+        ).toEqual(message);
+    });
+
+    test("MessagePack leaves out undefined fields", () => {
+        const encoded = encodeWsMessage(E_WsCodec.MSGPACK, {
+            a: 1,
+            b: undefined,
+        });
+        expect(
+            decodeWsMessage(E_WsCodec.MSGPACK, encoded as Uint8Array),
+        ).toEqual({ a: 1 });
+    });
+
+    test("Frames decode whatever the frame type", () => {
+        const msgpack = encodeWsMessage(
+            E_WsCodec.MSGPACK,
+            message,
+        ) as Uint8Array;
+        expect(decodeWsMessage(E_WsCodec.MSGPACK, msgpack)).toEqual(message);
+
+        // Browsers deliver binary frames as ArrayBuffers
+        const buffer = new Uint8Array(msgpack).buffer;
+        expect(decodeWsMessage(E_WsCodec.MSGPACK, buffer)).toEqual(message);
+
+        // Text frames are JSON under every codec
+        const json = JSON.stringify(message);
+        expect(decodeWsMessage(E_WsCodec.MSGPACK, json)).toEqual(message);
+        expect(
+            decodeWsMessage(E_WsCodec.JSON, new TextEncoder().encode(json)),
+        ).toEqual(message);
+    });
+
+    test("Byte lengths count encoded bytes, not characters", () => {
+        expect(getEncodedByteLength("é")).toBe(2);
+        expect(getEncodedByteLength(new Uint8Array(3))).toBe(3);
+    });
+
+    test("Encoded messages encode once per codec and reuse given JSON", () => {
+        const json = JSON.stringify(message);
+        const encoded = new EncodedWsMessage(message, json);
+        expect(encoded.get(E_WsCodec.JSON)).toBe(json);
+
+        const msgpack = encoded.get(E_WsCodec.MSGPACK);
+        expect(encoded.get(E_WsCodec.MSGPACK)).toBe(msgpack);
+        expect(encoded.byteLength(E_WsCodec.MSGPACK)).toBe(
+            (msgpack as Uint8Array).byteLength,
+        );
+        expect(encoded.byteLength()).toBe(getEncodedByteLength(json));
+    });
+});
@@ -0,0 +1,119 @@
+import { describe, expect, test } from "bun:test";
+import {
+    createMergePatch,
+    diffMetadataRow,
+    isDeepEqual,
+} from "../../server/service/api_ws/volume/app/service/delta";
+
+// RFC 7386, as a client applies the patches
+function applyMergePatch(target: unknown, patch: unknown): unknown {
+    if (typeof patch !== "object" || patch === null || Array.isArray(patch)) {
+        return patch;
+    }
+    const result: Record<string, unknown> =
+        typeof target === "object" && target !== null && !Array.isArray(target)
+            ? { ...(target as Record<string, unknown>) }
+            : {};
+    for (const [key, value] of Object.entries(patch)) {
+        if (value === null) {
+            delete result[key];
+        } else {
+            result[key] = applyMergePatch(result[key], value);
+        }
+    }
+    return result;
+}
+
+describe("Metadata deltas", () => {
+    test("Deep equality compares arrays in order and objects by key", () => {
+        expect(isDeepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toBe(
+            true,
+        );
+        expect(isDeepEqual([1, 2], [2, 1])).toBe(false);
+        expect(isDeepEqual({ a: 1 }, { a: 1, b: undefined })).toBe(false);
+        expect(isDeepEqual({ a: null }, {})).toBe(false);
+        expect(isDeepEqual(null, {})).toBe(false);
+    });
+
+    test("Merge patches carry only what changed and apply back to the new value", () => {
+        const previous = {
+            position: { x: 1, y: 2, z: 3 },
+            name: "door",
+            tags: ["a", "b"],
+            removed: true,
+        };
+        const next = {
+            position: { x: 1, y: 5, z: 3 },
+            name: "door",
+            tags: ["a", "c"],
+            added: { open: false },
+        };
+
+        const patch = createMergePatch(previous, next);
+        expect(patch).toEqual({
+            position: { y: 5 },
+            tags: ["a", "c"],
+            removed: null,
+            added: { open: false },
+        });
+        expect(applyMergePatch(previous, patch)).toEqual(next);
+    });
+
+    test("Values with null members cannot travel as a merge patch", () => {
+        expect(createMergePatch({ a: 1 }, { a: { b: null } })).toBe(undefined);
+        expect(createMergePatch({ a: 1 }, null)).toBe(undefined);
+        // Nulls inside arrays are replaced wholesale, so they are fine
+        expect(createMergePatch({ a: 1 }, { a: [null] })).toEqual({
+            a: [null],
+        });
+    });
+
+    test("Row diffs send changed columns and a patch for metadata__jsonb", () => {
+        const delta = diffMetadataRow(
+            {
+                metadata__key: "state",
+                metadata__jsonb: { open: false, locked: true },
+                general__updated_at: "2024-01-01",
+            },
+            {
+                metadata__key: "state",
+                metadata__jsonb: { open: true, locked: true },
+                general__updated_at: "2024-01-02",
+            },
+        );
+        expect(delta).toEqual({
+            changes: { general__updated_at: "2024-01-02" },
+            jsonbPatch: { open: true },
+        });
+    });
+
+    test("metadata__jsonb falls back to a column change when a patch cannot express it", () => {
+        expect(
+            diffMetadataRow(
+                { metadata__jsonb: { a: 1 } },
+                { metadata__jsonb: { a: null } },
+            ),
+        ).toEqual({ changes: { metadata__jsonb: { a: null } } });
+
+        // A value appearing for the first time has nothing to patch
+        expect(
+            diffMetadataRow(
+                { metadata__jsonb: null, metadata__text: "x" },
+                { metadata__jsonb: { a: 1 }, metadata__text: null },
+            ),
+        ).toEqual({
+            changes: { metadata__jsonb: { a: 1 }, metadata__text: null },
+        });
+    });
+
+    test("Unchanged rows give an empty delta", () => {
+        const row = { metadata__key: "k", metadata__jsonb: { a: [1] } };
+        expect(diffMetadataRow(row, structuredClone(row))).toEqual({
+            changes: {},
+        });
+        // Missing and null columns are the same
+        expect(diffMetadataRow({ metadata__int: null }, {})).toEqual({
+            changes: {},
+        });
+    });
+});
@@ -0,0 +1,197 @@
+import { describe, expect, test } from "bun:test";
+import {
+    deriveFanoutSecret,
+    type FanoutEnvelope,
+    LocalFanoutBus,
+    PostgresFanoutBus,
+    signFanoutPayload,
+    verifyFanoutPayload,
+    WS_FANOUT_CHANNEL,
+} from "../../server/service/api_ws/volume/app/service/fanout";
+import { WsProtocol } from "../../server/service/api_ws/volume/app/service/protocol";
+
+const SECRET = deriveFanoutSecret("super-user-password");
+
+const disconnect: FanoutEnvelope = {
+    origin: "instance-1",
+    event: { type: "admin_disconnect", agentId: "agent", reason: "bye" },
+};
+
+// Stands in for the LISTEN/NOTIFY side of a postgres.js client; any role may NOTIFY on it
+function fakeNotifySql() {
+    const listeners: Array<(payload: string) => void> = [];
+    const sql = {
+        listen: async (
+            _channel: string,
+            listener: (payload: string) => void,
+        ) => {
+            listeners.push(listener);
+            return { unlisten: async () => {} };
+        },
+        notify: async (_channel: string, payload: string) => {
+            for (const listener of listeners) {
+                listener(payload);
+            }
+        },
+    };
+    return sql as unknown as ConstructorParameters<typeof PostgresFanoutBus>[0];
+}
+
+describe("Fanout bus", () => {
+    test("Signed envelopes verify and come back unchanged", () => {
+        const payload = signFanoutPayload(SECRET, disconnect);
+        expect(verifyFanoutPayload(SECRET, payload)).toEqual({
+            success: true,
+            envelope: disconnect,
+        });
+    });
+
+    test("Unsigned, forged and re-signed payloads are rejected", () => {
+        const body = JSON.stringify(disconnect);
+        expect(verifyFanoutPayload(SECRET, body).success).toBe(false);
+        expect(verifyFanoutPayload(SECRET, `deadbeef.${body}`).success).toBe(
+            false,
+        );
+        expect(
+            verifyFanoutPayload(
+                SECRET,
+                signFanoutPayload(deriveFanoutSecret("guess"), disconnect),
+            ).success,
+        ).toBe(false);
+
+        // Tampering with a signed body breaks its signature
+        const signed = signFanoutPayload(SECRET, disconnect);
+        expect(
+            verifyFanoutPayload(SECRET, signed.replace("agent", "other"))
+                .success,
+        ).toBe(false);
+    });
+
+    test("Signed envelopes must still match an event shape", () => {
+        const invalid = [
+            { origin: "instance-1", event: { type: "drop_database" } },
+            { origin: "instance-1", event: { type: "admin_disconnect" } },
+            {
+                origin: "instance-1",
+                event: {
+                    type: "admin_announce",
+                    syncGroup: "public.NORMAL",
+                    message: "hi",
+                    level: "shout",
+                },
+            },
+            { origin: "", event: { type: "instance_heartbeat" } },
+        ] as unknown as FanoutEnvelope[];
+        for (const envelope of invalid) {
+            expect(
+                verifyFanoutPayload(SECRET, signFanoutPayload(SECRET, envelope))
+                    .success,
+            ).toBe(false);
+        }
+    });
+
+    test("Admin session list parts must carry valid sessions", () => {
+        const part = {
+            origin: "instance-2",
+            event: {
+                type: "admin_sessions",
+                requestId: "request",
+                to: "instance-1",
+                sessions: [
+                    {
+                        sessionId: "session",
+                        connectionId: "connection",
+                        instanceId: "instance-2",
+                        agentId: "agent",
+                        username: null,
+                        isAdmin: false,
+                        isAnon: true,
+                        connectedAt: 1,
+                        syncGroups: ["public.NORMAL"],
+                    },
+                ],
+                done: true,
+            },
+        } as FanoutEnvelope;
+        expect(
+            verifyFanoutPayload(SECRET, signFanoutPayload(SECRET, part)),
+        ).toEqual({ success: true, envelope: part });
+
+        const missingFields = structuredClone(part) as unknown as {
+            event: { sessions: Array<Record<string, unknown>> };
+        };
+        delete missingFields.event.sessions[0].instanceId;
+        expect(
+            verifyFanoutPayload(
+                SECRET,
+                signFanoutPayload(
+                    SECRET,
+                    missingFields as unknown as FanoutEnvelope,
+                ),
+            ).success,
+        ).toBe(false);
+    });
+
+    test("The Postgres bus only hands on events signed by a manager", async () => {
+        const sql = fakeNotifySql();
+        const received: FanoutEnvelope[] = [];
+        const rejected: string[] = [];
+        const bus = new PostgresFanoutBus(sql, SECRET);
+        await bus.start(
+            (envelope) => received.push(envelope),
+            (reason) => rejected.push(reason),
+        );
+
+        expect(await bus.publish(disconnect)).toBe(true);
+        // What an agent could send with SELECT pg_notify('ws_fanout', ...)
+        await sql.notify(WS_FANOUT_CHANNEL, JSON.stringify(disconnect));
+
+        expect(received).toEqual([disconnect]);
+        expect(rejected).toEqual(["unsigned"]);
+    });
+
+    test("The Postgres bus refuses to start without a secret", () => {
+        expect(() => new PostgresFanoutBus(fakeNotifySql(), "")).toThrow();
+    });
+
+    test("Oversized events are not sent", async () => {
+        const bus = new PostgresFanoutBus(fakeNotifySql(), SECRET);
+        expect(
+            await bus.publish({
+                origin: "instance-1",
+                event: {
+                    type: "admin_announce",
+                    syncGroup: "public.NORMAL",
+                    message: "x".repeat(8000),
+                    level: WsProtocol.AnnouncementLevel.INFO,
+                },
+            }),
+        ).toBe(false);
+    });
+
+    test("The local bus validates events and copies them per receiver", async () => {
+        const first = new LocalFanoutBus();
+        const second = new LocalFanoutBus();
+        const received: FanoutEnvelope[] = [];
+        const rejected: string[] = [];
+        await first.start(() => {});
+        await second.start(
+            (envelope) => received.push(envelope),
+            (reason) => rejected.push(reason),
+        );
+
+        await first.publish(disconnect);
+        await first.publish({
+            origin: "instance-1",
+            event: { type: "unknown" },
+        } as unknown as FanoutEnvelope);
+        await Promise.resolve();
+
+        expect(received).toEqual([disconnect]);
+        expect(received[0]).not.toBe(disconnect);
+        expect(rejected).toHaveLength(1);
+
+        await first.stop();
+        await second.stop();
+    });
+});
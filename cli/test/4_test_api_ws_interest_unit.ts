@@ -0,0 +1,88 @@
+import { describe, expect, test } from "bun:test";
+import {
+    InterestGrid,
+    parseInterestPosition,
+    type Vec3,
+} from "../../server/service/api_ws/volume/app/service/interest";
+
+// Reference answer: every item within `radius` of `position`
+function bruteForceWithin(
+    items: Array<{ id: number; position: Vec3 }>,
+    position: Vec3,
+    radius: number,
+): number[] {
+    return items
+        .filter(
+            ({ position: p }) =>
+                (p.x - position.x) ** 2 +
+                    (p.y - position.y) ** 2 +
+                    (p.z - position.z) ** 2 <=
+                radius * radius,
+        )
+        .map(({ id }) => id);
+}
+
+describe("Interest filtering", () => {
+    test("Positions need finite numeric x, y and z", () => {
+        expect(
+            parseInterestPosition({ x: 1, y: -2, z: 0.5, extra: "ok" }),
+        ).toEqual({ x: 1, y: -2, z: 0.5 });
+        expect(parseInterestPosition({ x: 1, y: 2 })).toBe(null);
+        expect(parseInterestPosition({ x: "1", y: 2, z: 3 })).toBe(null);
+        expect(parseInterestPosition({ x: Number.NaN, y: 2, z: 3 })).toBe(null);
+        expect(
+            parseInterestPosition({ x: Number.POSITIVE_INFINITY, y: 2, z: 3 }),
+        ).toBe(null);
+        expect(parseInterestPosition(null)).toBe(null);
+        expect(parseInterestPosition([1, 2, 3])).toBe(null);
+    });
+
+    test("Items on the radius are included and beyond it excluded", () => {
+        const grid = new InterestGrid<string>({ radius: 10, cellSize: 5 });
+        grid.add("origin", { x: 0, y: 0, z: 0 });
+        grid.add("edge", { x: 10, y: 0, z: 0 });
+        grid.add("outside", { x: 10, y: 0.1, z: 0 });
+        grid.add("negative", { x: -5, y: -5, z: -5 });
+
+        expect(grid.within({ x: 0, y: 0, z: 0 }).sort()).toEqual([
+            "edge",
+            "negative",
+            "origin",
+        ]);
+    });
+
+    test("Both lookup strategies agree with a brute-force scan", () => {
+        // A fixed pseudo-random layout keeps the test deterministic
+        let seed = 42;
+        const random = () => {
+            seed = (seed * 1103515245 + 12345) % 2 ** 31;
+            return seed / 2 ** 31;
+        };
+        const items = Array.from({ length: 300 }, (_, id) => ({
+            id,
+            position: {
+                x: random() * 200 - 100,
+                y: random() * 20,
+                z: random() * 200 - 100,
+            },
+        }));
+
+        // A large cell size walks the neighbourhood; a tiny one scans the occupied cells
+        for (const cellSize of [25, 0.5]) {
+            const grid = new InterestGrid<number>({ radius: 30, cellSize });
+            for (const { id, position } of items) {
+                grid.add(id, position);
+            }
+            for (const query of items.slice(0, 20)) {
+                expect(
+                    grid.within(query.position).sort((a, b) => a - b),
+                ).toEqual(bruteForceWithin(items, query.position, 30));
+            }
+        }
+    });
+
+    test("An empty grid finds nothing", () => {
+        const grid = new InterestGrid<string>({ radius: 10, cellSize: 5 });
+        expect(grid.within({ x: 0, y: 0, z: 0 })).toEqual([]);
+    });
+});
@@ -0,0 +1,1945 @@
+import {
+    afterAll,
+    afterEach,
+    beforeAll,
+    describe,
+    expect,
+    test,
+} from "bun:test";
+import { connect as connectTcp, type Socket } from "node:net";
+import type { SQL } from "bun";
+import { BunLogModule } from "../../sdk/vircadia-world-sdk-ts/bun/src/module/vircadia.common.bun.log.module";
+import { BunPostgresClientModule } from "../../sdk/vircadia-world-sdk-ts/bun/src/module/vircadia.common.bun.postgres.module";
+import { Communication } from "../../sdk/vircadia-world-sdk-ts/schema/src/vircadia.schema.general";
+import { WsProtocol } from "../../server/service/api_ws/volume/app/service/protocol";
+import { E_RateLimit } from "../../server/service/api_ws/volume/app/service/ratelimit";
+import { cliConfiguration } from "../vircadia.cli.config";
+import {
+    ANON_AUTH_PROVIDER_NAME,
+    cleanupTestAccounts,
+    cleanupTestEntities,
+    cleanupTestSyncGroups,
+    connectTestWsClient,
+    DB_TEST_PREFIX,
+    eventually,
+    getWsManagerUrl,
+    initTestAccounts,
+    runCliCommand,
+    SYSTEM_AUTH_PROVIDER_NAME,
+    TEST_SYNC_GROUP,
+    type TestAccount,
+    type TestWsClient,
+    type TestWsMessage,
+} from "./helper/helpers";
+
+// Readable and writable by admins only
+const PRIVATE_SYNC_GROUP = `${DB_TEST_PREFIX}private`;
+
+let superUserSql: SQL;
+let adminAgent: TestAccount;
+let regularAgent: TestAccount;
+let anonAgent: TestAccount;
+
+// Sockets opened by the current test, closed after it
+const openClients: TestWsClient[] = [];
+
+// Connects and waits until the manager has loaded the agent's sync group access, which it does
+// in the background after the upgrade
+async function connect(
+    account: TestAccount,
+    options: { connectionId?: string } = {},
+): Promise<TestWsClient> {
+    const client = await connectTestWsClient({
+        account,
+        provider: account === anonAgent ? ANON_AUTH_PROVIDER_NAME : undefined,
+        connectionId: options.connectionId,
+    });
+    openClients.push(client);
+    await eventually(async () => {
+        const list = await client.request({
+            type: WsProtocol.MessageType.SUBSCRIPTIONS_LIST_REQUEST,
+        });
+        expect(list.topics).toContain(`reflect:${TEST_SYNC_GROUP}:*`);
+    });
+    return client;
+}
+
+async function fetchWsStats(params: Record<string, string> = {}) {
+    const url = new URL(
+        Communication.REST.Endpoint.WS_STATS.path,
+        getWsManagerUrl("http"),
+    );
+    for (const [key, value] of Object.entries(params)) {
+        url.searchParams.set(key, value);
+    }
+    const response = await fetch(url);
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.success).toBe(true);
+    return body.data;
+}
+
+// Leaves the agent one request of each given kind, refilled every 10 s, or one query at a time,
+// and lifts its other limits, until the returned function restores the defaults
+async function limitAgent(
+    agentId: string,
+    limits: {
+        queries?: boolean;
+        reflectMessages?: boolean;
+        concurrentQueries?: boolean;
+    },
+): Promise<() => Promise<void>> {
+    await superUserSql`
+        INSERT INTO config.rate_limit_config (
+            rate_limit_config__scope,
+            rate_limit_config__target,
+            rate_limit_config__queries_per_sec,
+            rate_limit_config__reflect_messages_per_sec,
+            rate_limit_config__max_concurrent_queries,
+            rate_limit_config__burst_seconds
+        ) VALUES (
+            'agent',
+            ${agentId},
+            ${limits.queries ? 0.1 : null},
+            ${limits.reflectMessages ? 0.1 : null},
+            ${limits.concurrentQueries ? 1 : null},
+            10
+        )
+    `;
+    // Managers reload their limits on the change notification
+    await Bun.sleep(500);
+    return async () => {
+        await superUserSql`
+            DELETE FROM config.rate_limit_config
+            WHERE rate_limit_config__scope = 'agent'
+              AND rate_limit_config__target = ${agentId}
+        `;
+        await Bun.sleep(500);
+    };
+}
+
+describe("WS Manager Integration", () => {
+    beforeAll(async () => {
+        await runCliCommand("server:run-command", "up", "-d");
+        await Bun.sleep(1000);
+
+        superUserSql = await BunPostgresClientModule.getInstance({
+            debug: cliConfiguration.VRCA_CLI_DEBUG,
+            suppress: cliConfiguration.VRCA_CLI_SUPPRESS,
+        }).getSuperClient({
+            postgres: {
+                host: cliConfiguration.VRCA_CLI_SERVICE_POSTGRES_HOST,
+                port: cliConfiguration.VRCA_CLI_SERVICE_POSTGRES_PORT,
+                database: cliConfiguration.VRCA_CLI_SERVICE_POSTGRES_DATABASE,
+                username:
+                    cliConfiguration.VRCA_CLI_SERVICE_POSTGRES_SUPER_USER_USERNAME,
+                password:
+                    cliConfiguration.VRCA_CLI_SERVICE_POSTGRES_SUPER_USER_PASSWORD,
+            },
+        });
+
+        await cleanupTestEntities({ superUserSql });
+        await cleanupTestSyncGroups({ superUserSql });
+        await cleanupTestAccounts({ superUserSql });
+
+        await superUserSql`
+            INSERT INTO auth.sync_groups (
+                general__sync_group,
+                general__description,
+                server__tick__rate_ms,
+                server__tick__max_tick_count_buffer
+            ) VALUES (
+                ${PRIVATE_SYNC_GROUP},
+                'WS manager test group without agent roles',
+                50,
+                10
+            )
+        `;
+
+        ({ adminAgent, regularAgent, anonAgent } = await initTestAccounts({
+            superUserSql,
+        }));
+
+        BunLogModule({
+            message: "WS manager test setup complete",
+            type: "debug",
+            suppress: cliConfiguration.VRCA_CLI_SUPPRESS,
+            debug: cliConfiguration.VRCA_CLI_DEBUG,
+        });
+    });
+
+    afterEach(async () => {
+        await Promise.all(
+            openClients.splice(0).map((client) => client.close()),
+        );
+    });
+
+    describe("Session heartbeat", () => {
+        test("closes every connection of a session that was deactivated", async () => {
+            const regularFirst = await connect(regularAgent);
+            const regularSecond = await connect(regularAgent);
+            const admin = await connect(adminAgent);
+            const statsBefore = await fetchWsStats();
+
+            await superUserSql`
+                UPDATE auth.agent_sessions
+                SET session__is_active = false
+                WHERE general__session_id = ${regularAgent.sessionId}::UUID
+            `;
+            try {
+                expect(await regularFirst.closed).toEqual({
+                    code: 1000,
+                    reason: "Session expired",
+                });
+                expect(await regularSecond.closed).toEqual({
+                    code: 1000,
+                    reason: "Session expired",
+                });
+
+                // Sessions that are still valid keep their sockets
+                const clockSync = await admin.request({
+                    type: WsProtocol.MessageType.CLOCK_SYNC_REQUEST,
+                    clientTime: Date.now(),
+                });
+                expect(clockSync.errorMessage).toBeNull();
+
+                const statsAfter = await fetchWsStats();
+                expect(statsAfter.heartbeat.sessionsClosed).toBeGreaterThan(
+                    statsBefore.heartbeat.sessionsClosed,
+                );
+            } finally {
+                await superUserSql`
+                    UPDATE auth.agent_sessions
+                    SET session__is_active = true
+                    WHERE general__session_id = ${regularAgent.sessionId}::UUID
+                `;
+            }
+        });
+
+        test("closes the connections of an expired session", async () => {
+            const anon = await connect(anonAgent);
+            const [{ session__expires_at: expiresAt }] = await superUserSql<
+                [{ session__expires_at: Date }]
+            >`
+                SELECT session__expires_at
+                FROM auth.agent_sessions
+                WHERE general__session_id = ${anonAgent.sessionId}::UUID
+            `;
+
+            await superUserSql`
+                UPDATE auth.agent_sessions
+                SET session__expires_at = NOW() - INTERVAL '1 second'
+                WHERE general__session_id = ${anonAgent.sessionId}::UUID
+            `;
+            try {
+                expect(await anon.closed).toEqual({
+                    code: 1000,
+                    reason: "Session expired",
+                });
+            } finally {
+                await superUserSql`
+                    UPDATE auth.agent_sessions
+                    SET session__expires_at = ${expiresAt}
+                    WHERE general__session_id = ${anonAgent.sessionId}::UUID
+                `;
+            }
+        });
+
+        test("validates all sessions with one query per heartbeat and reports its cost", async () => {
+            await connect(adminAgent);
+            await connect(regularAgent);
+            await connect(anonAgent);
+            // Let at least two heartbeats see all three sessions
+            await Bun.sleep(1200);
+
+            const { heartbeat } = await fetchWsStats();
+            expect(heartbeat.intervalMs).toBe(500);
+            expect(heartbeat.totalRuns).toBeGreaterThan(0);
+            expect(heartbeat.sessionsChecked.last).toBeGreaterThanOrEqual(3);
+            expect(heartbeat.queries.last).toBe(1);
+            expect(heartbeat.durationMs.lastMs).toBeGreaterThanOrEqual(0);
+        });
+    });
+
+    describe("Sync group tick loops", () => {
+        const RELOAD_SYNC_GROUP = `${DB_TEST_PREFIX}reload`;
+
+        const ticksOf =
+            (syncGroup: string, tickRateMs?: number) =>
+            (message: TestWsMessage) =>
+                message.type === WsProtocol.MessageType.TICK_DELIVERY &&
+                message.syncGroup === syncGroup &&
+                (tickRateMs === undefined || message.tickRateMs === tickRateMs);
+
+        test("starts, re-times and stops a loop as auth.sync_groups changes", async () => {
+            await superUserSql`
+                INSERT INTO auth.sync_groups (
+                    general__sync_group,
+                    general__description,
+                    server__tick__rate_ms,
+                    server__tick__max_tick_count_buffer
+                ) VALUES (
+                    ${RELOAD_SYNC_GROUP},
+                    'WS manager tick reload test group',
+                    100,
+                    10
+                )
+            `;
+            const admin = await connect(adminAgent);
+
+            // Inserting the row is enough to start ticking
+            const subscribed = await eventually(async () => {
+                const response = await admin.request({
+                    type: WsProtocol.MessageType.TICK_SUBSCRIBE_REQUEST,
+                    syncGroup: RELOAD_SYNC_GROUP,
+                });
+                expect(response.errorMessage).toBeNull();
+                return response;
+            });
+            expect(subscribed.tickRateMs).toBe(100);
+            await admin.waitFor(ticksOf(RELOAD_SYNC_GROUP, 100));
+
+            // A new rate re-times the running loop
+            await superUserSql`
+                UPDATE auth.sync_groups
+                SET server__tick__rate_ms = 40
+                WHERE general__sync_group = ${RELOAD_SYNC_GROUP}
+            `;
+            await admin.waitFor(ticksOf(RELOAD_SYNC_GROUP, 40));
+
+            // Disabling reflect ticks stops it
+            await superUserSql`
+                UPDATE auth.sync_groups
+                SET server__tick__reflect__enabled = false
+                WHERE general__sync_group = ${RELOAD_SYNC_GROUP}
+            `;
+            await eventually(async () => {
+                const response = await admin.request({
+                    type: WsProtocol.MessageType.TICK_SUBSCRIBE_REQUEST,
+                    syncGroup: RELOAD_SYNC_GROUP,
+                });
+                expect(response.errorMessage).toBe(
+                    `Sync group does not tick: ${RELOAD_SYNC_GROUP}`,
+                );
+            });
+            const ticksWhenStopped = admin.messages.filter(
+                ticksOf(RELOAD_SYNC_GROUP),
+            ).length;
+            await Bun.sleep(200);
+            expect(
+                admin.messages.filter(ticksOf(RELOAD_SYNC_GROUP)).length,
+            ).toBe(ticksWhenStopped);
+
+            await superUserSql`
+                DELETE FROM auth.sync_groups
+                WHERE general__sync_group = ${RELOAD_SYNC_GROUP}
+            `;
+        });
+    });
+
+    describe("Entity channel subscribe snapshot", () => {
+        const ENTITY_NAME = `${DB_TEST_PREFIX}snapshot`;
+        const PRIVATE_ENTITY_NAME = `${DB_TEST_PREFIX}snapshot_private`;
+
+        beforeAll(async () => {
+            await superUserSql`
+                INSERT INTO entity.entities (general__entity_name, group__sync)
+                VALUES
+                    (${ENTITY_NAME}, ${TEST_SYNC_GROUP}),
+                    (${PRIVATE_ENTITY_NAME}, ${PRIVATE_SYNC_GROUP})
+            `;
+            await superUserSql`
+                INSERT INTO entity.entity_metadata (
+                    general__entity_name,
+                    metadata__key,
+                    metadata__jsonb
+                ) VALUES (
+                    ${ENTITY_NAME},
+                    'color',
+                    ${JSON.stringify({ r: 1, g: 0, b: 0 })}::JSONB
+                )
+            `;
+        });
+
+        const subscribe = (
+            client: TestWsClient,
+            entityName: string,
+            snapshot: unknown,
+        ) =>
+            client.request({
+                type: Communication.WebSocket.MessageType
+                    .ENTITY_CHANNEL_SUBSCRIBE_REQUEST,
+                entityName,
+                snapshot,
+            });
+
+        test("returns the entity and its metadata with the subscription", async () => {
+            const regular = await connect(regularAgent);
+            const response = await subscribe(regular, ENTITY_NAME, true);
+
+            expect(response.errorMessage).toBeNull();
+            expect(response.subscribed).toBe(true);
+            const snapshot = WsProtocol.Z.EntityChannelSnapshot.parse(
+                response.snapshot,
+            );
+            expect(snapshot.entity?.general__entity_name).toBe(ENTITY_NAME);
+            expect(snapshot.metadata).toHaveLength(1);
+            expect(snapshot.metadata[0].metadataKey).toBe("color");
+            expect(snapshot.metadata[0].data.metadata__jsonb).toEqual({
+                r: 1,
+                g: 0,
+                b: 0,
+            });
+
+            // Changes after the snapshot arrive with a higher seq
+            await superUserSql`
+                UPDATE entity.entity_metadata
+                SET metadata__jsonb = ${JSON.stringify({ r: 0, g: 1, b: 0 })}::JSONB
+                WHERE general__entity_name = ${ENTITY_NAME}
+                  AND metadata__key = 'color'
+            `;
+            const delivery = await regular.waitFor(
+                (message) =>
+                    message.type ===
+                        Communication.WebSocket.MessageType
+                            .ENTITY_METADATA_DELIVERY &&
+                    message.entityName === ENTITY_NAME,
+            );
+            expect(delivery.seq as number).toBeGreaterThan(snapshot.seq);
+        });
+
+        test("leaves the snapshot out unless it is asked for", async () => {
+            const regular = await connect(regularAgent);
+            const response = await subscribe(regular, ENTITY_NAME, undefined);
+            expect(response.subscribed).toBe(true);
+            expect(response.snapshot).toBeUndefined();
+        });
+
+        test("rejects a snapshot flag that is not a boolean", async () => {
+            const regular = await connect(regularAgent);
+            const response = await subscribe(regular, ENTITY_NAME, "yes");
+            expect(response.subscribed).toBe(false);
+            expect(response.errorMessage).toBe("snapshot must be a boolean");
+        });
+
+        test("gives no snapshot of an entity in a sync group the agent cannot read", async () => {
+            const regular = await connect(regularAgent);
+            const response = await subscribe(
+                regular,
+                PRIVATE_ENTITY_NAME,
+                true,
+            );
+            expect(response.subscribed).toBe(false);
+            expect(response.errorMessage).toBe(
+                `Not authorized to read sync group: ${PRIVATE_SYNC_GROUP}`,
+            );
+            expect(response.snapshot).toBeUndefined();
+
+            const list = await regular.request({
+                type: WsProtocol.MessageType.SUBSCRIPTIONS_LIST_REQUEST,
+            });
+            expect(
+                (list.topics as string[]).some((topic) =>
+                    topic.includes(PRIVATE_ENTITY_NAME),
+                ),
+            ).toBe(false);
+        });
+
+        test("answers a rate limited subscribe with RATE_LIMIT_EXCEEDED_RESPONSE", async () => {
+            const regular = await connect(regularAgent);
+            const restoreLimits = await limitAgent(regularAgent.id, {
+                queries: true,
+            });
+            try {
+                const first = await subscribe(regular, ENTITY_NAME, true);
+                expect(first.subscribed).toBe(true);
+
+                const second = await subscribe(regular, ENTITY_NAME, true);
+                expect(second.type).toBe(
+                    WsProtocol.MessageType.RATE_LIMIT_EXCEEDED_RESPONSE,
+                );
+                expect(second.requestType).toBe(
+                    Communication.WebSocket.MessageType
+                        .ENTITY_CHANNEL_SUBSCRIBE_REQUEST,
+                );
+                expect(second.retryAfterMs).toBeGreaterThan(0);
+            } finally {
+                await restoreLimits();
+            }
+        });
+    });
+
+    describe("Subscription introspection", () => {
+        const ENTITY_NAME = `${DB_TEST_PREFIX}subscriptions`;
+        const entityTopic = `entity:${TEST_SYNC_GROUP}:${ENTITY_NAME}:*`;
+        const tickTopic = `tick:${TEST_SYNC_GROUP}`;
+
+        beforeAll(async () => {
+            await superUserSql`
+                INSERT INTO entity.entities (general__entity_name, group__sync)
+                VALUES (${ENTITY_NAME}, ${TEST_SYNC_GROUP})
+            `;
+        });
+
+        const subscribeAll = async (client: TestWsClient) => {
+            const entity = await client.request({
+                type: Communication.WebSocket.MessageType
+                    .ENTITY_CHANNEL_SUBSCRIBE_REQUEST,
+                entityName: ENTITY_NAME,
+            });
+            expect(entity.subscribed).toBe(true);
+            const ticks = await client.request({
+                type: WsProtocol.MessageType.TICK_SUBSCRIBE_REQUEST,
+                syncGroup: TEST_SYNC_GROUP,
+            });
+            expect(ticks.subscribed).toBe(true);
+        };
+
+        const listTopics = async (client: TestWsClient) => {
+            const list = await client.request({
+                type: WsProtocol.MessageType.SUBSCRIPTIONS_LIST_REQUEST,
+            });
+            expect(list.errorMessage).toBeNull();
+            expect(list.entityQueries).toEqual([]);
+            return list.topics as string[];
+        };
+
+        test("lists the topics of the asking connection only", async () => {
+            const regular = await connect(regularAgent);
+            const regularOther = await connect(regularAgent);
+            await subscribeAll(regular);
+
+            const topics = await listTopics(regular);
+            expect(topics).toContain(entityTopic);
+            expect(topics).toContain(tickTopic);
+            expect(topics).toContain(`reflect:${TEST_SYNC_GROUP}:*`);
+
+            // The same session's other connection keeps its own subscriptions
+            const otherTopics = await listTopics(regularOther);
+            expect(otherTopics).not.toContain(entityTopic);
+            expect(otherTopics).not.toContain(tickTopic);
+        });
+
+        test("drops all but the reflect topics on UNSUBSCRIBE_ALL", async () => {
+            const regular = await connect(regularAgent);
+            const regularOther = await connect(regularAgent);
+            await subscribeAll(regular);
+            await subscribeAll(regularOther);
+
+            const response = await regular.request({
+                type: WsProtocol.MessageType.UNSUBSCRIBE_ALL_REQUEST,
+            });
+            expect(response.errorMessage).toBeNull();
+            // The entity, its metadata and the tick topic
+            expect(response.topics).toBeGreaterThanOrEqual(3);
+            expect(response.entityQueries).toBe(0);
+
+            const topics = await listTopics(regular);
+            expect(topics.length).toBeGreaterThan(0);
+            for (const topic of topics) {
+                expect(topic.startsWith("reflect:")).toBe(true);
+            }
+
+            // Ticks stop for this connection, not for the other
+            const isTick = (message: TestWsMessage) =>
+                message.type === WsProtocol.MessageType.TICK_DELIVERY;
+            const ticksBefore = regular.messages.filter(isTick).length;
+            const otherTicksBefore =
+                regularOther.messages.filter(isTick).length;
+            await Bun.sleep(200);
+            expect(regular.messages.filter(isTick).length).toBe(ticksBefore);
+            expect(regularOther.messages.filter(isTick).length).toBeGreaterThan(
+                otherTicksBefore,
+            );
+            expect(await listTopics(regularOther)).toContain(entityTopic);
+        });
+
+        test("reports subscribers per topic in WS_STATS", async () => {
+            await subscribeAll(await connect(regularAgent));
+            await subscribeAll(await connect(anonAgent));
+
+            const { subscriptions } = await fetchWsStats({
+                topicLimit: "1000",
+            });
+            expect(subscriptions.byTopic[entityTopic]).toBeGreaterThanOrEqual(
+                2,
+            );
+            expect(subscriptions.topics).toBeGreaterThan(0);
+            expect(subscriptions.total).toBeGreaterThanOrEqual(
+                subscriptions.topics,
+            );
+
+            const limited = await fetchWsStats({ topicLimit: "1" });
+            expect(
+                Object.keys(limited.subscriptions.byTopic).length,
+            ).toBeLessThanOrEqual(1);
+        });
+    });
+
+    describe("Session connections", () => {
+        // Requests the upgrade endpoint without upgrading, which is enough to see the
+        // checks that run before the upgrade
+        const fetchUpgrade = (params: Record<string, string>) => {
+            const url = new URL(
+                Communication.REST.Endpoint.WS_UPGRADE_REQUEST.path,
+                getWsManagerUrl("http"),
+            );
+            for (const [key, value] of Object.entries(params)) {
+                url.searchParams.set(key, value);
+            }
+            return fetch(url);
+        };
+
+        const expectAlive = async (client: TestWsClient) => {
+            const clockSync = await client.request({
+                type: WsProtocol.MessageType.CLOCK_SYNC_REQUEST,
+                clientTime: Date.now(),
+            });
+            expect(clockSync.errorMessage).toBeNull();
+        };
+
+        test("closes the oldest connection beyond the session limit", async () => {
+            const [{ max_connections }] = await superUserSql<
+                Array<{ max_connections: number }>
+            >`
+                SELECT auth_config__max_connections_per_session AS max_connections
+                FROM config.auth_config
+            `;
+            await superUserSql`
+                UPDATE config.auth_config
+                SET auth_config__max_connections_per_session = 2
+            `;
+            try {
+                // Managers reload the limit on the change notification
+                await Bun.sleep(500);
+                const oldest = await connect(regularAgent);
+                const middle = await connect(regularAgent);
+                const admin = await connect(adminAgent);
+                const newest = await connect(regularAgent);
+
+                expect(await oldest.closed).toEqual({
+                    code: 1000,
+                    reason: "Session connection limit reached",
+                });
+                await expectAlive(middle);
+                await expectAlive(newest);
+                // The limit is per session
+                await expectAlive(admin);
+            } finally {
+                await superUserSql`
+                    UPDATE config.auth_config
+                    SET auth_config__max_connections_per_session = ${max_connections}
+                `;
+                await Bun.sleep(500);
+            }
+        });
+
+        test("replaces the socket of a reconnecting connection id", async () => {
+            const connectionId = `test-${crypto.randomUUID()}`;
+            const previous = await connect(regularAgent, { connectionId });
+            const reconnected = await connect(regularAgent, { connectionId });
+
+            expect(await previous.closed).toEqual({
+                code: 1000,
+                reason: "Session reconnected",
+            });
+            expect(reconnected.connectionId).toBe(connectionId);
+            await expectAlive(reconnected);
+        });
+
+        test("rejects a connection id held by another session", async () => {
+            const connectionId = `test-${crypto.randomUUID()}`;
+            const admin = await connect(adminAgent, { connectionId });
+
+            const response = await fetchUpgrade({
+                token: regularAgent.token,
+                provider: SYSTEM_AUTH_PROVIDER_NAME,
+                connectionId,
+            });
+            expect(response.status).toBe(409);
+            expect(await response.text()).toBe(
+                "Connection belongs to another session",
+            );
+            await expectAlive(admin);
+        });
+
+        test("rejects malformed upgrade parameters", async () => {
+            const invalidConnectionId = await fetchUpgrade({
+                token: regularAgent.token,
+                provider: SYSTEM_AUTH_PROVIDER_NAME,
+                connectionId: "not a valid id",
+            });
+            expect(invalidConnectionId.status).toBe(400);
+            expect(await invalidConnectionId.text()).toBe(
+                "Invalid connectionId",
+            );
+
+            const unknownCodec = await fetchUpgrade({
+                token: regularAgent.token,
+                provider: SYSTEM_AUTH_PROVIDER_NAME,
+                codec: "xml",
+            });
+            expect(unknownCodec.status).toBe(400);
+
+            const missingToken = await fetchUpgrade({
+                provider: SYSTEM_AUTH_PROVIDER_NAME,
+            });
+            expect(missingToken.status).toBe(401);
+        });
+    });
+
+    describe("Targeted reflect", () => {
+        const CHANNEL = "test-targeted";
+
+        const publish = (
+            client: TestWsClient,
+            syncGroup: string,
+            payload: unknown,
+            targets: Record<string, unknown>,
+        ) =>
+            client.request({
+                type: Communication.WebSocket.MessageType
+                    .REFLECT_PUBLISH_REQUEST,
+                syncGroup,
+                channel: CHANNEL,
+                payload,
+                requestAcknowledgement: true,
+                ...targets,
+            });
+
+        const isDelivery = (marker: string) => (message: TestWsMessage) =>
+            message.type ===
+                Communication.WebSocket.MessageType.REFLECT_MESSAGE_DELIVERY &&
+            (message.payload as { marker?: string })?.marker === marker;
+
+        const deliveriesOf = (client: TestWsClient, marker: string) =>
+            client.messages.filter(isDelivery(marker));
+
+        test("delivers to the targeted connection only", async () => {
+            const regular = await connect(regularAgent);
+            const adminTarget = await connect(adminAgent);
+            const adminOther = await connect(adminAgent);
+            const anon = await connect(anonAgent);
+            const marker = crypto.randomUUID();
+
+            const ack = await publish(
+                regular,
+                TEST_SYNC_GROUP,
+                { marker },
+                {
+                    targetConnectionIds: [adminTarget.connectionId],
+                },
+            );
+            expect(ack.errorMessage).toBeNull();
+            expect(ack.delivered).toBe(1);
+
+            const delivery = await adminTarget.waitFor(isDelivery(marker));
+            expect(delivery.fromSessionId).toBe(regular.sessionId);
+            expect(delivery.fromConnectionId).toBe(regular.connectionId);
+
+            await Bun.sleep(200);
+            expect(deliveriesOf(adminOther, marker)).toHaveLength(0);
+            expect(deliveriesOf(anon, marker)).toHaveLength(0);
+            expect(deliveriesOf(regular, marker)).toHaveLength(0);
+        });
+
+        test("delivers to every connection of a targeted session", async () => {
+            const regular = await connect(regularAgent);
+            const adminFirst = await connect(adminAgent);
+            const adminSecond = await connect(adminAgent);
+            const anon = await connect(anonAgent);
+            const marker = crypto.randomUUID();
+
+            const ack = await publish(
+                regular,
+                TEST_SYNC_GROUP,
+                { marker },
+                {
+                    targetSessionIds: [adminAgent.sessionId],
+                },
+            );
+            expect(ack.errorMessage).toBeNull();
+            expect(ack.delivered).toBe(2);
+
+            await eventually(async () => {
+                expect(deliveriesOf(adminFirst, marker)).toHaveLength(1);
+                expect(deliveriesOf(adminSecond, marker)).toHaveLength(1);
+            });
+            expect(deliveriesOf(anon, marker)).toHaveLength(0);
+        });
+
+        test("rejects malformed targets", async () => {
+            const regular = await connect(regularAgent);
+
+            const ack = await publish(
+                regular,
+                TEST_SYNC_GROUP,
+                {},
+                {
+                    targetSessionIds: adminAgent.sessionId,
+                },
+            );
+            expect(ack.type).toBe(
+                Communication.WebSocket.MessageType.REFLECT_ACK_RESPONSE,
+            );
+            expect(ack.errorMessage).toBe("Invalid reflect targets");
+            expect(ack.delivered).toBe(0);
+        });
+
+        test("rejects a targeted publish to a sync group the sender cannot write", async () => {
+            const regular = await connect(regularAgent);
+            const admin = await connect(adminAgent);
+            const marker = crypto.randomUUID();
+
+            const ack = await publish(
+                regular,
+                PRIVATE_SYNC_GROUP,
+                { marker },
+                {
+                    targetConnectionIds: [admin.connectionId],
+                },
+            );
+            expect(ack.errorMessage).toBe(
+                "Not authorized (update or insert required)",
+            );
+            expect(ack.delivered).toBe(0);
+
+            await Bun.sleep(200);
+            expect(deliveriesOf(admin, marker)).toHaveLength(0);
+        });
+
+        test("applies the reflect rate limit to targeted publishes", async () => {
+            const regular = await connect(regularAgent);
+            const admin = await connect(adminAgent);
+            const restoreLimits = await limitAgent(regularAgent.id, {
+                reflectMessages: true,
+            });
+            try {
+                const targets = { targetConnectionIds: [admin.connectionId] };
+                const first = await publish(
+                    regular,
+                    TEST_SYNC_GROUP,
+                    { marker: crypto.randomUUID() },
+                    targets,
+                );
+                expect(first.errorMessage).toBeNull();
+
+                const second = await publish(
+                    regular,
+                    TEST_SYNC_GROUP,
+                    { marker: crypto.randomUUID() },
+                    targets,
+                );
+                expect(second.type).toBe(
+                    WsProtocol.MessageType.RATE_LIMIT_EXCEEDED_RESPONSE,
+                );
+                expect(second.requestType).toBe(
+                    Communication.WebSocket.MessageType.REFLECT_PUBLISH_REQUEST,
+                );
+                expect(second.retryAfterMs).toBeGreaterThan(0);
+            } finally {
+                await restoreLimits();
+            }
+        });
+    });
+
+    describe("Retained reflect channels", () => {
+        const RETAINED_SYNC_GROUP = `${DB_TEST_PREFIX}retained`;
+        const RETAINED_CHANNEL = "avatar";
+
+        beforeAll(async () => {
+            await superUserSql`
+                INSERT INTO auth.sync_groups (
+                    general__sync_group,
+                    general__description,
+                    server__tick__rate_ms,
+                    server__tick__max_tick_count_buffer,
+                    server__reflect__retained_channels
+                ) VALUES (
+                    ${RETAINED_SYNC_GROUP},
+                    'WS manager retained reflect test group',
+                    50,
+                    10,
+                    ARRAY[${RETAINED_CHANNEL}]::TEXT[]
+                )
+            `;
+            // Managers pick up the retained channels on the change notification
+            await Bun.sleep(500);
+        });
+
+        const publish = (
+            client: TestWsClient,
+            channel: string,
+            payload: unknown,
+            targets: Record<string, unknown> = {},
+        ) =>
+            client.request({
+                type: Communication.WebSocket.MessageType
+                    .REFLECT_PUBLISH_REQUEST,
+                syncGroup: RETAINED_SYNC_GROUP,
+                channel,
+                payload,
+                requestAcknowledgement: true,
+                ...targets,
+            });
+
+        const deliveriesFrom = (
+            client: TestWsClient,
+            publisher: TestWsClient,
+        ) =>
+            client.messages.filter(
+                (message) =>
+                    message.type ===
+                        Communication.WebSocket.MessageType
+                            .REFLECT_MESSAGE_DELIVERY &&
+                    message.syncGroup === RETAINED_SYNC_GROUP &&
+                    message.fromConnectionId === publisher.connectionId,
+            );
+
+        // Connects and waits until the socket receives the retained group. The manager sends the
+        // retained messages as it subscribes, so they arrive ahead of the listing.
+        const connectToGroup = async (account: TestAccount) => {
+            const client = await connect(account);
+            await eventually(async () => {
+                const list = await client.request({
+                    type: WsProtocol.MessageType.SUBSCRIPTIONS_LIST_REQUEST,
+                });
+                expect(list.topics).toContain(
+                    `reflect:${RETAINED_SYNC_GROUP}:*`,
+                );
+            });
+            return client;
+        };
+
+        test("hands a late joiner each publisher's last message on retained channels", async () => {
+            const publisher = await connectToGroup(adminAgent);
+            for (const payload of [{ frame: 1 }, { frame: 2 }]) {
+                const ack = await publish(publisher, RETAINED_CHANNEL, payload);
+                expect(ack.errorMessage).toBeNull();
+            }
+            const chatAck = await publish(publisher, "chat", { text: "hi" });
+            expect(chatAck.errorMessage).toBeNull();
+
+            const lateJoiner = await connectToGroup(adminAgent);
+            const deliveries = deliveriesFrom(lateJoiner, publisher);
+            expect(deliveries).toHaveLength(1);
+            expect(deliveries[0].channel).toBe(RETAINED_CHANNEL);
+            expect(deliveries[0].payload).toEqual({ frame: 2 });
+        });
+
+        test("does not retain targeted messages", async () => {
+            const publisher = await connectToGroup(adminAgent);
+            const target = await connectToGroup(adminAgent);
+            const ack = await publish(
+                publisher,
+                RETAINED_CHANNEL,
+                { frame: 1 },
+                { targetConnectionIds: [target.connectionId] },
+            );
+            expect(ack.delivered).toBe(1);
+
+            const lateJoiner = await connectToGroup(adminAgent);
+            expect(deliveriesFrom(lateJoiner, publisher)).toHaveLength(0);
+        });
+
+        test("expires a publisher's retained messages when it disconnects", async () => {
+            const publisher = await connectToGroup(adminAgent);
+            const ack = await publish(publisher, RETAINED_CHANNEL, {
+                frame: 1,
+            });
+            expect(ack.errorMessage).toBeNull();
+            await publisher.close();
+
+            const lateJoiner = await connectToGroup(adminAgent);
+            expect(deliveriesFrom(lateJoiner, publisher)).toHaveLength(0);
+        });
+
+        test("withholds retained messages from agents that cannot read the group", async () => {
+            const publisher = await connectToGroup(adminAgent);
+            const ack = await publish(publisher, RETAINED_CHANNEL, {
+                frame: 1,
+            });
+            expect(ack.errorMessage).toBeNull();
+
+            const regular = await connect(regularAgent);
+            await Bun.sleep(200);
+            expect(deliveriesFrom(regular, publisher)).toHaveLength(0);
+        });
+
+        test("retains only publishes that pass the reflect rate limit", async () => {
+            const publisher = await connectToGroup(adminAgent);
+            const restoreLimits = await limitAgent(adminAgent.id, {
+                reflectMessages: true,
+            });
+            try {
+                const accepted = await publish(publisher, RETAINED_CHANNEL, {
+                    frame: 1,
+                });
+                expect(accepted.errorMessage).toBeNull();
+                const limited = await publish(publisher, RETAINED_CHANNEL, {
+                    frame: 2,
+                });
+                expect(limited.type).toBe(
+                    WsProtocol.MessageType.RATE_LIMIT_EXCEEDED_RESPONSE,
+                );
+            } finally {
+                await restoreLimits();
+            }
+
+            const lateJoiner = await connectToGroup(adminAgent);
+            const deliveries = deliveriesFrom(lateJoiner, publisher);
+            expect(deliveries).toHaveLength(1);
+            expect(deliveries[0].payload).toEqual({ frame: 1 });
+        });
+    });
+
+    describe("Query statement timeouts and cancellation", () => {
+        const query = (client: TestWsClient, sql: string, requestId?: string) =>
+            client.request(
+                {
+                    type: Communication.WebSocket.MessageType.QUERY_REQUEST,
+                    query: sql,
+                    parameters: [],
+                    ...(requestId ? { requestId } : {}),
+                },
+                10000,
+            );
+
+        const cancel = (client: TestWsClient, targetRequestId: string) =>
+            client.request({
+                type: WsProtocol.MessageType.QUERY_CANCEL_REQUEST,
+                targetRequestId,
+            });
+
+        test("bounds each role's queries by its configured statement timeout", async () => {
+            const [timeouts] = await superUserSql<
+                Array<{ regular: number; admin: number }>
+            >`
+                SELECT auth_config__query_statement_timeout_regular_ms AS regular,
+                       auth_config__query_statement_timeout_admin_ms AS admin
+                FROM config.auth_config
+            `;
+            await superUserSql`
+                UPDATE config.auth_config
+                SET auth_config__query_statement_timeout_regular_ms = 200,
+                    auth_config__query_statement_timeout_admin_ms = 5000
+            `;
+            try {
+                // Managers reload the timeouts on the change notification
+                await Bun.sleep(500);
+                const regular = await connect(regularAgent);
+                const admin = await connect(adminAgent);
+
+                const timedOut = await query(regular, "SELECT pg_sleep(1)");
+                expect(timedOut.errorMessage).toContain("statement timeout");
+
+                const completed = await query(admin, "SELECT pg_sleep(1)");
+                expect(completed.errorMessage).toBeNull();
+            } finally {
+                await superUserSql`
+                    UPDATE config.auth_config
+                    SET auth_config__query_statement_timeout_regular_ms = ${timeouts.regular},
+                        auth_config__query_statement_timeout_admin_ms = ${timeouts.admin}
+                `;
+                await Bun.sleep(500);
+            }
+        });
+
+        test("cancels an in-flight query of the same connection", async () => {
+            const regular = await connect(regularAgent);
+            const requestId = crypto.randomUUID();
+            const running = query(regular, "SELECT pg_sleep(5)", requestId);
+            await Bun.sleep(300);
+
+            const response = await cancel(regular, requestId);
+            expect(response.errorMessage).toBeNull();
+            expect(response.targetRequestId).toBe(requestId);
+            expect(response.cancelled).toBe(true);
+            expect((await running).errorMessage).toBe("Query cancelled");
+
+            // Finished requests cannot be cancelled again
+            expect((await cancel(regular, requestId)).cancelled).toBe(false);
+        });
+
+        test("ignores cancels for queries of other connections", async () => {
+            const regular = await connect(regularAgent);
+            const regularOther = await connect(regularAgent);
+            const requestId = crypto.randomUUID();
+            const running = query(regular, "SELECT pg_sleep(1)", requestId);
+            await Bun.sleep(300);
+
+            const response = await cancel(regularOther, requestId);
+            expect(response.cancelled).toBe(false);
+            expect((await running).errorMessage).toBeNull();
+        });
+
+        test("frees the concurrent query slot of a cancelled query", async () => {
+            const regular = await connect(regularAgent);
+            const restoreLimits = await limitAgent(regularAgent.id, {
+                concurrentQueries: true,
+            });
+            try {
+                const requestId = crypto.randomUUID();
+                const running = query(regular, "SELECT pg_sleep(5)", requestId);
+                await Bun.sleep(300);
+
+                const rejected = await query(regular, "SELECT 1");
+                expect(rejected.type).toBe(
+                    WsProtocol.MessageType.RATE_LIMIT_EXCEEDED_RESPONSE,
+                );
+                expect(rejected.limit).toBe(E_RateLimit.CONCURRENT_QUERIES);
+
+                expect((await cancel(regular, requestId)).cancelled).toBe(true);
+                await running;
+
+                const accepted = await query(regular, "SELECT 1");
+                expect(accepted.errorMessage).toBeNull();
+            } finally {
+                await restoreLimits();
+            }
+        });
+    });
+
+    describe("Slow consumers", () => {
+        const CHANNEL = "test-slow";
+        const LARGE_PAYLOAD = { data: "x".repeat(512 * 1024) };
+
+        // A WebSocket client on a plain TCP socket, so the test can stop reading and let the
+        // manager's send buffer fill
+        interface StalledWsClient {
+            connectionId: string;
+            messages: TestWsMessage[];
+            closed: Promise<{ code: number; reason: string }>;
+            request: (
+                message: Record<string, unknown>,
+            ) => Promise<TestWsMessage>;
+            pause: () => void;
+            resume: () => void;
+            destroy: () => void;
+        }
+
+        const stalledClients: StalledWsClient[] = [];
+
+        afterEach(() => {
+            for (const client of stalledClients.splice(0)) {
+                client.destroy();
+            }
+        });
+
+        const connectStalled = async (
+            account: TestAccount,
+        ): Promise<StalledWsClient> => {
+            const url = new URL(
+                Communication.REST.Endpoint.WS_UPGRADE_REQUEST.path,
+                getWsManagerUrl("http"),
+            );
+            url.searchParams.set("token", account.token);
+            url.searchParams.set("provider", SYSTEM_AUTH_PROVIDER_NAME);
+
+            const socket: Socket = connectTcp(Number(url.port), url.hostname);
+            const messages: TestWsMessage[] = [];
+            let resolveClosed: (event: {
+                code: number;
+                reason: string;
+            }) => void = () => {};
+            const closed = new Promise<{ code: number; reason: string }>(
+                (resolve) => {
+                    resolveClosed = resolve;
+                },
+            );
+            let upgraded = false;
+            let buffer = Buffer.alloc(0);
+
+            // Server frames are unmasked and, from Bun, never fragmented
+            const readFrames = () => {
+                while (buffer.length >= 2) {
+                    const opcode = buffer[0] & 0x0f;
+                    let length = buffer[1] & 0x7f;
+                    let offset = 2;
+                    if (length === 126) {
+                        if (buffer.length < 4) {
+                            return;
+                        }
+                        length = buffer.readUInt16BE(2);
+                        offset = 4;
+                    } else if (length === 127) {
+                        if (buffer.length < 10) {
+                            return;
+                        }
+                        length = Number(buffer.readBigUInt64BE(2));
+                        offset = 10;
+                    }
+                    if (buffer.length < offset + length) {
+                        return;
+                    }
+                    const payload = buffer.subarray(offset, offset + length);
+                    buffer = buffer.subarray(offset + length);
+                    if (opcode === 0x1) {
+                        messages.push(JSON.parse(payload.toString()));
+                    } else if (opcode === 0x8) {
+                        resolveClosed({
+                            code:
+                                payload.length >= 2
+                                    ? payload.readUInt16BE(0)
+                                    : 1005,
+                            reason: payload.subarray(2).toString(),
+                        });
+                    }
+                }
+            };
+
+            socket.on("data", (chunk: Buffer) => {
+                buffer = Buffer.concat([buffer, chunk]);
+                if (!upgraded) {
+                    const headerEnd = buffer.indexOf("\r\n\r\n");
+                    if (headerEnd === -1) {
+                        return;
+                    }
+                    const statusLine = buffer
+                        .subarray(0, buffer.indexOf("\r\n"))
+                        .toString();
+                    if (!statusLine.includes(" 101 ")) {
+                        socket.destroy(
+                            new Error(`Upgrade failed: ${statusLine}`),
+                        );
+                        return;
+                    }
+                    upgraded = true;
+                    buffer = buffer.subarray(headerEnd + 4);
+                }
+                readFrames();
+            });
+            socket.on("close", () =>
+                resolveClosed({ code: 1006, reason: "Socket closed" }),
+            );
+
+            const key = Buffer.from(
+                crypto.getRandomValues(new Uint8Array(16)),
+            ).toString("base64");
+            socket.write(
+                [
+                    `GET ${url.pathname}${url.search} HTTP/1.1`,
+                    `Host: ${url.host}`,
+                    "Upgrade: websocket",
+                    "Connection: Upgrade",
+                    `Sec-WebSocket-Key: ${key}`,
+                    "Sec-WebSocket-Version: 13",
+                    "",
+                    "",
+                ].join("\r\n"),
+            );
+
+            // Client frames must be masked
+            const send = (message: Record<string, unknown>) => {
+                const payload = Buffer.from(JSON.stringify(message));
+                const mask = crypto.getRandomValues(new Uint8Array(4));
+                const header =
+                    payload.length < 126
+                        ? Buffer.from([0x81, 0x80 | payload.length])
+                        : Buffer.from([
+                              0x81,
+                              0x80 | 126,
+                              payload.length >> 8,
+                              payload.length & 0xff,
+                          ]);
+                for (let i = 0; i < payload.length; i++) {
+                    payload[i] ^= mask[i % 4];
+                }
+                socket.write(Buffer.concat([header, mask, payload]));
+            };
+
+            const waitFor = (predicate: (message: TestWsMessage) => boolean) =>
+                eventually(async () => {
+                    const message = messages.find(predicate);
+                    expect(message).toBeDefined();
+                    return message as TestWsMessage;
+                });
+
+            const sessionInfo = await waitFor(
+                (message) =>
+                    message.type ===
+                    Communication.WebSocket.MessageType.SESSION_INFO_RESPONSE,
+            );
+            const client: StalledWsClient = {
+                connectionId: sessionInfo.connectionId as string,
+                messages,
+                closed,
+                request: (message) => {
+                    const requestId = crypto.randomUUID();
+                    send({ timestamp: Date.now(), requestId, ...message });
+                    return waitFor(
+                        (received) => received.requestId === requestId,
+                    );
+                },
+                pause: () => socket.pause(),
+                resume: () => socket.resume(),
+                destroy: () => socket.destroy(),
+            };
+            stalledClients.push(client);
+
+            // Reflects only reach the socket once its sync group access is loaded
+            await eventually(async () => {
+                const list = await client.request({
+                    type: WsProtocol.MessageType.SUBSCRIPTIONS_LIST_REQUEST,
+                });
+                expect(list.topics).toContain(`reflect:${TEST_SYNC_GROUP}:*`);
+            });
+            return client;
+        };
+
+        const publish = (
+            client: TestWsClient,
+            channel: string,
+            payload: unknown,
+        ) =>
+            client.request({
+                type: Communication.WebSocket.MessageType
+                    .REFLECT_PUBLISH_REQUEST,
+                syncGroup: TEST_SYNC_GROUP,
+                channel,
+                payload,
+                requestAcknowledgement: true,
+            });
+
+        // Publishes large messages until the manager marks a socket as slow
+        const floodUntilSlow = async (
+            publisher: TestWsClient,
+            detectedBefore: number,
+        ) => {
+            await eventually(async () => {
+                const ack = await publish(publisher, CHANNEL, LARGE_PAYLOAD);
+                expect(ack.errorMessage).toBeNull();
+                const { slowConsumers } = await fetchWsStats();
+                expect(slowConsumers.detected).toBeGreaterThan(detectedBefore);
+                expect(slowConsumers.current).toBeGreaterThan(0);
+            }, 30000);
+        };
+
+        test("coalesces reflects for a slow consumer and flushes the latest once it drains", async () => {
+            const publisher = await connect(adminAgent);
+            const slow = await connectStalled(regularAgent);
+            // The flood has to outpace the default reflect limits
+            const restoreLimits = await limitAgent(adminAgent.id, {});
+            try {
+                const statsBefore = await fetchWsStats();
+                slow.pause();
+                await floodUntilSlow(
+                    publisher,
+                    statsBefore.slowConsumers.detected,
+                );
+
+                for (let seq = 1; seq <= 5; seq++) {
+                    const ack = await publish(publisher, `${CHANNEL}-latest`, {
+                        seq,
+                    });
+                    expect(ack.errorMessage).toBeNull();
+                }
+                const statsSlow = await fetchWsStats();
+                expect(
+                    statsSlow.slowConsumers.coalescedMessages,
+                ).toBeGreaterThanOrEqual(
+                    statsBefore.slowConsumers.coalescedMessages + 4,
+                );
+
+                slow.resume();
+                const isLatest = (message: TestWsMessage) =>
+                    message.type ===
+                        Communication.WebSocket.MessageType
+                            .REFLECT_MESSAGE_DELIVERY &&
+                    message.channel === `${CHANNEL}-latest`;
+                await eventually(async () => {
+                    expect(slow.messages.filter(isLatest)).toHaveLength(1);
+                }, 30000);
+                expect(slow.messages.find(isLatest)?.payload).toEqual({
+                    seq: 5,
+                });
+
+                const statsAfter = await fetchWsStats();
+                expect(statsAfter.slowConsumers.recovered).toBeGreaterThan(
+                    statsBefore.slowConsumers.recovered,
+                );
+            } finally {
+                await restoreLimits();
+            }
+        }, 60000);
+
+        test("closes a slow consumer once too many coalesced reflects are pending", async () => {
+            const publisher = await connect(adminAgent);
+            const slow = await connectStalled(regularAgent);
+            const restoreLimits = await limitAgent(adminAgent.id, {});
+            try {
+                const statsBefore = await fetchWsStats();
+                slow.pause();
+                await floodUntilSlow(
+                    publisher,
+                    statsBefore.slowConsumers.detected,
+                );
+
+                // Targeted reflects are never coalesced with each other
+                for (let i = 0; i <= 10000; i++) {
+                    publisher.send({
+                        type: Communication.WebSocket.MessageType
+                            .REFLECT_PUBLISH_REQUEST,
+                        timestamp: Date.now(),
+                        requestId: crypto.randomUUID(),
+                        syncGroup: TEST_SYNC_GROUP,
+                        channel: CHANNEL,
+                        payload: { i },
+                        requestAcknowledgement: false,
+                        targetConnectionIds: [slow.connectionId],
+                    });
+                }
+                await eventually(async () => {
+                    const { slowConsumers } = await fetchWsStats();
+                    expect(slowConsumers.disconnected).toBeGreaterThan(
+                        statsBefore.slowConsumers.disconnected,
+                    );
+                }, 30000);
+
+                // The close frame queues behind everything already buffered
+                slow.resume();
+                expect(await slow.closed).toEqual({
+                    code: WsProtocol.CloseCode.SLOW_CONSUMER,
+                    reason: "Slow consumer",
+                });
+            } finally {
+                await restoreLimits();
+            }
+        }, 60000);
+    });
+
+    describe("RPC", () => {
+        const ENTITY_NAME = `${DB_TEST_PREFIX}rpc`;
+        const METHOD = "metadata.increment";
+
+        beforeAll(async () => {
+            await superUserSql`
+                INSERT INTO entity.entities (general__entity_name, group__sync)
+                VALUES (${ENTITY_NAME}, ${TEST_SYNC_GROUP})
+            `;
+        });
+
+        const call = (
+            client: TestWsClient,
+            params: Record<string, unknown>,
+            options: { method?: string; syncGroup?: string } = {},
+        ) =>
+            client.request({
+                type: WsProtocol.MessageType.RPC_REQUEST,
+                method: options.method ?? METHOD,
+                syncGroup: options.syncGroup ?? TEST_SYNC_GROUP,
+                params,
+            });
+
+        test("runs a registered handler as the caller", async () => {
+            const regular = await connect(regularAgent);
+            const params = {
+                entityName: ENTITY_NAME,
+                metadataKey: "counter",
+                by: 2,
+            };
+
+            const first = await call(regular, params);
+            expect(first.type).toBe(WsProtocol.MessageType.RPC_RESPONSE);
+            expect(first.errorMessage).toBeNull();
+            expect(first.method).toBe(METHOD);
+            expect(first.result).toEqual({ value: 2 });
+            expect((await call(regular, params)).result).toEqual({ value: 4 });
+
+            const [row] = await superUserSql<Array<{ value: string }>>`
+                SELECT metadata__int AS value
+                FROM entity.entity_metadata
+                WHERE general__entity_name = ${ENTITY_NAME}
+                  AND metadata__key = 'counter'
+            `;
+            expect(Number(row.value)).toBe(4);
+        });
+
+        test("rejects unknown methods and invalid params", async () => {
+            const regular = await connect(regularAgent);
+
+            const unknown = await call(
+                regular,
+                {},
+                { method: "metadata.nope" },
+            );
+            expect(unknown.type).toBe(WsProtocol.MessageType.RPC_RESPONSE);
+            expect(unknown.errorMessage).toBe(
+                `Unknown RPC method in ${TEST_SYNC_GROUP}: metadata.nope`,
+            );
+
+            const invalid = await call(regular, {
+                entityName: ENTITY_NAME,
+                metadataKey: "counter",
+                by: "two",
+            });
+            expect(invalid.errorMessage).toStartWith(
+                `Invalid params for ${METHOD}:`,
+            );
+        });
+
+        test("rejects calls in sync groups the caller cannot read", async () => {
+            const regular = await connect(regularAgent);
+
+            const response = await call(
+                regular,
+                { entityName: ENTITY_NAME, metadataKey: "counter" },
+                { syncGroup: PRIVATE_SYNC_GROUP },
+            );
+            expect(response.errorMessage).toBe(
+                `Not authorized for sync group: ${PRIVATE_SYNC_GROUP}`,
+            );
+        });
+
+        test("applies the query rate limit after the access checks", async () => {
+            const regular = await connect(regularAgent);
+            const restoreLimits = await limitAgent(regularAgent.id, {
+                queries: true,
+            });
+            try {
+                // Rejected calls do not use up the request
+                const unauthorized = await call(
+                    regular,
+                    { entityName: ENTITY_NAME, metadataKey: "limited" },
+                    { syncGroup: PRIVATE_SYNC_GROUP },
+                );
+                expect(unauthorized.errorMessage).toBe(
+                    `Not authorized for sync group: ${PRIVATE_SYNC_GROUP}`,
+                );
+
+                const params = {
+                    entityName: ENTITY_NAME,
+                    metadataKey: "limited",
+                };
+                const first = await call(regular, params);
+                expect(first.errorMessage).toBeNull();
+
+                const second = await call(regular, params);
+                expect(second.type).toBe(
+                    WsProtocol.MessageType.RATE_LIMIT_EXCEEDED_RESPONSE,
+                );
+                expect(second.requestType).toBe(
+                    WsProtocol.MessageType.RPC_REQUEST,
+                );
+                expect(second.retryAfterMs).toBeGreaterThan(0);
+            } finally {
+                await restoreLimits();
+            }
+        });
+
+        test("fails a call that outlasts the handler's timeout", async () => {
+            const regular = await connect(regularAgent);
+            const params = { entityName: ENTITY_NAME, metadataKey: "locked" };
+            expect((await call(regular, params)).errorMessage).toBeNull();
+
+            // Holding the row lock keeps the increment waiting
+            const response = await superUserSql.begin(async (tx) => {
+                await tx`
+                    SELECT metadata__int
+                    FROM entity.entity_metadata
+                    WHERE general__entity_name = ${ENTITY_NAME}
+                      AND metadata__key = 'locked'
+                    FOR UPDATE
+                `;
+                const timedOut = await call(regular, params);
+                // Past the handler's statement timeout, so releasing the lock lets nothing through
+                await Bun.sleep(500);
+                return timedOut;
+            });
+            // The handler's statement timeout and the call's deadline run out together
+            expect(response.errorMessage).toMatch(
+                new RegExp(
+                    `RPC ${METHOD} timed out after 2000 ms|statement timeout`,
+                ),
+            );
+
+            const [row] = await superUserSql<Array<{ value: string }>>`
+                SELECT metadata__int AS value
+                FROM entity.entity_metadata
+                WHERE general__entity_name = ${ENTITY_NAME}
+                  AND metadata__key = 'locked'
+            `;
+            expect(Number(row.value)).toBe(1);
+        }, 10000);
+    });
+
+    describe("Ticks and clock sync", () => {
+        const isTick = (message: TestWsMessage) =>
+            message.type === WsProtocol.MessageType.TICK_DELIVERY &&
+            message.syncGroup === TEST_SYNC_GROUP;
+
+        const subscribeTicks = (
+            client: TestWsClient,
+            syncGroup: string,
+            subscribe = true,
+        ) =>
+            client.request({
+                type: WsProtocol.MessageType.TICK_SUBSCRIBE_REQUEST,
+                syncGroup,
+                subscribe,
+            });
+
+        test("delivers the sync group's ticks until unsubscribed", async () => {
+            const [{ rate }] = await superUserSql<Array<{ rate: number }>>`
+                SELECT server__tick__rate_ms AS rate
+                FROM auth.sync_groups
+                WHERE general__sync_group = ${TEST_SYNC_GROUP}
+            `;
+            const regular = await connect(regularAgent);
+
+            const response = await subscribeTicks(regular, TEST_SYNC_GROUP);
+            expect(response.errorMessage).toBeNull();
+            expect(response.subscribed).toBe(true);
+            expect(response.tickRateMs).toBe(rate);
+
+            await eventually(async () => {
+                expect(
+                    regular.messages.filter(isTick).length,
+                ).toBeGreaterThanOrEqual(3);
+            });
+            const ticks = regular.messages.filter(isTick);
+            for (const [index, delivery] of ticks.entries()) {
+                expect(delivery.tickRateMs).toBe(rate);
+                expect(typeof delivery.serverTime).toBe("number");
+                if (index > 0) {
+                    expect(delivery.tick as number).toBeGreaterThan(
+                        ticks[index - 1].tick as number,
+                    );
+                }
+            }
+            expect(ticks[0].tick as number).toBeGreaterThanOrEqual(
+                response.tick as number,
+            );
+
+            const stats = await fetchWsStats({ topicLimit: "1000" });
+            expect(
+                stats.subscriptions.byTopic[`tick:${TEST_SYNC_GROUP}`],
+            ).toBeGreaterThanOrEqual(1);
+
+            const unsubscribed = await subscribeTicks(
+                regular,
+                TEST_SYNC_GROUP,
+                false,
+            );
+            expect(unsubscribed.subscribed).toBe(false);
+            const ticksWhenStopped = regular.messages.filter(isTick).length;
+            await Bun.sleep(200);
+            expect(regular.messages.filter(isTick).length).toBe(
+                ticksWhenStopped,
+            );
+        });
+
+        test("rejects tick subscriptions to sync groups the caller cannot read", async () => {
+            const regular = await connect(regularAgent);
+
+            const response = await subscribeTicks(regular, PRIVATE_SYNC_GROUP);
+            expect(response.type).toBe(
+                WsProtocol.MessageType.TICK_SUBSCRIBE_RESPONSE,
+            );
+            expect(response.errorMessage).toBe(
+                `Not authorized for sync group: ${PRIVATE_SYNC_GROUP}`,
+            );
+
+            const list = await regular.request({
+                type: WsProtocol.MessageType.SUBSCRIPTIONS_LIST_REQUEST,
+            });
+            expect(list.topics).not.toContain(`tick:${PRIVATE_SYNC_GROUP}`);
+
+            // The same group ticks for those who can read it
+            const admin = await connect(adminAgent);
+            const allowed = await subscribeTicks(admin, PRIVATE_SYNC_GROUP);
+            expect(allowed.errorMessage).toBeNull();
+            expect(allowed.tickRateMs).toBe(50);
+        });
+
+        test("answers CLOCK_SYNC with the client and server time", async () => {
+            const anon = await connect(anonAgent);
+            const clientTime = Date.now();
+
+            const response = await anon.request({
+                type: WsProtocol.MessageType.CLOCK_SYNC_REQUEST,
+                clientTime,
+            });
+            const receivedAt = Date.now();
+            expect(response.type).toBe(
+                WsProtocol.MessageType.CLOCK_SYNC_RESPONSE,
+            );
+            expect(response.errorMessage).toBeNull();
+            expect(response.clientTime).toBe(clientTime);
+            // The manager runs on this host, so only the round trip separates the clocks
+            expect(response.serverTime as number).toBeGreaterThanOrEqual(
+                clientTime - 1000,
+            );
+            expect(response.serverTime as number).toBeLessThanOrEqual(
+                receivedAt + 1000,
+            );
+        });
+    });
+
+    describe("Admin controls", () => {
+        const fetchAdmin = (
+            path: string,
+            options: { account?: TestAccount; body?: unknown } = {},
+        ) => {
+            const url = new URL(
+                `/world/rest/ws/admin${path}`,
+                getWsManagerUrl("http"),
+            );
+            url.searchParams.set("provider", SYSTEM_AUTH_PROVIDER_NAME);
+            return fetch(url, {
+                method: options.body === undefined ? "GET" : "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                    ...(options.account
+                        ? { Authorization: `Bearer ${options.account.token}` }
+                        : {}),
+                },
+                body:
+                    options.body === undefined
+                        ? undefined
+                        : JSON.stringify(options.body),
+            });
+        };
+
+        test("lists the connected sessions, optionally by sync group", async () => {
+            const admin = await connect(adminAgent);
+            const regular = await connect(regularAgent);
+
+            const response = await admin.request({
+                type: WsProtocol.MessageType.ADMIN_SESSIONS_LIST_REQUEST,
+            });
+            expect(response.errorMessage).toBeNull();
+            expect(response.unreachableInstances).toEqual([]);
+            const sessions = response.sessions as WsProtocol.AdminSession[];
+            const regularSession = sessions.find(
+                (session) => session.connectionId === regular.connectionId,
+            );
+            expect(regularSession).toMatchObject({
+                sessionId: regularAgent.sessionId,
+                agentId: regularAgent.id,
+                instanceId: response.instanceId,
+                isAdmin: false,
+                isAnon: false,
+            });
+            expect(regularSession?.syncGroups).toContain(TEST_SYNC_GROUP);
+
+            const privateReaders = await admin.request({
+                type: WsProtocol.MessageType.ADMIN_SESSIONS_LIST_REQUEST,
+                syncGroup: PRIVATE_SYNC_GROUP,
+            });
+            const privateConnections = (
+                privateReaders.sessions as WsProtocol.AdminSession[]
+            ).map((session) => session.connectionId);
+            expect(privateConnections).toContain(admin.connectionId);
+            expect(privateConnections).not.toContain(regular.connectionId);
+        });
+
+        test("refuses admin requests from other agents", async () => {
+            const regular = await connect(regularAgent);
+            const requests = [
+                { type: WsProtocol.MessageType.ADMIN_SESSIONS_LIST_REQUEST },
+                {
+                    type: WsProtocol.MessageType.ADMIN_DISCONNECT_REQUEST,
+                    agentId: adminAgent.id,
+                    reason: "Not allowed",
+                },
+                {
+                    type: WsProtocol.MessageType.ADMIN_ANNOUNCE_REQUEST,
+                    syncGroup: TEST_SYNC_GROUP,
+                    message: "Not allowed",
+                },
+                { type: WsProtocol.MessageType.ADMIN_RESYNC_REQUEST },
+            ];
+            for (const request of requests) {
+                const response = await regular.request(request);
+                expect(response.errorMessage).toBe("Admin access required");
+            }
+        });
+
+        test("disconnects every connection of a session with the given reason", async () => {
+            const admin = await connect(adminAgent);
+            const regularFirst = await connect(regularAgent);
+            const regularSecond = await connect(regularAgent);
+            const anon = await connect(anonAgent);
+
+            const response = await admin.request({
+                type: WsProtocol.MessageType.ADMIN_DISCONNECT_REQUEST,
+                sessionId: regularAgent.sessionId,
+                reason: "Maintenance",
+            });
+            expect(response.errorMessage).toBeNull();
+            expect(response.disconnected).toBe(2);
+            expect(response.invalidated).toBe(0);
+            for (const client of [regularFirst, regularSecond]) {
+                expect(await client.closed).toEqual({
+                    code: WsProtocol.CloseCode.ADMIN_DISCONNECT,
+                    reason: "Maintenance",
+                });
+            }
+
+            // Other sessions stay, and without `invalidate` the session may reconnect
+            const clockSync = await anon.request({
+                type: WsProtocol.MessageType.CLOCK_SYNC_REQUEST,
+                clientTime: Date.now(),
+            });
+            expect(clockSync.errorMessage).toBeNull();
+            await connect(regularAgent);
+
+            const untargeted = await admin.request({
+                type: WsProtocol.MessageType.ADMIN_DISCONNECT_REQUEST,
+                reason: "Maintenance",
+            });
+            expect(untargeted.errorMessage).toBe(
+                "A sessionId or agentId is required",
+            );
+        });
+
+        test("announces to the readers of a sync group", async () => {
+            const admin = await connect(adminAgent);
+            const regular = await connect(regularAgent);
+            const anon = await connect(anonAgent);
+            const isAnnouncement =
+                (syncGroup: string) => (message: TestWsMessage) =>
+                    message.type ===
+                        WsProtocol.MessageType.SYSTEM_ANNOUNCEMENT &&
+                    message.syncGroup === syncGroup;
+
+            const response = await admin.request({
+                type: WsProtocol.MessageType.ADMIN_ANNOUNCE_REQUEST,
+                syncGroup: TEST_SYNC_GROUP,
+                message: "Restarting soon",
+                level: WsProtocol.AnnouncementLevel.WARNING,
+            });
+            expect(response.errorMessage).toBeNull();
+            for (const client of [regular, anon]) {
+                const announcement = await client.waitFor(
+                    isAnnouncement(TEST_SYNC_GROUP),
+                );
+                expect(announcement.message).toBe("Restarting soon");
+                expect(announcement.level).toBe(
+                    WsProtocol.AnnouncementLevel.WARNING,
+                );
+            }
+
+            await admin.request({
+                type: WsProtocol.MessageType.ADMIN_ANNOUNCE_REQUEST,
+                syncGroup: PRIVATE_SYNC_GROUP,
+                message: "Admins only",
+            });
+            const announcement = await admin.waitFor(
+                isAnnouncement(PRIVATE_SYNC_GROUP),
+            );
+            expect(announcement.level).toBe(WsProtocol.AnnouncementLevel.INFO);
+            await Bun.sleep(200);
+            expect(
+                regular.messages.filter(isAnnouncement(PRIVATE_SYNC_GROUP)),
+            ).toHaveLength(0);
+        });
+
+        test("tells a resynced session to subscribe again", async () => {
+            const admin = await connect(adminAgent);
+            const regular = await connect(regularAgent);
+            const ticks = await regular.request({
+                type: WsProtocol.MessageType.TICK_SUBSCRIBE_REQUEST,
+                syncGroup: TEST_SYNC_GROUP,
+            });
+            expect(ticks.subscribed).toBe(true);
+
+            const response = await admin.request({
+                type: WsProtocol.MessageType.ADMIN_RESYNC_REQUEST,
+                sessionId: regularAgent.sessionId,
+                reason: "Schema changed",
+            });
+            expect(response.errorMessage).toBeNull();
+            expect(response.resynced).toBe(1);
+
+            const resync = await regular.waitFor(
+                (message) =>
+                    message.type === WsProtocol.MessageType.RESYNC_REQUIRED,
+            );
+            expect(resync.reason).toBe("Schema changed");
+            expect(resync.syncGroup).toBeNull();
+            const list = await regular.request({
+                type: WsProtocol.MessageType.SUBSCRIPTIONS_LIST_REQUEST,
+            });
+            expect(list.topics).not.toContain(`tick:${TEST_SYNC_GROUP}`);
+            expect(
+                admin.messages.some(
+                    (message) =>
+                        message.type === WsProtocol.MessageType.RESYNC_REQUIRED,
+                ),
+            ).toBe(false);
+        });
+
+        test("serves the same controls over REST to admins only", async () => {
+            const anonymous = await fetchAdmin("/sessions");
+            expect(anonymous.status).toBe(401);
+            expect(await anonymous.json()).toEqual({
+                success: false,
+                error: "Authentication required",
+            });
+
+            const forbidden = await fetchAdmin("/sessions", {
+                account: regularAgent,
+            });
+            expect(forbidden.status).toBe(403);
+            expect((await forbidden.json()).error).toBe(
+                "Admin access required",
+            );
+
+            const anon = await connect(anonAgent);
+            const listed = await fetchAdmin("/sessions", {
+                account: adminAgent,
+            });
+            expect(listed.status).toBe(200);
+            const list = await listed.json();
+            expect(list.success).toBe(true);
+            expect(
+                (list.sessions as WsProtocol.AdminSession[]).some(
+                    (session) => session.connectionId === anon.connectionId,
+                ),
+            ).toBe(true);
+
+            const tooLong = await fetchAdmin("/sessions/disconnect", {
+                account: adminAgent,
+                body: {
+                    sessionId: anonAgent.sessionId,
+                    reason: "x".repeat(124),
+                },
+            });
+            expect(tooLong.status).toBe(400);
+            expect((await tooLong.json()).error).toContain(
+                "Reason must fit in 123 bytes",
+            );
+
+            const disconnected = await fetchAdmin("/sessions/disconnect", {
+                account: adminAgent,
+                body: { sessionId: anonAgent.sessionId, reason: "Kicked" },
+            });
+            expect(disconnected.status).toBe(200);
+            expect(await disconnected.json()).toEqual({
+                success: true,
+                disconnected: 1,
+                invalidated: 0,
+            });
+            expect(await anon.closed).toEqual({
+                code: WsProtocol.CloseCode.ADMIN_DISCONNECT,
+                reason: "Kicked",
+            });
+        });
+    });
+
+    afterAll(async () => {
+        await Promise.all(
+            openClients.splice(0).map((client) => client.close()),
+        );
+        await cleanupTestEntities({ superUserSql });
+        await cleanupTestSyncGroups({ superUserSql });
+        await cleanupTestAccounts({ superUserSql });
+
+        await BunPostgresClientModule.getInstance({
+            debug: cliConfiguration.VRCA_CLI_DEBUG,
+            suppress: cliConfiguration.VRCA_CLI_SUPPRESS,
+        }).disconnect();
+    });
+});
@@ -0,0 +1,107 @@
+import { describe, expect, test } from "bun:test";
+import {
+    bindNamedQueryArgs,
+    canRunNamedQuery,
+    E_NamedQueryParameterType,
+    type NamedQueryRow,
+    toNamedQuery,
+} from "../../server/service/api_ws/volume/app/service/namedquery";
+
+const AGENT = "3f2504e0-4f89-41d3-9a0c-0305e82c3301";
+
+function namedQuery(parameters: unknown, overrides?: Partial<NamedQueryRow>) {
+    return toNamedQuery({
+        general__query_name: "entities_by_group",
+        query__sql: "SELECT * FROM entity.entities WHERE group__sync = $1",
+        query__parameters: parameters,
+        query__read_only: true,
+        auth__roles: ["authenticated"],
+        auth__agent_ids: [],
+        ...overrides,
+    });
+}
+
+describe("Named queries", () => {
+    test("Parameter lists load from JSON text or arrays, with required by default", () => {
+        const fromText = namedQuery('[{"name":"syncGroup","type":"string"}]');
+        expect(fromText.parameters).toEqual([
+            {
+                name: "syncGroup",
+                type: E_NamedQueryParameterType.STRING,
+                required: true,
+            },
+        ]);
+        expect(
+            namedQuery([{ name: "limit", type: "integer", required: false }])
+                .parameters[0].required,
+        ).toBe(false);
+    });
+
+    test("Malformed parameter lists throw so the entry can be skipped", () => {
+        expect(() => namedQuery([{ name: "x", type: "date" }])).toThrow();
+        expect(() => namedQuery([{ type: "string" }])).toThrow();
+        expect(() => namedQuery("not json")).toThrow();
+    });
+
+    test("Callers need a listed agent id or one of the roles", () => {
+        const query = namedQuery([], {
+            auth__roles: ["admin"],
+            auth__agent_ids: [AGENT],
+        });
+        expect(canRunNamedQuery(query, AGENT, ["anon"])).toBe(true);
+        expect(canRunNamedQuery(query, "someone-else", ["admin"])).toBe(true);
+        expect(canRunNamedQuery(query, "someone-else", ["authenticated"])).toBe(
+            false,
+        );
+    });
+
+    test("Arguments bind by name to placeholder order", () => {
+        const query = namedQuery([
+            { name: "syncGroup", type: "string" },
+            { name: "limit", type: "integer", required: false },
+            { name: "agentId", type: "uuid" },
+            { name: "visible", type: "boolean" },
+            { name: "weight", type: "number" },
+            { name: "filter", type: "json" },
+        ]);
+        expect(
+            bindNamedQueryArgs(query, {
+                filter: { tags: ["a"] },
+                weight: 0.5,
+                visible: false,
+                agentId: AGENT,
+                syncGroup: "public.NORMAL",
+            }),
+        ).toEqual(["public.NORMAL", null, AGENT, false, 0.5, '{"tags":["a"]}']);
+    });
+
+    test("Every problem with the arguments is reported at once", () => {
+        const query = namedQuery([
+            { name: "syncGroup", type: "string" },
+            { name: "limit", type: "integer" },
+            { name: "agentId", type: "uuid" },
+        ]);
+        expect(() =>
+            bindNamedQueryArgs(query, {
+                limit: 1.5,
+                agentId: "not-a-uuid",
+                extra: true,
+            }),
+        ).toThrow(
+            "Invalid arguments for entities_by_group: extra: unknown argument; syncGroup: required; limit: expected integer; agentId: expected uuid",
+        );
+    });
+
+    test("Null counts as missing", () => {
+        const query = namedQuery([
+            { name: "syncGroup", type: "string" },
+            { name: "limit", type: "integer", required: false },
+        ]);
+        expect(
+            bindNamedQueryArgs(query, { syncGroup: "g", limit: null }),
+        ).toEqual(["g", null]);
+        expect(() => bindNamedQueryArgs(query, { syncGroup: null })).toThrow(
+            "syncGroup: required",
+        );
+    });
+});
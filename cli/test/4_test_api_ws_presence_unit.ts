@@ -0,0 +1,115 @@
+import { describe, expect, test } from "bun:test";
+import {
+    type PresenceConnection,
+    PresenceRegistry,
+} from "../../server/service/api_ws/volume/app/service/presence";
+
+function connection(
+    connectionId: string,
+    sessionId = "session-a",
+    instanceId = "instance-1",
+): PresenceConnection {
+    return {
+        connectionId,
+        sessionId,
+        agentId: `agent-${sessionId}`,
+        instanceId,
+    };
+}
+
+describe("Presence registry", () => {
+    test("A session joins once however many of its connections read the group", () => {
+        const presence = new PresenceRegistry();
+        expect(
+            presence.join("public.NORMAL", connection("c1"), {
+                displayName: "Ada",
+            }),
+        ).toEqual({
+            member: {
+                sessionId: "session-a",
+                agentId: "agent-session-a",
+                attributes: { displayName: "Ada" },
+            },
+            changed: true,
+        });
+        expect(presence.join("public.NORMAL", connection("c2")).changed).toBe(
+            false,
+        );
+        expect(presence.members("public.NORMAL")).toHaveLength(1);
+        expect(presence.count()).toBe(1);
+    });
+
+    test("Attributes change only when they differ", () => {
+        const presence = new PresenceRegistry();
+        presence.join("g", connection("c1"), { avatarModel: "away.glb" });
+        expect(
+            presence.join("g", connection("c1"), { avatarModel: "away.glb" })
+                .changed,
+        ).toBe(false);
+        // Without attributes the session keeps its own
+        expect(presence.join("g", connection("c2")).member.attributes).toEqual({
+            avatarModel: "away.glb",
+        });
+        const updated = presence.join("g", connection("c2"), {
+            avatarModel: "here.glb",
+        });
+        expect(updated.changed).toBe(true);
+        expect(presence.members("g")[0].attributes).toEqual({
+            avatarModel: "here.glb",
+        });
+    });
+
+    test("A session leaves with its last connection", () => {
+        const presence = new PresenceRegistry();
+        presence.join("g", connection("c1"));
+        presence.join("g", connection("c2"));
+        presence.join("g", connection("c3", "session-b"));
+
+        expect(presence.leave((id) => id === "c1")).toEqual([]);
+        expect(presence.leave((id) => id === "c2")).toEqual([
+            { syncGroup: "g", sessionId: "session-a" },
+        ]);
+        expect(presence.members("g").map((m) => m.sessionId)).toEqual([
+            "session-b",
+        ]);
+    });
+
+    test("Leaving can be limited to one sync group", () => {
+        const presence = new PresenceRegistry();
+        presence.join("g1", connection("c1"));
+        presence.join("g2", connection("c1"));
+        expect(presence.groupsOf("c1").sort()).toEqual(["g1", "g2"]);
+
+        expect(presence.leave((id) => id === "c1", "g1")).toEqual([
+            { syncGroup: "g1", sessionId: "session-a" },
+        ]);
+        expect(presence.groupsOf("c1")).toEqual(["g2"]);
+        expect(presence.members("g1")).toEqual([]);
+    });
+
+    test("A lost instance takes its connections with it", () => {
+        const presence = new PresenceRegistry();
+        presence.join("g", connection("c1", "session-a", "instance-1"));
+        presence.join("g", connection("c2", "session-a", "instance-2"));
+        presence.join("g", connection("c3", "session-b", "instance-2"));
+
+        expect(
+            presence.leave((_, instanceId) => instanceId === "instance-2"),
+        ).toEqual([{ syncGroup: "g", sessionId: "session-b" }]);
+        expect(presence.countBySyncGroup()).toEqual(new Map([["g", 1]]));
+    });
+
+    test("Counts cover every sync group", () => {
+        const presence = new PresenceRegistry();
+        presence.join("g1", connection("c1"));
+        presence.join("g1", connection("c2", "session-b"));
+        presence.join("g2", connection("c1"));
+        expect(presence.countBySyncGroup()).toEqual(
+            new Map([
+                ["g1", 2],
+                ["g2", 1],
+            ]),
+        );
+        expect(presence.count()).toBe(3);
+    });
+});
@@ -0,0 +1,197 @@
+import { describe, expect, test } from "bun:test";
+import {
+    E_RateLimit,
+    E_RateLimitScope,
+    RATE_LIMIT_DEFAULT_TARGET,
+    type RateLimitConfigRow,
+    RateLimiter,
+} from "../../server/service/api_ws/volume/app/service/ratelimit";
+
+function configRow(
+    row: Partial<RateLimitConfigRow> &
+        Pick<
+            RateLimitConfigRow,
+            "rate_limit_config__scope" | "rate_limit_config__target"
+        >,
+): RateLimitConfigRow {
+    return {
+        rate_limit_config__reflect_messages_per_sec: null,
+        rate_limit_config__reflect_bytes_per_sec: null,
+        rate_limit_config__queries_per_sec: null,
+        rate_limit_config__max_concurrent_queries: null,
+        rate_limit_config__burst_seconds: 1,
+        ...row,
+    };
+}
+
+describe("RateLimiter", () => {
+    test("Unconfigured limits allow everything", () => {
+        const limiter = new RateLimiter();
+        for (let i = 0; i < 100; i++) {
+            expect(limiter.checkReflect("agent", "public.NORMAL", 1000)).toBe(
+                null,
+            );
+            expect(limiter.beginQuery("agent")).toBe(null);
+        }
+    });
+
+    test("Reflect messages are limited per agent up to the burst", () => {
+        const limiter = new RateLimiter();
+        limiter.setConfig([
+            configRow({
+                rate_limit_config__scope: E_RateLimitScope.AGENT,
+                rate_limit_config__target: "agent",
+                rate_limit_config__reflect_messages_per_sec: 2,
+                rate_limit_config__burst_seconds: 2,
+            }),
+        ]);
+
+        for (let i = 0; i < 4; i++) {
+            expect(limiter.checkReflect("agent", "public.NORMAL", 10)).toBe(
+                null,
+            );
+        }
+        const rejection = limiter.checkReflect("agent", "public.NORMAL", 10);
+        expect(rejection).toMatchObject({
+            scope: E_RateLimitScope.AGENT,
+            target: "agent",
+            limit: E_RateLimit.REFLECT_MESSAGES,
+        });
+        expect(rejection?.retryAfterMs).toBeGreaterThan(0);
+
+        // Other agents have buckets of their own
+        expect(limiter.checkReflect("other", "public.NORMAL", 10)).toBe(null);
+    });
+
+    test("The default target applies to agents without a row", () => {
+        const limiter = new RateLimiter();
+        limiter.setConfig([
+            configRow({
+                rate_limit_config__scope: E_RateLimitScope.AGENT,
+                rate_limit_config__target: RATE_LIMIT_DEFAULT_TARGET,
+                rate_limit_config__queries_per_sec: 1,
+            }),
+            configRow({
+                rate_limit_config__scope: E_RateLimitScope.AGENT,
+                rate_limit_config__target: "trusted",
+            }),
+        ]);
+
+        expect(limiter.beginQuery("agent")).toBe(null);
+        limiter.endQuery("agent");
+        expect(limiter.beginQuery("agent")?.limit).toBe(E_RateLimit.QUERIES);
+
+        for (let i = 0; i < 10; i++) {
+            expect(limiter.beginQuery("trusted")).toBe(null);
+            limiter.endQuery("trusted");
+        }
+    });
+
+    test("A message larger than the burst can never be sent", () => {
+        const limiter = new RateLimiter();
+        limiter.setConfig([
+            configRow({
+                rate_limit_config__scope: E_RateLimitScope.SYNC_GROUP,
+                rate_limit_config__target: "public.NORMAL",
+                rate_limit_config__reflect_bytes_per_sec: 100,
+            }),
+        ]);
+
+        expect(
+            limiter.checkReflect("agent", "public.NORMAL", 101),
+        ).toMatchObject({
+            scope: E_RateLimitScope.SYNC_GROUP,
+            limit: E_RateLimit.REFLECT_BYTES,
+            retryAfterMs: null,
+        });
+        expect(limiter.checkReflect("agent", "public.OTHER", 101)).toBe(null);
+    });
+
+    test("A rejected reflect takes from none of the buckets", () => {
+        const limiter = new RateLimiter();
+        limiter.setConfig([
+            configRow({
+                rate_limit_config__scope: E_RateLimitScope.AGENT,
+                rate_limit_config__target: "agent",
+                rate_limit_config__reflect_messages_per_sec: 1,
+            }),
+            configRow({
+                rate_limit_config__scope: E_RateLimitScope.SYNC_GROUP,
+                rate_limit_config__target: "public.NORMAL",
+                rate_limit_config__reflect_bytes_per_sec: 10,
+            }),
+        ]);
+
+        expect(limiter.checkReflect("agent", "public.NORMAL", 20)?.limit).toBe(
+            E_RateLimit.REFLECT_BYTES,
+        );
+        expect(limiter.checkReflect("agent", "public.NORMAL", 5)).toBe(null);
+    });
+
+    test("Concurrent queries are capped until one ends", () => {
+        const limiter = new RateLimiter();
+        limiter.setConfig([
+            configRow({
+                rate_limit_config__scope: E_RateLimitScope.AGENT,
+                rate_limit_config__target: "agent",
+                rate_limit_config__max_concurrent_queries: 2,
+            }),
+        ]);
+
+        expect(limiter.beginQuery("agent")).toBe(null);
+        expect(limiter.beginQuery("agent")).toBe(null);
+        expect(limiter.beginQuery("agent")).toMatchObject({
+            limit: E_RateLimit.CONCURRENT_QUERIES,
+            retryAfterMs: null,
+        });
+
+        limiter.endQuery("agent");
+        expect(limiter.beginQuery("agent")).toBe(null);
+    });
+
+    test("A retained query keeps its slot and its pages only take from the rate", () => {
+        const limiter = new RateLimiter();
+        limiter.setConfig([
+            configRow({
+                rate_limit_config__scope: E_RateLimitScope.AGENT,
+                rate_limit_config__target: "agent",
+                rate_limit_config__queries_per_sec: 2,
+                rate_limit_config__max_concurrent_queries: 1,
+            }),
+        ]);
+
+        expect(limiter.beginQuery("agent")).toBe(null);
+        limiter.retainQuery("agent");
+        limiter.endQuery("agent");
+        expect(limiter.beginQuery("agent")?.limit).toBe(
+            E_RateLimit.CONCURRENT_QUERIES,
+        );
+        expect(limiter.checkQueryRate("agent")).toBe(null);
+        expect(limiter.checkQueryRate("agent")?.limit).toBe(
+            E_RateLimit.QUERIES,
+        );
+
+        limiter.endQuery("agent");
+        expect(limiter.beginQuery("agent")?.limit).toBe(E_RateLimit.QUERIES);
+    });
+
+    test("Draining buckets survive expiry and full ones are dropped", () => {
+        const limiter = new RateLimiter();
+        limiter.setConfig([
+            configRow({
+                rate_limit_config__scope: E_RateLimitScope.AGENT,
+                rate_limit_config__target: RATE_LIMIT_DEFAULT_TARGET,
+                rate_limit_config__queries_per_sec: 1,
+            }),
+        ]);
+
+        expect(limiter.beginQuery("agent")).toBe(null);
+        limiter.endQuery("agent");
+        const now = performance.now();
+        expect(limiter.expireIdleBuckets(now)).toBe(0);
+        expect(limiter.beginQuery("agent")?.limit).toBe(E_RateLimit.QUERIES);
+
+        expect(limiter.expireIdleBuckets(now + 1000)).toBe(1);
+        expect(limiter.expireIdleBuckets(now + 1000)).toBe(0);
+    });
+});
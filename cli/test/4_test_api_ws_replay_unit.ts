@@ -0,0 +1,48 @@
+import { describe, expect, test } from "bun:test";
+import { EncodedWsMessage } from "../../server/service/api_ws/volume/app/service/codec";
+import {
+    ReplayBuffer,
+    type ReplayEntry,
+} from "../../server/service/api_ws/volume/app/service/replay";
+
+function entry(seq: number, topic = "entity:public.NORMAL:door"): ReplayEntry {
+    return { seq, topic, message: new EncodedWsMessage({ seq }) };
+}
+
+const seqs = (entries: ReplayEntry[] | null) =>
+    entries?.map((replayed) => replayed.seq) ?? null;
+
+describe("Replay buffer", () => {
+    test("Replays deliveries after the given seq, oldest first", () => {
+        const buffer = new ReplayBuffer(10);
+        for (const seq of [1, 2, 5, 7]) {
+            buffer.push(entry(seq));
+        }
+        expect(seqs(buffer.since(0))).toEqual([1, 2, 5, 7]);
+        expect(seqs(buffer.since(2))).toEqual([5, 7]);
+        expect(seqs(buffer.since(7))).toEqual([]);
+    });
+
+    test("A change published on several topics is kept once", () => {
+        const buffer = new ReplayBuffer(10);
+        buffer.push(entry(1, "entity:public.NORMAL:door"));
+        buffer.push(entry(1, "entity:public.NORMAL:door:channel"));
+        buffer.push(entry(2));
+        expect(buffer.since(0)?.map((replayed) => replayed.topic)).toEqual([
+            "entity:public.NORMAL:door",
+            "entity:public.NORMAL:door",
+        ]);
+    });
+
+    test("Resuming from before an evicted delivery is refused", () => {
+        const buffer = new ReplayBuffer(3);
+        for (let seq = 1; seq <= 5; seq++) {
+            buffer.push(entry(seq));
+        }
+        // 1 and 2 were evicted; only resuming from 2 on can still be complete
+        expect(buffer.since(0)).toBe(null);
+        expect(buffer.since(1)).toBe(null);
+        expect(seqs(buffer.since(2))).toEqual([3, 4, 5]);
+        expect(seqs(buffer.since(4))).toEqual([5]);
+    });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, test } from "bun:test";
+import {
+    matchesEntityFields,
+    matchesMetadataRow,
+    metadataRowValue,
+    toLikePrefixPattern,
+} from "../../server/service/api_ws/volume/app/service/selector";
+
+describe("Entity selectors", () => {
+    test("Name prefix and sync group must both match when given", () => {
+        expect(matchesEntityFields({}, "door.1", "public.NORMAL")).toBe(true);
+        expect(
+            matchesEntityFields(
+                { entityNamePrefix: "door." },
+                "door.1",
+                "public.NORMAL",
+            ),
+        ).toBe(true);
+        expect(
+            matchesEntityFields(
+                { entityNamePrefix: "door." },
+                "window.1",
+                "public.NORMAL",
+            ),
+        ).toBe(false);
+        expect(
+            matchesEntityFields(
+                { entityNamePrefix: "door.", syncGroup: "public.REALTIME" },
+                "door.1",
+                "public.NORMAL",
+            ),
+        ).toBe(false);
+    });
+
+    test("Metadata values are read from whichever column holds them", () => {
+        expect(metadataRowValue({ metadata__text: "open" })).toBe("open");
+        expect(
+            metadataRowValue({ metadata__int: 0, metadata__text: null }),
+        ).toBe(0);
+        expect(metadataRowValue({ metadata__bool: false })).toBe(false);
+        expect(metadataRowValue({ metadata__jsonb: { a: [1] } })).toEqual({
+            a: [1],
+        });
+        // Notification payloads can carry jsonb as text
+        expect(metadataRowValue({ metadata__jsonb: '{"a":1}' })).toEqual({
+            a: 1,
+        });
+        expect(metadataRowValue({ metadata__jsonb: "{not json" })).toBe(
+            "{not json",
+        );
+        expect(metadataRowValue({})).toBe(null);
+    });
+
+    test("Metadata rows only bear on selectors for their key", () => {
+        const selector = {
+            metadata: { key: "state", value: { open: true } },
+        };
+        expect(matchesMetadataRow({}, "state", null)).toBe(undefined);
+        expect(
+            matchesMetadataRow(selector, "color", {
+                metadata__text: "red",
+            }),
+        ).toBe(undefined);
+        expect(
+            matchesMetadataRow(selector, "state", {
+                metadata__jsonb: { open: true },
+            }),
+        ).toBe(true);
+        expect(
+            matchesMetadataRow(selector, "state", {
+                metadata__jsonb: { open: false },
+            }),
+        ).toBe(false);
+        // A deleted row no longer matches
+        expect(matchesMetadataRow(selector, "state", null)).toBe(false);
+    });
+
+    test("LIKE prefix patterns escape wildcards", () => {
+        expect(toLikePrefixPattern("door.")).toBe("door.%");
+        expect(toLikePrefixPattern("50%_off\\")).toBe("50\\%\\_off\\\\%");
+        expect(toLikePrefixPattern("")).toBe("%");
+    });
+});
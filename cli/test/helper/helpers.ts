@@ -2,8 +2,12 @@ import type { SQL } from "bun";
 import { sign } from "jsonwebtoken";
 import { expect } from "bun:test";
 import { BunLogModule } from "../../../sdk/vircadia-world-sdk-ts/bun/src/module/vircadia.common.bun.log.module";
+import { serverConfiguration } from "../../../sdk/vircadia-world-sdk-ts/bun/src/config/vircadia.server.config";
 import { cliConfiguration } from "../../vircadia.cli.config";
-import type { Auth } from "../../../sdk/vircadia-world-sdk-ts/schema/src/vircadia.schema.general";
+import {
+    type Auth,
+    Communication,
+} from "../../../sdk/vircadia-world-sdk-ts/schema/src/vircadia.schema.general";
 
 export const TEST_SYNC_GROUP = "public.REALTIME";
 export const DB_TEST_PREFIX = "RESERVED_vtw908ncjw98t3t8kgr8y9ngv3w8b_db_test_";
@@ -434,6 +438,16 @@ export async function cleanupTestAssets(data: {
     });
 }
 
+export async function cleanupTestSyncGroups(data: {
+    superUserSql: SQL;
+}): Promise<void> {
+    // Agent roles go with their sync group; entities in it have to go first
+    await data.superUserSql`
+        DELETE FROM auth.sync_groups
+        WHERE general__sync_group LIKE ${`${DB_TEST_PREFIX}%`}
+    `;
+}
+
 export async function runCliCommand(
     script: string,
     ...args: string[]
@@ -454,3 +468,186 @@ export async function runCliCommand(
 
     return { exitCode, stdout };
 }
+
+// Retries `check` until it stops throwing, for state a service applies asynchronously
+export async function eventually<T>(
+    check: () => Promise<T>,
+    timeoutMs = 5000,
+): Promise<T> {
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+        try {
+            return await check();
+        } catch (error) {
+            if (Date.now() > deadline) {
+                throw error;
+            }
+            await Bun.sleep(100);
+        }
+    }
+}
+
+// The WS manager as published on the host
+export function getWsManagerUrl(protocol: "http" | "ws"): string {
+    return `${protocol}://${serverConfiguration.VRCA_SERVER_SERVICE_WORLD_API_WS_MANAGER_HOST_CONTAINER_BIND_EXTERNAL}:${serverConfiguration.VRCA_SERVER_SERVICE_WORLD_API_WS_MANAGER_PORT_CONTAINER_BIND_EXTERNAL}`;
+}
+
+export interface TestWsMessage {
+    type: string;
+    requestId?: string;
+    errorMessage?: string | null;
+    [key: string]: unknown;
+}
+
+export interface TestWsClient {
+    ws: WebSocket;
+    sessionId: string;
+    connectionId: string;
+    // Every message received so far, oldest first
+    messages: TestWsMessage[];
+    closed: Promise<{ code: number; reason: string }>;
+    send(message: Record<string, unknown>): void;
+    // Resolves with the first message, received before or after the call, that matches
+    waitFor(
+        predicate: (message: TestWsMessage) => boolean,
+        timeoutMs?: number,
+    ): Promise<TestWsMessage>;
+    // Sends the message with a timestamp and a fresh requestId unless it has one, and resolves
+    // with the first reply carrying that requestId
+    request(
+        message: { type: string; [key: string]: unknown },
+        timeoutMs?: number,
+    ): Promise<TestWsMessage>;
+    close(): Promise<void>;
+}
+
+// Opens a WebSocket to the WS manager and waits for its SESSION_INFO_RESPONSE
+export async function connectTestWsClient(data: {
+    account: TestAccount;
+    provider?: string;
+    connectionId?: string;
+    timeoutMs?: number;
+}): Promise<TestWsClient> {
+    const url = new URL(
+        Communication.REST.Endpoint.WS_UPGRADE_REQUEST.path,
+        getWsManagerUrl("ws"),
+    );
+    url.searchParams.set("token", data.account.token);
+    url.searchParams.set(
+        "provider",
+        data.provider ?? SYSTEM_AUTH_PROVIDER_NAME,
+    );
+    if (data.connectionId) {
+        url.searchParams.set("connectionId", data.connectionId);
+    }
+
+    const ws = new WebSocket(url.toString());
+    const messages: TestWsMessage[] = [];
+    const waiters = new Set<{
+        predicate: (message: TestWsMessage) => boolean;
+        resolve: (message: TestWsMessage) => void;
+        reject: (error: Error) => void;
+    }>();
+    let closeEvent: { code: number; reason: string } | null = null;
+
+    ws.onmessage = (event) => {
+        const message = JSON.parse(String(event.data)) as TestWsMessage;
+        messages.push(message);
+        for (const waiter of waiters) {
+            if (waiter.predicate(message)) {
+                waiter.resolve(message);
+            }
+        }
+    };
+    const closed = new Promise<{ code: number; reason: string }>((resolve) => {
+        ws.onclose = (event) => {
+            closeEvent = { code: event.code, reason: event.reason };
+            for (const waiter of waiters) {
+                waiter.reject(
+                    new Error(
+                        `WebSocket closed (${event.code} ${event.reason}) before the expected message`,
+                    ),
+                );
+            }
+            resolve(closeEvent);
+        };
+    });
+
+    const waitFor = (
+        predicate: (message: TestWsMessage) => boolean,
+        timeoutMs = 5000,
+    ): Promise<TestWsMessage> => {
+        const received = messages.find(predicate);
+        if (received) {
+            return Promise.resolve(received);
+        }
+        if (closeEvent) {
+            return Promise.reject(
+                new Error(
+                    `WebSocket closed (${closeEvent.code} ${closeEvent.reason}) before the expected message`,
+                ),
+            );
+        }
+        return new Promise((resolve, reject) => {
+            const waiter = {
+                predicate,
+                resolve: (message: TestWsMessage) => {
+                    clearTimeout(timer);
+                    waiters.delete(waiter);
+                    resolve(message);
+                },
+                reject: (error: Error) => {
+                    clearTimeout(timer);
+                    waiters.delete(waiter);
+                    reject(error);
+                },
+            };
+            const timer = setTimeout(
+                () =>
+                    waiter.reject(
+                        new Error(
+                            `Timed out after ${timeoutMs} ms waiting for a WebSocket message`,
+                        ),
+                    ),
+                timeoutMs,
+            );
+            waiters.add(waiter);
+        });
+    };
+
+    const sessionInfo = await waitFor(
+        (message) =>
+            message.type ===
+            Communication.WebSocket.MessageType.SESSION_INFO_RESPONSE,
+        data.timeoutMs,
+    );
+
+    return {
+        ws,
+        sessionId: sessionInfo.sessionId as string,
+        connectionId: sessionInfo.connectionId as string,
+        messages,
+        closed,
+        send: (message) => ws.send(JSON.stringify(message)),
+        waitFor,
+        request: (message, timeoutMs) => {
+            const request = {
+                timestamp: Date.now(),
+                requestId: crypto.randomUUID(),
+                ...message,
+            };
+            const reply = waitFor(
+                (received) => received.requestId === request.requestId,
+                timeoutMs,
+            );
+            ws.send(JSON.stringify(request));
+            return reply;
+        },
+        close: async () => {
+            if (!closeEvent) {
+                ws.close();
+            }
+            await closed;
+        },
+    };
+}
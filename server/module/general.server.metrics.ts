@@ -0,0 +1,249 @@
+// OpenMetrics text exposition shared by the managers' /metrics routes
+// https://prometheus.io/docs/specs/om/open_metrics_spec/
+
+export const METRICS_PATH = "/metrics";
+export const OPENMETRICS_CONTENT_TYPE =
+    "application/openmetrics-text; version=1.0.0; charset=utf-8";
+
+export type MetricLabels = Record<string, string>;
+
+export interface MetricSample {
+    labels?: MetricLabels;
+    value: number;
+}
+
+// Seconds, from sub-millisecond ticks up to slow queries
+export const DURATION_BUCKETS_SECONDS = [
+    0.0005, 0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5,
+    10,
+];
+
+const labelKey = (labels: MetricLabels) =>
+    JSON.stringify(
+        Object.keys(labels)
+            .sort()
+            .map((name) => [name, labels[name]]),
+    );
+
+// A counter per label set
+export class LabeledCounter {
+    private values: Map<string, MetricSample> = new Map();
+
+    inc(labels: MetricLabels = {}, by = 1) {
+        const key = labelKey(labels);
+        const sample = this.values.get(key);
+        if (sample) {
+            sample.value += by;
+        } else {
+            this.values.set(key, { labels, value: by });
+        }
+    }
+
+    // Drops a label set that no longer exists, e.g. a deleted sync group
+    remove(labels: MetricLabels) {
+        this.values.delete(labelKey(labels));
+    }
+
+    samples(): MetricSample[] {
+        return Array.from(this.values.values());
+    }
+
+    reset() {
+        this.values.clear();
+    }
+}
+
+interface HistogramSeries {
+    labels: MetricLabels;
+    // Non-cumulative; the last slot counts observations above every bucket
+    counts: number[];
+    sum: number;
+    count: number;
+}
+
+// A histogram per label set
+export class Histogram {
+    private series: Map<string, HistogramSeries> = new Map();
+
+    constructor(
+        readonly buckets: readonly number[] = DURATION_BUCKETS_SECONDS,
+    ) {}
+
+    observe(value: number, labels: MetricLabels = {}) {
+        const key = labelKey(labels);
+        let series = this.series.get(key);
+        if (!series) {
+            series = {
+                labels,
+                counts: new Array(this.buckets.length + 1).fill(0),
+                sum: 0,
+                count: 0,
+            };
+            this.series.set(key, series);
+        }
+        const index = this.buckets.findIndex((bound) => value <= bound);
+        series.counts[index === -1 ? this.buckets.length : index]++;
+        series.sum += value;
+        series.count++;
+    }
+
+    // Drops a label set that no longer exists, e.g. a deleted sync group
+    remove(labels: MetricLabels) {
+        this.series.delete(labelKey(labels));
+    }
+
+    entries(): HistogramSeries[] {
+        return Array.from(this.series.values());
+    }
+
+    reset() {
+        this.series.clear();
+    }
+}
+
+const formatValue = (value: number) => {
+    if (Number.isNaN(value)) return "NaN";
+    if (value === Number.POSITIVE_INFINITY) return "+Inf";
+    if (value === Number.NEGATIVE_INFINITY) return "-Inf";
+    return String(value);
+};
+
+const escapeLabelValue = (value: string) =>
+    value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+const formatLabels = (labels: MetricLabels = {}) => {
+    const pairs = Object.entries(labels).map(
+        ([name, value]) => `${name}="${escapeLabelValue(value)}"`,
+    );
+    return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+};
+
+// Builds one exposition; metric names are prefixed with the manager's namespace
+export class OpenMetricsWriter {
+    private lines: string[] = [];
+
+    constructor(private readonly namespace: string) {}
+
+    counter(name: string, help: string, samples: number | MetricSample[]) {
+        const family = this.family(name, "counter", help);
+        for (const sample of this.toSamples(samples)) {
+            this.lines.push(
+                `${family}_total${formatLabels(sample.labels)} ${formatValue(sample.value)}`,
+            );
+        }
+    }
+
+    gauge(name: string, help: string, samples: number | MetricSample[]) {
+        const family = this.family(name, "gauge", help);
+        for (const sample of this.toSamples(samples)) {
+            this.lines.push(
+                `${family}${formatLabels(sample.labels)} ${formatValue(sample.value)}`,
+            );
+        }
+    }
+
+    histogram(name: string, help: string, histogram: Histogram) {
+        const family = this.family(name, "histogram", help);
+        for (const series of histogram.entries()) {
+            let cumulative = 0;
+            histogram.buckets.forEach((bound, index) => {
+                cumulative += series.counts[index];
+                this.lines.push(
+                    `${family}_bucket${formatLabels({ ...series.labels, le: formatValue(bound) })} ${cumulative}`,
+                );
+            });
+            this.lines.push(
+                `${family}_bucket${formatLabels({ ...series.labels, le: "+Inf" })} ${series.count}`,
+                `${family}_sum${formatLabels(series.labels)} ${formatValue(series.sum)}`,
+                `${family}_count${formatLabels(series.labels)} ${series.count}`,
+            );
+        }
+    }
+
+    // Standard process_* and nodejs_* families, which dashboards expect without a namespace
+    processMetrics() {
+        const startedAt = Date.now() - process.uptime() * 1000;
+        const cpu = process.cpuUsage();
+        const memory = process.memoryUsage();
+        const samples: Array<[string, "counter" | "gauge", string, number]> = [
+            [
+                "process_cpu_user_seconds",
+                "counter",
+                "User CPU time spent",
+                cpu.user / 1e6,
+            ],
+            [
+                "process_cpu_system_seconds",
+                "counter",
+                "System CPU time spent",
+                cpu.system / 1e6,
+            ],
+            [
+                "process_cpu_seconds",
+                "counter",
+                "Total user and system CPU time spent",
+                (cpu.user + cpu.system) / 1e6,
+            ],
+            [
+                "process_resident_memory_bytes",
+                "gauge",
+                "Resident memory size",
+                memory.rss,
+            ],
+            [
+                "process_start_time_seconds",
+                "gauge",
+                "Start time of the process since the epoch",
+                startedAt / 1000,
+            ],
+            [
+                "nodejs_heap_size_used_bytes",
+                "gauge",
+                "Heap in use",
+                memory.heapUsed,
+            ],
+            [
+                "nodejs_heap_size_total_bytes",
+                "gauge",
+                "Heap allocated",
+                memory.heapTotal,
+            ],
+            [
+                "nodejs_external_memory_bytes",
+                "gauge",
+                "Memory used by objects outside the heap",
+                memory.external,
+            ],
+        ];
+        for (const [name, type, help, value] of samples) {
+            this.lines.push(`# TYPE ${name} ${type}`, `# HELP ${name} ${help}`);
+            this.lines.push(
+                `${name}${type === "counter" ? "_total" : ""} ${formatValue(value)}`,
+            );
+        }
+    }
+
+    toString(): string {
+        return `${[...this.lines, "# EOF"].join("\n")}\n`;
+    }
+
+    toResponse(): Response {
+        return new Response(this.toString(), {
+            headers: { "Content-Type": OPENMETRICS_CONTENT_TYPE },
+        });
+    }
+
+    private family(
+        name: string,
+        type: "counter" | "gauge" | "histogram",
+        help: string,
+    ): string {
+        const family = `${this.namespace}_${name}`;
+        this.lines.push(`# TYPE ${family} ${type}`, `# HELP ${family} ${help}`);
+        return family;
+    }
+
+    private toSamples(samples: number | MetricSample[]): MetricSample[] {
+        return typeof samples === "number" ? [{ value: samples }] : samples;
+    }
+}
@@ -3,6 +3,10 @@
 // =============================================================================
 
 import type { Service } from "../../../../../../sdk/vircadia-world-sdk-ts/schema/src/vircadia.schema.general";
+import {
+    Histogram,
+    type OpenMetricsWriter,
+} from "../../../../../module/general.server.metrics";
 
 // =================================================================================
 // ================ METRICS COLLECTOR: Efficient Query Performance Tracking ==================
@@ -61,6 +65,8 @@ export class MetricsCollector {
     private endpointTotalTimes: Map<string, number> = new Map();
     private endpointTotalRequestSizes: Map<string, number> = new Map();
     private endpointTotalResponseSizes: Map<string, number> = new Map();
+    // Cumulative series for /metrics; the arrays above only keep recent samples
+    private endpointLatencySeconds = new Histogram();
 
     // Circular buffers for percentile calculations (keep last 1000 samples)
     private readonly MAX_SAMPLES = 1000;
@@ -199,6 +205,7 @@ export class MetricsCollector {
         success: boolean,
     ) {
         const currentSecond = Math.floor(Date.now() / 1000);
+        this.endpointLatencySeconds.observe(durationMs / 1000, { endpoint });
 
         // Track requests per second for this endpoint
         if (!this.endpointPerSecond.has(endpoint)) {
@@ -521,5 +528,40 @@ export class MetricsCollector {
         this.endpointTotalTimes.clear();
         this.endpointTotalRequestSizes.clear();
         this.endpointTotalResponseSizes.clear();
+        this.endpointLatencySeconds.reset();
+    }
+
+    writeOpenMetrics(writer: OpenMetricsWriter) {
+        const byEndpoint = (values: Map<string, number>) =>
+            Array.from(values, ([endpoint, value]) => ({
+                labels: { endpoint },
+                value,
+            }));
+
+        writer.histogram(
+            "request_duration_seconds",
+            "Time to handle a request",
+            this.endpointLatencySeconds,
+        );
+        writer.counter(
+            "requests",
+            "Requests handled",
+            byEndpoint(this.endpointRequestCounts),
+        );
+        writer.counter(
+            "request_failures",
+            "Requests that failed",
+            byEndpoint(this.endpointFailedCounts),
+        );
+        writer.counter(
+            "request_bytes",
+            "Request body bytes received",
+            byEndpoint(this.endpointTotalRequestSizes),
+        );
+        writer.counter(
+            "response_bytes",
+            "Response body bytes sent",
+            byEndpoint(this.endpointTotalResponseSizes),
+        );
     }
 }
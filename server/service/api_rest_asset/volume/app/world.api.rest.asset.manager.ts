@@ -15,6 +15,14 @@ import {
 } from "../../../../../sdk/vircadia-world-sdk-ts/bun/src/module/vircadia.server.auth.module";
 import type { Service } from "../../../../../sdk/vircadia-world-sdk-ts/schema/src/vircadia.schema.general";
 import { Communication } from "../../../../../sdk/vircadia-world-sdk-ts/schema/src/vircadia.schema.general";
+import {
+    METRICS_PATH,
+    OpenMetricsWriter,
+} from "../../../../module/general.server.metrics";
+import {
+    isDockerInternalIP,
+    isLocalhostIP,
+} from "../../../../module/general.server.util";
 import { MetricsCollector } from "./service/metrics";
 
 let legacySuperUserSql: Sql | null = null;
@@ -739,6 +747,33 @@ class WorldApiAssetManager {
                         return this.addCorsHeaders(response, req);
                     }
 
+                    if (url.pathname === METRICS_PATH && req.method === "GET") {
+                        const requestIP =
+                            req.headers.get("x-forwarded-for")?.split(",")[0] ||
+                            server.requestIP(req)?.address ||
+                            "";
+                        if (
+                            !isLocalhostIP(requestIP) &&
+                            !isDockerInternalIP(requestIP)
+                        ) {
+                            return new Response("Forbidden", { status: 403 });
+                        }
+                        const writer = new OpenMetricsWriter("vircadia_asset");
+                        writer.processMetrics();
+                        writer.gauge(
+                            "database_connected",
+                            "Whether the database connection is up",
+                            superUserSql ? 1 : 0,
+                        );
+                        writer.gauge(
+                            "cache_fetches_in_flight",
+                            "Assets being fetched into the disk cache",
+                            this.assetInFlight.size,
+                        );
+                        this.metricsCollector.writeOpenMetrics(writer);
+                        return writer.toResponse();
+                    }
+
                     // Stats (moved to official REST endpoint)
                     if (
                         url.pathname.startsWith(
@@ -3,6 +3,11 @@
 // =============================================================================
 
 import type { Service } from "../../../../../../sdk/vircadia-world-sdk-ts/schema/src/vircadia.schema.general";
+import {
+    Histogram,
+    LabeledCounter,
+    type OpenMetricsWriter,
+} from "../../../../../module/general.server.metrics";
 
 // =================================================================================
 // ================ METRICS COLLECTOR: Efficient Query Performance Tracking ==================
@@ -21,6 +26,13 @@ export class MetricsCollector {
     private totalConnections = 0;
     private failedConnections = 0;
 
+    // Endpoint series for /metrics
+    private endpointLatencySeconds = new Histogram();
+    private endpointRequests = new LabeledCounter();
+    private endpointFailures = new LabeledCounter();
+    private endpointRequestBytes = new LabeledCounter();
+    private endpointResponseBytes = new LabeledCounter();
+
     private readonly MAX_SAMPLES = 1000;
 
     private calculatePercentile(values: number[], percentile: number): number {
@@ -114,14 +126,48 @@ export class MetricsCollector {
             },
         };
     }
-    // Keep a no-op to preserve call sites in auth manager
     recordEndpoint(
-        _endpoint: string,
-        _durationMs: number,
-        _requestSizeBytes: number,
-        _responseSizeBytes: number,
-        _success: boolean,
-    ) {}
+        endpoint: string,
+        durationMs: number,
+        requestSizeBytes: number,
+        responseSizeBytes: number,
+        success: boolean,
+    ) {
+        const labels = { endpoint };
+        this.endpointLatencySeconds.observe(durationMs / 1000, labels);
+        this.endpointRequests.inc(labels);
+        if (!success) this.endpointFailures.inc(labels);
+        this.endpointRequestBytes.inc(labels, requestSizeBytes);
+        this.endpointResponseBytes.inc(labels, responseSizeBytes);
+    }
+
+    writeOpenMetrics(writer: OpenMetricsWriter) {
+        writer.histogram(
+            "request_duration_seconds",
+            "Time to handle a request",
+            this.endpointLatencySeconds,
+        );
+        writer.counter(
+            "requests",
+            "Requests handled",
+            this.endpointRequests.samples(),
+        );
+        writer.counter(
+            "request_failures",
+            "Requests that failed",
+            this.endpointFailures.samples(),
+        );
+        writer.counter(
+            "request_bytes",
+            "Request body bytes received",
+            this.endpointRequestBytes.samples(),
+        );
+        writer.counter(
+            "response_bytes",
+            "Response body bytes sent",
+            this.endpointResponseBytes.samples(),
+        );
+    }
 
     reset() {
         this.cpuUserTimes = [];
@@ -134,5 +180,10 @@ export class MetricsCollector {
         this.dbConnectionCounts = [];
         this.totalConnections = 0;
         this.failedConnections = 0;
+        this.endpointLatencySeconds.reset();
+        this.endpointRequests.reset();
+        this.endpointFailures.reset();
+        this.endpointRequestBytes.reset();
+        this.endpointResponseBytes.reset();
     }
 }
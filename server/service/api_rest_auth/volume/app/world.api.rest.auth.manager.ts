@@ -19,6 +19,10 @@ import {
     Auth,
     Communication,
 } from "../../../../../sdk/vircadia-world-sdk-ts/schema/src/vircadia.schema.general";
+import {
+    METRICS_PATH,
+    OpenMetricsWriter,
+} from "../../../../module/general.server.metrics";
 import {
     isDockerInternalIP,
     isLocalhostIP,
@@ -289,6 +293,28 @@ class WorldApiAuthManager {
                         return this.addCorsHeaders(response, req);
                     }
 
+                    if (url.pathname === METRICS_PATH && req.method === "GET") {
+                        const requestIP =
+                            req.headers.get("x-forwarded-for")?.split(",")[0] ||
+                            server.requestIP(req)?.address ||
+                            "";
+                        if (
+                            !isLocalhostIP(requestIP) &&
+                            !isDockerInternalIP(requestIP)
+                        ) {
+                            return new Response("Forbidden", { status: 403 });
+                        }
+                        const writer = new OpenMetricsWriter("vircadia_auth");
+                        writer.processMetrics();
+                        writer.gauge(
+                            "database_connected",
+                            "Whether the database connection is up",
+                            superUserSql ? 1 : 0,
+                        );
+                        this.metricsCollector.writeOpenMetrics(writer);
+                        return writer.toResponse();
+                    }
+
                     // Stats (moved to official REST endpoint)
                     if (
                         url.pathname.startsWith(
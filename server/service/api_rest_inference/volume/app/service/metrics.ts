@@ -2,6 +2,12 @@
 // ============================== IMPORTS, TYPES, AND INTERFACES ==============================
 // =============================================================================
 
+import {
+    Histogram,
+    LabeledCounter,
+    type OpenMetricsWriter,
+} from "../../../../../module/general.server.metrics";
+
 // =================================================================================
 // ================ METRICS COLLECTOR: Efficient Query Performance Tracking ==================
 // =================================================================================
@@ -35,6 +41,13 @@ export class MetricsCollector {
     private sttProcessingTimes: number[] = [];
     private ttsProcessingTimes: number[] = [];
 
+    // Cumulative series for /metrics; the arrays above only keep recent samples
+    private endpointLatencySeconds = new Histogram();
+    private endpointRequests = new LabeledCounter();
+    private endpointFailures = new LabeledCounter();
+    // Labeled by model kind: llm, stt or tts
+    private processingSeconds = new Histogram();
+
     private readonly MAX_SAMPLES = 1000;
 
     private calculatePercentile(values: number[], percentile: number): number {
@@ -129,12 +142,18 @@ export class MetricsCollector {
         };
     }
     recordEndpoint(
-        _endpoint: string,
+        endpoint: string,
         durationMs: number,
         _requestSizeBytes: number,
         _responseSizeBytes: number,
         success: boolean,
     ) {
+        this.endpointLatencySeconds.observe(durationMs / 1000, { endpoint });
+        this.endpointRequests.inc({ endpoint });
+        if (!success) {
+            this.endpointFailures.inc({ endpoint });
+        }
+
         this.inferenceRequests.push(durationMs);
         if (success) {
             this.inferenceSuccessCount++;
@@ -148,6 +167,9 @@ export class MetricsCollector {
     }
 
     recordLLMMetrics(processingTimeMs: number, tokensPerSecond?: number) {
+        this.processingSeconds.observe(processingTimeMs / 1000, {
+            kind: "llm",
+        });
         this.llmProcessingTimes.push(processingTimeMs);
         if (tokensPerSecond !== undefined) {
             this.llmTokensPerSecond.push(tokensPerSecond);
@@ -162,6 +184,9 @@ export class MetricsCollector {
     }
 
     recordSTTMetrics(processingTimeMs: number) {
+        this.processingSeconds.observe(processingTimeMs / 1000, {
+            kind: "stt",
+        });
         this.sttProcessingTimes.push(processingTimeMs);
         if (this.sttProcessingTimes.length >= this.MAX_SAMPLES) {
             this.sttProcessingTimes.shift();
@@ -169,6 +194,9 @@ export class MetricsCollector {
     }
 
     recordTTSMetrics(processingTimeMs: number) {
+        this.processingSeconds.observe(processingTimeMs / 1000, {
+            kind: "tts",
+        });
         this.ttsProcessingTimes.push(processingTimeMs);
         if (this.ttsProcessingTimes.length >= this.MAX_SAMPLES) {
             this.ttsProcessingTimes.shift();
@@ -233,5 +261,32 @@ export class MetricsCollector {
         this.llmTokensPerSecond = [];
         this.sttProcessingTimes = [];
         this.ttsProcessingTimes = [];
+        this.endpointLatencySeconds.reset();
+        this.endpointRequests.reset();
+        this.endpointFailures.reset();
+        this.processingSeconds.reset();
+    }
+
+    writeOpenMetrics(writer: OpenMetricsWriter) {
+        writer.histogram(
+            "request_duration_seconds",
+            "Time to handle a request",
+            this.endpointLatencySeconds,
+        );
+        writer.counter(
+            "requests",
+            "Requests handled",
+            this.endpointRequests.samples(),
+        );
+        writer.counter(
+            "request_failures",
+            "Requests that failed",
+            this.endpointFailures.samples(),
+        );
+        writer.histogram(
+            "processing_duration_seconds",
+            "Time the provider took to run the model",
+            this.processingSeconds,
+        );
     }
 }
@@ -9,6 +9,10 @@ import { BunLogModule } from "../../../../../sdk/vircadia-world-sdk-ts/bun/src/m
 import { BunPostgresClientModule } from "../../../../../sdk/vircadia-world-sdk-ts/bun/src/module/vircadia.common.bun.postgres.module";
 import { AclService } from "../../../../../sdk/vircadia-world-sdk-ts/bun/src/module/vircadia.server.auth.module";
 import { Communication } from "../../../../../sdk/vircadia-world-sdk-ts/schema/src/vircadia.schema.general";
+import {
+    METRICS_PATH,
+    OpenMetricsWriter,
+} from "../../../../module/general.server.metrics";
 import {
     isDockerInternalIP,
     isLocalhostIP,
@@ -275,6 +279,30 @@ class WorldApiInferenceManager {
                         return this.addCorsHeaders(response, req);
                     }
 
+                    if (url.pathname === METRICS_PATH && req.method === "GET") {
+                        const requestIP =
+                            req.headers.get("x-forwarded-for")?.split(",")[0] ||
+                            server.requestIP(req)?.address ||
+                            "";
+                        if (
+                            !isLocalhostIP(requestIP) &&
+                            !isDockerInternalIP(requestIP)
+                        ) {
+                            return new Response("Forbidden", { status: 403 });
+                        }
+                        const writer = new OpenMetricsWriter(
+                            "vircadia_inference",
+                        );
+                        writer.processMetrics();
+                        writer.gauge(
+                            "database_connected",
+                            "Whether the database connection is up",
+                            superUserSql ? 1 : 0,
+                        );
+                        this.metricsCollector.writeOpenMetrics(writer);
+                        return writer.toResponse();
+                    }
+
                     // Stats endpoint
                     if (
                         url.pathname.startsWith(
@@ -0,0 +1,41 @@
+import { z } from "zod";
+import { defineRpcHandler } from "../service/rpc";
+
+// Adds to an integer metadata value in one statement, so concurrent callers never lose an update
+// the way a METADATA_SET of a value read earlier would. A missing key starts from 0.
+export default defineRpcHandler({
+    method: "metadata.increment",
+    syncGroups: ["*"],
+    params: z.object({
+        entityName: z.string().trim().min(1),
+        metadataKey: z.string().trim().min(1),
+        by: z.number().int().default(1),
+    }),
+    result: z.object({ value: z.number().int() }),
+    timeoutMs: 2000,
+    handle: ({ entityName, metadataKey, by }, context) =>
+        context.withAgentContext(async (tx) => {
+            // RLS applies as the caller, so only entities they may update are touched
+            const rows = await tx<Array<{ metadata__int: string }>>`
+                INSERT INTO entity.entity_metadata (
+                    general__entity_name,
+                    metadata__key,
+                    metadata__int
+                ) VALUES (
+                    ${entityName},
+                    ${metadataKey},
+                    ${by}::BIGINT
+                )
+                ON CONFLICT (general__entity_name, metadata__key) DO UPDATE SET
+                    metadata__int = entity.entity_metadata.metadata__int + EXCLUDED.metadata__int
+                WHERE entity.entity_metadata.metadata__int IS NOT NULL
+                RETURNING metadata__int
+            `;
+            if (rows.length === 0) {
+                throw new Error(
+                    `Metadata ${metadataKey} on ${entityName} is not an integer`,
+                );
+            }
+            return { value: Number(rows[0].metadata__int) };
+        }),
+});
@@ -0,0 +1,78 @@
+// =============================================================================
+// ============================== IMPORTS, TYPES, AND INTERFACES ==============================
+// =============================================================================
+
+// Roles a channel ACL rule can name instead of a single agent (see auth.sync_group_channel_acls)
+export type ChannelAclRole = "anon" | "authenticated" | "admin";
+
+export type ChannelPermission = "read" | "publish";
+
+// One row of auth.sync_group_channel_acls; exactly one of agentId and role is set
+export interface ChannelAclRule {
+    pattern: string;
+    agentId: string | null;
+    role: ChannelAclRole | null;
+    canRead: boolean;
+    canPublish: boolean;
+}
+
+// =================================================================================
+// ================ CHANNEL ACL: Channel-level reflect and entity permissions ==================
+// =================================================================================
+
+// A channel name, a prefix ending in "*", or "*" for every channel
+export function matchesChannelPattern(
+    pattern: string,
+    channel: string,
+): boolean {
+    if (pattern.endsWith("*")) {
+        return channel.startsWith(pattern.slice(0, -1));
+    }
+    return pattern === channel;
+}
+
+// Whether any of a sync group's rules covers the channel, closing it to agents without a grant
+export function isChannelRestricted(
+    rules: readonly ChannelAclRule[],
+    channel: string,
+): boolean {
+    return rules.some((rule) => matchesChannelPattern(rule.pattern, channel));
+}
+
+// Channels no rule covers stay open; covered ones need a matching rule for the agent or one of its roles
+export function channelAllows(
+    rules: readonly ChannelAclRule[],
+    channel: string,
+    agentId: string,
+    roles: readonly ChannelAclRole[],
+    permission: ChannelPermission,
+): boolean {
+    let restricted = false;
+    for (const rule of rules) {
+        if (!matchesChannelPattern(rule.pattern, channel)) {
+            continue;
+        }
+        restricted = true;
+        const applies =
+            rule.agentId === agentId ||
+            (rule.role !== null && roles.includes(rule.role));
+        if (
+            applies &&
+            (permission === "read" ? rule.canRead : rule.canPublish)
+        ) {
+            return true;
+        }
+    }
+    return !restricted;
+}
+
+export function channelAclRolesOf(profile: {
+    isAdmin: boolean;
+    isAnon: boolean;
+}): ChannelAclRole[] {
+    const roles: ChannelAclRole[] = [profile.isAnon ? "anon" : "authenticated"];
+    if (profile.isAdmin) {
+        roles.push("admin");
+    }
+    return roles;
+}
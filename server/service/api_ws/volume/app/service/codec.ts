@@ -0,0 +1,99 @@
+// =============================================================================
+// ============================== IMPORTS, TYPES, AND INTERFACES ==============================
+// =============================================================================
+
+import { decode, encode } from "@msgpack/msgpack";
+
+// =================================================================================
+// ================ WS CODEC: Wire format negotiation and encoding ==================
+// =================================================================================
+
+export enum E_WsCodec {
+    JSON = "json",
+    MSGPACK = "msgpack",
+}
+
+export const DEFAULT_WS_CODEC = E_WsCodec.JSON;
+
+// Codecs that need their own pub/sub topics, since a topic publishes identical bytes to every subscriber
+export const BINARY_WS_CODECS: readonly E_WsCodec[] = [E_WsCodec.MSGPACK];
+
+// Resolve the `codec` upgrade parameter; null means the requested codec is not supported
+export function parseWsCodec(
+    value: string | null | undefined,
+): E_WsCodec | null {
+    if (value === null || value === undefined || value.trim() === "") {
+        return DEFAULT_WS_CODEC;
+    }
+    const normalized = value.trim().toLowerCase();
+    for (const codec of Object.values(E_WsCodec)) {
+        if (codec === normalized) {
+            return codec;
+        }
+    }
+    return null;
+}
+
+export function encodeWsMessage(
+    codec: E_WsCodec,
+    message: unknown,
+): string | Uint8Array {
+    switch (codec) {
+        case E_WsCodec.MSGPACK:
+            return encode(message, { ignoreUndefined: true });
+        default:
+            return JSON.stringify(message);
+    }
+}
+
+// Text frames are always JSON; binary frames use the session codec. Also decodes frames on the
+// client, where a browser socket with binaryType "arraybuffer" delivers ArrayBuffers.
+export function decodeWsMessage(
+    codec: E_WsCodec,
+    message: string | Uint8Array | ArrayBuffer,
+): unknown {
+    if (typeof message === "string") {
+        return JSON.parse(message);
+    }
+    const bytes =
+        message instanceof Uint8Array ? message : new Uint8Array(message);
+    switch (codec) {
+        case E_WsCodec.MSGPACK:
+            return decode(bytes);
+        default:
+            return JSON.parse(new TextDecoder().decode(bytes));
+    }
+}
+
+export function getEncodedByteLength(encoded: string | Uint8Array): number {
+    return typeof encoded === "string"
+        ? Buffer.byteLength(encoded)
+        : encoded.byteLength;
+}
+
+// A message that is encoded at most once per codec, however many topics or sockets it is sent to
+export class EncodedWsMessage {
+    private encoded = new Map<E_WsCodec, string | Uint8Array>();
+
+    constructor(
+        public readonly message: unknown,
+        json?: string,
+    ) {
+        if (json !== undefined) {
+            this.encoded.set(E_WsCodec.JSON, json);
+        }
+    }
+
+    get(codec: E_WsCodec): string | Uint8Array {
+        let encoded = this.encoded.get(codec);
+        if (encoded === undefined) {
+            encoded = encodeWsMessage(codec, this.message);
+            this.encoded.set(codec, encoded);
+        }
+        return encoded;
+    }
+
+    byteLength(codec: E_WsCodec = DEFAULT_WS_CODEC): number {
+        return getEncodedByteLength(this.get(codec));
+    }
+}
@@ -0,0 +1,106 @@
+// =============================================================================
+// ============================== IMPORTS, TYPES, AND INTERFACES ==============================
+// =============================================================================
+
+type Row = Record<string, unknown>;
+
+export interface MetadataRowDelta {
+    // Changed columns other than metadata__jsonb, with their new values
+    changes: Row;
+    // RFC 7386 merge patch for metadata__jsonb; absent when the column did not change
+    jsonbPatch?: unknown;
+}
+
+const JSONB_COLUMN = "metadata__jsonb";
+
+// =================================================================================
+// ================ METADATA DELTA: Row diffs and JSON merge patches ==================
+// =================================================================================
+
+function isPlainObject(value: unknown): value is Row {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function isDeepEqual(a: unknown, b: unknown): boolean {
+    if (a === b) {
+        return true;
+    }
+    if (Array.isArray(a) && Array.isArray(b)) {
+        return (
+            a.length === b.length &&
+            a.every((item, index) => isDeepEqual(item, b[index]))
+        );
+    }
+    if (isPlainObject(a) && isPlainObject(b)) {
+        const aKeys = Object.keys(a);
+        if (aKeys.length !== Object.keys(b).length) {
+            return false;
+        }
+        return aKeys.every(
+            (key) => Object.hasOwn(b, key) && isDeepEqual(a[key], b[key]),
+        );
+    }
+    return false;
+}
+
+// A merge patch reads null members as "remove", so values containing them cannot be sent as-is
+function containsObjectNull(value: unknown): boolean {
+    if (value === null) {
+        return true;
+    }
+    return (
+        isPlainObject(value) && Object.values(value).some(containsObjectNull)
+    );
+}
+
+// Build a merge patch that turns `previous` into `next`, or undefined when the change
+// cannot be expressed as one (see containsObjectNull)
+export function createMergePatch(previous: unknown, next: unknown): unknown {
+    if (!isPlainObject(previous) || !isPlainObject(next)) {
+        return containsObjectNull(next) ? undefined : next;
+    }
+
+    const patch: Row = {};
+    for (const key of Object.keys(previous)) {
+        if (!Object.hasOwn(next, key)) {
+            patch[key] = null;
+        }
+    }
+    for (const [key, value] of Object.entries(next)) {
+        const previousValue = previous[key];
+        if (Object.hasOwn(previous, key) && isDeepEqual(previousValue, value)) {
+            continue;
+        }
+        const nested = createMergePatch(previousValue, value);
+        if (nested === undefined) {
+            return undefined;
+        }
+        patch[key] = nested;
+    }
+    return patch;
+}
+
+// Diff two versions of an entity.entity_metadata row. metadata__jsonb travels as a
+// merge patch when possible and as a plain column change otherwise.
+export function diffMetadataRow(previous: Row, next: Row): MetadataRowDelta {
+    const delta: MetadataRowDelta = { changes: {} };
+    const columns = new Set([...Object.keys(previous), ...Object.keys(next)]);
+
+    for (const column of columns) {
+        const nextValue = next[column] ?? null;
+        const previousValue = previous[column] ?? null;
+        if (isDeepEqual(previousValue, nextValue)) {
+            continue;
+        }
+        if (column === JSONB_COLUMN && previousValue !== null) {
+            const patch = createMergePatch(previousValue, nextValue);
+            if (patch !== undefined) {
+                delta.jsonbPatch = patch;
+                continue;
+            }
+        }
+        delta.changes[column] = nextValue;
+    }
+
+    return delta;
+}
@@ -0,0 +1,264 @@
+// =============================================================================
+// ============================== IMPORTS, TYPES, AND INTERFACES ==============================
+// =============================================================================
+
+import { createHmac, timingSafeEqual } from "node:crypto";
+import type { Sql } from "postgres";
+import { z } from "zod";
+import { WsProtocol } from "./protocol";
+
+const Position = z.object({ x: z.number(), y: z.number(), z: z.number() });
+
+// Events exchanged between WS manager instances sharing the same database
+const FanoutEvent = z.discriminatedUnion("type", [
+    // Announces a live instance; unknown peers answer with their own heartbeat
+    z.object({ type: z.literal("instance_heartbeat") }),
+    // A connection opened on the origin instance; an older socket with the same connection id must close.
+    // `existing` re-announces an open connection to a new peer, which must not treat it as a reconnect
+    z.object({
+        type: z.literal("session_connected"),
+        sessionId: z.string(),
+        connectionId: z.string(),
+        connectedAt: z.number(),
+        existing: z.boolean().optional(),
+    }),
+    // A connection closed on the origin instance; its retained reflect messages expire
+    z.object({
+        type: z.literal("connection_closed"),
+        connectionId: z.string(),
+    }),
+    // A connection on the origin instance is present in the sync group, or its session's attributes changed
+    z.object({
+        type: z.literal("presence_join"),
+        syncGroup: z.string(),
+        connectionId: z.string(),
+        sessionId: z.string(),
+        agentId: z.string(),
+        attributes: WsProtocol.Z.PresenceAttributes.optional(),
+    }),
+    // A connection on the origin instance stopped reading the sync group
+    z.object({
+        type: z.literal("presence_leave"),
+        syncGroup: z.string(),
+        connectionId: z.string(),
+    }),
+    // An admin disconnected the matching sessions; every instance closes its connections
+    z.object({
+        type: z.literal("admin_disconnect"),
+        sessionId: z.string().optional(),
+        agentId: z.string().optional(),
+        reason: z.string(),
+    }),
+    // An admin asked for the connections of every manager; each answers with admin_sessions
+    z.object({
+        type: z.literal("admin_sessions_request"),
+        requestId: z.string(),
+        syncGroup: z.string().optional(),
+    }),
+    // Part of one manager's answer to admin_sessions_request, for the `to` instance only. Lists are
+    // split to fit the transport, and the last part has `done` set.
+    z.object({
+        type: z.literal("admin_sessions"),
+        requestId: z.string(),
+        to: z.string(),
+        sessions: z.array(WsProtocol.Z.AdminSession),
+        done: z.boolean(),
+    }),
+    // An admin announcement for local readers of the sync group
+    z.object({
+        type: z.literal("admin_announce"),
+        syncGroup: z.string(),
+        message: z.string(),
+        level: z.enum(WsProtocol.AnnouncementLevel),
+    }),
+    // An admin asked the matching connections to resubscribe
+    z.object({
+        type: z.literal("admin_resync"),
+        syncGroup: z.string().optional(),
+        sessionId: z.string().optional(),
+        agentId: z.string().optional(),
+        reason: z.string().optional(),
+    }),
+    // A reflect publish to enqueue for local subscribers of the sync group
+    z.object({
+        type: z.literal("reflect"),
+        syncGroup: z.string(),
+        channel: z.string(),
+        fromConnectionId: z.string(),
+        delivery: z.unknown(),
+        position: Position.optional(),
+        // Set for targeted publishes; only these sessions or connections receive it
+        targets: WsProtocol.Z.ReflectPublishTargets.optional(),
+    }),
+]);
+
+export type FanoutEvent = z.infer<typeof FanoutEvent>;
+
+const FanoutEnvelope = z.object({
+    // Instance id of the sender, so instances can skip their own events
+    origin: z.string().min(1),
+    event: FanoutEvent,
+});
+
+export type FanoutEnvelope = z.infer<typeof FanoutEnvelope>;
+
+export type FanoutHandler = (envelope: FanoutEnvelope) => void;
+
+// Called with payloads that were dropped because their signature or shape did not check out
+export type FanoutRejectHandler = (reason: string) => void;
+
+// Transport for cross-instance events. Delivery is best effort and unordered across origins.
+export interface FanoutBus {
+    start(
+        handler: FanoutHandler,
+        onReject?: FanoutRejectHandler,
+    ): Promise<void>;
+    // Resolves false when the envelope could not be sent (e.g. it is too large for the transport)
+    publish(envelope: FanoutEnvelope): Promise<boolean>;
+    stop(): Promise<void>;
+}
+
+export const WS_FANOUT_CHANNEL = "ws_fanout";
+
+// =================================================================================
+// ================ FANOUT: Cross-instance event buses ==================
+// =================================================================================
+
+// Postgres NOTIFY payloads must stay below 8000 bytes
+const MAX_NOTIFY_PAYLOAD_BYTES = 7900;
+
+// The signing key, derived from a credential every manager on the database already shares
+export function deriveFanoutSecret(credential: string): string {
+    return createHmac("sha256", credential)
+        .update(WS_FANOUT_CHANNEL)
+        .digest("hex");
+}
+
+// Any database role may NOTIFY, so payloads carry an HMAC over a secret only the managers know:
+// "<hex sha256 hmac>.<envelope json>"
+export function signFanoutPayload(secret: string, envelope: FanoutEnvelope) {
+    const body = JSON.stringify(envelope);
+    return `${createHmac("sha256", secret).update(body).digest("hex")}.${body}`;
+}
+
+// Fails for unsigned, forged or malformed payloads, giving the reason
+export function verifyFanoutPayload(
+    secret: string,
+    payload: string,
+):
+    | { success: true; envelope: FanoutEnvelope }
+    | { success: false; reason: string } {
+    const separator = payload.indexOf(".");
+    if (separator === -1) {
+        return { success: false, reason: "unsigned" };
+    }
+    const signature = Buffer.from(payload.slice(0, separator), "hex");
+    const body = payload.slice(separator + 1);
+    const expected = createHmac("sha256", secret).update(body).digest();
+    if (
+        signature.length !== expected.length ||
+        !timingSafeEqual(signature, expected)
+    ) {
+        return { success: false, reason: "bad signature" };
+    }
+    return parseFanoutEnvelope(body);
+}
+
+function parseFanoutEnvelope(
+    body: string,
+):
+    | { success: true; envelope: FanoutEnvelope }
+    | { success: false; reason: string } {
+    let json: unknown;
+    try {
+        json = JSON.parse(body);
+    } catch {
+        return { success: false, reason: "invalid JSON" };
+    }
+    const parsed = FanoutEnvelope.safeParse(json);
+    return parsed.success
+        ? { success: true, envelope: parsed.data }
+        : { success: false, reason: z.prettifyError(parsed.error) };
+}
+
+// Shares events between every manager connected to the same Postgres database
+export class PostgresFanoutBus implements FanoutBus {
+    private unlisten: (() => Promise<void>) | null = null;
+
+    constructor(
+        private readonly sql: Sql,
+        private readonly secret: string,
+        private readonly channel = WS_FANOUT_CHANNEL,
+    ) {
+        if (!secret) {
+            throw new Error("The fanout bus needs a secret to sign events");
+        }
+    }
+
+    async start(
+        handler: FanoutHandler,
+        onReject?: FanoutRejectHandler,
+    ): Promise<void> {
+        const subscription = await this.sql.listen(this.channel, (payload) => {
+            const result = verifyFanoutPayload(this.secret, payload);
+            if (result.success) {
+                handler(result.envelope);
+            } else {
+                onReject?.(result.reason);
+            }
+        });
+        this.unlisten = subscription.unlisten;
+    }
+
+    async publish(envelope: FanoutEnvelope): Promise<boolean> {
+        const payload = signFanoutPayload(this.secret, envelope);
+        if (Buffer.byteLength(payload) > MAX_NOTIFY_PAYLOAD_BYTES) {
+            return false;
+        }
+        await this.sql.notify(this.channel, payload);
+        return true;
+    }
+
+    async stop(): Promise<void> {
+        await this.unlisten?.();
+        this.unlisten = null;
+    }
+}
+
+const localHandlers = new Map<FanoutHandler, FanoutRejectHandler | undefined>();
+
+// In-process stand-in for a broker: connects managers running in the same process
+export class LocalFanoutBus implements FanoutBus {
+    private handler: FanoutHandler | null = null;
+
+    async start(
+        handler: FanoutHandler,
+        onReject?: FanoutRejectHandler,
+    ): Promise<void> {
+        this.handler = handler;
+        localHandlers.set(handler, onReject);
+    }
+
+    async publish(envelope: FanoutEnvelope): Promise<boolean> {
+        // Round-trip through JSON so receivers never share objects with the sender
+        const payload = JSON.stringify(envelope);
+        for (const [handler, onReject] of localHandlers) {
+            queueMicrotask(() => {
+                const result = parseFanoutEnvelope(payload);
+                if (result.success) {
+                    handler(result.envelope);
+                } else {
+                    onReject?.(result.reason);
+                }
+            });
+        }
+        return true;
+    }
+
+    async stop(): Promise<void> {
+        if (this.handler) {
+            localHandlers.delete(this.handler);
+            this.handler = null;
+        }
+    }
+}
@@ -0,0 +1,100 @@
+// =============================================================================
+// ============================== IMPORTS, TYPES, AND INTERFACES ==============================
+// =============================================================================
+
+export interface Vec3 {
+    x: number;
+    y: number;
+    z: number;
+}
+
+// Per sync group area-of-interest settings (auth.sync_groups.server__reflect__interest__*)
+export interface InterestConfig {
+    radius: number;
+    cellSize: number;
+}
+
+// =================================================================================
+// ================ INTEREST: Area-of-interest filtering for reflect fanout ==================
+// =================================================================================
+
+// Accept any object carrying finite numeric x/y/z (e.g. the `position` of an avatar_frame)
+export function parseInterestPosition(value: unknown): Vec3 | null {
+    if (typeof value !== "object" || value === null) {
+        return null;
+    }
+    const { x, y, z } = value as Record<string, unknown>;
+    if (
+        typeof x !== "number" ||
+        typeof y !== "number" ||
+        typeof z !== "number" ||
+        !Number.isFinite(x) ||
+        !Number.isFinite(y) ||
+        !Number.isFinite(z)
+    ) {
+        return null;
+    }
+    return { x, y, z };
+}
+
+// Uniform grid over session positions, rebuilt per tick flush
+export class InterestGrid<T> {
+    private cells = new Map<string, Array<{ item: T; position: Vec3 }>>();
+
+    constructor(private readonly config: InterestConfig) {}
+
+    private cellCoord(value: number): number {
+        return Math.floor(value / this.config.cellSize);
+    }
+
+    add(item: T, position: Vec3): void {
+        const key = `${this.cellCoord(position.x)}:${this.cellCoord(position.y)}:${this.cellCoord(position.z)}`;
+        let cell = this.cells.get(key);
+        if (!cell) {
+            cell = [];
+            this.cells.set(key, cell);
+        }
+        cell.push({ item, position });
+    }
+
+    // Items within the configured radius of `position`
+    within(position: Vec3): T[] {
+        const { radius } = this.config;
+        const radiusSquared = radius * radius;
+        const result: T[] = [];
+        const collect = (cell: Array<{ item: T; position: Vec3 }>) => {
+            for (const entry of cell) {
+                const dx = entry.position.x - position.x;
+                const dy = entry.position.y - position.y;
+                const dz = entry.position.z - position.z;
+                if (dx * dx + dy * dy + dz * dz <= radiusSquared) {
+                    result.push(entry.item);
+                }
+            }
+        };
+
+        // With a small cell size the neighbourhood can outnumber the occupied cells; scan those instead
+        const span = Math.ceil(radius / this.config.cellSize);
+        if ((2 * span + 1) ** 3 > this.cells.size) {
+            for (const cell of this.cells.values()) {
+                collect(cell);
+            }
+            return result;
+        }
+
+        const cx = this.cellCoord(position.x);
+        const cy = this.cellCoord(position.y);
+        const cz = this.cellCoord(position.z);
+        for (let x = cx - span; x <= cx + span; x++) {
+            for (let y = cy - span; y <= cy + span; y++) {
+                for (let z = cz - span; z <= cz + span; z++) {
+                    const cell = this.cells.get(`${x}:${y}:${z}`);
+                    if (cell) {
+                        collect(cell);
+                    }
+                }
+            }
+        }
+        return result;
+    }
+}
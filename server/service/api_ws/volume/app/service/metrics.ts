@@ -2,6 +2,12 @@
 // ============================== IMPORTS, TYPES, AND INTERFACES ==============================
 // =============================================================================
 
+import {
+    Histogram,
+    LabeledCounter,
+    type OpenMetricsWriter,
+} from "../../../../../module/general.server.metrics";
+
 // Local metric interfaces to avoid coupling to schema package types
 type SystemMetrics = { current: number; average: number; p99: number; p999: number };
 type QueryMetrics = {
@@ -34,6 +40,41 @@ type EndpointMetrics = {
 };
 type EndpointStats = { [endpoint: string]: EndpointMetrics };
 
+// Requests rejected by per-agent / per-sync-group rate limits
+type RateLimitMetrics = {
+    totalRejected: number;
+    rejectedPerSecond: { current: number; peak: number };
+    byLimit: { [scopeAndLimit: string]: number };
+};
+
+// Queries stopped before completing, by QUERY_CANCEL or the per-role statement timeout
+type QueryCancellationMetrics = {
+    total: number;
+    byReason: { client: number; timeout: number };
+};
+
+// Sockets whose send buffer backed up during delivery
+type SlowConsumerMetrics = {
+    detected: number;
+    recovered: number;
+    // Closed with the slow consumer close code
+    disconnected: number;
+    // Reflect deliveries replaced by a newer one from the same publisher while waiting
+    coalescedMessages: number;
+};
+
+// Cost of the WS heartbeat that re-validates connected sessions
+type HeartbeatMetrics = {
+    totalRuns: number;
+    // Runs skipped because the previous one was still waiting on the database
+    skippedRuns: number;
+    failedRuns: number;
+    durationMs: { lastMs: number; averageMs: number; p99Ms: number; p999Ms: number };
+    sessionsChecked: { last: number; total: number };
+    queries: { last: number; total: number };
+    sessionsClosed: number;
+};
+
 // Tick metrics exposed per sync group
 type TickComponentMetrics = {
     messagesPerTick: { average: number; p99: number; p999: number };
@@ -162,6 +203,42 @@ export class MetricsCollector {
         timestamp: number;
     }> = [];
 
+    // Rate limit rejections, keyed by "<scope>:<limit>"
+    private rateLimitRejections: Map<string, number> = new Map();
+    private rateLimitRejectedTotal = 0;
+    private rateLimitSecondStart = Math.floor(Date.now() / 1000);
+    private rateLimitRejectedThisSecond = 0;
+    private rateLimitRejectedLastSecond = 0;
+    private rateLimitPeakPerSecond = 0;
+
+    // Cancelled queries
+    private queryCancellations = { client: 0, timeout: 0 };
+
+    // Slow consumers
+    private slowConsumers = { detected: 0, recovered: 0, disconnected: 0 };
+    private slowConsumerCoalescedMessages = 0;
+
+    // Cumulative series for /metrics; the arrays above only keep recent samples
+    private queryLatencySeconds = new Histogram();
+    private endpointLatencySeconds = new Histogram();
+    private tickFlushSeconds = new Histogram();
+    private heartbeatSeconds = new Histogram();
+    // Labeled by sync_group and kind (reflect, entity or metadata)
+    private tickMessagesTotal = new LabeledCounter();
+    private tickDeliveriesTotal = new LabeledCounter();
+    private tickBytesTotal = new LabeledCounter();
+
+    // Session validation heartbeat
+    private heartbeatDurations: number[] = [];
+    private heartbeatRuns = 0;
+    private heartbeatSkippedRuns = 0;
+    private heartbeatFailedRuns = 0;
+    private heartbeatLastSessions = 0;
+    private heartbeatTotalSessions = 0;
+    private heartbeatLastQueries = 0;
+    private heartbeatTotalQueries = 0;
+    private heartbeatSessionsClosed = 0;
+
     // Activity tracking (pushers/subscribers) over a sliding time window
     private readonly MAX_ACTIVITY_WINDOW_SEC = 300; // cap at last 5 minutes
     private pusherActivityEvents: Array<{
@@ -424,6 +501,8 @@ export class MetricsCollector {
             this.endpointPerSecond.set(endpoint, 0);
         }
 
+        this.endpointLatencySeconds.observe(durationMs / 1000, { endpoint });
+
         // Record metrics for this endpoint
         const totalCount = this.endpointRequestCounts.get(endpoint) || 0;
         this.endpointRequestCounts.set(endpoint, totalCount + 1);
@@ -465,6 +544,106 @@ export class MetricsCollector {
         responseSizes.push(responseSizeBytes);
     }
 
+    // ========================= Rate Limits =========================
+    recordRateLimited(scope: string, limit: string) {
+        const currentSecond = Math.floor(Date.now() / 1000);
+        if (currentSecond !== this.rateLimitSecondStart) {
+            this.rateLimitRejectedLastSecond = this.rateLimitRejectedThisSecond;
+            this.rateLimitPeakPerSecond = Math.max(this.rateLimitPeakPerSecond, this.rateLimitRejectedThisSecond);
+            this.rateLimitRejectedThisSecond = 0;
+            this.rateLimitSecondStart = currentSecond;
+        }
+        this.rateLimitRejectedThisSecond++;
+        this.rateLimitRejectedTotal++;
+
+        const key = `${scope}:${limit}`;
+        this.rateLimitRejections.set(key, (this.rateLimitRejections.get(key) || 0) + 1);
+    }
+
+    getRateLimitMetrics(): RateLimitMetrics {
+        return {
+            totalRejected: this.rateLimitRejectedTotal,
+            rejectedPerSecond: {
+                current: this.rateLimitRejectedLastSecond,
+                peak: Math.max(this.rateLimitPeakPerSecond, this.rateLimitRejectedThisSecond),
+            },
+            byLimit: Object.fromEntries(this.rateLimitRejections),
+        };
+    }
+
+    // ========================= Query Latency =========================
+    recordQueryLatency(
+        durationMs: number,
+        outcome: "ok" | "error" | "cancelled" | "timeout",
+    ) {
+        this.queryLatencySeconds.observe(durationMs / 1000, { outcome });
+    }
+
+    // ========================= Query Cancellation =========================
+    recordQueryCancelled(reason: "client" | "timeout") {
+        this.queryCancellations[reason]++;
+    }
+
+    getQueryCancellationMetrics(): QueryCancellationMetrics {
+        return {
+            total: this.queryCancellations.client + this.queryCancellations.timeout,
+            byReason: { ...this.queryCancellations },
+        };
+    }
+
+    // ========================= Slow Consumers =========================
+    recordSlowConsumer(event: "detected" | "recovered" | "disconnected") {
+        this.slowConsumers[event]++;
+    }
+
+    recordSlowConsumerCoalesced() {
+        this.slowConsumerCoalescedMessages++;
+    }
+
+    getSlowConsumerMetrics(): SlowConsumerMetrics {
+        return { ...this.slowConsumers, coalescedMessages: this.slowConsumerCoalescedMessages };
+    }
+
+    // ========================= Heartbeat =========================
+    recordHeartbeat(durationMs: number, sessionsChecked: number, queries: number, sessionsClosed: number, success: boolean) {
+        this.heartbeatRuns++;
+        this.heartbeatSeconds.observe(durationMs / 1000);
+        if (!success) {
+            this.heartbeatFailedRuns++;
+        }
+        if (this.heartbeatDurations.length >= this.MAX_SAMPLES) {
+            this.heartbeatDurations.shift();
+        }
+        this.heartbeatDurations.push(durationMs);
+        this.heartbeatLastSessions = sessionsChecked;
+        this.heartbeatTotalSessions += sessionsChecked;
+        this.heartbeatLastQueries = queries;
+        this.heartbeatTotalQueries += queries;
+        this.heartbeatSessionsClosed += sessionsClosed;
+    }
+
+    recordHeartbeatSkipped() {
+        this.heartbeatSkippedRuns++;
+    }
+
+    getHeartbeatMetrics(): HeartbeatMetrics {
+        const durations = this.heartbeatDurations;
+        return {
+            totalRuns: this.heartbeatRuns,
+            skippedRuns: this.heartbeatSkippedRuns,
+            failedRuns: this.heartbeatFailedRuns,
+            durationMs: {
+                lastMs: durations[durations.length - 1] || 0,
+                averageMs: durations.length > 0 ? durations.reduce((a, b) => a + b, 0) / durations.length : 0,
+                p99Ms: this.calculatePercentile(durations, 99),
+                p999Ms: this.calculatePercentile(durations, 99.9),
+            },
+            sessionsChecked: { last: this.heartbeatLastSessions, total: this.heartbeatTotalSessions },
+            queries: { last: this.heartbeatLastQueries, total: this.heartbeatTotalQueries },
+            sessionsClosed: this.heartbeatSessionsClosed,
+        };
+    }
+
     // ========================= Tick (Consolidated Flush) =========================
     recordMetadataLatency(stage: {
         pingId?: number;
@@ -639,6 +818,20 @@ export class MetricsCollector {
         metadataDeliveredArr.push(metadataDelivered);
         metadataProcessingTimesArr.push(metadataProcessingTimeMs);
 
+        this.tickFlushSeconds.observe(durationMs / 1000, {
+            sync_group: syncGroup,
+        });
+        for (const [kind, messages, delivered, bytes] of [
+            ["reflect", reflectMessages, reflectDelivered, reflectBytes],
+            ["entity", entityMessages, entityDelivered, entityBytes],
+            ["metadata", metadataMessages, metadataDelivered, metadataBytes],
+        ] as const) {
+            const labels = { sync_group: syncGroup, kind };
+            this.tickMessagesTotal.inc(labels, messages);
+            this.tickDeliveriesTotal.inc(labels, delivered);
+            this.tickBytesTotal.inc(labels, bytes);
+        }
+
         this.tickCounts.set(syncGroup, (this.tickCounts.get(syncGroup) || 0) + 1);
         if (configuredRateMs > 0 && durationMs > configuredRateMs) {
             this.tickOverruns.set(
@@ -1079,5 +1272,183 @@ export class MetricsCollector {
 
         // Reset metadata latency tracking
         this.metadataLatencyStages = [];
+
+        // Reset rate limit tracking
+        this.rateLimitRejections.clear();
+        this.rateLimitRejectedTotal = 0;
+        this.rateLimitSecondStart = Math.floor(Date.now() / 1000);
+        this.rateLimitRejectedThisSecond = 0;
+        this.rateLimitRejectedLastSecond = 0;
+        this.rateLimitPeakPerSecond = 0;
+
+        // Reset query cancellation tracking
+        this.queryCancellations = { client: 0, timeout: 0 };
+
+        // Reset slow consumer tracking
+        this.slowConsumers = { detected: 0, recovered: 0, disconnected: 0 };
+        this.slowConsumerCoalescedMessages = 0;
+
+        // Reset heartbeat tracking
+        this.heartbeatDurations = [];
+        this.heartbeatRuns = 0;
+        this.heartbeatSkippedRuns = 0;
+        this.heartbeatFailedRuns = 0;
+        this.heartbeatLastSessions = 0;
+        this.heartbeatTotalSessions = 0;
+        this.heartbeatLastQueries = 0;
+        this.heartbeatTotalQueries = 0;
+        this.heartbeatSessionsClosed = 0;
+
+        // Reset /metrics series
+        this.queryLatencySeconds.reset();
+        this.endpointLatencySeconds.reset();
+        this.tickFlushSeconds.reset();
+        this.heartbeatSeconds.reset();
+        this.tickMessagesTotal.reset();
+        this.tickDeliveriesTotal.reset();
+        this.tickBytesTotal.reset();
+    }
+
+    // ========================= OpenMetrics =========================
+    writeOpenMetrics(writer: OpenMetricsWriter) {
+        const bySyncGroup = (values: Map<string, number>) =>
+            Array.from(values, ([syncGroup, value]) => ({
+                labels: { sync_group: syncGroup },
+                value,
+            }));
+        const byEndpoint = (values: Map<string, number>) =>
+            Array.from(values, ([endpoint, value]) => ({
+                labels: { endpoint },
+                value,
+            }));
+
+        writer.histogram(
+            "query_duration_seconds",
+            "Time to run QUERY_REQUEST, NAMED_QUERY_REQUEST and QUERY_PAGE_REQUEST queries",
+            this.queryLatencySeconds,
+        );
+        writer.counter(
+            "query_cancellations",
+            "Queries cancelled by the client or by a statement timeout",
+            [
+                {
+                    labels: { reason: "client" },
+                    value: this.queryCancellations.client,
+                },
+                {
+                    labels: { reason: "timeout" },
+                    value: this.queryCancellations.timeout,
+                },
+            ],
+        );
+
+        writer.histogram(
+            "request_duration_seconds",
+            "Time to handle a request",
+            this.endpointLatencySeconds,
+        );
+        writer.counter(
+            "requests",
+            "Requests handled",
+            byEndpoint(this.endpointRequestCounts),
+        );
+        writer.counter(
+            "request_failures",
+            "Requests that failed",
+            byEndpoint(this.endpointFailedCounts),
+        );
+
+        writer.histogram(
+            "tick_flush_duration_seconds",
+            "Time to flush a tick's queued deliveries",
+            this.tickFlushSeconds,
+        );
+        writer.counter("ticks", "Ticks flushed", bySyncGroup(this.tickCounts));
+        writer.counter(
+            "tick_overruns",
+            "Ticks whose flush took longer than the tick rate",
+            bySyncGroup(this.tickOverruns),
+        );
+        writer.counter(
+            "tick_messages",
+            "Messages queued for a tick",
+            this.tickMessagesTotal.samples(),
+        );
+        writer.counter(
+            "tick_deliveries",
+            "Messages delivered to sockets at a tick",
+            this.tickDeliveriesTotal.samples(),
+        );
+        writer.counter(
+            "tick_bytes",
+            "Bytes of messages flushed at a tick",
+            this.tickBytesTotal.samples(),
+        );
+
+        writer.counter(
+            "reflect_publishes",
+            "Reflect messages published",
+            this.reflectCount,
+        );
+        writer.counter(
+            "reflect_deliveries",
+            "Reflect deliveries to sockets",
+            this.reflectDeliveredCount,
+        );
+        writer.counter(
+            "reflect_acknowledged",
+            "Reflect publishes acknowledged to the sender",
+            this.reflectAcknowledgedCount,
+        );
+
+        writer.counter(
+            "rate_limit_rejections",
+            "Requests dropped by a rate limit",
+            Array.from(this.rateLimitRejections, ([key, value]) => {
+                const separator = key.indexOf(":");
+                return {
+                    labels: {
+                        scope: key.slice(0, separator),
+                        limit: key.slice(separator + 1),
+                    },
+                    value,
+                };
+            }),
+        );
+
+        writer.counter(
+            "slow_consumer_events",
+            "Sockets detected as, recovered from or disconnected as slow consumers",
+            Object.entries(this.slowConsumers).map(([event, value]) => ({
+                labels: { event },
+                value,
+            })),
+        );
+        writer.counter(
+            "slow_consumer_coalesced_messages",
+            "Reflect messages replaced by a newer one for a slow consumer",
+            this.slowConsumerCoalescedMessages,
+        );
+
+        writer.histogram(
+            "heartbeat_duration_seconds",
+            "Time to validate connected sessions",
+            this.heartbeatSeconds,
+        );
+        writer.counter(
+            "heartbeat_skipped_runs",
+            "Heartbeats skipped while the previous one was running",
+            this.heartbeatSkippedRuns,
+        );
+        writer.counter(
+            "heartbeat_failed_runs",
+            "Heartbeats that failed",
+            this.heartbeatFailedRuns,
+        );
+        writer.counter(
+            "heartbeat_sessions_closed",
+            "Sessions closed as expired or invalid",
+            this.heartbeatSessionsClosed,
+        );
     }
 }
@@ -0,0 +1,124 @@
+// =============================================================================
+// ============================== IMPORTS, TYPES, AND INTERFACES ==============================
+// =============================================================================
+
+import { z } from "zod";
+import type { ChannelAclRole } from "./channelacl";
+
+export enum E_NamedQueryParameterType {
+    STRING = "string",
+    NUMBER = "number",
+    INTEGER = "integer",
+    BOOLEAN = "boolean",
+    UUID = "uuid",
+    JSON = "json",
+}
+
+// One entry of config.named_queries.query__parameters; arguments bind to $1, $2, ... in list order
+const NamedQueryParameter = z.object({
+    name: z.string().min(1),
+    type: z.enum(E_NamedQueryParameterType),
+    required: z.boolean().default(true),
+});
+
+export type NamedQueryParameter = z.infer<typeof NamedQueryParameter>;
+
+export interface NamedQueryRow {
+    general__query_name: string;
+    query__sql: string;
+    query__parameters: unknown;
+    query__read_only: boolean;
+    auth__roles: ChannelAclRole[];
+    auth__agent_ids: string[];
+}
+
+export interface NamedQuery {
+    name: string;
+    sql: string;
+    parameters: NamedQueryParameter[];
+    readOnly: boolean;
+    roles: ChannelAclRole[];
+    agentIds: string[];
+}
+
+const ARGUMENT_SCHEMAS: Record<E_NamedQueryParameterType, z.ZodType> = {
+    [E_NamedQueryParameterType.STRING]: z.string(),
+    [E_NamedQueryParameterType.NUMBER]: z.number(),
+    [E_NamedQueryParameterType.INTEGER]: z.number().int(),
+    [E_NamedQueryParameterType.BOOLEAN]: z.boolean(),
+    [E_NamedQueryParameterType.UUID]: z.uuid(),
+    [E_NamedQueryParameterType.JSON]: z.json(),
+};
+
+// =================================================================================
+// ================ NAMED QUERY: Registry entries and argument binding ==================
+// =================================================================================
+
+// Throws when the row's parameter list is malformed, so a bad entry can be skipped on load
+export function toNamedQuery(row: NamedQueryRow): NamedQuery {
+    const parameters = z
+        .array(NamedQueryParameter)
+        .parse(
+            typeof row.query__parameters === "string"
+                ? JSON.parse(row.query__parameters)
+                : row.query__parameters,
+        );
+    return {
+        name: row.general__query_name,
+        sql: row.query__sql,
+        parameters,
+        readOnly: row.query__read_only,
+        roles: row.auth__roles,
+        agentIds: row.auth__agent_ids,
+    };
+}
+
+export function canRunNamedQuery(
+    query: NamedQuery,
+    agentId: string,
+    roles: readonly ChannelAclRole[],
+): boolean {
+    return (
+        query.agentIds.includes(agentId) ||
+        query.roles.some((role) => roles.includes(role))
+    );
+}
+
+// Positional values for the query's placeholders; throws with every problem found in `args`
+export function bindNamedQueryArgs(
+    query: NamedQuery,
+    args: Record<string, unknown>,
+): unknown[] {
+    const known = new Set(query.parameters.map((parameter) => parameter.name));
+    const problems = Object.keys(args)
+        .filter((name) => !known.has(name))
+        .map((name) => `${name}: unknown argument`);
+    const values: unknown[] = [];
+    for (const parameter of query.parameters) {
+        const value = args[parameter.name];
+        if (value === undefined || value === null) {
+            if (parameter.required) {
+                problems.push(`${parameter.name}: required`);
+            }
+            values.push(null);
+            continue;
+        }
+        const parsed = ARGUMENT_SCHEMAS[parameter.type].safeParse(value);
+        if (!parsed.success) {
+            problems.push(`${parameter.name}: expected ${parameter.type}`);
+            values.push(null);
+            continue;
+        }
+        values.push(
+            parameter.type === E_NamedQueryParameterType.JSON
+                ? JSON.stringify(parsed.data)
+                : parsed.data,
+        );
+    }
+    if (problems.length > 0) {
+        throw new Error(
+            `Invalid arguments for ${query.name}: ${problems.join("; ")}`,
+        );
+    }
+    return values;
+}
@@ -0,0 +1,136 @@
+// =============================================================================
+// ============================== IMPORTS, TYPES, AND INTERFACES ==============================
+// =============================================================================
+
+import { isDeepEqual } from "./delta";
+import type { WsProtocol } from "./protocol";
+
+// A connection, on this or another manager instance, that keeps its session present
+export interface PresenceConnection {
+    connectionId: string;
+    sessionId: string;
+    agentId: string;
+    instanceId: string;
+}
+
+interface PresenceEntry {
+    member: WsProtocol.PresenceMember;
+    // connectionId -> instance the connection lives on
+    connections: Map<string, string>;
+}
+
+// =================================================================================
+// ================ PRESENCE: Sessions present in each sync group ==================
+// =================================================================================
+
+// A session is present in a sync group while any of its connections reads the group
+export class PresenceRegistry {
+    // syncGroup -> sessionId -> entry
+    private groups: Map<string, Map<string, PresenceEntry>> = new Map();
+
+    // Adds the connection; `changed` is set when the session just joined or its attributes changed.
+    // Without `attributes` a present session keeps the ones it has.
+    join(
+        syncGroup: string,
+        connection: PresenceConnection,
+        attributes?: WsProtocol.PresenceAttributes,
+    ): { member: WsProtocol.PresenceMember; changed: boolean } {
+        let group = this.groups.get(syncGroup);
+        if (!group) {
+            group = new Map();
+            this.groups.set(syncGroup, group);
+        }
+        const entry = group.get(connection.sessionId);
+        if (!entry) {
+            const member = {
+                sessionId: connection.sessionId,
+                agentId: connection.agentId,
+                attributes: attributes ?? {},
+            };
+            group.set(connection.sessionId, {
+                member,
+                connections: new Map([
+                    [connection.connectionId, connection.instanceId],
+                ]),
+            });
+            return { member, changed: true };
+        }
+        entry.connections.set(connection.connectionId, connection.instanceId);
+        if (
+            attributes === undefined ||
+            isDeepEqual(entry.member.attributes, attributes)
+        ) {
+            return { member: entry.member, changed: false };
+        }
+        entry.member = { ...entry.member, attributes };
+        return { member: entry.member, changed: true };
+    }
+
+    // Removes the matching connections; returns the sessions that left as a result
+    leave(
+        isGone: (connectionId: string, instanceId: string) => boolean,
+        syncGroup?: string,
+    ): Array<{ syncGroup: string; sessionId: string }> {
+        const left: Array<{ syncGroup: string; sessionId: string }> = [];
+        for (const [groupName, group] of this.groups) {
+            if (syncGroup !== undefined && groupName !== syncGroup) {
+                continue;
+            }
+            for (const [sessionId, entry] of group) {
+                for (const [connectionId, instanceId] of entry.connections) {
+                    if (isGone(connectionId, instanceId)) {
+                        entry.connections.delete(connectionId);
+                    }
+                }
+                if (entry.connections.size === 0) {
+                    group.delete(sessionId);
+                    left.push({ syncGroup: groupName, sessionId });
+                }
+            }
+            if (group.size === 0) {
+                this.groups.delete(groupName);
+            }
+        }
+        return left;
+    }
+
+    members(syncGroup: string): WsProtocol.PresenceMember[] {
+        return Array.from(
+            this.groups.get(syncGroup)?.values() ?? [],
+            (entry) => entry.member,
+        );
+    }
+
+    // Sync groups the connection keeps its session present in
+    groupsOf(connectionId: string): string[] {
+        const groups: string[] = [];
+        for (const [syncGroup, group] of this.groups) {
+            for (const entry of group.values()) {
+                if (entry.connections.has(connectionId)) {
+                    groups.push(syncGroup);
+                    break;
+                }
+            }
+        }
+        return groups;
+    }
+
+    // Present sessions per sync group
+    countBySyncGroup(): Map<string, number> {
+        return new Map(
+            Array.from(this.groups, ([syncGroup, group]) => [
+                syncGroup,
+                group.size,
+            ]),
+        );
+    }
+
+    // Present sessions across all sync groups
+    count(): number {
+        let count = 0;
+        for (const group of this.groups.values()) {
+            count += group.size;
+        }
+        return count;
+    }
+}
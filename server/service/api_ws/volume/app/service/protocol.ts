@@ -0,0 +1,953 @@
+// =============================================================================
+// ============================== IMPORTS, TYPES, AND INTERFACES ==============================
+// =============================================================================
+
+import { z } from "zod";
+import { E_RateLimit, E_RateLimitScope } from "./ratelimit";
+
+// =================================================================================
+// ================ WS PROTOCOL: Manager-side message extensions ==================
+// =================================================================================
+
+// Message types handled by the WS manager in addition to the shared
+// Communication.WebSocket protocol. Shapes follow the same envelope
+// (type, timestamp, requestId, errorMessage) so clients can treat them uniformly.
+export namespace WsProtocol {
+    export enum MessageType {
+        ENTITY_UPSERT_REQUEST = "ENTITY_UPSERT_REQUEST",
+        ENTITY_UPSERT_RESPONSE = "ENTITY_UPSERT_RESPONSE",
+        ENTITY_DELETE_REQUEST = "ENTITY_DELETE_REQUEST",
+        ENTITY_DELETE_RESPONSE = "ENTITY_DELETE_RESPONSE",
+        ENTITY_GET_REQUEST = "ENTITY_GET_REQUEST",
+        ENTITY_GET_RESPONSE = "ENTITY_GET_RESPONSE",
+        METADATA_SET_REQUEST = "METADATA_SET_REQUEST",
+        METADATA_SET_RESPONSE = "METADATA_SET_RESPONSE",
+        METADATA_DELETE_REQUEST = "METADATA_DELETE_REQUEST",
+        METADATA_DELETE_RESPONSE = "METADATA_DELETE_RESPONSE",
+        METADATA_DELIVERY_MODE_REQUEST = "METADATA_DELIVERY_MODE_REQUEST",
+        METADATA_DELIVERY_MODE_RESPONSE = "METADATA_DELIVERY_MODE_RESPONSE",
+        METADATA_RESYNC_REQUEST = "METADATA_RESYNC_REQUEST",
+        METADATA_RESYNC_RESPONSE = "METADATA_RESYNC_RESPONSE",
+        ENTITY_METADATA_DELTA_DELIVERY = "ENTITY_METADATA_DELTA_DELIVERY",
+        INTEREST_POSITION_UPDATE_REQUEST = "INTEREST_POSITION_UPDATE_REQUEST",
+        INTEREST_POSITION_UPDATE_RESPONSE = "INTEREST_POSITION_UPDATE_RESPONSE",
+        RATE_LIMIT_EXCEEDED_RESPONSE = "RATE_LIMIT_EXCEEDED_RESPONSE",
+        SESSION_RESUME_REQUEST = "SESSION_RESUME_REQUEST",
+        SESSION_RESUME_RESPONSE = "SESSION_RESUME_RESPONSE",
+        ENTITY_QUERY_SUBSCRIBE_REQUEST = "ENTITY_QUERY_SUBSCRIBE_REQUEST",
+        ENTITY_QUERY_SUBSCRIBE_RESPONSE = "ENTITY_QUERY_SUBSCRIBE_RESPONSE",
+        ENTITY_QUERY_UNSUBSCRIBE_REQUEST = "ENTITY_QUERY_UNSUBSCRIBE_REQUEST",
+        ENTITY_QUERY_UNSUBSCRIBE_RESPONSE = "ENTITY_QUERY_UNSUBSCRIBE_RESPONSE",
+        SUBSCRIPTIONS_LIST_REQUEST = "SUBSCRIPTIONS_LIST_REQUEST",
+        SUBSCRIPTIONS_LIST_RESPONSE = "SUBSCRIPTIONS_LIST_RESPONSE",
+        UNSUBSCRIBE_ALL_REQUEST = "UNSUBSCRIBE_ALL_REQUEST",
+        UNSUBSCRIBE_ALL_RESPONSE = "UNSUBSCRIBE_ALL_RESPONSE",
+        NAMED_QUERY_REQUEST = "NAMED_QUERY_REQUEST",
+        NAMED_QUERY_RESPONSE = "NAMED_QUERY_RESPONSE",
+        QUERY_RESULT_CHUNK = "QUERY_RESULT_CHUNK",
+        QUERY_PAGE_REQUEST = "QUERY_PAGE_REQUEST",
+        QUERY_PAGE_RESPONSE = "QUERY_PAGE_RESPONSE",
+        QUERY_CANCEL_REQUEST = "QUERY_CANCEL_REQUEST",
+        QUERY_CANCEL_RESPONSE = "QUERY_CANCEL_RESPONSE",
+        PRESENCE_UPDATE_REQUEST = "PRESENCE_UPDATE_REQUEST",
+        PRESENCE_UPDATE_RESPONSE = "PRESENCE_UPDATE_RESPONSE",
+        PRESENCE_JOIN = "PRESENCE_JOIN",
+        PRESENCE_LEAVE = "PRESENCE_LEAVE",
+        PRESENCE_STATE = "PRESENCE_STATE",
+        RPC_REQUEST = "RPC_REQUEST",
+        RPC_RESPONSE = "RPC_RESPONSE",
+        TICK_SUBSCRIBE_REQUEST = "TICK_SUBSCRIBE_REQUEST",
+        TICK_SUBSCRIBE_RESPONSE = "TICK_SUBSCRIBE_RESPONSE",
+        TICK_DELIVERY = "TICK_DELIVERY",
+        CLOCK_SYNC_REQUEST = "CLOCK_SYNC_REQUEST",
+        CLOCK_SYNC_RESPONSE = "CLOCK_SYNC_RESPONSE",
+        ADMIN_SESSIONS_LIST_REQUEST = "ADMIN_SESSIONS_LIST_REQUEST",
+        ADMIN_SESSIONS_LIST_RESPONSE = "ADMIN_SESSIONS_LIST_RESPONSE",
+        ADMIN_DISCONNECT_REQUEST = "ADMIN_DISCONNECT_REQUEST",
+        ADMIN_DISCONNECT_RESPONSE = "ADMIN_DISCONNECT_RESPONSE",
+        ADMIN_ANNOUNCE_REQUEST = "ADMIN_ANNOUNCE_REQUEST",
+        ADMIN_ANNOUNCE_RESPONSE = "ADMIN_ANNOUNCE_RESPONSE",
+        ADMIN_RESYNC_REQUEST = "ADMIN_RESYNC_REQUEST",
+        ADMIN_RESYNC_RESPONSE = "ADMIN_RESYNC_RESPONSE",
+        SYSTEM_ANNOUNCEMENT = "SYSTEM_ANNOUNCEMENT",
+        RESYNC_REQUIRED = "RESYNC_REQUIRED",
+    }
+
+    // Which typed column of entity.entity_metadata a value is stored in
+    export enum MetadataValueType {
+        JSONB = "jsonb",
+        TEXT = "text",
+        INT = "int",
+        FLOAT = "float",
+        BOOL = "bool",
+    }
+
+    // How a connection receives entity metadata changes on its subscriptions
+    export enum MetadataDeliveryMode {
+        // ENTITY_METADATA_DELIVERY with the full row
+        FULL = "full",
+        // ENTITY_METADATA_DELTA_DELIVERY with only the changed fields and a version
+        DELTA = "delta",
+    }
+
+    // Application close codes (4000-4999) the manager closes sockets with
+    export enum CloseCode {
+        // The socket fell too far behind on deliveries; reconnect, then SESSION_RESUME_REQUEST
+        SLOW_CONSUMER = 4008,
+        // An admin disconnected the session; the close reason carries theirs
+        ADMIN_DISCONNECT = 4009,
+    }
+
+    export enum AnnouncementLevel {
+        INFO = "info",
+        WARNING = "warning",
+        CRITICAL = "critical",
+    }
+
+    const REQUEST_TYPES = new Set<string>([
+        MessageType.ENTITY_UPSERT_REQUEST,
+        MessageType.ENTITY_DELETE_REQUEST,
+        MessageType.ENTITY_GET_REQUEST,
+        MessageType.METADATA_SET_REQUEST,
+        MessageType.METADATA_DELETE_REQUEST,
+        MessageType.METADATA_DELIVERY_MODE_REQUEST,
+        MessageType.METADATA_RESYNC_REQUEST,
+        MessageType.INTEREST_POSITION_UPDATE_REQUEST,
+        MessageType.SESSION_RESUME_REQUEST,
+        MessageType.ENTITY_QUERY_SUBSCRIBE_REQUEST,
+        MessageType.ENTITY_QUERY_UNSUBSCRIBE_REQUEST,
+        MessageType.SUBSCRIPTIONS_LIST_REQUEST,
+        MessageType.UNSUBSCRIBE_ALL_REQUEST,
+        MessageType.NAMED_QUERY_REQUEST,
+        MessageType.QUERY_PAGE_REQUEST,
+        MessageType.QUERY_CANCEL_REQUEST,
+        MessageType.PRESENCE_UPDATE_REQUEST,
+        MessageType.RPC_REQUEST,
+        MessageType.TICK_SUBSCRIBE_REQUEST,
+        MessageType.CLOCK_SYNC_REQUEST,
+        MessageType.ADMIN_SESSIONS_LIST_REQUEST,
+        MessageType.ADMIN_DISCONNECT_REQUEST,
+        MessageType.ADMIN_ANNOUNCE_REQUEST,
+        MessageType.ADMIN_RESYNC_REQUEST,
+    ]);
+
+    export function isRequestType(type: unknown): boolean {
+        return typeof type === "string" && REQUEST_TYPES.has(type);
+    }
+
+    // Requests that read or write the database; each draws from the agent's query limits.
+    // NAMED_QUERY, QUERY_PAGE and RPC requests take their query slot themselves
+    const QUERY_LIMITED_REQUEST_TYPES = new Set<string>([
+        MessageType.ENTITY_UPSERT_REQUEST,
+        MessageType.ENTITY_DELETE_REQUEST,
+        MessageType.ENTITY_GET_REQUEST,
+        MessageType.METADATA_SET_REQUEST,
+        MessageType.METADATA_DELETE_REQUEST,
+        MessageType.METADATA_RESYNC_REQUEST,
+        MessageType.ENTITY_QUERY_SUBSCRIBE_REQUEST,
+    ]);
+
+    export function isQueryLimitedRequestType(type: unknown): boolean {
+        return (
+            typeof type === "string" && QUERY_LIMITED_REQUEST_TYPES.has(type)
+        );
+    }
+
+    const RequestBase = z.object({
+        timestamp: z.number(),
+        requestId: z.string(),
+        errorMessage: z.string().nullable().optional(),
+    });
+
+    const ResponseBase = z.object({
+        timestamp: z.number(),
+        requestId: z.string(),
+        errorMessage: z.string().nullable(),
+    });
+
+    const Row = z.record(z.string(), z.unknown());
+
+    const Position = z.object({
+        x: z.number(),
+        y: z.number(),
+        z: z.number(),
+    });
+
+    // Entity and metadata deliveries (ENTITY_DELIVERY, ENTITY_METADATA_DELIVERY and
+    // ENTITY_METADATA_DELTA_DELIVERY) carry a `seq` that increases with every change the
+    // manager publishes. All deliveries of one change share its seq.
+    const DeliverySeq = z.number().int().positive();
+
+    const EntityName = z.string().trim().min(1);
+    const MetadataKey = z.string().trim().min(1);
+
+    // Metadata row paired with the delta version it corresponds to
+    const VersionedMetadata = z.object({
+        metadataKey: z.string(),
+        // Deltas with a higher version apply on top of this row
+        version: z.number().int().nonnegative(),
+        data: Row,
+    });
+
+    const EntityQuerySelector = z.object({
+        entityNamePrefix: z.string().min(1).optional(),
+        syncGroup: z.string().trim().min(1).optional(),
+        metadata: z
+            .object({
+                key: MetadataKey,
+                value: z.json(),
+            })
+            .optional(),
+    });
+
+    export namespace Z {
+        export const EntityUpsertRequest = RequestBase.extend({
+            type: z.literal(MessageType.ENTITY_UPSERT_REQUEST),
+            entityName: EntityName,
+            syncGroup: z.string().trim().min(1).optional(),
+            // null clears the channel, undefined leaves it untouched
+            channel: z.string().trim().min(1).nullable().optional(),
+            loadPriority: z.number().int().optional(),
+            semanticVersion: z.string().trim().min(1).optional(),
+            expiryDeleteSinceUpdatedAtMs: z
+                .number()
+                .int()
+                .nonnegative()
+                .nullable()
+                .optional(),
+            expiryDeleteSinceCreatedAtMs: z
+                .number()
+                .int()
+                .nonnegative()
+                .nullable()
+                .optional(),
+            // When true, an existing entity is left unchanged (insert-only)
+            onlyIfMissing: z.boolean().optional(),
+        });
+
+        export const EntityUpsertResponse = ResponseBase.extend({
+            type: z.literal(MessageType.ENTITY_UPSERT_RESPONSE),
+            entityName: z.string(),
+            created: z.boolean(),
+            entity: Row.nullable(),
+        });
+
+        export const EntityDeleteRequest = RequestBase.extend({
+            type: z.literal(MessageType.ENTITY_DELETE_REQUEST),
+            entityName: EntityName,
+        });
+
+        export const EntityDeleteResponse = ResponseBase.extend({
+            type: z.literal(MessageType.ENTITY_DELETE_RESPONSE),
+            entityName: z.string(),
+            deleted: z.boolean(),
+        });
+
+        export const EntityGetRequest = RequestBase.extend({
+            type: z.literal(MessageType.ENTITY_GET_REQUEST),
+            entityName: EntityName,
+            includeMetadata: z.boolean().optional(),
+            // Restrict returned metadata to these keys (all readable keys when omitted)
+            metadataKeys: z.array(MetadataKey).optional(),
+        });
+
+        export const EntityGetResponse = ResponseBase.extend({
+            type: z.literal(MessageType.ENTITY_GET_RESPONSE),
+            entityName: z.string(),
+            entity: Row.nullable(),
+            metadata: z.array(Row),
+        });
+
+        export const MetadataSetRequest = RequestBase.extend({
+            type: z.literal(MessageType.METADATA_SET_REQUEST),
+            entityName: EntityName,
+            metadataKey: MetadataKey,
+            value: z.unknown(),
+            valueType: z.enum(MetadataValueType).optional(),
+            expiryDeleteSinceUpdatedAtMs: z
+                .number()
+                .int()
+                .nonnegative()
+                .nullable()
+                .optional(),
+            expiryDeleteSinceCreatedAtMs: z
+                .number()
+                .int()
+                .nonnegative()
+                .nullable()
+                .optional(),
+        });
+
+        export const MetadataSetResponse = ResponseBase.extend({
+            type: z.literal(MessageType.METADATA_SET_RESPONSE),
+            entityName: z.string(),
+            metadataKey: z.string(),
+            metadata: Row.nullable(),
+        });
+
+        export const MetadataDeleteRequest = RequestBase.extend({
+            type: z.literal(MessageType.METADATA_DELETE_REQUEST),
+            entityName: EntityName,
+            metadataKey: MetadataKey,
+        });
+
+        export const MetadataDeleteResponse = ResponseBase.extend({
+            type: z.literal(MessageType.METADATA_DELETE_RESPONSE),
+            entityName: z.string(),
+            metadataKey: z.string(),
+            deleted: z.boolean(),
+        });
+
+        export const MetadataDeliveryModeRequest = RequestBase.extend({
+            type: z.literal(MessageType.METADATA_DELIVERY_MODE_REQUEST),
+            mode: z.enum(MetadataDeliveryMode),
+        });
+
+        export const MetadataDeliveryModeResponse = ResponseBase.extend({
+            type: z.literal(MessageType.METADATA_DELIVERY_MODE_RESPONSE),
+            mode: z.enum(MetadataDeliveryMode),
+        });
+
+        export const MetadataResyncRequest = RequestBase.extend({
+            type: z.literal(MessageType.METADATA_RESYNC_REQUEST),
+            entityName: EntityName,
+            // Resync only these keys (all readable keys when omitted)
+            metadataKeys: z.array(MetadataKey).optional(),
+        });
+
+        export const MetadataResyncResponse = ResponseBase.extend({
+            type: z.literal(MessageType.METADATA_RESYNC_RESPONSE),
+            entityName: z.string(),
+            metadata: z.array(VersionedMetadata),
+        });
+
+        // Published to delta-mode subscribers instead of ENTITY_METADATA_DELIVERY.
+        // Versions count up by one per entity+metadataKey; a gap means a delivery
+        // was missed and the client should send METADATA_RESYNC_REQUEST.
+        export const EntityMetadataDeltaDelivery = ResponseBase.extend({
+            type: z.literal(MessageType.ENTITY_METADATA_DELTA_DELIVERY),
+            entityName: z.string(),
+            metadataKey: z.string(),
+            operation: z.string(),
+            syncGroup: z.string(),
+            channel: z.string().nullable(),
+            seq: DeliverySeq,
+            version: z.number().int().positive(),
+            // When true, `data` holds the full row and replaces any local state (version may restart)
+            full: z.boolean(),
+            data: Row.optional(),
+            // Changed columns other than metadata__jsonb
+            changes: Row.optional(),
+            // RFC 7386 merge patch for metadata__jsonb
+            jsonbPatch: z.unknown().optional(),
+        });
+
+        // Report where this session is within a sync group, for area-of-interest reflect filtering.
+        // Reflect payloads with a `position` field update it implicitly.
+        export const InterestPositionUpdateRequest = RequestBase.extend({
+            type: z.literal(MessageType.INTEREST_POSITION_UPDATE_REQUEST),
+            syncGroup: z.string().trim().min(1),
+            // null forgets the position, so the session receives every delivery again
+            position: Position.nullable(),
+        });
+
+        export const InterestPositionUpdateResponse = ResponseBase.extend({
+            type: z.literal(MessageType.INTEREST_POSITION_UPDATE_RESPONSE),
+            syncGroup: z.string(),
+            position: Position.nullable(),
+            // null when the sync group does not filter by interest
+            interestRadius: z.number().nullable(),
+        });
+
+        // Sent instead of the normal response when a request is rejected by a rate limit
+        export const RateLimitExceededResponse = ResponseBase.extend({
+            type: z.literal(MessageType.RATE_LIMIT_EXCEEDED_RESPONSE),
+            // Type of the rejected request, e.g. QUERY_REQUEST
+            requestType: z.string(),
+            scope: z.enum(E_RateLimitScope),
+            limit: z.enum(E_RateLimit),
+            // null when retrying the same request cannot succeed until other requests finish or limits change
+            retryAfterMs: z.number().int().nonnegative().nullable(),
+        });
+
+        // Extra fields accepted on the shared ENTITY_CHANNEL_SUBSCRIBE_REQUEST
+        export const EntityChannelSubscribeOptions = z.object({
+            // Return the current entity and readable metadata with the response
+            snapshot: z.boolean().optional(),
+        });
+
+        // Added to ENTITY_CHANNEL_SUBSCRIBE_RESPONSE as `snapshot` when requested. Deliveries
+        // with a seq at or below `seq` are already reflected in it and can be dropped.
+        export const EntityChannelSnapshot = z.object({
+            seq: z.number().int().nonnegative(),
+            entity: Row.nullable(),
+            // Limited to the subscribed channel when there is one
+            metadata: z.array(VersionedMetadata),
+        });
+
+        // Extra fields accepted on the shared REFLECT_PUBLISH_REQUEST. When either list is given the
+        // message only reaches those sessions' or connections' sockets, instead of the whole sync group.
+        export const ReflectPublishTargets = z.object({
+            targetSessionIds: z.array(z.string()).max(256).optional(),
+            targetConnectionIds: z.array(z.string()).max(256).optional(),
+        });
+
+        // Sent after reconnecting with the same session to pick up where the previous socket left off
+        export const SessionResumeRequest = RequestBase.extend({
+            type: z.literal(MessageType.SESSION_RESUME_REQUEST),
+            // Highest delivery seq the client received, 0 if none
+            lastSeq: z.number().int().nonnegative(),
+            // Connection to pick up from (see SESSION_INFO_RESPONSE); the session's most
+            // recently closed connection when omitted
+            connectionId: z.string().optional(),
+        });
+
+        export const SessionResumeResponse = ResponseBase.extend({
+            type: z.literal(MessageType.SESSION_RESUME_RESPONSE),
+            // When false nothing was restored; re-subscribe and refetch state before relying on deliveries
+            resumed: z.boolean(),
+            // Deliveries re-sent ahead of this response
+            replayed: z.number().int().nonnegative(),
+            // Latest seq published by the manager
+            lastSeq: z.number().int().nonnegative(),
+            // Subscriptions restored on this connection
+            topics: z.array(z.string()),
+        });
+
+        // Follow every readable entity matching the selector, including ones that match later.
+        // Deliveries arrive as ENTITY_DELIVERY / ENTITY_METADATA_DELIVERY like a channel subscription.
+        export const EntityQuerySubscribeRequest = RequestBase.extend({
+            type: z.literal(MessageType.ENTITY_QUERY_SUBSCRIBE_REQUEST),
+            selector: EntityQuerySelector.refine(
+                (selector) =>
+                    selector.entityNamePrefix !== undefined ||
+                    selector.syncGroup !== undefined ||
+                    selector.metadata !== undefined,
+                "selector needs at least one of entityNamePrefix, syncGroup or metadata",
+            ),
+            // Channel to follow on matched entities (all channels when omitted)
+            channel: z.string().trim().min(1).nullable().optional(),
+        });
+
+        export const EntityQuerySubscribeResponse = ResponseBase.extend({
+            type: z.literal(MessageType.ENTITY_QUERY_SUBSCRIBE_RESPONSE),
+            subscriptionId: z.string().nullable(),
+            // Entities matching when the subscription was made
+            entityNames: z.array(z.string()),
+        });
+
+        export const EntityQueryUnsubscribeRequest = RequestBase.extend({
+            type: z.literal(MessageType.ENTITY_QUERY_UNSUBSCRIBE_REQUEST),
+            subscriptionId: z.string(),
+        });
+
+        export const EntityQueryUnsubscribeResponse = ResponseBase.extend({
+            type: z.literal(MessageType.ENTITY_QUERY_UNSUBSCRIBE_RESPONSE),
+            subscriptionId: z.string(),
+            unsubscribed: z.boolean(),
+        });
+
+        export const SubscriptionsListRequest = RequestBase.extend({
+            type: z.literal(MessageType.SUBSCRIPTIONS_LIST_REQUEST),
+        });
+
+        export const SubscriptionsListResponse = ResponseBase.extend({
+            type: z.literal(MessageType.SUBSCRIPTIONS_LIST_RESPONSE),
+            // Topics this connection is subscribed to, including reflect topics
+            topics: z.array(z.string()),
+            entityQueries: z.array(
+                z.object({
+                    subscriptionId: z.string(),
+                    selector: EntityQuerySelector,
+                    channel: z.string().nullable(),
+                    entityCount: z.number().int().nonnegative(),
+                }),
+            ),
+        });
+
+        // Drops every entity, metadata and tick subscription of this connection, including
+        // entity query subscriptions. Reflect topics follow the agent's sync groups and are kept.
+        export const UnsubscribeAllRequest = RequestBase.extend({
+            type: z.literal(MessageType.UNSUBSCRIBE_ALL_REQUEST),
+        });
+
+        export const UnsubscribeAllResponse = ResponseBase.extend({
+            type: z.literal(MessageType.UNSUBSCRIBE_ALL_RESPONSE),
+            topics: z.number().int().nonnegative(),
+            entityQueries: z.number().int().nonnegative(),
+        });
+
+        // Runs a query registered in config.named_queries as the calling agent
+        export const NamedQueryRequest = RequestBase.extend({
+            type: z.literal(MessageType.NAMED_QUERY_REQUEST),
+            name: z.string().min(1),
+            // Arguments by parameter name
+            args: z.record(z.string(), z.json()).default({}),
+        });
+
+        export const NamedQueryResponse = ResponseBase.extend({
+            type: z.literal(MessageType.NAMED_QUERY_RESPONSE),
+            name: z.string(),
+            result: z.array(Row),
+        });
+
+        // Extra fields accepted on the shared QUERY_REQUEST. Either mode reads the result through a
+        // server-side cursor instead of buffering it, so it only works for SELECT, VALUES and WITH queries.
+        export const QueryRequestOptions = z
+            .object({
+                // Answer with the first page of this many rows and a `cursor` for QUERY_PAGE_REQUEST
+                pageSize: z.number().int().positive().optional(),
+                // Send the rows in QUERY_RESULT_CHUNK messages, then a QUERY_RESPONSE without rows
+                stream: z.boolean().optional(),
+                chunkSize: z.number().int().positive().optional(),
+            })
+            .refine((options) => !(options.pageSize && options.stream), {
+                message: "pageSize and stream cannot be combined",
+            });
+
+        // Added to QUERY_RESPONSE after paging or streaming
+        export const QueryResponseExtras = z.object({
+            // Paged: pass to QUERY_PAGE_REQUEST for the next page; null once the result is exhausted
+            cursor: z.string().nullable().optional(),
+            // Streamed: rows sent in chunks, and whether the stream stopped at the manager's row cap
+            rowCount: z.number().int().nonnegative().optional(),
+            truncated: z.boolean().optional(),
+        });
+
+        // One slice of a streamed QUERY_REQUEST result, sent before its QUERY_RESPONSE
+        export const QueryResultChunk = z.object({
+            type: z.literal(MessageType.QUERY_RESULT_CHUNK),
+            timestamp: z.number(),
+            // requestId of the QUERY_REQUEST being streamed
+            requestId: z.string(),
+            errorMessage: z.null(),
+            // Position of this chunk in the stream, from 0
+            index: z.number().int().nonnegative(),
+            rows: z.array(Row),
+        });
+
+        export const QueryPageRequest = RequestBase.extend({
+            type: z.literal(MessageType.QUERY_PAGE_REQUEST),
+            cursor: z.string(),
+            // Defaults to the pageSize the cursor was opened with
+            pageSize: z.number().int().positive().optional(),
+            // Release the cursor without reading further
+            close: z.boolean().optional(),
+        });
+
+        export const QueryPageResponse = ResponseBase.extend({
+            type: z.literal(MessageType.QUERY_PAGE_RESPONSE),
+            // null once the result is exhausted or the cursor was closed
+            cursor: z.string().nullable(),
+            result: z.array(Row),
+        });
+
+        export const QueryCancelRequest = RequestBase.extend({
+            type: z.literal(MessageType.QUERY_CANCEL_REQUEST),
+            // requestId of an in-flight QUERY_REQUEST, NAMED_QUERY_REQUEST or QUERY_PAGE_REQUEST on this connection
+            targetRequestId: z.string(),
+        });
+
+        export const QueryCancelResponse = ResponseBase.extend({
+            type: z.literal(MessageType.QUERY_CANCEL_RESPONSE),
+            targetRequestId: z.string(),
+            // false when the request had already finished or was never seen
+            cancelled: z.boolean(),
+        });
+
+        // Shown to the other sessions of every sync group the session is present in
+        export const PresenceAttributes = z.object({
+            displayName: z.string().trim().max(128).optional(),
+            avatarModel: z.string().max(2048).optional(),
+        });
+
+        export const PresenceMember = z.object({
+            sessionId: z.string(),
+            agentId: z.string(),
+            attributes: PresenceAttributes,
+        });
+
+        // Replaces the session's presence attributes
+        export const PresenceUpdateRequest = RequestBase.extend({
+            type: z.literal(MessageType.PRESENCE_UPDATE_REQUEST),
+            attributes: PresenceAttributes,
+        });
+
+        export const PresenceUpdateResponse = ResponseBase.extend({
+            type: z.literal(MessageType.PRESENCE_UPDATE_RESPONSE),
+            attributes: PresenceAttributes,
+        });
+
+        // A session became present in the sync group, or a present session changed its attributes
+        export const PresenceJoin = ResponseBase.extend({
+            type: z.literal(MessageType.PRESENCE_JOIN),
+            syncGroup: z.string(),
+            member: PresenceMember,
+        });
+
+        // The session's last connection reading the sync group went away
+        export const PresenceLeave = ResponseBase.extend({
+            type: z.literal(MessageType.PRESENCE_LEAVE),
+            syncGroup: z.string(),
+            sessionId: z.string(),
+        });
+
+        // Everyone present in the sync group, sent when the connection starts reading it
+        export const PresenceState = ResponseBase.extend({
+            type: z.literal(MessageType.PRESENCE_STATE),
+            syncGroup: z.string(),
+            members: z.array(PresenceMember),
+        });
+
+        // Calls a server-side handler; params and result are checked against the handler's schemas
+        export const RpcRequest = RequestBase.extend({
+            type: z.literal(MessageType.RPC_REQUEST),
+            method: z.string().min(1),
+            syncGroup: z.string().trim().min(1),
+            params: z.unknown(),
+        });
+
+        export const RpcResponse = ResponseBase.extend({
+            type: z.literal(MessageType.RPC_RESPONSE),
+            method: z.string(),
+            result: z.unknown(),
+        });
+
+        // Starts or stops TICK_DELIVERY for a sync group the caller can read
+        export const TickSubscribeRequest = RequestBase.extend({
+            type: z.literal(MessageType.TICK_SUBSCRIBE_REQUEST),
+            syncGroup: z.string().trim().min(1),
+            subscribe: z.boolean().default(true),
+        });
+
+        export const TickSubscribeResponse = ResponseBase.extend({
+            type: z.literal(MessageType.TICK_SUBSCRIBE_RESPONSE),
+            syncGroup: z.string(),
+            subscribed: z.boolean(),
+            // Last tick this manager ran for the sync group
+            tick: z.number().int(),
+            tickRateMs: z.number(),
+        });
+
+        // Sent at the start of each of the sync group's ticks, before that tick's deliveries
+        export const TickDelivery = ResponseBase.extend({
+            type: z.literal(MessageType.TICK_DELIVERY),
+            syncGroup: z.string(),
+            // Counts this manager's ticks for the sync group; restarts on another manager
+            tick: z.number().int(),
+            // Server clock (ms since epoch) when the tick ran; align with CLOCK_SYNC_REQUEST
+            serverTime: z.number(),
+            tickRateMs: z.number(),
+            // Last tick number the state service captured for the sync group, if any
+            stateTick: z.number().int().nullable(),
+        });
+
+        // NTP-style ping: offset ~= serverTime - (clientTime + receivedAt) / 2
+        export const ClockSyncRequest = RequestBase.extend({
+            type: z.literal(MessageType.CLOCK_SYNC_REQUEST),
+            // Client clock when the request was sent, echoed back
+            clientTime: z.number(),
+        });
+
+        export const ClockSyncResponse = ResponseBase.extend({
+            type: z.literal(MessageType.CLOCK_SYNC_RESPONSE),
+            clientTime: z.number(),
+            // Server clock (ms since epoch) when the request was answered
+            serverTime: z.number(),
+        });
+
+        // A connection on the answering manager, as admins see it
+        export const AdminSession = z.object({
+            sessionId: z.string(),
+            connectionId: z.string(),
+            // Manager the connection is open on
+            instanceId: z.string(),
+            agentId: z.string(),
+            username: z.string().nullable(),
+            isAdmin: z.boolean(),
+            isAnon: z.boolean(),
+            // ms since epoch
+            connectedAt: z.number(),
+            // Sync groups the agent can read
+            syncGroups: z.array(z.string()),
+        });
+
+        // Parameters of the admin requests, shared with the REST endpoints
+        export const AdminSessionsListParams = z.object({
+            // Only connections whose agent can read this sync group
+            syncGroup: z.string().trim().min(1).optional(),
+        });
+
+        // Needs a sessionId or an agentId; with both, only that session of that agent
+        export const AdminDisconnectParams = z.object({
+            sessionId: z.uuid().optional(),
+            agentId: z.uuid().optional(),
+            // Sent as the close reason, which is limited to 123 bytes
+            reason: z
+                .string()
+                .trim()
+                .min(1)
+                .refine((reason) => Buffer.byteLength(reason) <= 123, {
+                    message: "Reason must fit in 123 bytes",
+                }),
+            // Also end the matching sessions in auth.agent_sessions, so their tokens cannot reconnect
+            invalidate: z.boolean().default(false),
+        });
+
+        export const AdminAnnounceParams = z.object({
+            syncGroup: z.string().trim().min(1),
+            message: z.string().trim().min(1).max(4096),
+            level: z.enum(AnnouncementLevel).default(AnnouncementLevel.INFO),
+        });
+
+        // Without a target, every connection resubscribes
+        export const AdminResyncParams = z.object({
+            syncGroup: z.string().trim().min(1).optional(),
+            sessionId: z.uuid().optional(),
+            agentId: z.uuid().optional(),
+            reason: z.string().trim().max(1024).optional(),
+        });
+
+        export const AdminSessionsListRequest = RequestBase.extend({
+            type: z.literal(MessageType.ADMIN_SESSIONS_LIST_REQUEST),
+            ...AdminSessionsListParams.shape,
+        });
+
+        export const AdminSessionsListResponse = ResponseBase.extend({
+            type: z.literal(MessageType.ADMIN_SESSIONS_LIST_RESPONSE),
+            // The answering manager, which gathers the connections of every manager it knows
+            instanceId: z.string(),
+            sessions: z.array(AdminSession),
+            // Managers that did not answer in time; their connections are missing from `sessions`
+            unreachableInstances: z.array(z.string()),
+        });
+
+        export const AdminDisconnectRequest = RequestBase.extend({
+            type: z.literal(MessageType.ADMIN_DISCONNECT_REQUEST),
+            ...AdminDisconnectParams.shape,
+        });
+
+        export const AdminDisconnectResponse = ResponseBase.extend({
+            type: z.literal(MessageType.ADMIN_DISCONNECT_RESPONSE),
+            // Connections closed on the answering manager; the other managers close theirs too
+            disconnected: z.number().int().nonnegative(),
+            // Sessions ended in auth.agent_sessions, across all managers; 0 unless `invalidate` was set
+            invalidated: z.number().int().nonnegative(),
+        });
+
+        export const AdminAnnounceRequest = RequestBase.extend({
+            type: z.literal(MessageType.ADMIN_ANNOUNCE_REQUEST),
+            ...AdminAnnounceParams.shape,
+        });
+
+        export const AdminAnnounceResponse = ResponseBase.extend({
+            type: z.literal(MessageType.ADMIN_ANNOUNCE_RESPONSE),
+            syncGroup: z.string(),
+        });
+
+        export const AdminResyncRequest = RequestBase.extend({
+            type: z.literal(MessageType.ADMIN_RESYNC_REQUEST),
+            ...AdminResyncParams.shape,
+        });
+
+        export const AdminResyncResponse = ResponseBase.extend({
+            type: z.literal(MessageType.ADMIN_RESYNC_RESPONSE),
+            // Connections told to resync on the answering manager; the other managers tell theirs too
+            resynced: z.number().int().nonnegative(),
+        });
+
+        // Sent to every reader of the sync group
+        export const SystemAnnouncement = ResponseBase.extend({
+            type: z.literal(MessageType.SYSTEM_ANNOUNCEMENT),
+            syncGroup: z.string(),
+            message: z.string(),
+            level: z.enum(AnnouncementLevel),
+        });
+
+        // The connection's entity and metadata subscriptions were dropped; subscribe again and
+        // re-read what the client shows
+        export const ResyncRequired = ResponseBase.extend({
+            type: z.literal(MessageType.RESYNC_REQUIRED),
+            // Set when the resync was aimed at the readers of one sync group
+            syncGroup: z.string().nullable(),
+            reason: z.string().nullable(),
+        });
+
+        export const AnyRequest = z.discriminatedUnion("type", [
+            EntityUpsertRequest,
+            EntityDeleteRequest,
+            EntityGetRequest,
+            MetadataSetRequest,
+            MetadataDeleteRequest,
+            MetadataDeliveryModeRequest,
+            MetadataResyncRequest,
+            InterestPositionUpdateRequest,
+            SessionResumeRequest,
+            EntityQuerySubscribeRequest,
+            EntityQueryUnsubscribeRequest,
+            SubscriptionsListRequest,
+            UnsubscribeAllRequest,
+            NamedQueryRequest,
+            QueryPageRequest,
+            QueryCancelRequest,
+            PresenceUpdateRequest,
+            RpcRequest,
+            TickSubscribeRequest,
+            ClockSyncRequest,
+            AdminSessionsListRequest,
+            AdminDisconnectRequest,
+            AdminAnnounceRequest,
+            AdminResyncRequest,
+        ]);
+    }
+
+    export type EntityUpsertRequestMessage = z.infer<
+        typeof Z.EntityUpsertRequest
+    >;
+    export type EntityUpsertResponseMessage = z.infer<
+        typeof Z.EntityUpsertResponse
+    >;
+    export type EntityDeleteRequestMessage = z.infer<
+        typeof Z.EntityDeleteRequest
+    >;
+    export type EntityDeleteResponseMessage = z.infer<
+        typeof Z.EntityDeleteResponse
+    >;
+    export type EntityGetRequestMessage = z.infer<typeof Z.EntityGetRequest>;
+    export type EntityGetResponseMessage = z.infer<typeof Z.EntityGetResponse>;
+    export type MetadataSetRequestMessage = z.infer<
+        typeof Z.MetadataSetRequest
+    >;
+    export type MetadataSetResponseMessage = z.infer<
+        typeof Z.MetadataSetResponse
+    >;
+    export type MetadataDeleteRequestMessage = z.infer<
+        typeof Z.MetadataDeleteRequest
+    >;
+    export type MetadataDeleteResponseMessage = z.infer<
+        typeof Z.MetadataDeleteResponse
+    >;
+    export type MetadataDeliveryModeRequestMessage = z.infer<
+        typeof Z.MetadataDeliveryModeRequest
+    >;
+    export type MetadataDeliveryModeResponseMessage = z.infer<
+        typeof Z.MetadataDeliveryModeResponse
+    >;
+    export type MetadataResyncRequestMessage = z.infer<
+        typeof Z.MetadataResyncRequest
+    >;
+    export type MetadataResyncResponseMessage = z.infer<
+        typeof Z.MetadataResyncResponse
+    >;
+    export type EntityMetadataDeltaDeliveryMessage = z.infer<
+        typeof Z.EntityMetadataDeltaDelivery
+    >;
+    export type InterestPositionUpdateRequestMessage = z.infer<
+        typeof Z.InterestPositionUpdateRequest
+    >;
+    export type InterestPositionUpdateResponseMessage = z.infer<
+        typeof Z.InterestPositionUpdateResponse
+    >;
+    export type RateLimitExceededResponseMessage = z.infer<
+        typeof Z.RateLimitExceededResponse
+    >;
+    export type EntityChannelSnapshot = z.infer<typeof Z.EntityChannelSnapshot>;
+    export type ReflectPublishTargets = z.infer<typeof Z.ReflectPublishTargets>;
+    export type SessionResumeRequestMessage = z.infer<
+        typeof Z.SessionResumeRequest
+    >;
+    export type SessionResumeResponseMessage = z.infer<
+        typeof Z.SessionResumeResponse
+    >;
+    export type EntityQuerySubscribeRequestMessage = z.infer<
+        typeof Z.EntityQuerySubscribeRequest
+    >;
+    export type EntityQuerySubscribeResponseMessage = z.infer<
+        typeof Z.EntityQuerySubscribeResponse
+    >;
+    export type EntityQueryUnsubscribeRequestMessage = z.infer<
+        typeof Z.EntityQueryUnsubscribeRequest
+    >;
+    export type EntityQueryUnsubscribeResponseMessage = z.infer<
+        typeof Z.EntityQueryUnsubscribeResponse
+    >;
+    export type SubscriptionsListRequestMessage = z.infer<
+        typeof Z.SubscriptionsListRequest
+    >;
+    export type SubscriptionsListResponseMessage = z.infer<
+        typeof Z.SubscriptionsListResponse
+    >;
+    export type UnsubscribeAllRequestMessage = z.infer<
+        typeof Z.UnsubscribeAllRequest
+    >;
+    export type UnsubscribeAllResponseMessage = z.infer<
+        typeof Z.UnsubscribeAllResponse
+    >;
+    export type NamedQueryRequestMessage = z.infer<typeof Z.NamedQueryRequest>;
+    export type NamedQueryResponseMessage = z.infer<
+        typeof Z.NamedQueryResponse
+    >;
+    export type QueryRequestOptions = z.infer<typeof Z.QueryRequestOptions>;
+    export type QueryResponseExtras = z.infer<typeof Z.QueryResponseExtras>;
+    export type QueryResultChunkMessage = z.infer<typeof Z.QueryResultChunk>;
+    export type QueryPageRequestMessage = z.infer<typeof Z.QueryPageRequest>;
+    export type QueryPageResponseMessage = z.infer<typeof Z.QueryPageResponse>;
+    export type QueryCancelRequestMessage = z.infer<
+        typeof Z.QueryCancelRequest
+    >;
+    export type QueryCancelResponseMessage = z.infer<
+        typeof Z.QueryCancelResponse
+    >;
+    export type PresenceAttributes = z.infer<typeof Z.PresenceAttributes>;
+    export type PresenceMember = z.infer<typeof Z.PresenceMember>;
+    export type PresenceUpdateRequestMessage = z.infer<
+        typeof Z.PresenceUpdateRequest
+    >;
+    export type PresenceUpdateResponseMessage = z.infer<
+        typeof Z.PresenceUpdateResponse
+    >;
+    export type PresenceJoinMessage = z.infer<typeof Z.PresenceJoin>;
+    export type PresenceLeaveMessage = z.infer<typeof Z.PresenceLeave>;
+    export type PresenceStateMessage = z.infer<typeof Z.PresenceState>;
+    export type RpcRequestMessage = z.infer<typeof Z.RpcRequest>;
+    export type RpcResponseMessage = z.infer<typeof Z.RpcResponse>;
+    export type TickSubscribeRequestMessage = z.infer<
+        typeof Z.TickSubscribeRequest
+    >;
+    export type TickSubscribeResponseMessage = z.infer<
+        typeof Z.TickSubscribeResponse
+    >;
+    export type TickDeliveryMessage = z.infer<typeof Z.TickDelivery>;
+    export type ClockSyncRequestMessage = z.infer<typeof Z.ClockSyncRequest>;
+    export type ClockSyncResponseMessage = z.infer<typeof Z.ClockSyncResponse>;
+    export type AdminSession = z.infer<typeof Z.AdminSession>;
+    export type AdminSessionsListRequestMessage = z.infer<
+        typeof Z.AdminSessionsListRequest
+    >;
+    export type AdminSessionsListResponseMessage = z.infer<
+        typeof Z.AdminSessionsListResponse
+    >;
+    export type AdminDisconnectRequestMessage = z.infer<
+        typeof Z.AdminDisconnectRequest
+    >;
+    export type AdminDisconnectResponseMessage = z.infer<
+        typeof Z.AdminDisconnectResponse
+    >;
+    export type AdminAnnounceRequestMessage = z.infer<
+        typeof Z.AdminAnnounceRequest
+    >;
+    export type AdminAnnounceResponseMessage = z.infer<
+        typeof Z.AdminAnnounceResponse
+    >;
+    export type AdminResyncRequestMessage = z.infer<
+        typeof Z.AdminResyncRequest
+    >;
+    export type AdminResyncResponseMessage = z.infer<
+        typeof Z.AdminResyncResponse
+    >;
+    export type SystemAnnouncementMessage = z.infer<
+        typeof Z.SystemAnnouncement
+    >;
+    export type ResyncRequiredMessage = z.infer<typeof Z.ResyncRequired>;
+    export type RequestMessage = z.infer<typeof Z.AnyRequest>;
+}
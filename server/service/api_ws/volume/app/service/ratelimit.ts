@@ -0,0 +1,304 @@
+// =============================================================================
+// ============================== IMPORTS, TYPES, AND INTERFACES ==============================
+// =============================================================================
+
+export enum E_RateLimitScope {
+    AGENT = "agent",
+    SYNC_GROUP = "sync_group",
+}
+
+export enum E_RateLimit {
+    REFLECT_MESSAGES = "reflect_messages",
+    REFLECT_BYTES = "reflect_bytes",
+    QUERIES = "queries",
+    CONCURRENT_QUERIES = "concurrent_queries",
+}
+
+// Row shape of config.rate_limit_config; NULL limits are unlimited
+export interface RateLimitConfigRow {
+    rate_limit_config__scope: E_RateLimitScope;
+    rate_limit_config__target: string;
+    rate_limit_config__reflect_messages_per_sec: number | null;
+    rate_limit_config__reflect_bytes_per_sec: number | null;
+    rate_limit_config__queries_per_sec: number | null;
+    rate_limit_config__max_concurrent_queries: number | null;
+    rate_limit_config__burst_seconds: number;
+}
+
+export interface RateLimitRejection {
+    scope: E_RateLimitScope;
+    target: string;
+    limit: E_RateLimit;
+    // null when the request can never fit within the limit (e.g. a message larger than the burst)
+    retryAfterMs: number | null;
+}
+
+// Config rows with this target apply to every agent / sync group without a row of its own
+export const RATE_LIMIT_DEFAULT_TARGET = "*";
+
+// =================================================================================
+// ================ RATE LIMITER: Token buckets per agent and sync group ==================
+// =================================================================================
+
+class TokenBucket {
+    private tokens: number;
+    private updatedAt = performance.now();
+
+    constructor(
+        private readonly ratePerSec: number,
+        private readonly capacity: number,
+    ) {
+        this.tokens = capacity;
+    }
+
+    private refill(now: number) {
+        // `now` may have been taken before this bucket was created
+        if (now <= this.updatedAt) {
+            return;
+        }
+        const elapsedSec = (now - this.updatedAt) / 1000;
+        this.tokens = Math.min(
+            this.capacity,
+            this.tokens + elapsedSec * this.ratePerSec,
+        );
+        this.updatedAt = now;
+    }
+
+    // 0 when `amount` is available now, otherwise how long until it will be
+    retryAfterMs(amount: number, now: number): number | null {
+        this.refill(now);
+        if (amount > this.capacity) {
+            return null;
+        }
+        if (amount <= this.tokens) {
+            return 0;
+        }
+        return Math.ceil(((amount - this.tokens) / this.ratePerSec) * 1000);
+    }
+
+    take(amount: number) {
+        this.tokens -= amount;
+    }
+
+    // A full bucket behaves exactly like a fresh one, so it can be dropped
+    isFull(now: number): boolean {
+        this.refill(now);
+        return this.tokens >= this.capacity;
+    }
+}
+
+export class RateLimiter {
+    private configs = new Map<string, RateLimitConfigRow>();
+    private buckets = new Map<string, TokenBucket>();
+    private concurrentQueries = new Map<string, number>();
+
+    // Replace all limits; buckets restart full so new limits apply immediately
+    setConfig(rows: RateLimitConfigRow[]) {
+        this.configs.clear();
+        for (const row of rows) {
+            this.configs.set(
+                `${row.rate_limit_config__scope}:${row.rate_limit_config__target}`,
+                row,
+            );
+        }
+        this.buckets.clear();
+    }
+
+    private getConfig(
+        scope: E_RateLimitScope,
+        target: string,
+    ): RateLimitConfigRow | undefined {
+        return (
+            this.configs.get(`${scope}:${target}`) ??
+            this.configs.get(`${scope}:${RATE_LIMIT_DEFAULT_TARGET}`)
+        );
+    }
+
+    private getBucket(
+        scope: E_RateLimitScope,
+        target: string,
+        limit: E_RateLimit,
+        ratePerSec: number,
+        burstSeconds: number,
+    ): TokenBucket {
+        const key = `${scope}:${target}:${limit}`;
+        let bucket = this.buckets.get(key);
+        if (!bucket) {
+            bucket = new TokenBucket(
+                ratePerSec,
+                Math.max(1, ratePerSec * burstSeconds),
+            );
+            this.buckets.set(key, bucket);
+        }
+        return bucket;
+    }
+
+    // Check every bucket first and only take from them if all allow the request
+    private consume(
+        checks: Array<{
+            scope: E_RateLimitScope;
+            target: string;
+            limit: E_RateLimit;
+            ratePerSec: number | null | undefined;
+            burstSeconds: number;
+            amount: number;
+        }>,
+    ): RateLimitRejection | null {
+        const now = performance.now();
+        const granted: Array<{ bucket: TokenBucket; amount: number }> = [];
+        for (const check of checks) {
+            if (!check.ratePerSec || check.ratePerSec <= 0) {
+                continue;
+            }
+            const bucket = this.getBucket(
+                check.scope,
+                check.target,
+                check.limit,
+                check.ratePerSec,
+                check.burstSeconds,
+            );
+            const retryAfterMs = bucket.retryAfterMs(check.amount, now);
+            if (retryAfterMs !== 0) {
+                return {
+                    scope: check.scope,
+                    target: check.target,
+                    limit: check.limit,
+                    retryAfterMs,
+                };
+            }
+            granted.push({ bucket, amount: check.amount });
+        }
+        for (const { bucket, amount } of granted) {
+            bucket.take(amount);
+        }
+        return null;
+    }
+
+    checkReflect(
+        agentId: string,
+        syncGroup: string,
+        bytes: number,
+    ): RateLimitRejection | null {
+        const agentConfig = this.getConfig(E_RateLimitScope.AGENT, agentId);
+        const groupConfig = this.getConfig(
+            E_RateLimitScope.SYNC_GROUP,
+            syncGroup,
+        );
+        return this.consume([
+            {
+                scope: E_RateLimitScope.AGENT,
+                target: agentId,
+                limit: E_RateLimit.REFLECT_MESSAGES,
+                ratePerSec:
+                    agentConfig?.rate_limit_config__reflect_messages_per_sec,
+                burstSeconds:
+                    agentConfig?.rate_limit_config__burst_seconds ?? 1,
+                amount: 1,
+            },
+            {
+                scope: E_RateLimitScope.AGENT,
+                target: agentId,
+                limit: E_RateLimit.REFLECT_BYTES,
+                ratePerSec:
+                    agentConfig?.rate_limit_config__reflect_bytes_per_sec,
+                burstSeconds:
+                    agentConfig?.rate_limit_config__burst_seconds ?? 1,
+                amount: bytes,
+            },
+            {
+                scope: E_RateLimitScope.SYNC_GROUP,
+                target: syncGroup,
+                limit: E_RateLimit.REFLECT_MESSAGES,
+                ratePerSec:
+                    groupConfig?.rate_limit_config__reflect_messages_per_sec,
+                burstSeconds:
+                    groupConfig?.rate_limit_config__burst_seconds ?? 1,
+                amount: 1,
+            },
+            {
+                scope: E_RateLimitScope.SYNC_GROUP,
+                target: syncGroup,
+                limit: E_RateLimit.REFLECT_BYTES,
+                ratePerSec:
+                    groupConfig?.rate_limit_config__reflect_bytes_per_sec,
+                burstSeconds:
+                    groupConfig?.rate_limit_config__burst_seconds ?? 1,
+                amount: bytes,
+            },
+        ]);
+    }
+
+    // On success the query counts as in flight until endQuery is called
+    beginQuery(agentId: string): RateLimitRejection | null {
+        const config = this.getConfig(E_RateLimitScope.AGENT, agentId);
+        const maxConcurrent = config?.rate_limit_config__max_concurrent_queries;
+        const inFlight = this.concurrentQueries.get(agentId) ?? 0;
+        if (maxConcurrent && maxConcurrent > 0 && inFlight >= maxConcurrent) {
+            return {
+                scope: E_RateLimitScope.AGENT,
+                target: agentId,
+                limit: E_RateLimit.CONCURRENT_QUERIES,
+                retryAfterMs: null,
+            };
+        }
+
+        const rejection = this.consume([
+            {
+                scope: E_RateLimitScope.AGENT,
+                target: agentId,
+                limit: E_RateLimit.QUERIES,
+                ratePerSec: config?.rate_limit_config__queries_per_sec,
+                burstSeconds: config?.rate_limit_config__burst_seconds ?? 1,
+                amount: 1,
+            },
+        ]);
+        if (!rejection) {
+            this.concurrentQueries.set(agentId, inFlight + 1);
+        }
+        return rejection;
+    }
+
+    // Take from the query rate only, for work done under a slot the agent already holds
+    checkQueryRate(agentId: string): RateLimitRejection | null {
+        const config = this.getConfig(E_RateLimitScope.AGENT, agentId);
+        return this.consume([
+            {
+                scope: E_RateLimitScope.AGENT,
+                target: agentId,
+                limit: E_RateLimit.QUERIES,
+                ratePerSec: config?.rate_limit_config__queries_per_sec,
+                burstSeconds: config?.rate_limit_config__burst_seconds ?? 1,
+                amount: 1,
+            },
+        ]);
+    }
+
+    // Keep counting a query begun with beginQuery as in flight past its request; needs its own endQuery
+    retainQuery(agentId: string) {
+        this.concurrentQueries.set(
+            agentId,
+            (this.concurrentQueries.get(agentId) ?? 0) + 1,
+        );
+    }
+
+    endQuery(agentId: string) {
+        const inFlight = (this.concurrentQueries.get(agentId) ?? 0) - 1;
+        if (inFlight > 0) {
+            this.concurrentQueries.set(agentId, inFlight);
+        } else {
+            this.concurrentQueries.delete(agentId);
+        }
+    }
+
+    // Drop buckets that have refilled; reconnecting does not reset a bucket that is still draining
+    expireIdleBuckets(now = performance.now()): number {
+        let expired = 0;
+        for (const [key, bucket] of this.buckets) {
+            if (bucket.isFull(now)) {
+                this.buckets.delete(key);
+                expired++;
+            }
+        }
+        return expired;
+    }
+}
@@ -0,0 +1,49 @@
+// =============================================================================
+// ============================== IMPORTS, TYPES, AND INTERFACES ==============================
+// =============================================================================
+
+import type { EncodedWsMessage } from "./codec";
+
+export interface ReplayEntry {
+    seq: number;
+    // Logical topic the delivery was published on
+    topic: string;
+    message: EncodedWsMessage;
+    // Variant for delta-mode metadata subscribers, when one was built
+    deltaMessage?: EncodedWsMessage;
+}
+
+// =================================================================================
+// ================ REPLAY: Per-session delivery history for SESSION_RESUME ==================
+// =================================================================================
+
+// Most recent deliveries for one session, oldest first
+export class ReplayBuffer {
+    private entries: ReplayEntry[] = [];
+    // Highest seq dropped to stay within capacity; resuming from before it would skip deliveries
+    private evictedThroughSeq = 0;
+
+    constructor(private readonly capacity: number) {}
+
+    push(entry: ReplayEntry): void {
+        // A change published on several topics the session follows is only kept once
+        if (this.entries[this.entries.length - 1]?.seq === entry.seq) {
+            return;
+        }
+        this.entries.push(entry);
+        if (this.entries.length > this.capacity) {
+            const evicted = this.entries.shift();
+            if (evicted) {
+                this.evictedThroughSeq = evicted.seq;
+            }
+        }
+    }
+
+    // Entries after `seq`, or null when some of them have already been evicted
+    since(seq: number): ReplayEntry[] | null {
+        if (seq < this.evictedThroughSeq) {
+            return null;
+        }
+        return this.entries.filter((entry) => entry.seq > seq);
+    }
+}
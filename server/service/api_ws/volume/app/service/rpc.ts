@@ -0,0 +1,188 @@
+// =============================================================================
+// ============================== IMPORTS, TYPES, AND INTERFACES ==============================
+// =============================================================================
+
+import { join } from "node:path";
+import type { SQL } from "bun";
+import type { z } from "zod";
+
+// What a handler knows about the call, and how it reaches the database as the caller
+export interface RpcContext {
+    agentId: string;
+    sessionId: string;
+    connectionId: string;
+    syncGroup: string;
+    // Aborted when the call times out; later withAgentContext calls fail
+    signal: AbortSignal;
+    // Runs `work` in a transaction on the proxy connection as the caller, so RLS applies to reads
+    // and entity writes alike. Statements are cut off at the call's deadline.
+    withAgentContext<T>(
+        work: (tx: SQL) => Promise<T>,
+        // Transaction options, e.g. "read only"
+        options?: string,
+    ): Promise<T>;
+}
+
+export interface RpcHandler<P, R> {
+    method: string;
+    // Sync groups the method can be called in, or "*" for all; callers also need read access
+    syncGroups: string[];
+    params: z.ZodType<P>;
+    result: z.ZodType<R>;
+    // Capped by the manager's maximum
+    timeoutMs?: number;
+    handle: (params: P, context: RpcContext) => Promise<R>;
+}
+
+// A handler as the registry keeps it. Params only reach `handle` through the handler's own schema,
+// so no handler has to accept params of a wider type than it declares.
+export interface RegisteredRpcHandler {
+    method: string;
+    syncGroups: string[];
+    result: z.ZodType<unknown>;
+    timeoutMs?: number;
+    // Parses `params`; on success, `call` runs the handler with them
+    bind(
+        params: unknown,
+    ):
+        | { success: true; call: (context: RpcContext) => Promise<unknown> }
+        | { success: false; error: string };
+}
+
+// Handler modules live in this directory and match this pattern
+export const RPC_HANDLER_DIRECTORY = join(import.meta.dir, "..", "rpc");
+const RPC_HANDLER_PATTERN = "**/*.rpc.ts";
+
+// =================================================================================
+// ================ RPC: Server-side handlers for RPC_REQUEST ==================
+// =================================================================================
+
+// Checks the handler's param and result types against its schemas where it is written
+export function defineRpcHandler<P, R>(
+    handler: RpcHandler<P, R>,
+): RegisteredRpcHandler {
+    return {
+        method: handler.method,
+        syncGroups: handler.syncGroups,
+        result: handler.result,
+        timeoutMs: handler.timeoutMs,
+        bind(params) {
+            const parsed = handler.params.safeParse(params);
+            if (!parsed.success) {
+                return {
+                    success: false,
+                    error:
+                        parsed.error.issues[0]?.message ?? parsed.error.message,
+                };
+            }
+            return {
+                success: true,
+                call: (context) => handler.handle(parsed.data, context),
+            };
+        },
+    };
+}
+
+export class RpcRegistry {
+    // method -> handlers, each serving its own sync groups
+    private handlers: Map<string, RegisteredRpcHandler[]> = new Map();
+
+    // Throws when another handler already serves the method in one of the same sync groups
+    register(handler: RegisteredRpcHandler): void {
+        const existing = this.handlers.get(handler.method) ?? [];
+        for (const other of existing) {
+            const overlaps = handler.syncGroups.some(
+                (syncGroup) =>
+                    syncGroup === "*" ||
+                    other.syncGroups.includes("*") ||
+                    other.syncGroups.includes(syncGroup),
+            );
+            if (overlaps) {
+                throw new Error(
+                    `RPC method ${handler.method} is already registered for one of: ${handler.syncGroups.join(", ")}`,
+                );
+            }
+        }
+        this.handlers.set(handler.method, [...existing, handler]);
+    }
+
+    find(method: string, syncGroup: string): RegisteredRpcHandler | undefined {
+        return this.handlers
+            .get(method)
+            ?.find(
+                (handler) =>
+                    handler.syncGroups.includes("*") ||
+                    handler.syncGroups.includes(syncGroup),
+            );
+    }
+
+    get size(): number {
+        let size = 0;
+        for (const handlers of this.handlers.values()) {
+            size += handlers.length;
+        }
+        return size;
+    }
+}
+
+function isRpcHandler(value: unknown): value is RegisteredRpcHandler {
+    const handler = value as Partial<RegisteredRpcHandler> | null;
+    return (
+        typeof handler?.method === "string" &&
+        Array.isArray(handler.syncGroups) &&
+        typeof handler.result?.safeParse === "function" &&
+        typeof handler.bind === "function"
+    );
+}
+
+// Imports every handler module in `directory`; each default-exports a handler made with
+// defineRpcHandler, or a list of them.
+// Modules that fail to load and handlers that conflict with registered ones are reported and skipped.
+export async function loadRpcHandlers(
+    registry: RpcRegistry,
+    directory: string = RPC_HANDLER_DIRECTORY,
+): Promise<{
+    loaded: string[];
+    failed: Array<{ file: string; error: unknown }>;
+}> {
+    const loaded: string[] = [];
+    const failed: Array<{ file: string; error: unknown }> = [];
+    const files: string[] = [];
+    try {
+        for await (const file of new Bun.Glob(RPC_HANDLER_PATTERN).scan({
+            cwd: directory,
+        })) {
+            files.push(file);
+        }
+    } catch {
+        // No handler directory
+        return { loaded, failed };
+    }
+    for (const file of files.sort()) {
+        let handlers: RegisteredRpcHandler[];
+        try {
+            const module = await import(join(directory, file));
+            const exported: unknown[] = Array.isArray(module.default)
+                ? module.default
+                : [module.default];
+            if (!exported.every(isRpcHandler)) {
+                throw new Error(
+                    "Default export must be a defineRpcHandler result or a list of them",
+                );
+            }
+            handlers = exported;
+        } catch (error) {
+            failed.push({ file, error });
+            continue;
+        }
+        for (const handler of handlers) {
+            try {
+                registry.register(handler);
+            } catch (error) {
+                failed.push({ file, error });
+            }
+        }
+        loaded.push(file);
+    }
+    return { loaded, failed };
+}
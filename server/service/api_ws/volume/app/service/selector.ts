@@ -0,0 +1,81 @@
+// =============================================================================
+// ============================== IMPORTS, TYPES, AND INTERFACES ==============================
+// =============================================================================
+
+import { isDeepEqual } from "./delta";
+
+type Row = Record<string, unknown>;
+
+// Set of entities followed by an ENTITY_QUERY_SUBSCRIBE_REQUEST; every given field must match
+export interface EntitySelector {
+    entityNamePrefix?: string;
+    syncGroup?: string;
+    // Entities whose metadata row for `key` holds `value`
+    metadata?: { key: string; value: unknown };
+}
+
+// Typed value columns of entity.entity_metadata; exactly one is set per row
+const METADATA_VALUE_COLUMNS = [
+    "metadata__jsonb",
+    "metadata__text",
+    "metadata__int",
+    "metadata__float",
+    "metadata__bool",
+] as const;
+
+// =================================================================================
+// ================ SELECTOR: Entity query subscription matching ==================
+// =================================================================================
+
+export function matchesEntityFields(
+    selector: EntitySelector,
+    entityName: string,
+    syncGroup: string,
+): boolean {
+    if (
+        selector.entityNamePrefix !== undefined &&
+        !entityName.startsWith(selector.entityNamePrefix)
+    ) {
+        return false;
+    }
+    return selector.syncGroup === undefined || selector.syncGroup === syncGroup;
+}
+
+// Value of a metadata row whichever column it is stored in, with jsonb decoded if it arrived as text
+export function metadataRowValue(row: Row): unknown {
+    for (const column of METADATA_VALUE_COLUMNS) {
+        const value = row[column];
+        if (value === null || value === undefined) {
+            continue;
+        }
+        if (column === "metadata__jsonb" && typeof value === "string") {
+            try {
+                return JSON.parse(value);
+            } catch {
+                return value;
+            }
+        }
+        return value;
+    }
+    return null;
+}
+
+// Whether a metadata row satisfies the selector's predicate; undefined when the row has no bearing on it
+export function matchesMetadataRow(
+    selector: EntitySelector,
+    metadataKey: string,
+    row: Row | null,
+): boolean | undefined {
+    if (!selector.metadata || selector.metadata.key !== metadataKey) {
+        return undefined;
+    }
+    return (
+        row !== null &&
+        isDeepEqual(metadataRowValue(row), selector.metadata.value)
+    );
+}
+
+// LIKE pattern matching names that start with `prefix` literally
+export function toLikePrefixPattern(prefix: string): string {
+    return `${prefix.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+}
@@ -2,7 +2,7 @@
 // ============================== IMPORTS, TYPES, AND INTERFACES ==============================
 // =============================================================================
 
-import type { Server, ServerWebSocket, SQL } from "bun";
+import type { ReservedSQL, Server, ServerWebSocket, SQL } from "bun";
 import type { Sql } from "postgres";
 import { serverConfiguration } from "../../../../../sdk/vircadia-world-sdk-ts/bun/src/config/vircadia.server.config";
 import { BunLogModule } from "../../../../../sdk/vircadia-world-sdk-ts/bun/src/module/vircadia.common.bun.log.module";
@@ -15,7 +15,70 @@ import {
     type Auth,
     Communication,
 } from "../../../../../sdk/vircadia-world-sdk-ts/schema/src/vircadia.schema.general";
+import {
+    METRICS_PATH,
+    OpenMetricsWriter,
+} from "../../../../module/general.server.metrics";
+import {
+    isDockerInternalIP,
+    isLocalhostIP,
+} from "../../../../module/general.server.util";
+import {
+    type ChannelAclRole,
+    type ChannelAclRule,
+    type ChannelPermission,
+    channelAclRolesOf,
+    channelAllows,
+    isChannelRestricted,
+} from "./service/channelacl";
+import {
+    BINARY_WS_CODECS,
+    DEFAULT_WS_CODEC,
+    decodeWsMessage,
+    E_WsCodec,
+    EncodedWsMessage,
+    encodeWsMessage,
+    getEncodedByteLength,
+    parseWsCodec,
+} from "./service/codec";
+import { diffMetadataRow } from "./service/delta";
+import {
+    deriveFanoutSecret,
+    type FanoutBus,
+    type FanoutEnvelope,
+    type FanoutEvent,
+    LocalFanoutBus,
+    PostgresFanoutBus,
+} from "./service/fanout";
+import {
+    type InterestConfig,
+    InterestGrid,
+    parseInterestPosition,
+    type Vec3,
+} from "./service/interest";
 import { MetricsCollector } from "./service/metrics";
+import {
+    bindNamedQueryArgs,
+    canRunNamedQuery,
+    type NamedQuery,
+    type NamedQueryRow,
+    toNamedQuery,
+} from "./service/namedquery";
+import { type PresenceConnection, PresenceRegistry } from "./service/presence";
+import { WsProtocol } from "./service/protocol";
+import {
+    type RateLimitConfigRow,
+    RateLimiter,
+    type RateLimitRejection,
+} from "./service/ratelimit";
+import { ReplayBuffer, type ReplayEntry } from "./service/replay";
+import { loadRpcHandlers, type RpcContext, RpcRegistry } from "./service/rpc";
+import {
+    type EntitySelector,
+    matchesEntityFields,
+    matchesMetadataRow,
+    toLikePrefixPattern,
+} from "./service/selector";
 
 let legacySuperUserSql: Sql | null = null;
 // Note: legacyProxyUserSql kept for parity, currently unused
@@ -33,22 +96,109 @@ export interface WorldSession<T = unknown> {
     ws: WebSocket | ServerWebSocket<T>;
     agentId: string;
     sessionId: string;
+    // Identifies this socket; a session may have several connected at once
+    connectionId: string;
+    // ms since epoch
+    connectedAt: number;
 }
 
 export interface WebSocketData {
     token: string;
     agentId: string;
     sessionId: string;
+    connectionId: string;
+    codec: E_WsCodec;
+    metadataDelivery: WsProtocol.MetadataDeliveryMode;
 }
 
 const LOG_PREFIX = "World API WS Manager";
 
+// Connection ids chosen by clients must be short, URL-safe tokens
+const CONNECTION_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
 // Reflect tick-gated delivery queue item shape
 type ReflectQueuedItem = {
+    fromConnectionId: string;
+    message: EncodedWsMessage;
     payloadJson: string;
+    payloadBytes: number;
     ack?: { requestId: string };
+    // Where the message originated; only set when it should be interest-filtered
+    position?: Vec3;
+    // Recipients of a targeted publish; the sync group's subscribers when unset
+    targets?: WsProtocol.ReflectPublishTargets;
+};
+
+// Last message of a publisher on a retained reflect channel
+type RetainedReflect = {
+    message: EncodedWsMessage;
+    // Manager the publisher is connected to
+    instanceId: string;
 };
 
+// Deliveries a connection may need again after reconnecting (see SESSION_RESUME_REQUEST)
+interface SessionReplayState {
+    sessionId: string;
+    connectionId: string;
+    // Socket the state was recorded for; its data keeps the codec and delivery mode after close
+    ws: ServerWebSocket<WebSocketData>;
+    // Entity and metadata topics the socket is subscribed to
+    topics: Set<string>;
+    buffer: ReplayBuffer;
+    // Set once the socket has closed; the state is dropped when it fires
+    expiryTimer?: Timer;
+}
+
+// Entity set followed by an ENTITY_QUERY_SUBSCRIBE_REQUEST
+interface EntityQuerySubscription {
+    id: string;
+    ws: ServerWebSocket<WebSocketData>;
+    agentId: string;
+    selector: EntitySelector;
+    channel: string | null;
+    // Matched entities: entityName -> sync group their topics were subscribed in
+    entities: Map<string, string>;
+}
+
+// Server-side cursor of a paged or streamed QUERY_REQUEST
+interface QueryCursor {
+    id: string;
+    ws: ServerWebSocket<WebSocketData>;
+    // Holds one of the agent's concurrent query slots until closed
+    agentId: string;
+    // Dedicated proxy connection holding the cursor's transaction open
+    connection: ReservedSQL;
+    pageSize: number;
+    idleTimer: Timer | null;
+    // A fetch is in flight; fetches of one cursor never overlap
+    busy: boolean;
+    // A FETCH failed, which leaves the cursor's transaction unusable
+    failed: boolean;
+}
+
+// Query request a QUERY_CANCEL_REQUEST can still stop
+interface InFlightQuery {
+    ws: ServerWebSocket<WebSocketData>;
+    // Backend statement currently running for the request
+    statement: { cancel(): unknown } | null;
+    cancelled: boolean;
+}
+
+// Socket whose send buffer backed up; its reflect deliveries wait here until it drains
+interface SlowConsumer {
+    since: number;
+    // "<syncGroup>\n<channel>\n<reflect queue key>" -> latest message, so broadcasts keep one per publisher
+    pending: Map<string, EncodedWsMessage>;
+}
+
+// Connections an admin action applies to; unset fields match every connection
+interface AdminSessionTarget {
+    sessionId?: string;
+    agentId?: string;
+    // Connections whose agent can read the sync group
+    syncGroup?: string;
+}
+
 interface EntityNotificationPayload {
     resource: "entity" | "entity_metadata";
     operation: Communication.WebSocket.DatabaseOperation;
@@ -91,24 +241,29 @@ interface EntityMetadataDbNotification {
 export class WorldApiWsManager {
     private server: Server<WebSocketData> | undefined;
 
+    // Connected sockets, oldest first: connectionId -> session
     public activeSessions: Map<string, WorldSession<unknown>> = new Map();
     private heartbeatInterval: Timer | null = null;
+    private heartbeatInFlight = false;
     private assetMaintenanceInterval: Timer | null = null;
     private tokenMap = new WeakMap<
         WebSocket | ServerWebSocket<unknown>,
         string
     >();
-    private wsToSessionMap = new WeakMap<
+    private wsToConnectionMap = new WeakMap<
         WebSocket | ServerWebSocket<unknown>,
         string
     >();
     private metricsCollector = new MetricsCollector();
+    private rateLimiter = new RateLimiter();
 
-    // Reflect tick-gated delivery queue: syncGroup -> channel -> fromSessionId -> queued item
+    // Reflect tick-gated delivery queue: syncGroup -> channel -> fromConnectionId -> queued item
+    // (targeted publishes get a key of their own, see enqueueReflect)
     private reflectQueues: Map<
         string,
         Map<string, Map<string, ReflectQueuedItem>>
     > = new Map();
+    private targetedReflectCount = 0;
 
     // Entity tick-gated delivery queue: syncGroup -> entityName -> queued entity notifications
     private entityQueues: Map<
@@ -121,14 +276,105 @@ export class WorldApiWsManager {
         string,
         Map<string, Map<string, EntityNotificationPayload[]>>
     > = new Map();
+    // Last metadata row published to delta-mode subscribers: entityName:metadataKey -> version and row
+    private metadataDeltaStates: Map<
+        string,
+        { version: number; row: Record<string, unknown> }
+    > = new Map();
+    // Sequence of the last entity or metadata change published
+    private deliverySeq = 0;
+    // Replay state of connected sockets: connectionId -> state
+    private sessionReplays: Map<string, SessionReplayState> = new Map();
+    // Replay state kept after a socket closes, until resumed or expired: connectionId -> state
+    private detachedReplays: Map<string, SessionReplayState> = new Map();
+    // Replay states following each topic, connected or detached: topic -> states
+    private replayTopicIndex: Map<string, Set<SessionReplayState>> = new Map();
+    // Entity query subscriptions of connected sockets: subscriptionId -> subscription
+    private entityQueries: Map<string, EntityQuerySubscription> = new Map();
+    // Open paged and streamed query cursors: cursorId -> cursor
+    private queryCursors: Map<string, QueryCursor> = new Map();
+    // Cursors still reserving their connection
+    private openingQueryCursors: Set<Pick<QueryCursor, "ws" | "agentId">> =
+        new Set();
+    // Running query requests: "<connectionId>:<requestId>" -> query
+    private inFlightQueries: Map<string, InFlightQuery> = new Map();
+    // Topics each socket subscribed to with ENTITY_CHANNEL_SUBSCRIBE_REQUEST, as opposed to through a query
+    private explicitTopics: Map<ServerWebSocket<WebSocketData>, Set<string>> =
+        new Map();
+    private slowConsumers: Map<ServerWebSocket<WebSocketData>, SlowConsumer> =
+        new Map();
+    private slowConsumerInterval: Timer | null = null;
+    private rateLimitExpiryInterval: Timer | null = null;
     private reflectIntervals: Map<string, Timer> = new Map();
     private reflectTickRateMs: Map<string, number> = new Map();
+    // Ticks this manager ran per sync group, and the last tick number the state service captured
+    private reflectTickCounts: Map<string, number> = new Map();
+    private stateTickNumbers: Map<string, number> = new Map();
+    // Sync groups that only fan reflect deliveries out to sessions near their origin
+    private reflectInterestConfigs: Map<string, InterestConfig> = new Map();
+    // Reflect channels that keep each publisher's last message for late joiners: syncGroup -> channels
+    private reflectRetainedChannels: Map<string, Set<string>> = new Map();
+    // Sessions present in each sync group, from this and the other instances
+    private presence = new PresenceRegistry();
+    // Presence attributes of sessions connected here: sessionId -> attributes
+    private presenceAttributes: Map<string, WsProtocol.PresenceAttributes> =
+        new Map();
+    // Retained reflect messages: syncGroup -> channel -> fromConnectionId -> last message
+    private retainedReflects: Map<
+        string,
+        Map<string, Map<string, RetainedReflect>>
+    > = new Map();
+    // Channel ACL rules from auth.sync_group_channel_acls: syncGroup -> rules
+    private channelAclRules: Map<string, ChannelAclRule[]> = new Map();
+    // Roles of connected agents for channel ACLs and named queries: agentId -> roles
+    private agentRoles: Map<string, ChannelAclRole[]> = new Map();
+    // Queries clients may run by name, from config.named_queries: name -> query
+    private namedQueries: Map<string, NamedQuery> = new Map();
+    // Server-side RPC handlers, loaded once at startup
+    private rpcHandlers = new RpcRegistry();
+    // Last reported connection positions: syncGroup -> connectionId -> position
+    private interestPositions: Map<string, Map<string, Vec3>> = new Map();
     private unregisterAclWarmCallback: (() => void) | null = null;
+    // Identifies this manager to the others sharing its database
+    private readonly instanceId = crypto.randomUUID();
+    private fanoutBus: FanoutBus | null = null;
+    // Other managers seen on the fanout bus: instanceId -> last seen (ms)
+    private fanoutPeers: Map<string, number> = new Map();
+    // Connections open on other managers, for the per-session limit: "<instanceId>:<connectionId>" -> connection
+    private remoteConnections: Map<
+        string,
+        { instanceId: string; sessionId: string; connectedAt: number }
+    > = new Map();
+    // Admin session lists being gathered from the other managers, by fanout request id
+    private adminSessionRequests: Map<
+        string,
+        {
+            // Managers yet to send their last part
+            waiting: Set<string>;
+            sessions: WsProtocol.AdminSession[];
+            settle: () => void;
+        }
+    > = new Map();
+    private fanoutHeartbeatInterval: Timer | null = null;
+    private fanoutStats = {
+        published: 0,
+        received: 0,
+        dropped: 0,
+        rejected: 0,
+    };
     private readonly REFLECT_TOPIC_PREFIX = "reflect:";
     private readonly ENTITY_TOPIC_PREFIX = "entity:";
     private readonly METADATA_TOPIC_PREFIX = "metadata:";
+    private readonly TICK_TOPIC_PREFIX = "tick:";
     private readonly ENTITY_CHANGE_CHANNEL = "entity_change";
     private readonly ENTITY_METADATA_CHANGE_CHANNEL = "entity_metadata_change";
+    private readonly RATE_LIMIT_CONFIG_CHANNEL = "rate_limit_config_changed";
+    private readonly SYNC_GROUPS_CHANGE_CHANNEL = "sync_groups_changed";
+    private readonly AUTH_CONFIG_CHANGE_CHANNEL = "auth_config_changed";
+    private readonly CHANNEL_ACLS_CHANGE_CHANNEL = "channel_acls_changed";
+    private readonly NAMED_QUERIES_CHANGE_CHANNEL = "named_queries_changed";
+    private readonly TICK_STATE_CAPTURED_CHANNEL = "tick_state_captured";
+    private readonly ADMIN_REST_PATH = "/world/rest/ws/admin";
 
     private addCorsHeaders(response: Response, req: Request): Response {
         const origin = req.headers.get("origin");
@@ -186,6 +432,10 @@ export class WorldApiWsManager {
         return `${this.REFLECT_TOPIC_PREFIX}${syncGroup}:${channel}`;
     }
 
+    private getTickTopic(syncGroup: string): string {
+        return `${this.TICK_TOPIC_PREFIX}${syncGroup}`;
+    }
+
     private getEntityTopic(
         syncGroup: string,
         entityName: string,
@@ -209,6 +459,518 @@ export class WorldApiWsManager {
         return `${this.METADATA_TOPIC_PREFIX}${syncGroup}:${entityName}:${metadataKey}:${channel}`;
     }
 
+    private getWsCodec(ws: WebSocket | ServerWebSocket<unknown>): E_WsCodec {
+        return (
+            (ws as ServerWebSocket<WebSocketData>).data?.codec ??
+            DEFAULT_WS_CODEC
+        );
+    }
+
+    private getMetadataDeliveryMode(
+        ws: WebSocket | ServerWebSocket<unknown>,
+    ): WsProtocol.MetadataDeliveryMode {
+        return (
+            (ws as ServerWebSocket<WebSocketData>).data?.metadataDelivery ??
+            WsProtocol.MetadataDeliveryMode.FULL
+        );
+    }
+
+    // Binary codecs get their own copy of every topic so each subscriber receives its own wire format;
+    // delta-mode sockets likewise get their own copy of metadata topics
+    private getWireTopic(
+        topic: string,
+        codec: E_WsCodec,
+        metadataDelivery: WsProtocol.MetadataDeliveryMode,
+    ): string {
+        const modeTopic =
+            metadataDelivery === WsProtocol.MetadataDeliveryMode.DELTA &&
+            topic.startsWith(this.METADATA_TOPIC_PREFIX)
+                ? `${metadataDelivery}|${topic}`
+                : topic;
+        return codec === DEFAULT_WS_CODEC ? modeTopic : `${codec}|${modeTopic}`;
+    }
+
+    private getSocketTopic(
+        ws: ServerWebSocket<WebSocketData>,
+        topic: string,
+    ): string {
+        return this.getWireTopic(
+            topic,
+            this.getWsCodec(ws),
+            this.getMetadataDeliveryMode(ws),
+        );
+    }
+
+    private subscribeTopic(
+        ws: ServerWebSocket<WebSocketData>,
+        topic: string,
+    ): void {
+        ws.subscribe(this.getSocketTopic(ws, topic));
+        this.trackReplayTopic(ws, topic, true);
+    }
+
+    private unsubscribeTopic(
+        ws: ServerWebSocket<WebSocketData>,
+        topic: string,
+    ): void {
+        ws.unsubscribe(this.getSocketTopic(ws, topic));
+        this.trackReplayTopic(ws, topic, false);
+    }
+
+    // ENTITY_CHANNEL_SUBSCRIBE_REQUEST topics stay subscribed when a query match on the same topic ends
+    private subscribeExplicitTopic(
+        ws: ServerWebSocket<WebSocketData>,
+        topic: string,
+    ): void {
+        let topics = this.explicitTopics.get(ws);
+        if (!topics) {
+            topics = new Set();
+            this.explicitTopics.set(ws, topics);
+        }
+        topics.add(topic);
+        this.subscribeTopic(ws, topic);
+    }
+
+    // Keeps the socket subscribed while one of its entity queries still matches through the topic
+    private unsubscribeExplicitTopic(
+        ws: ServerWebSocket<WebSocketData>,
+        topic: string,
+    ): void {
+        this.explicitTopics.get(ws)?.delete(topic);
+        for (const query of this.entityQueries.values()) {
+            if (query.ws !== ws) continue;
+            for (const [entityName, syncGroup] of query.entities) {
+                if (
+                    this.getEntityQueryTopics(
+                        syncGroup,
+                        entityName,
+                        query.channel,
+                    ).includes(topic)
+                ) {
+                    return;
+                }
+            }
+        }
+        this.unsubscribeTopic(ws, topic);
+    }
+
+    // Move existing metadata subscriptions over to the topic copies for the new mode
+    private setMetadataDeliveryMode(
+        ws: ServerWebSocket<WebSocketData>,
+        mode: WsProtocol.MetadataDeliveryMode,
+    ): void {
+        if (this.getMetadataDeliveryMode(ws) === mode) {
+            return;
+        }
+        const metadataTopics = this.getSubscribedTopics(ws).filter((topic) =>
+            topic.startsWith(this.METADATA_TOPIC_PREFIX),
+        );
+        for (const topic of metadataTopics) {
+            this.unsubscribeTopic(ws, topic);
+        }
+        ws.data.metadataDelivery = mode;
+        for (const topic of metadataTopics) {
+            this.subscribeTopic(ws, topic);
+        }
+    }
+
+    // Current subscriptions from Bun's native getter, with wire topic names mapped back
+    private getSubscribedTopics(ws: ServerWebSocket<WebSocketData>): string[] {
+        const subscriptions =
+            (ws as unknown as { subscriptions?: string[] }).subscriptions || [];
+        const prefixes = [
+            `${this.getWsCodec(ws)}|`,
+            `${WsProtocol.MetadataDeliveryMode.DELTA}|`,
+        ];
+        return subscriptions.map((topic) => {
+            let logicalTopic = topic;
+            for (const prefix of prefixes) {
+                if (logicalTopic.startsWith(prefix)) {
+                    logicalTopic = logicalTopic.slice(prefix.length);
+                }
+            }
+            return logicalTopic;
+        });
+    }
+
+    // A session's connected sockets, oldest first
+    private getSessionConnections(sessionId: string): WorldSession<unknown>[] {
+        return Array.from(this.activeSessions.values()).filter(
+            (session) => session.sessionId === sessionId,
+        );
+    }
+
+    // Closes this manager's share of a session's oldest connections beyond the limit. Connections on
+    // other managers count too; each manager closes its own. `incoming` makes room for a socket being opened
+    private closeExcessSessionConnections(sessionId: string, incoming = 0) {
+        const connections = [
+            ...this.getSessionConnections(sessionId).map((session) => ({
+                connectedAt: session.connectedAt,
+                session: session as WorldSession<unknown> | null,
+            })),
+            ...Array.from(this.remoteConnections.values())
+                .filter((connection) => connection.sessionId === sessionId)
+                .map((connection) => ({
+                    connectedAt: connection.connectedAt,
+                    session: null,
+                })),
+        ].sort((a, b) => a.connectedAt - b.connectedAt);
+        const excess =
+            connections.length + incoming - this.maxConnectionsPerSession;
+        for (const { session } of connections.slice(0, Math.max(0, excess))) {
+            if (!session) {
+                continue;
+            }
+            BunLogModule({
+                prefix: LOG_PREFIX,
+                message:
+                    "Closing oldest WebSocket: session connection limit reached",
+                debug: this.DEBUG,
+                suppress: this.SUPPRESS,
+                type: "info",
+                data: {
+                    sessionId: session.sessionId,
+                    connectionId: session.connectionId,
+                    limit: this.maxConnectionsPerSession,
+                },
+            });
+            session.ws.close(1000, "Session connection limit reached");
+        }
+    }
+
+    // Connected sockets per logical topic
+    private getTopicSubscriberCounts(): Map<string, number> {
+        const counts = new Map<string, number>();
+        for (const session of this.activeSessions.values()) {
+            const ws = session.ws as ServerWebSocket<WebSocketData>;
+            for (const topic of this.getSubscribedTopics(ws)) {
+                counts.set(topic, (counts.get(topic) ?? 0) + 1);
+            }
+        }
+        return counts;
+    }
+
+    // OpenMetrics exposition for METRICS_PATH
+    private renderMetrics(): Response {
+        const writer = new OpenMetricsWriter("vircadia_ws");
+        writer.processMetrics();
+        writer.gauge(
+            "connections",
+            "Connected sockets",
+            this.activeSessions.size,
+        );
+        writer.gauge(
+            "sessions",
+            "Sessions with at least one connected socket",
+            new Set(
+                Array.from(
+                    this.activeSessions.values(),
+                    (session) => session.sessionId,
+                ),
+            ).size,
+        );
+        writer.gauge(
+            "presence_sessions",
+            "Sessions present in the sync group across instances",
+            Array.from(
+                this.presence.countBySyncGroup(),
+                ([syncGroup, value]) => ({
+                    labels: { sync_group: syncGroup },
+                    value,
+                }),
+            ),
+        );
+        writer.gauge(
+            "tick_rate_seconds",
+            "Configured tick interval",
+            Array.from(this.reflectTickRateMs, ([syncGroup, rateMs]) => ({
+                labels: { sync_group: syncGroup },
+                value: rateMs / 1000,
+            })),
+        );
+        writer.gauge(
+            "tick_subscribers",
+            "Sockets subscribed to TICK_DELIVERY",
+            Array.from(this.reflectTickRateMs.keys(), (syncGroup) => ({
+                labels: { sync_group: syncGroup },
+                value: this.countTickSubscribers(syncGroup),
+            })),
+        );
+        writer.gauge(
+            "slow_consumers",
+            "Sockets currently behind on deliveries",
+            this.slowConsumers.size,
+        );
+        writer.gauge(
+            "in_flight_queries",
+            "Queries currently running",
+            this.inFlightQueries.size,
+        );
+        writer.gauge(
+            "query_cursors",
+            "Open QUERY_PAGE_REQUEST cursors",
+            this.queryCursors.size,
+        );
+        writer.gauge(
+            "entity_query_subscriptions",
+            "Live entity query subscriptions",
+            this.entityQueries.size,
+        );
+        writer.gauge(
+            "fanout_peers",
+            "Other manager instances seen recently",
+            this.fanoutPeers.size,
+        );
+        writer.counter(
+            "fanout_events",
+            "Cross-instance events published, received or dropped",
+            Object.entries(this.fanoutStats).map(([direction, value]) => ({
+                labels: { direction },
+                value,
+            })),
+        );
+        this.metricsCollector.writeOpenMetrics(writer);
+        return writer.toResponse();
+    }
+
+    // Encode a message with the socket's negotiated codec and send it, returning the bytes sent
+    private sendMessage(
+        ws: WebSocket | ServerWebSocket<unknown>,
+        message: unknown,
+    ): number {
+        const encoded = encodeWsMessage(this.getWsCodec(ws), message);
+        ws.send(encoded);
+        return getEncodedByteLength(encoded);
+    }
+
+    // Publish to every wire copy of a topic; delta-mode copies only receive `deltaMessage`
+    private publishToTopic(
+        topic: string,
+        message: EncodedWsMessage,
+        deltaMessage?: EncodedWsMessage,
+    ): number {
+        if (!this.server) {
+            return 0;
+        }
+        let delivered = this.server.publish(
+            topic,
+            message.get(DEFAULT_WS_CODEC),
+        );
+        for (const codec of BINARY_WS_CODECS) {
+            const codecTopic = this.getWireTopic(
+                topic,
+                codec,
+                WsProtocol.MetadataDeliveryMode.FULL,
+            );
+            if (this.server.subscriberCount(codecTopic) > 0) {
+                delivered += this.server.publish(
+                    codecTopic,
+                    message.get(codec),
+                );
+            }
+        }
+        if (deltaMessage) {
+            for (const codec of Object.values(E_WsCodec)) {
+                const deltaTopic = this.getWireTopic(
+                    topic,
+                    codec,
+                    WsProtocol.MetadataDeliveryMode.DELTA,
+                );
+                if (this.server.subscriberCount(deltaTopic) > 0) {
+                    delivered += this.server.publish(
+                        deltaTopic,
+                        deltaMessage.get(codec),
+                    );
+                }
+            }
+        }
+        return delivered;
+    }
+
+    private hasMetadataDeltaSubscribers(topics: string[]): boolean {
+        if (!this.server) {
+            return false;
+        }
+        for (const topic of topics) {
+            // Detached delta-mode sessions need unbroken versions to resume
+            for (const state of this.replayTopicIndex.get(topic) ?? []) {
+                if (
+                    this.getMetadataDeliveryMode(state.ws) ===
+                    WsProtocol.MetadataDeliveryMode.DELTA
+                ) {
+                    return true;
+                }
+            }
+            for (const codec of Object.values(E_WsCodec)) {
+                const deltaTopic = this.getWireTopic(
+                    topic,
+                    codec,
+                    WsProtocol.MetadataDeliveryMode.DELTA,
+                );
+                if (this.server.subscriberCount(deltaTopic) > 0) {
+                    return true;
+                }
+            }
+        }
+        return false;
+    }
+
+    // Entity and metadata deliveries are sequenced and replayable; reflect is not
+    private isSequencedTopic(topic: string): boolean {
+        return (
+            topic.startsWith(this.ENTITY_TOPIC_PREFIX) ||
+            topic.startsWith(this.METADATA_TOPIC_PREFIX)
+        );
+    }
+
+    private getReplayState(
+        ws: ServerWebSocket<WebSocketData>,
+    ): SessionReplayState | undefined {
+        const state = this.sessionReplays.get(ws.data.connectionId);
+        return state?.ws === ws ? state : undefined;
+    }
+
+    private trackReplayTopic(
+        ws: ServerWebSocket<WebSocketData>,
+        topic: string,
+        subscribed: boolean,
+    ): void {
+        if (!this.isSequencedTopic(topic)) {
+            return;
+        }
+        const state = this.getReplayState(ws);
+        if (!state) {
+            return;
+        }
+        let states = this.replayTopicIndex.get(topic);
+        if (subscribed) {
+            state.topics.add(topic);
+            if (!states) {
+                states = new Set();
+                this.replayTopicIndex.set(topic, states);
+            }
+            states.add(state);
+        } else {
+            state.topics.delete(topic);
+            states?.delete(state);
+            if (states?.size === 0) {
+                this.replayTopicIndex.delete(topic);
+            }
+        }
+    }
+
+    private attachReplayState(ws: ServerWebSocket<WebSocketData>): void {
+        this.sessionReplays.set(ws.data.connectionId, {
+            sessionId: ws.data.sessionId,
+            connectionId: ws.data.connectionId,
+            ws,
+            topics: new Set(),
+            buffer: new ReplayBuffer(this.REPLAY_BUFFER_SIZE),
+        });
+    }
+
+    // Keep recording a closed socket's deliveries for a while so a reconnect can resume them
+    private detachReplayState(ws: ServerWebSocket<WebSocketData>): void {
+        const state = this.getReplayState(ws);
+        if (!state) {
+            return;
+        }
+        this.sessionReplays.delete(state.connectionId);
+        const previous = this.detachedReplays.get(state.connectionId);
+        if (previous) {
+            this.discardReplayState(previous);
+        }
+        state.expiryTimer = setTimeout(
+            () => this.discardReplayState(state),
+            this.REPLAY_RETENTION_MS,
+        );
+        this.detachedReplays.set(state.connectionId, state);
+    }
+
+    private discardReplayState(state: SessionReplayState): void {
+        clearTimeout(state.expiryTimer);
+        if (this.detachedReplays.get(state.connectionId) === state) {
+            this.detachedReplays.delete(state.connectionId);
+        }
+        if (this.sessionReplays.get(state.connectionId) === state) {
+            this.sessionReplays.delete(state.connectionId);
+        }
+        for (const topic of state.topics) {
+            const states = this.replayTopicIndex.get(topic);
+            states?.delete(state);
+            if (states?.size === 0) {
+                this.replayTopicIndex.delete(topic);
+            }
+        }
+    }
+
+    // Publish a sequenced delivery and record it for every session following the topic
+    // With `channelAcl` set, only sockets whose agent may read that channel get the message, whichever
+    // topic they are subscribed through (e.g. the entity's all-channels topic)
+    private publishSequenced(
+        topic: string,
+        seq: number,
+        message: EncodedWsMessage,
+        deltaMessage?: EncodedWsMessage,
+        channelAcl?: { syncGroup: string; channel: string },
+    ): number {
+        const canRead = (agentId: string) =>
+            !channelAcl ||
+            this.canAccessChannel(
+                agentId,
+                channelAcl.syncGroup,
+                channelAcl.channel,
+                "read",
+            );
+        const delivered = channelAcl
+            ? this.publishToReaders(topic, message, deltaMessage, canRead)
+            : this.publishToTopic(topic, message, deltaMessage);
+        const states = this.replayTopicIndex.get(topic);
+        if (states) {
+            const entry: ReplayEntry = { seq, topic, message, deltaMessage };
+            for (const state of states) {
+                if (canRead(state.ws.data.agentId)) {
+                    state.buffer.push(entry);
+                }
+            }
+        }
+        return delivered;
+    }
+
+    // Per-socket counterpart of publishToTopic for deliveries not every subscriber may receive
+    private publishToReaders(
+        topic: string,
+        message: EncodedWsMessage,
+        deltaMessage: EncodedWsMessage | undefined,
+        canRead: (agentId: string) => boolean,
+    ): number {
+        let delivered = 0;
+        for (const session of this.activeSessions.values()) {
+            const ws = session.ws as ServerWebSocket<WebSocketData>;
+            const socketTopic = this.getSocketTopic(ws, topic);
+            if (!ws.isSubscribed(socketTopic) || !canRead(session.agentId)) {
+                continue;
+            }
+            const wireMessage =
+                socketTopic ===
+                this.getWireTopic(
+                    topic,
+                    this.getWsCodec(ws),
+                    WsProtocol.MetadataDeliveryMode.FULL,
+                )
+                    ? message
+                    : deltaMessage;
+            if (!wireMessage) {
+                continue;
+            }
+            const sent = ws.send(wireMessage.get(this.getWsCodec(ws)));
+            if (sent > 0) {
+                delivered += sent;
+            }
+        }
+        return delivered;
+    }
+
     private syncReflectSubscriptionsForSession(
         session: WorldSession<unknown>,
     ): void {
@@ -228,10 +990,7 @@ export class WorldApiWsManager {
             requestedGroups.add(group);
         }
 
-        // Get current subscriptions from Bun's native getter
-        const subscriptions =
-            (ws as unknown as { subscriptions?: string[] }).subscriptions || [];
-        const currentSubscriptions = new Set(subscriptions);
+        const currentSubscriptions = new Set(this.getSubscribedTopics(ws));
 
         // Unsubscribe from groups we no longer have access to
         for (const subscription of currentSubscriptions) {
@@ -241,10 +1000,20 @@ export class WorldApiWsManager {
                     .split(":")[0];
                 if (!requestedGroups.has(syncGroup)) {
                     try {
-                        ws.unsubscribe(subscription);
+                        this.unsubscribeTopic(ws, subscription);
                     } catch {
                         // ignore unsubscribe errors
                     }
+                    if (subscription === this.getReflectTopic(syncGroup)) {
+                        this.leavePresence(syncGroup, session.connectionId);
+                    }
+                }
+            } else if (subscription.startsWith(this.TICK_TOPIC_PREFIX)) {
+                const syncGroup = subscription.slice(
+                    this.TICK_TOPIC_PREFIX.length,
+                );
+                if (!requestedGroups.has(syncGroup)) {
+                    this.unsubscribeTopic(ws, subscription);
                 }
             }
         }
@@ -254,7 +1023,9 @@ export class WorldApiWsManager {
             const allChannelsTopic = this.getReflectTopic(group);
             if (!currentSubscriptions.has(allChannelsTopic)) {
                 try {
-                    ws.subscribe(allChannelsTopic);
+                    this.subscribeTopic(ws, allChannelsTopic);
+                    this.sendRetainedReflects(ws, group);
+                    this.joinPresence(ws, group);
                 } catch {
                     // ignore subscribe errors
                 }
@@ -265,7 +1036,7 @@ export class WorldApiWsManager {
     private publishReflect(
         syncGroup: string,
         channel: string,
-        payloadJson: string,
+        message: EncodedWsMessage,
     ): number {
         if (!this.server) {
             return 0;
@@ -273,12 +1044,12 @@ export class WorldApiWsManager {
 
         // Always publish to the "all channels" topic
         const allChannelsTopic = this.getReflectTopic(syncGroup);
-        let delivered = this.server.publish(allChannelsTopic, payloadJson);
+        let delivered = this.publishToTopic(allChannelsTopic, message);
 
         // If a specific channel is provided, also publish to the channel-specific topic
         if (channel !== null && channel !== undefined && channel !== "") {
             const channelTopic = this.getReflectTopic(syncGroup, channel);
-            delivered += this.server.publish(channelTopic, payloadJson);
+            delivered += this.publishToTopic(channelTopic, message);
         }
 
         return delivered;
@@ -287,9 +1058,12 @@ export class WorldApiWsManager {
     private enqueueReflect(
         syncGroup: string,
         channel: string,
-        fromSessionId: string,
-        payloadJson: string,
+        fromConnectionId: string,
+        delivery: unknown,
         ackRequestId?: string,
+        position?: Vec3,
+        targets?: WsProtocol.ReflectPublishTargets,
+        instanceId: string = this.instanceId,
     ) {
         let groupMap = this.reflectQueues.get(syncGroup);
         if (!groupMap) {
@@ -301,65 +1075,565 @@ export class WorldApiWsManager {
             channelMap = new Map();
             groupMap.set(channel, channelMap);
         }
-        // Only one message per session per channel; replace any existing
-        channelMap.set(fromSessionId, {
+        // Only one broadcast per connection per channel; replace any existing. Targeted
+        // messages (e.g. signaling) are never coalesced, as each may go to different recipients.
+        const key = targets
+            ? `${fromConnectionId}#${++this.targetedReflectCount}`
+            : fromConnectionId;
+        const payloadJson = JSON.stringify(delivery);
+        const message = new EncodedWsMessage(delivery, payloadJson);
+        channelMap.set(key, {
+            fromConnectionId,
+            message,
             payloadJson,
+            payloadBytes: Buffer.byteLength(payloadJson),
             ack: ackRequestId ? { requestId: ackRequestId } : undefined,
+            position,
+            targets,
         });
+
+        // Retained as soon as it is accepted, so a disconnect processed after this still expires it
+        if (
+            !targets &&
+            this.reflectRetainedChannels.get(syncGroup)?.has(channel)
+        ) {
+            let retainedGroup = this.retainedReflects.get(syncGroup);
+            if (!retainedGroup) {
+                retainedGroup = new Map();
+                this.retainedReflects.set(syncGroup, retainedGroup);
+            }
+            let retainedChannel = retainedGroup.get(channel);
+            if (!retainedChannel) {
+                retainedChannel = new Map();
+                retainedGroup.set(channel, retainedChannel);
+            }
+            retainedChannel.set(fromConnectionId, { message, instanceId });
+        }
     }
 
-    private async flushTickQueues(syncGroup: string) {
-        const flushStartTime = performance.now();
-        const groupMap = this.reflectQueues.get(syncGroup);
+    // Hand a socket that just started receiving a sync group the last message of each publisher
+    // on the group's retained channels
+    private sendRetainedReflects(
+        ws: ServerWebSocket<WebSocketData>,
+        syncGroup: string,
+    ) {
+        const groupMap = this.retainedReflects.get(syncGroup);
         if (!groupMap) {
-            // Check if there are metadata/entity queues even if no reflect queue
-            const hasMetadataQueues = this.entityMetadataQueues.has(syncGroup);
-            const hasEntityQueues = this.entityQueues.has(syncGroup);
-            if (!hasMetadataQueues && !hasEntityQueues) {
-                return;
+            return;
+        }
+        for (const [channel, channelMap] of groupMap) {
+            if (
+                !this.canAccessChannel(
+                    ws.data.agentId,
+                    syncGroup,
+                    channel,
+                    "read",
+                )
+            ) {
+                continue;
+            }
+            for (const [fromConnectionId, retained] of channelMap) {
+                if (fromConnectionId === ws.data.connectionId) {
+                    continue;
+                }
+                ws.send(retained.message.get(this.getWsCodec(ws)));
             }
-            // Continue to process metadata/entity queues even if reflect queue is empty
         }
+    }
 
-        const startTime = performance.now();
-        let reflectDeliveredCount = 0;
-        let reflectMessages = 0;
-        let reflectUniqueMessages = 0;
-        let reflectBytes = 0;
-        const reflectStartTime = performance.now();
-        let entityDeliveredCount = 0;
-        let entityMessages = 0;
-        let entityUniqueMessages = 0;
-        let entityBytes = 0;
-        let entityStartTime = 0;
-        let metadataDeliveredCount = 0;
-        let metadataMessages = 0;
-        let metadataUniqueMessages = 0;
-        let metadataBytes = 0;
-        let metadataStartTime = 0;
+    // Presence deliveries ride the sync group's all-channels reflect topic, which every reader follows
+    private publishPresence(
+        syncGroup: string,
+        message:
+            | WsProtocol.PresenceJoinMessage
+            | WsProtocol.PresenceLeaveMessage,
+    ) {
+        this.publishToTopic(
+            this.getReflectTopic(syncGroup),
+            new EncodedWsMessage(message),
+        );
+    }
 
-        // Track unique reflect messages by channel+payload hash
-        const reflectMessageHashes = new Set<string>();
-        if (groupMap) {
-            for (const [channel, channelMap] of groupMap) {
-                for (const [fromSessionId, queuedItem] of channelMap) {
-                    const payloadJson = queuedItem.payloadJson;
-                    reflectMessages++;
-                    const messageHash = `${channel}:${payloadJson}`;
-                    if (!reflectMessageHashes.has(messageHash)) {
-                        reflectMessageHashes.add(messageHash);
-                        reflectUniqueMessages++;
-                    }
-                    const messageBytes = new TextEncoder().encode(
-                        payloadJson,
-                    ).length;
-                    reflectBytes += messageBytes;
-                    const perMessageStart = performance.now();
-                    const deliveredForMessage = this.publishReflect(
-                        syncGroup,
-                        channel,
-                        payloadJson,
-                    );
+    private announcePresence(
+        syncGroup: string,
+        connection: PresenceConnection,
+        attributes?: WsProtocol.PresenceAttributes,
+    ) {
+        const { member, changed } = this.presence.join(
+            syncGroup,
+            connection,
+            attributes,
+        );
+        if (changed) {
+            this.publishPresence(
+                syncGroup,
+                this.parseProtocolResponse(WsProtocol.Z.PresenceJoin, {
+                    type: WsProtocol.MessageType.PRESENCE_JOIN,
+                    timestamp: Date.now(),
+                    requestId: "",
+                    errorMessage: null,
+                    syncGroup,
+                    member,
+                }),
+            );
+        }
+    }
+
+    private announcePresenceLeaves(
+        left: Array<{ syncGroup: string; sessionId: string }>,
+    ) {
+        for (const { syncGroup, sessionId } of left) {
+            this.publishPresence(
+                syncGroup,
+                this.parseProtocolResponse(WsProtocol.Z.PresenceLeave, {
+                    type: WsProtocol.MessageType.PRESENCE_LEAVE,
+                    timestamp: Date.now(),
+                    requestId: "",
+                    errorMessage: null,
+                    syncGroup,
+                    sessionId,
+                }),
+            );
+        }
+    }
+
+    // Make the socket's session present in the sync group, here and on the other instances, and
+    // tell the socket who is there
+    private joinPresence(
+        ws: ServerWebSocket<WebSocketData>,
+        syncGroup: string,
+    ) {
+        const attributes = this.presenceAttributes.get(ws.data.sessionId);
+        this.announcePresence(
+            syncGroup,
+            {
+                connectionId: ws.data.connectionId,
+                sessionId: ws.data.sessionId,
+                agentId: ws.data.agentId,
+                instanceId: this.instanceId,
+            },
+            attributes,
+        );
+        void this.publishFanout({
+            type: "presence_join",
+            syncGroup,
+            connectionId: ws.data.connectionId,
+            sessionId: ws.data.sessionId,
+            agentId: ws.data.agentId,
+            attributes,
+        });
+        this.sendMessage(
+            ws,
+            this.parseProtocolResponse(WsProtocol.Z.PresenceState, {
+                type: WsProtocol.MessageType.PRESENCE_STATE,
+                timestamp: Date.now(),
+                requestId: "",
+                errorMessage: null,
+                syncGroup,
+                members: this.presence.members(syncGroup),
+            }),
+        );
+    }
+
+    private leavePresence(syncGroup: string, connectionId: string) {
+        this.announcePresenceLeaves(
+            this.presence.leave(
+                (id, instanceId) =>
+                    id === connectionId && instanceId === this.instanceId,
+                syncGroup,
+            ),
+        );
+        void this.publishFanout({
+            type: "presence_leave",
+            syncGroup,
+            connectionId,
+        });
+    }
+
+    // Drop the retained reflect messages of publishers that are gone; returns how many were dropped
+    private dropRetainedReflects(
+        isGone: (
+            fromConnectionId: string,
+            retained: RetainedReflect,
+        ) => boolean,
+    ): number {
+        let dropped = 0;
+        for (const [syncGroup, groupMap] of this.retainedReflects) {
+            for (const [channel, channelMap] of groupMap) {
+                for (const [fromConnectionId, retained] of channelMap) {
+                    if (isGone(fromConnectionId, retained)) {
+                        channelMap.delete(fromConnectionId);
+                        dropped++;
+                    }
+                }
+                if (channelMap.size === 0) {
+                    groupMap.delete(channel);
+                }
+            }
+            if (groupMap.size === 0) {
+                this.retainedReflects.delete(syncGroup);
+            }
+        }
+        return dropped;
+    }
+
+    private setInterestPosition(
+        syncGroup: string,
+        connectionId: string,
+        position: Vec3 | null,
+    ) {
+        let groupPositions = this.interestPositions.get(syncGroup);
+        if (!position) {
+            groupPositions?.delete(connectionId);
+            if (groupPositions?.size === 0) {
+                this.interestPositions.delete(syncGroup);
+            }
+            return;
+        }
+        if (!groupPositions) {
+            groupPositions = new Map();
+            this.interestPositions.set(syncGroup, groupPositions);
+        }
+        groupPositions.set(connectionId, position);
+    }
+
+    private clearInterestPositions(connectionId: string) {
+        for (const syncGroup of Array.from(this.interestPositions.keys())) {
+            this.setInterestPosition(syncGroup, connectionId, null);
+        }
+    }
+
+    // Sessions with a known position go into the grid; the rest receive every delivery
+    private buildInterestIndex(syncGroup: string): {
+        grid: InterestGrid<WorldSession<unknown>>;
+        unpositioned: WorldSession<unknown>[];
+    } | null {
+        const config = this.reflectInterestConfigs.get(syncGroup);
+        if (!config) {
+            return null;
+        }
+        const grid = new InterestGrid<WorldSession<unknown>>(config);
+        const unpositioned: WorldSession<unknown>[] = [];
+        const positions = this.interestPositions.get(syncGroup);
+        for (const session of this.activeSessions.values()) {
+            const position = positions?.get(session.connectionId);
+            if (position) {
+                grid.add(session, position);
+            } else {
+                unpositioned.push(session);
+            }
+        }
+        return { grid, unpositioned };
+    }
+
+    // Per-socket counterpart of publishReflect for messages that carry a position
+    private publishReflectWithinInterest(
+        syncGroup: string,
+        channel: string,
+        message: EncodedWsMessage,
+        position: Vec3,
+        index: {
+            grid: InterestGrid<WorldSession<unknown>>;
+            unpositioned: WorldSession<unknown>[];
+        },
+        queueKey: string,
+    ): number {
+        return this.sendReflectToSessions(
+            syncGroup,
+            channel,
+            message,
+            [...index.grid.within(position), ...index.unpositioned],
+            queueKey,
+        );
+    }
+
+    // Unicast/multicast counterpart of publishReflect: only the targeted sessions' or connections'
+    // sockets on this instance that topic fanout would have reached get the message
+    private publishReflectToTargets(
+        syncGroup: string,
+        channel: string,
+        message: EncodedWsMessage,
+        targets: WsProtocol.ReflectPublishTargets,
+        queueKey: string,
+    ): number {
+        const recipients = new Set<WorldSession<unknown>>();
+        for (const connectionId of targets.targetConnectionIds ?? []) {
+            const session = this.activeSessions.get(connectionId);
+            if (session) {
+                recipients.add(session);
+            }
+        }
+        if (targets.targetSessionIds?.length) {
+            const sessionIds = new Set(targets.targetSessionIds);
+            for (const session of this.activeSessions.values()) {
+                if (sessionIds.has(session.sessionId)) {
+                    recipients.add(session);
+                }
+            }
+        }
+        return this.sendReflectToSessions(
+            syncGroup,
+            channel,
+            message,
+            recipients,
+            queueKey,
+        );
+    }
+
+    // Per-socket delivery for when topic fanout would reach too many sockets: only those subscribed
+    // to the sync group or channel whose agent may also read the channel get the message. Slow
+    // consumers keep only the latest message per `queueKey` (the reflect queue key) until they drain.
+    private sendReflectToSessions(
+        syncGroup: string,
+        channel: string,
+        message: EncodedWsMessage,
+        sessions: Iterable<WorldSession<unknown>>,
+        queueKey: string,
+    ): number {
+        const topics = [
+            this.getReflectTopic(syncGroup),
+            this.getReflectTopic(syncGroup, channel),
+        ];
+        const checkChannelAcl = this.hasChannelAcl(syncGroup, channel);
+        let delivered = 0;
+        for (const session of sessions) {
+            const ws = session.ws as ServerWebSocket<WebSocketData>;
+            if (
+                !topics.some((topic) =>
+                    ws.isSubscribed(this.getSocketTopic(ws, topic)),
+                )
+            ) {
+                continue;
+            }
+            if (
+                checkChannelAcl &&
+                !this.canAccessChannel(
+                    session.agentId,
+                    syncGroup,
+                    channel,
+                    "read",
+                )
+            ) {
+                continue;
+            }
+            const slowConsumer = this.slowConsumers.get(ws);
+            if (slowConsumer) {
+                const pendingKey = `${syncGroup}\n${channel}\n${queueKey}`;
+                if (slowConsumer.pending.has(pendingKey)) {
+                    this.metricsCollector.recordSlowConsumerCoalesced();
+                }
+                slowConsumer.pending.set(pendingKey, message);
+                continue;
+            }
+            const sent = ws.send(message.get(this.getWsCodec(ws)));
+            if (sent > 0) {
+                delivered += sent;
+            }
+        }
+        return delivered;
+    }
+
+    // Whether a slow consumer follows any of the sync group's reflect topics; broadcasts in the
+    // group then go per socket so the slow one can be skipped
+    private hasSlowReflectSubscriber(syncGroup: string): boolean {
+        const prefix = `${this.REFLECT_TOPIC_PREFIX}${syncGroup}:`;
+        for (const ws of this.slowConsumers.keys()) {
+            if (
+                this.getSubscribedTopics(ws).some((topic) =>
+                    topic.startsWith(prefix),
+                )
+            ) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    // Moves the socket into or out of slow consumer mode by its buffered bytes, and closes it when
+    // it stays behind for too long
+    private checkSlowConsumer(ws: ServerWebSocket<WebSocketData>) {
+        const bufferedBytes = ws.getBufferedAmount();
+        const consumer = this.slowConsumers.get(ws);
+        if (!consumer) {
+            if (bufferedBytes > this.SLOW_CONSUMER_BUFFER_BYTES) {
+                this.slowConsumers.set(ws, {
+                    since: Date.now(),
+                    pending: new Map(),
+                });
+                this.metricsCollector.recordSlowConsumer("detected");
+                BunLogModule({
+                    prefix: LOG_PREFIX,
+                    message:
+                        "Slow consumer detected, coalescing reflect deliveries",
+                    debug: this.DEBUG,
+                    suppress: this.SUPPRESS,
+                    type: "debug",
+                    data: {
+                        connectionId: ws.data.connectionId,
+                        bufferedBytes,
+                    },
+                });
+            }
+            return;
+        }
+        if (
+            bufferedBytes > this.SLOW_CONSUMER_DISCONNECT_BYTES ||
+            consumer.pending.size > this.SLOW_CONSUMER_MAX_PENDING ||
+            Date.now() - consumer.since > this.SLOW_CONSUMER_MAX_MS
+        ) {
+            this.slowConsumers.delete(ws);
+            this.metricsCollector.recordSlowConsumer("disconnected");
+            BunLogModule({
+                prefix: LOG_PREFIX,
+                message: "Closing slow consumer",
+                debug: this.DEBUG,
+                suppress: this.SUPPRESS,
+                type: "warn",
+                data: {
+                    connectionId: ws.data.connectionId,
+                    agentId: ws.data.agentId,
+                    bufferedBytes,
+                    slowForMs: Date.now() - consumer.since,
+                    pending: consumer.pending.size,
+                },
+            });
+            ws.close(WsProtocol.CloseCode.SLOW_CONSUMER, "Slow consumer");
+            return;
+        }
+        if (bufferedBytes <= this.SLOW_CONSUMER_RESUME_BYTES) {
+            this.slowConsumers.delete(ws);
+            for (const message of consumer.pending.values()) {
+                ws.send(message.get(this.getWsCodec(ws)));
+            }
+            this.metricsCollector.recordSlowConsumer("recovered");
+        }
+    }
+
+    // Tick subscribers on every codec's copy of the topic
+    private countTickSubscribers(syncGroup: string): number {
+        const server = this.server;
+        if (!server) {
+            return 0;
+        }
+        const topic = this.getTickTopic(syncGroup);
+        return Object.values(E_WsCodec).reduce(
+            (count, codec) =>
+                count +
+                server.subscriberCount(
+                    this.getWireTopic(
+                        topic,
+                        codec,
+                        WsProtocol.MetadataDeliveryMode.FULL,
+                    ),
+                ),
+            0,
+        );
+    }
+
+    // Starts a tick: counts it and tells the sync group's tick subscribers before its queues flush
+    private publishTick(syncGroup: string) {
+        const tick = (this.reflectTickCounts.get(syncGroup) ?? 0) + 1;
+        this.reflectTickCounts.set(syncGroup, tick);
+        const topic = this.getTickTopic(syncGroup);
+        if (this.countTickSubscribers(syncGroup) === 0) {
+            return;
+        }
+        const serverTime = Date.now();
+        const delivery: WsProtocol.TickDeliveryMessage = {
+            type: WsProtocol.MessageType.TICK_DELIVERY,
+            timestamp: serverTime,
+            requestId: "",
+            errorMessage: null,
+            syncGroup,
+            tick,
+            serverTime,
+            tickRateMs: this.reflectTickRateMs.get(syncGroup) ?? 0,
+            stateTick: this.stateTickNumbers.get(syncGroup) ?? null,
+        };
+        this.publishToTopic(topic, new EncodedWsMessage(delivery));
+    }
+
+    private async flushTickQueues(syncGroup: string) {
+        const flushStartTime = performance.now();
+        const groupMap = this.reflectQueues.get(syncGroup);
+        if (!groupMap) {
+            // Check if there are metadata/entity queues even if no reflect queue
+            const hasMetadataQueues = this.entityMetadataQueues.has(syncGroup);
+            const hasEntityQueues = this.entityQueues.has(syncGroup);
+            if (!hasMetadataQueues && !hasEntityQueues) {
+                return;
+            }
+            // Continue to process metadata/entity queues even if reflect queue is empty
+        }
+
+        const startTime = performance.now();
+        let reflectDeliveredCount = 0;
+        let reflectMessages = 0;
+        let reflectUniqueMessages = 0;
+        let reflectBytes = 0;
+        const reflectStartTime = performance.now();
+        let entityDeliveredCount = 0;
+        let entityMessages = 0;
+        let entityUniqueMessages = 0;
+        let entityBytes = 0;
+        let entityStartTime = 0;
+        let metadataDeliveredCount = 0;
+        let metadataMessages = 0;
+        let metadataUniqueMessages = 0;
+        let metadataBytes = 0;
+        let metadataStartTime = 0;
+
+        // Track unique reflect messages by channel+payload hash
+        const reflectMessageHashes = new Set<string>();
+        const interestIndex = groupMap
+            ? this.buildInterestIndex(syncGroup)
+            : null;
+        const slowSubscribers =
+            !!groupMap && this.hasSlowReflectSubscriber(syncGroup);
+        if (groupMap) {
+            for (const [channel, channelMap] of groupMap) {
+                for (const [queueKey, queuedItem] of channelMap) {
+                    const payloadJson = queuedItem.payloadJson;
+                    reflectMessages++;
+                    const messageHash = `${channel}:${payloadJson}`;
+                    if (!reflectMessageHashes.has(messageHash)) {
+                        reflectMessageHashes.add(messageHash);
+                        reflectUniqueMessages++;
+                    }
+                    const messageBytes = queuedItem.payloadBytes;
+                    reflectBytes += messageBytes;
+                    const perMessageStart = performance.now();
+                    const deliveredForMessage = queuedItem.targets
+                        ? this.publishReflectToTargets(
+                              syncGroup,
+                              channel,
+                              queuedItem.message,
+                              queuedItem.targets,
+                              queueKey,
+                          )
+                        : interestIndex && queuedItem.position
+                          ? this.publishReflectWithinInterest(
+                                syncGroup,
+                                channel,
+                                queuedItem.message,
+                                queuedItem.position,
+                                interestIndex,
+                                queueKey,
+                            )
+                          : slowSubscribers ||
+                              this.hasChannelAcl(syncGroup, channel)
+                            ? this.sendReflectToSessions(
+                                  syncGroup,
+                                  channel,
+                                  queuedItem.message,
+                                  this.activeSessions.values(),
+                                  queueKey,
+                              )
+                            : this.publishReflect(
+                                  syncGroup,
+                                  channel,
+                                  queuedItem.message,
+                              );
                     reflectDeliveredCount += deliveredForMessage;
                     // Record reflect metrics per message
                     this.metricsCollector.recordReflect(
@@ -371,8 +1645,10 @@ export class WorldApiWsManager {
 
                     // If an acknowledgement was requested for this message, send it now
                     if (queuedItem.ack) {
-                        const senderSession =
-                            this.activeSessions.get(fromSessionId);
+                        // Only the sending connection is told, not the session's other sockets
+                        const senderSession = this.activeSessions.get(
+                            queuedItem.fromConnectionId,
+                        );
                         if (senderSession) {
                             const ackData = {
                                 type: Communication.WebSocket.MessageType
@@ -390,8 +1666,9 @@ export class WorldApiWsManager {
                                 );
                             if (ackParsed.success) {
                                 try {
-                                    senderSession.ws.send(
-                                        JSON.stringify(ackParsed.data),
+                                    this.sendMessage(
+                                        senderSession.ws,
+                                        ackParsed.data,
                                     );
                                 } catch {
                                     // ignore ack send errors
@@ -425,8 +1702,11 @@ export class WorldApiWsManager {
                 for (const notification of notifications) {
                     entityTasks.push(
                         (async () => {
+                            const leaving =
+                                this.matchEntityQueries(notification);
                             const delivered =
                                 this.publishEntityChange(notification);
+                            this.releaseEntityQueryMatches(leaving);
                             const messageSize =
                                 JSON.stringify(notification).length;
                             return { notification, delivered, messageSize };
@@ -471,10 +1751,13 @@ export class WorldApiWsManager {
                         notification.flushedTime = performance.now();
                         metadataTasks.push(
                             (async () => {
+                                const leaving =
+                                    this.matchEntityQueries(notification);
                                 const delivered =
                                     await this.publishEntityMetadataChange(
                                         notification,
                                     );
+                                this.releaseEntityQueryMatches(leaving);
                                 const messageSize =
                                     JSON.stringify(notification).length;
                                 this.recordMetadataLatencyMetrics(notification);
@@ -565,6 +1848,7 @@ export class WorldApiWsManager {
         );
     }
 
+    // Start, stop and re-time tick loops to match auth.sync_groups; runs at startup and on every change
     private async startReflectTickLoops() {
         if (!superUserSql) {
             return;
@@ -572,38 +1856,92 @@ export class WorldApiWsManager {
         // Load sync groups with tick configuration
         try {
             const rows = await superUserSql`
-                SELECT general__sync_group, server__tick__rate_ms, server__tick__reflect__enabled
+                SELECT general__sync_group, server__tick__rate_ms, server__tick__reflect__enabled,
+                       server__reflect__interest__radius, server__reflect__interest__cell_size,
+                       server__reflect__retained_channels
                 FROM auth.sync_groups
             `;
+            const tickedGroups = new Set<string>();
+            const knownGroups = new Set<string>();
             for (const row of rows as Array<
                 Pick<
                     Auth.SyncGroup.I_SyncGroup,
                     | "general__sync_group"
                     | "server__tick__rate_ms"
                     | "server__tick__reflect__enabled"
-                >
+                > & {
+                    server__reflect__interest__radius: number | null;
+                    server__reflect__interest__cell_size: number | null;
+                    server__reflect__retained_channels: string[] | null;
+                }
             >) {
                 const syncGroup = row.general__sync_group;
                 const rate = row.server__tick__rate_ms;
                 const enabled = row.server__tick__reflect__enabled !== false;
+                knownGroups.add(syncGroup);
+                const interestRadius = row.server__reflect__interest__radius;
+                if (interestRadius) {
+                    this.reflectInterestConfigs.set(syncGroup, {
+                        radius: interestRadius,
+                        cellSize:
+                            row.server__reflect__interest__cell_size ??
+                            interestRadius,
+                    });
+                } else {
+                    this.reflectInterestConfigs.delete(syncGroup);
+                }
+                const retainedChannels =
+                    row.server__reflect__retained_channels ?? [];
+                if (retainedChannels.length > 0) {
+                    this.reflectRetainedChannels.set(
+                        syncGroup,
+                        new Set(retainedChannels),
+                    );
+                } else {
+                    this.reflectRetainedChannels.delete(syncGroup);
+                }
                 if (!enabled) continue;
-                if (this.reflectIntervals.has(syncGroup)) continue;
+                tickedGroups.add(syncGroup);
+
+                const previousRate = this.reflectTickRateMs.get(syncGroup);
+                const existingTicker = this.reflectIntervals.get(syncGroup);
+                if (existingTicker && previousRate === rate) continue;
                 this.reflectTickRateMs.set(syncGroup, rate);
 
-                BunLogModule({
-                    prefix: LOG_PREFIX,
-                    message: `Starting tick loop for sync group: ${syncGroup}`,
-                    debug: this.DEBUG,
-                    suppress: this.SUPPRESS,
-                    type: "info",
-                    data: {
-                        syncGroup,
-                        tickRateMs: rate,
-                        enabled,
-                    },
-                });
+                if (existingTicker) {
+                    clearInterval(existingTicker);
+                    BunLogModule({
+                        prefix: LOG_PREFIX,
+                        message: `Re-timing tick loop for sync group: ${syncGroup}`,
+                        debug: this.DEBUG,
+                        suppress: this.SUPPRESS,
+                        type: "info",
+                        data: {
+                            syncGroup,
+                            previousTickRateMs: previousRate,
+                            tickRateMs: rate,
+                        },
+                    });
+                } else {
+                    BunLogModule({
+                        prefix: LOG_PREFIX,
+                        message: `Starting tick loop for sync group: ${syncGroup}`,
+                        debug: this.DEBUG,
+                        suppress: this.SUPPRESS,
+                        type: "info",
+                        data: {
+                            syncGroup,
+                            tickRateMs: rate,
+                            enabled,
+                            interest:
+                                this.reflectInterestConfigs.get(syncGroup) ??
+                                null,
+                        },
+                    });
+                }
 
                 const ticker = setInterval(() => {
+                    this.publishTick(syncGroup);
                     this.flushTickQueues(syncGroup).catch((error) => {
                         BunLogModule({
                             prefix: LOG_PREFIX,
@@ -618,6 +1956,60 @@ export class WorldApiWsManager {
                 this.reflectIntervals.set(syncGroup, ticker);
             }
 
+            // Stop loops for sync groups that were deleted or had reflect ticking disabled
+            for (const [syncGroup, ticker] of this.reflectIntervals) {
+                if (tickedGroups.has(syncGroup)) continue;
+                clearInterval(ticker);
+                this.reflectIntervals.delete(syncGroup);
+                this.reflectTickRateMs.delete(syncGroup);
+                this.reflectTickCounts.delete(syncGroup);
+                this.stateTickNumbers.delete(syncGroup);
+                BunLogModule({
+                    prefix: LOG_PREFIX,
+                    message: `Stopping tick loop for sync group: ${syncGroup}`,
+                    debug: this.DEBUG,
+                    suppress: this.SUPPRESS,
+                    type: "info",
+                    data: {
+                        syncGroup,
+                        deleted: !knownGroups.has(syncGroup),
+                    },
+                });
+                // Deliver what was already queued rather than dropping it
+                this.flushTickQueues(syncGroup).catch((error) => {
+                    BunLogModule({
+                        prefix: LOG_PREFIX,
+                        message: `Error flushing tick queues for ${syncGroup}`,
+                        debug: this.DEBUG,
+                        suppress: this.SUPPRESS,
+                        type: "error",
+                        error,
+                    });
+                });
+            }
+            for (const syncGroup of this.reflectInterestConfigs.keys()) {
+                if (!knownGroups.has(syncGroup)) {
+                    this.reflectInterestConfigs.delete(syncGroup);
+                }
+            }
+            for (const syncGroup of this.reflectRetainedChannels.keys()) {
+                if (!knownGroups.has(syncGroup)) {
+                    this.reflectRetainedChannels.delete(syncGroup);
+                }
+            }
+            // Forget retained messages of channels that stopped retaining
+            for (const [syncGroup, groupMap] of this.retainedReflects) {
+                const channels = this.reflectRetainedChannels.get(syncGroup);
+                for (const channel of groupMap.keys()) {
+                    if (!channels?.has(channel)) {
+                        groupMap.delete(channel);
+                    }
+                }
+                if (groupMap.size === 0) {
+                    this.retainedReflects.delete(syncGroup);
+                }
+            }
+
             // Log all sync groups and their reflect tick status
             const allSyncGroups = rows.map(
                 (row: {
@@ -638,7 +2030,7 @@ export class WorldApiWsManager {
 
             BunLogModule({
                 prefix: LOG_PREFIX,
-                message: "Reflect tick loop initialization completed",
+                message: "Reflect tick loops synchronized with sync groups",
                 debug: this.DEBUG,
                 suppress: this.SUPPRESS,
                 type: "info",
@@ -660,8 +2052,49 @@ export class WorldApiWsManager {
         }
     }
 
-    private async startEntityNotificationListeners() {
-        if (!legacySuperUserSql || !superUserSql) {
+    private async startSyncGroupChangeListener() {
+        if (!legacySuperUserSql) {
+            return;
+        }
+
+        try {
+            await legacySuperUserSql.listen(
+                this.SYNC_GROUPS_CHANGE_CHANNEL,
+                () => {
+                    BunLogModule({
+                        prefix: LOG_PREFIX,
+                        message: "Sync groups changed, reloading tick loops",
+                        debug: this.DEBUG,
+                        suppress: this.SUPPRESS,
+                        type: "info",
+                    });
+                    void this.startReflectTickLoops();
+                },
+            );
+            BunLogModule({
+                prefix: LOG_PREFIX,
+                message: "Sync group change listener started",
+                debug: this.DEBUG,
+                suppress: this.SUPPRESS,
+                type: "info",
+                data: {
+                    channel: this.SYNC_GROUPS_CHANGE_CHANNEL,
+                },
+            });
+        } catch (error) {
+            BunLogModule({
+                prefix: LOG_PREFIX,
+                message: "Failed to start sync group change listener",
+                error,
+                debug: this.DEBUG,
+                suppress: this.SUPPRESS,
+                type: "error",
+            });
+        }
+    }
+
+    private async startEntityNotificationListeners() {
+        if (!legacySuperUserSql || !superUserSql) {
             BunLogModule({
                 prefix: LOG_PREFIX,
                 message:
@@ -733,123 +2166,183 @@ export class WorldApiWsManager {
         }
     }
 
-    private async handleEntityNotification(payload: string) {
-        const receivedAt = performance.now();
+    private async loadAuthConfig() {
         if (!superUserSql) {
             return;
         }
-
         try {
-            const notification = JSON.parse(payload) as EntityDbNotification;
-            if (
-                notification.resource !== "entity" ||
-                !notification.entityName ||
-                !notification.operation
-            ) {
-                return;
+            const [row] = await superUserSql<
+                Array<{
+                    auth_config__max_connections_per_session: number;
+                    auth_config__allow_raw_queries: boolean;
+                    auth_config__query_statement_timeout_anon_ms: number;
+                    auth_config__query_statement_timeout_regular_ms: number;
+                    auth_config__query_statement_timeout_admin_ms: number;
+                }>
+            >`
+                SELECT auth_config__max_connections_per_session,
+                       auth_config__allow_raw_queries,
+                       auth_config__query_statement_timeout_anon_ms,
+                       auth_config__query_statement_timeout_regular_ms,
+                       auth_config__query_statement_timeout_admin_ms
+                FROM config.auth_config
+                LIMIT 1
+            `;
+            if (row) {
+                this.maxConnectionsPerSession =
+                    row.auth_config__max_connections_per_session;
+                this.allowRawQueries = row.auth_config__allow_raw_queries;
+                this.queryStatementTimeouts = {
+                    anon: row.auth_config__query_statement_timeout_anon_ms,
+                    regular:
+                        row.auth_config__query_statement_timeout_regular_ms,
+                    admin: row.auth_config__query_statement_timeout_admin_ms,
+                };
             }
+            BunLogModule({
+                prefix: LOG_PREFIX,
+                message: "Auth configuration loaded",
+                debug: this.DEBUG,
+                suppress: this.SUPPRESS,
+                type: "debug",
+                data: {
+                    maxConnectionsPerSession: this.maxConnectionsPerSession,
+                    allowRawQueries: this.allowRawQueries,
+                    queryStatementTimeouts: this.queryStatementTimeouts,
+                },
+            });
+        } catch (error) {
+            BunLogModule({
+                prefix: LOG_PREFIX,
+                message: "Failed to load auth configuration",
+                error,
+                debug: this.DEBUG,
+                suppress: this.SUPPRESS,
+                type: "error",
+            });
+        }
+    }
 
-            const operation = this.mapDbOperationToCommunication(
-                notification.operation,
+    private async startAuthConfigListener() {
+        await this.loadAuthConfig();
+        if (!legacySuperUserSql) {
+            return;
+        }
+
+        try {
+            await legacySuperUserSql.listen(
+                this.AUTH_CONFIG_CHANGE_CHANNEL,
+                () => {
+                    void this.loadAuthConfig();
+                },
             );
-            if (!operation) {
-                return;
-            }
+            BunLogModule({
+                prefix: LOG_PREFIX,
+                message: "Auth configuration listener started",
+                debug: this.DEBUG,
+                suppress: this.SUPPRESS,
+                type: "info",
+                data: {
+                    channel: this.AUTH_CONFIG_CHANGE_CHANNEL,
+                },
+            });
+        } catch (error) {
+            BunLogModule({
+                prefix: LOG_PREFIX,
+                message: "Failed to start auth configuration listener",
+                error,
+                debug: this.DEBUG,
+                suppress: this.SUPPRESS,
+                type: "error",
+            });
+        }
+    }
 
-            let entityData = notification.data as Record<
-                string,
-                unknown
-            > | null;
-            if (
-                operation ===
-                    Communication.WebSocket.DatabaseOperation.INSERT ||
-                operation === Communication.WebSocket.DatabaseOperation.UPDATE
-            ) {
-                // Notifications have a max payload of 8kb, so if the entity data is not provided, we need to load it from the database
-                if (!entityData) {
-                    const rows = (await superUserSql`
-                    SELECT *
-                    FROM entity.entities
-                    WHERE general__entity_name = ${notification.entityName}
-                    LIMIT 1
-                `) as Array<Record<string, unknown>>;
-                    entityData = rows?.[0] ?? null;
-                    if (!entityData) {
-                        BunLogModule({
-                            prefix: LOG_PREFIX,
-                            message:
-                                "Entity notification could not load latest entity data",
-                            debug: this.DEBUG,
-                            suppress: this.SUPPRESS,
-                            type: "warn",
-                            data: {
-                                entityName: notification.entityName,
-                                operation: notification.operation,
-                            },
-                        });
-                        return;
-                    }
+    private async loadChannelAcls() {
+        if (!superUserSql) {
+            return;
+        }
+        try {
+            const rows = await superUserSql<
+                Array<{
+                    group__sync: string;
+                    channel__pattern: string;
+                    auth__agent_id: string | null;
+                    auth__role: ChannelAclRole | null;
+                    permissions__can_read: boolean;
+                    permissions__can_publish: boolean;
+                }>
+            >`
+                SELECT group__sync, channel__pattern, auth__agent_id, auth__role,
+                       permissions__can_read, permissions__can_publish
+                FROM auth.sync_group_channel_acls
+            `;
+            const rules = new Map<string, ChannelAclRule[]>();
+            for (const row of rows) {
+                let groupRules = rules.get(row.group__sync);
+                if (!groupRules) {
+                    groupRules = [];
+                    rules.set(row.group__sync, groupRules);
                 }
-            } else if (!entityData) {
-                entityData =
-                    (notification.previous as Record<string, unknown>) ?? null;
-            }
-
-            if (!entityData) {
-                return;
-            }
-
-            const syncGroup =
-                (entityData as { group__sync?: string })?.group__sync ??
-                notification.syncGroup ??
-                (notification.previous as { group__sync?: string })
-                    ?.group__sync;
-
-            if (!syncGroup) {
-                BunLogModule({
-                    prefix: LOG_PREFIX,
-                    message:
-                        "Entity notification missing sync group, skipping publish",
-                    debug: this.DEBUG,
-                    suppress: this.SUPPRESS,
-                    type: "warn",
-                    data: {
-                        entityName: notification.entityName,
-                        operation: notification.operation,
-                    },
+                groupRules.push({
+                    pattern: row.channel__pattern,
+                    agentId: row.auth__agent_id,
+                    role: row.auth__role,
+                    canRead: row.permissions__can_read,
+                    canPublish: row.permissions__can_publish,
                 });
-                return;
             }
+            this.channelAclRules = rules;
+            BunLogModule({
+                prefix: LOG_PREFIX,
+                message: "Channel ACLs loaded",
+                debug: this.DEBUG,
+                suppress: this.SUPPRESS,
+                type: "debug",
+                data: {
+                    rules: rows.length,
+                    syncGroups: Array.from(rules.keys()),
+                },
+            });
+        } catch (error) {
+            BunLogModule({
+                prefix: LOG_PREFIX,
+                message: "Failed to load channel ACLs",
+                error,
+                debug: this.DEBUG,
+                suppress: this.SUPPRESS,
+                type: "error",
+            });
+        }
+    }
 
-            const resolvedChannel =
-                (entityData as { group__channel?: string | null })
-                    ?.group__channel ??
-                notification.channel ??
-                (notification.previous as { group__channel?: string | null })
-                    ?.group__channel ??
-                null;
-
-            const queuePayload: EntityNotificationPayload = {
-                resource: "entity",
-                operation,
-                entityName: notification.entityName,
-                syncGroup,
-                channel: resolvedChannel,
-                data: entityData,
-                previous:
-                    notification.previous ??
-                    (operation ===
-                    Communication.WebSocket.DatabaseOperation.DELETE
-                        ? entityData
-                        : null),
-                replicationEventReceivedTime: receivedAt,
-            };
+    private async startChannelAclListener() {
+        await this.loadChannelAcls();
+        if (!legacySuperUserSql) {
+            return;
+        }
 
-            this.queueEntityChange(queuePayload);
+        try {
+            await legacySuperUserSql.listen(
+                this.CHANNEL_ACLS_CHANGE_CHANNEL,
+                () => {
+                    void this.loadChannelAcls();
+                },
+            );
+            BunLogModule({
+                prefix: LOG_PREFIX,
+                message: "Channel ACL listener started",
+                debug: this.DEBUG,
+                suppress: this.SUPPRESS,
+                type: "info",
+                data: {
+                    channel: this.CHANNEL_ACLS_CHANGE_CHANNEL,
+                },
+            });
         } catch (error) {
             BunLogModule({
                 prefix: LOG_PREFIX,
-                message: "Failed to process entity notification payload",
+                message: "Failed to start channel ACL listener",
                 error,
                 debug: this.DEBUG,
                 suppress: this.SUPPRESS,
@@ -858,54 +2351,729 @@ export class WorldApiWsManager {
         }
     }
 
-    private async handleEntityMetadataNotification(payload: string) {
-        const receivedAt = performance.now();
+    private async loadNamedQueries() {
         if (!superUserSql) {
             return;
         }
-
         try {
-            const notification = JSON.parse(
-                payload,
-            ) as EntityMetadataDbNotification;
-            if (
-                notification.resource !== "entity_metadata" ||
-                !notification.entityName ||
-                !notification.metadataKey ||
-                !notification.operation
-            ) {
-                return;
+            const rows = await superUserSql<NamedQueryRow[]>`
+                SELECT general__query_name, query__sql, query__parameters,
+                       query__read_only, auth__roles, auth__agent_ids
+                FROM config.named_queries
+            `;
+            const queries = new Map<string, NamedQuery>();
+            for (const row of rows) {
+                try {
+                    queries.set(row.general__query_name, toNamedQuery(row));
+                } catch (error) {
+                    BunLogModule({
+                        prefix: LOG_PREFIX,
+                        message: `Skipping named query with invalid parameters: ${row.general__query_name}`,
+                        error,
+                        debug: this.DEBUG,
+                        suppress: this.SUPPRESS,
+                        type: "warn",
+                    });
+                }
             }
+            this.namedQueries = queries;
+            BunLogModule({
+                prefix: LOG_PREFIX,
+                message: "Named queries loaded",
+                debug: this.DEBUG,
+                suppress: this.SUPPRESS,
+                type: "debug",
+                data: {
+                    names: Array.from(queries.keys()),
+                },
+            });
+        } catch (error) {
+            BunLogModule({
+                prefix: LOG_PREFIX,
+                message: "Failed to load named queries",
+                error,
+                debug: this.DEBUG,
+                suppress: this.SUPPRESS,
+                type: "error",
+            });
+        }
+    }
 
-            const operation = this.mapDbOperationToCommunication(
-                notification.operation,
+    private async startNamedQueryListener() {
+        await this.loadNamedQueries();
+        if (!legacySuperUserSql) {
+            return;
+        }
+
+        try {
+            await legacySuperUserSql.listen(
+                this.NAMED_QUERIES_CHANGE_CHANNEL,
+                () => {
+                    void this.loadNamedQueries();
+                },
+            );
+            BunLogModule({
+                prefix: LOG_PREFIX,
+                message: "Named query listener started",
+                debug: this.DEBUG,
+                suppress: this.SUPPRESS,
+                type: "info",
+                data: {
+                    channel: this.NAMED_QUERIES_CHANGE_CHANNEL,
+                },
+            });
+        } catch (error) {
+            BunLogModule({
+                prefix: LOG_PREFIX,
+                message: "Failed to start named query listener",
+                error,
+                debug: this.DEBUG,
+                suppress: this.SUPPRESS,
+                type: "error",
+            });
+        }
+    }
+
+    // Tracks the tick numbers the state service captures, so TICK_DELIVERY can carry the latest
+    private async startTickStateListener() {
+        if (!legacySuperUserSql) {
+            return;
+        }
+
+        try {
+            await legacySuperUserSql.listen(
+                this.TICK_STATE_CAPTURED_CHANNEL,
+                (payload) => {
+                    try {
+                        const { syncGroup, tickNumber } = JSON.parse(
+                            payload,
+                        ) as { syncGroup: string; tickNumber: number };
+                        this.stateTickNumbers.set(syncGroup, tickNumber);
+                    } catch {
+                        // ignore malformed payloads
+                    }
+                },
+            );
+            BunLogModule({
+                prefix: LOG_PREFIX,
+                message: "Tick state listener started",
+                debug: this.DEBUG,
+                suppress: this.SUPPRESS,
+                type: "info",
+                data: {
+                    channel: this.TICK_STATE_CAPTURED_CHANNEL,
+                },
+            });
+        } catch (error) {
+            BunLogModule({
+                prefix: LOG_PREFIX,
+                message: "Failed to start tick state listener",
+                error,
+                debug: this.DEBUG,
+                suppress: this.SUPPRESS,
+                type: "error",
+            });
+        }
+    }
+
+    private async loadRpcHandlers() {
+        const { loaded, failed } = await loadRpcHandlers(this.rpcHandlers);
+        for (const { file, error } of failed) {
+            BunLogModule({
+                prefix: LOG_PREFIX,
+                message: "Failed to load RPC handler",
+                error,
+                debug: this.DEBUG,
+                suppress: this.SUPPRESS,
+                type: "error",
+                data: { file },
+            });
+        }
+        BunLogModule({
+            prefix: LOG_PREFIX,
+            message: "RPC handlers loaded",
+            debug: this.DEBUG,
+            suppress: this.SUPPRESS,
+            type: "info",
+            data: {
+                modules: loaded.length,
+                handlers: this.rpcHandlers.size,
+            },
+        });
+    }
+
+    private async loadRateLimitConfig() {
+        if (!superUserSql) {
+            return;
+        }
+        try {
+            const rows = (await superUserSql`
+                SELECT * FROM config.rate_limit_config
+            `) as RateLimitConfigRow[];
+            this.rateLimiter.setConfig(rows);
+            BunLogModule({
+                prefix: LOG_PREFIX,
+                message: "Rate limit configuration loaded",
+                debug: this.DEBUG,
+                suppress: this.SUPPRESS,
+                type: "debug",
+                data: {
+                    rows: rows.length,
+                },
+            });
+        } catch (error) {
+            BunLogModule({
+                prefix: LOG_PREFIX,
+                message: "Failed to load rate limit configuration",
+                error,
+                debug: this.DEBUG,
+                suppress: this.SUPPRESS,
+                type: "error",
+            });
+        }
+    }
+
+    private async startRateLimitConfigListener() {
+        await this.loadRateLimitConfig();
+        if (!legacySuperUserSql) {
+            return;
+        }
+
+        try {
+            await legacySuperUserSql.listen(
+                this.RATE_LIMIT_CONFIG_CHANNEL,
+                () => {
+                    void this.loadRateLimitConfig();
+                },
+            );
+            BunLogModule({
+                prefix: LOG_PREFIX,
+                message: "Rate limit configuration listener started",
+                debug: this.DEBUG,
+                suppress: this.SUPPRESS,
+                type: "info",
+                data: {
+                    channel: this.RATE_LIMIT_CONFIG_CHANNEL,
+                },
+            });
+        } catch (error) {
+            BunLogModule({
+                prefix: LOG_PREFIX,
+                message: "Failed to start rate limit configuration listener",
+                error,
+                debug: this.DEBUG,
+                suppress: this.SUPPRESS,
+                type: "error",
+            });
+        }
+    }
+
+    private async startFanout() {
+        try {
+            // Every manager on the database shares the super user credentials, agents never see them
+            this.fanoutBus = legacySuperUserSql
+                ? new PostgresFanoutBus(
+                      legacySuperUserSql,
+                      deriveFanoutSecret(
+                          serverConfiguration.VRCA_SERVER_SERVICE_POSTGRES_SUPER_USER_PASSWORD,
+                      ),
+                  )
+                : new LocalFanoutBus();
+            await this.fanoutBus.start(
+                (envelope) => this.handleFanoutEnvelope(envelope),
+                (reason) => {
+                    this.fanoutStats.rejected++;
+                    BunLogModule({
+                        prefix: LOG_PREFIX,
+                        message: "Rejected fanout event",
+                        debug: this.DEBUG,
+                        suppress: this.SUPPRESS,
+                        type: "warn",
+                        data: { reason },
+                    });
+                },
+            );
+            BunLogModule({
+                prefix: LOG_PREFIX,
+                message: "Fanout bus started",
+                debug: this.DEBUG,
+                suppress: this.SUPPRESS,
+                type: "info",
+                data: {
+                    instanceId: this.instanceId,
+                    bus: this.fanoutBus.constructor.name,
+                },
+            });
+        } catch (error) {
+            BunLogModule({
+                prefix: LOG_PREFIX,
+                message: "Failed to start fanout bus",
+                error,
+                debug: this.DEBUG,
+                suppress: this.SUPPRESS,
+                type: "error",
+            });
+            this.fanoutBus = null;
+            return;
+        }
+
+        void this.publishFanout({ type: "instance_heartbeat" }, true);
+        this.fanoutHeartbeatInterval = setInterval(() => {
+            const cutoff = Date.now() - this.FANOUT_PEER_TIMEOUT;
+            for (const [peerId, lastSeen] of this.fanoutPeers) {
+                if (lastSeen < cutoff) {
+                    this.fanoutPeers.delete(peerId);
+                    // Its connections can no longer tell us they closed
+                    for (const [key, connection] of this.remoteConnections) {
+                        if (connection.instanceId === peerId) {
+                            this.remoteConnections.delete(key);
+                        }
+                    }
+                    this.dropRetainedReflects(
+                        (_, retained) => retained.instanceId === peerId,
+                    );
+                    this.announcePresenceLeaves(
+                        this.presence.leave(
+                            (_, instanceId) => instanceId === peerId,
+                        ),
+                    );
+                }
+            }
+            void this.publishFanout({ type: "instance_heartbeat" }, true);
+        }, this.FANOUT_HEARTBEAT_INTERVAL);
+    }
+
+    // Events only go out while other managers are known, so a lone instance pays nothing for them
+    private async publishFanout(event: FanoutEvent, always = false) {
+        if (!this.fanoutBus || (!always && this.fanoutPeers.size === 0)) {
+            return;
+        }
+        try {
+            const sent = await this.fanoutBus.publish({
+                origin: this.instanceId,
+                event,
+            });
+            if (sent) {
+                this.fanoutStats.published++;
+            } else {
+                this.fanoutStats.dropped++;
+                BunLogModule({
+                    prefix: LOG_PREFIX,
+                    message: "Fanout event too large for the bus, dropped",
+                    debug: this.DEBUG,
+                    suppress: this.SUPPRESS,
+                    type: "debug",
+                    data: {
+                        type: event.type,
+                    },
+                });
+            }
+        } catch (error) {
+            this.fanoutStats.dropped++;
+            BunLogModule({
+                prefix: LOG_PREFIX,
+                message: "Failed to publish fanout event",
+                error,
+                debug: this.DEBUG,
+                suppress: this.SUPPRESS,
+                type: "error",
+                data: {
+                    type: event.type,
+                },
+            });
+        }
+    }
+
+    private handleFanoutEnvelope(envelope: FanoutEnvelope) {
+        if (envelope.origin === this.instanceId) {
+            return;
+        }
+        this.fanoutStats.received++;
+
+        // Answer new peers right away so neither side waits a heartbeat interval to start sharing
+        const isNewPeer = !this.fanoutPeers.has(envelope.origin);
+        this.fanoutPeers.set(envelope.origin, Date.now());
+        if (isNewPeer) {
+            void this.publishFanout({ type: "instance_heartbeat" }, true);
+            // The new peer has not seen our sessions connect and join
+            for (const session of this.activeSessions.values()) {
+                void this.publishFanout({
+                    type: "session_connected",
+                    sessionId: session.sessionId,
+                    connectionId: session.connectionId,
+                    connectedAt: session.connectedAt,
+                    existing: true,
+                });
+                for (const syncGroup of this.presence.groupsOf(
+                    session.connectionId,
+                )) {
+                    void this.publishFanout({
+                        type: "presence_join",
+                        syncGroup,
+                        connectionId: session.connectionId,
+                        sessionId: session.sessionId,
+                        agentId: session.agentId,
+                        attributes: this.presenceAttributes.get(
+                            session.sessionId,
+                        ),
+                    });
+                }
+            }
+        }
+
+        const { event } = envelope;
+        switch (event.type) {
+            case "instance_heartbeat":
+                break;
+            case "session_connected": {
+                this.remoteConnections.set(
+                    `${envelope.origin}:${event.connectionId}`,
+                    {
+                        instanceId: envelope.origin,
+                        sessionId: event.sessionId,
+                        connectedAt: event.connectedAt,
+                    },
+                );
+                // A connection reconnected to another manager; the newest socket wins
+                const session = this.activeSessions.get(event.connectionId);
+                if (
+                    !event.existing &&
+                    session &&
+                    session.sessionId === event.sessionId
+                ) {
+                    BunLogModule({
+                        prefix: LOG_PREFIX,
+                        message:
+                            "Closing WebSocket: session connected to another instance",
+                        debug: this.DEBUG,
+                        suppress: this.SUPPRESS,
+                        type: "info",
+                        data: {
+                            sessionId: event.sessionId,
+                            connectionId: event.connectionId,
+                            instanceId: envelope.origin,
+                        },
+                    });
+                    session.ws.close(1000, "Session reconnected");
+                } else {
+                    this.closeExcessSessionConnections(event.sessionId);
+                }
+                break;
+            }
+            case "reflect":
+                // Goes through the local tick queue, so peers' publishes get the same gating and interest filtering
+                this.enqueueReflect(
+                    event.syncGroup,
+                    event.channel,
+                    event.fromConnectionId,
+                    event.delivery,
+                    undefined,
+                    event.position,
+                    event.targets,
+                    envelope.origin,
+                );
+                break;
+            case "connection_closed":
+                this.remoteConnections.delete(
+                    `${envelope.origin}:${event.connectionId}`,
+                );
+                this.dropRetainedReflects(
+                    (fromConnectionId) =>
+                        fromConnectionId === event.connectionId,
+                );
+                this.announcePresenceLeaves(
+                    this.presence.leave(
+                        (connectionId, instanceId) =>
+                            connectionId === event.connectionId &&
+                            instanceId === envelope.origin,
+                    ),
+                );
+                break;
+            case "presence_join":
+                this.announcePresence(
+                    event.syncGroup,
+                    {
+                        connectionId: event.connectionId,
+                        sessionId: event.sessionId,
+                        agentId: event.agentId,
+                        instanceId: envelope.origin,
+                    },
+                    event.attributes,
+                );
+                break;
+            case "presence_leave":
+                this.announcePresenceLeaves(
+                    this.presence.leave(
+                        (connectionId, instanceId) =>
+                            connectionId === event.connectionId &&
+                            instanceId === envelope.origin,
+                        event.syncGroup,
+                    ),
+                );
+                break;
+            case "admin_disconnect":
+                this.disconnectSessions(event, event.reason);
+                break;
+            case "admin_sessions_request":
+                void this.answerAdminSessions(
+                    envelope.origin,
+                    event.requestId,
+                    event.syncGroup,
+                );
+                break;
+            case "admin_sessions": {
+                const request =
+                    event.to === this.instanceId
+                        ? this.adminSessionRequests.get(event.requestId)
+                        : undefined;
+                if (!request?.waiting.has(envelope.origin)) {
+                    break;
+                }
+                request.sessions.push(...event.sessions);
+                if (event.done) {
+                    request.waiting.delete(envelope.origin);
+                    if (request.waiting.size === 0) {
+                        request.settle();
+                    }
+                }
+                break;
+            }
+            case "admin_announce":
+                this.publishAnnouncement(
+                    event.syncGroup,
+                    event.message,
+                    event.level,
+                );
+                break;
+            case "admin_resync":
+                this.resyncSessions(event, event.reason ?? null);
+                break;
+        }
+    }
+
+    // The typed answer to a request dropped by a rate limit, for handlers that return their response
+    private rateLimitExceededResponse(
+        requestId: string,
+        requestType: string,
+        rejection: RateLimitRejection,
+    ): WsProtocol.RateLimitExceededResponseMessage {
+        this.metricsCollector.recordRateLimited(
+            rejection.scope,
+            rejection.limit,
+        );
+        BunLogModule({
+            prefix: LOG_PREFIX,
+            message: `WS ${requestType} rate limited`,
+            debug: this.DEBUG,
+            suppress: this.SUPPRESS,
+            type: "debug",
+            data: {
+                requestId,
+                ...rejection,
+            },
+        });
+
+        return this.parseProtocolResponse(
+            WsProtocol.Z.RateLimitExceededResponse,
+            {
+                type: WsProtocol.MessageType.RATE_LIMIT_EXCEEDED_RESPONSE,
+                timestamp: Date.now(),
+                requestId,
+                errorMessage: `Rate limit exceeded (${rejection.scope} ${rejection.limit})`,
+                requestType,
+                scope: rejection.scope,
+                limit: rejection.limit,
+                retryAfterMs: rejection.retryAfterMs,
+            },
+        );
+    }
+
+    // Tell the client its request was dropped and by which limit; returns the bytes sent
+    private sendRateLimitExceeded(
+        ws: ServerWebSocket<WebSocketData>,
+        requestId: string,
+        requestType: string,
+        rejection: RateLimitRejection,
+    ): number {
+        return this.sendMessage(
+            ws,
+            this.rateLimitExceededResponse(requestId, requestType, rejection),
+        );
+    }
+
+    private async handleEntityNotification(payload: string) {
+        const receivedAt = performance.now();
+        if (!superUserSql) {
+            return;
+        }
+
+        try {
+            const notification = JSON.parse(payload) as EntityDbNotification;
+            if (
+                notification.resource !== "entity" ||
+                !notification.entityName ||
+                !notification.operation
+            ) {
+                return;
+            }
+
+            const operation = this.mapDbOperationToCommunication(
+                notification.operation,
             );
             if (!operation) {
                 return;
             }
 
-            let metadataData = notification.data as Record<
+            let entityData = notification.data as Record<
                 string,
                 unknown
             > | null;
-
             if (
                 operation ===
                     Communication.WebSocket.DatabaseOperation.INSERT ||
                 operation === Communication.WebSocket.DatabaseOperation.UPDATE
             ) {
-                // Notifications have a max payload of 8kb, so if the metadata data is not provided, we need to load it from the database
-                if (!metadataData) {
+                // Notifications have a max payload of 8kb, so if the entity data is not provided, we need to load it from the database
+                if (!entityData) {
                     const rows = (await superUserSql`
                     SELECT *
-                    FROM entity.entity_metadata
+                    FROM entity.entities
                     WHERE general__entity_name = ${notification.entityName}
-                      AND metadata__key = ${notification.metadataKey}
                     LIMIT 1
                 `) as Array<Record<string, unknown>>;
-                    metadataData = rows?.[0] ?? null;
-                    if (!metadataData) {
-                        BunLogModule({
+                    entityData = rows?.[0] ?? null;
+                    if (!entityData) {
+                        BunLogModule({
+                            prefix: LOG_PREFIX,
+                            message:
+                                "Entity notification could not load latest entity data",
+                            debug: this.DEBUG,
+                            suppress: this.SUPPRESS,
+                            type: "warn",
+                            data: {
+                                entityName: notification.entityName,
+                                operation: notification.operation,
+                            },
+                        });
+                        return;
+                    }
+                }
+            } else if (!entityData) {
+                entityData =
+                    (notification.previous as Record<string, unknown>) ?? null;
+            }
+
+            if (!entityData) {
+                return;
+            }
+
+            const syncGroup =
+                (entityData as { group__sync?: string })?.group__sync ??
+                notification.syncGroup ??
+                (notification.previous as { group__sync?: string })
+                    ?.group__sync;
+
+            if (!syncGroup) {
+                BunLogModule({
+                    prefix: LOG_PREFIX,
+                    message:
+                        "Entity notification missing sync group, skipping publish",
+                    debug: this.DEBUG,
+                    suppress: this.SUPPRESS,
+                    type: "warn",
+                    data: {
+                        entityName: notification.entityName,
+                        operation: notification.operation,
+                    },
+                });
+                return;
+            }
+
+            const resolvedChannel =
+                (entityData as { group__channel?: string | null })
+                    ?.group__channel ??
+                notification.channel ??
+                (notification.previous as { group__channel?: string | null })
+                    ?.group__channel ??
+                null;
+
+            const queuePayload: EntityNotificationPayload = {
+                resource: "entity",
+                operation,
+                entityName: notification.entityName,
+                syncGroup,
+                channel: resolvedChannel,
+                data: entityData,
+                previous:
+                    notification.previous ??
+                    (operation ===
+                    Communication.WebSocket.DatabaseOperation.DELETE
+                        ? entityData
+                        : null),
+                replicationEventReceivedTime: receivedAt,
+            };
+
+            this.queueEntityChange(queuePayload);
+        } catch (error) {
+            BunLogModule({
+                prefix: LOG_PREFIX,
+                message: "Failed to process entity notification payload",
+                error,
+                debug: this.DEBUG,
+                suppress: this.SUPPRESS,
+                type: "error",
+            });
+        }
+    }
+
+    private async handleEntityMetadataNotification(payload: string) {
+        const receivedAt = performance.now();
+        if (!superUserSql) {
+            return;
+        }
+
+        try {
+            const notification = JSON.parse(
+                payload,
+            ) as EntityMetadataDbNotification;
+            if (
+                notification.resource !== "entity_metadata" ||
+                !notification.entityName ||
+                !notification.metadataKey ||
+                !notification.operation
+            ) {
+                return;
+            }
+
+            const operation = this.mapDbOperationToCommunication(
+                notification.operation,
+            );
+            if (!operation) {
+                return;
+            }
+
+            let metadataData = notification.data as Record<
+                string,
+                unknown
+            > | null;
+
+            if (
+                operation ===
+                    Communication.WebSocket.DatabaseOperation.INSERT ||
+                operation === Communication.WebSocket.DatabaseOperation.UPDATE
+            ) {
+                // Notifications have a max payload of 8kb, so if the metadata data is not provided, we need to load it from the database
+                if (!metadataData) {
+                    const rows = (await superUserSql`
+                    SELECT *
+                    FROM entity.entity_metadata
+                    WHERE general__entity_name = ${notification.entityName}
+                      AND metadata__key = ${notification.metadataKey}
+                    LIMIT 1
+                `) as Array<Record<string, unknown>>;
+                    metadataData = rows?.[0] ?? null;
+                    if (!metadataData) {
+                        BunLogModule({
                             prefix: LOG_PREFIX,
                             message:
                                 "Metadata notification could not load latest metadata row",
@@ -985,327 +3153,3218 @@ export class WorldApiWsManager {
                 replicationEventReceivedTime: receivedAt,
             };
 
-            this.queueEntityMetadataChange(queuePayload);
-        } catch (error) {
-            BunLogModule({
-                prefix: LOG_PREFIX,
-                message:
-                    "Failed to process entity metadata notification payload",
-                error,
-                debug: this.DEBUG,
-                suppress: this.SUPPRESS,
-                type: "error",
-            });
+            this.queueEntityMetadataChange(queuePayload);
+        } catch (error) {
+            BunLogModule({
+                prefix: LOG_PREFIX,
+                message:
+                    "Failed to process entity metadata notification payload",
+                error,
+                debug: this.DEBUG,
+                suppress: this.SUPPRESS,
+                type: "error",
+            });
+        }
+    }
+
+    private queueEntityChange(payload: EntityNotificationPayload) {
+        if (!payload.entityName) {
+            return;
+        }
+
+        // Get or create sync group map
+        let syncGroupMap = this.entityQueues.get(payload.syncGroup);
+        if (!syncGroupMap) {
+            syncGroupMap = new Map();
+            this.entityQueues.set(payload.syncGroup, syncGroupMap);
+        }
+
+        // Coalesce: keep only the latest notification per entity (regardless of channel)
+        syncGroupMap.set(payload.entityName, [payload]);
+    }
+
+    private queueEntityMetadataChange(payload: EntityNotificationPayload) {
+        if (!payload.entityName || !payload.metadataKey) {
+            return;
+        }
+
+        // Record queued time
+        payload.queuedTime = performance.now();
+
+        // Get or create sync group map
+        let syncGroupMap = this.entityMetadataQueues.get(payload.syncGroup);
+        if (!syncGroupMap) {
+            syncGroupMap = new Map();
+            this.entityMetadataQueues.set(payload.syncGroup, syncGroupMap);
+        }
+
+        // Get or create entity map
+        let entityMap = syncGroupMap.get(payload.entityName);
+        if (!entityMap) {
+            entityMap = new Map();
+            syncGroupMap.set(payload.entityName, entityMap);
+        }
+
+        // Coalesce: keep only the latest notification per entity+metadataKey (regardless of channel)
+        entityMap.set(payload.metadataKey, [payload]);
+    }
+
+    private getEntityQueryTopics(
+        syncGroup: string,
+        entityName: string,
+        channel: string | null,
+    ): string[] {
+        return [
+            this.getEntityTopic(syncGroup, entityName, channel),
+            this.getMetadataTopic(syncGroup, entityName, "__ALL__", channel),
+        ];
+    }
+
+    private addEntityQueryMatch(
+        query: EntityQuerySubscription,
+        entityName: string,
+        syncGroup: string,
+    ): void {
+        query.entities.set(entityName, syncGroup);
+        for (const topic of this.getEntityQueryTopics(
+            syncGroup,
+            entityName,
+            query.channel,
+        )) {
+            this.subscribeTopic(query.ws, topic);
+        }
+    }
+
+    private removeEntityQueryMatch(
+        query: EntityQuerySubscription,
+        entityName: string,
+    ): void {
+        const syncGroup = query.entities.get(entityName);
+        if (syncGroup === undefined) {
+            return;
+        }
+        query.entities.delete(entityName);
+        // Keep the topics while another query on the socket still follows the entity
+        for (const other of this.entityQueries.values()) {
+            if (
+                other.ws === query.ws &&
+                other.channel === query.channel &&
+                other.entities.get(entityName) === syncGroup
+            ) {
+                return;
+            }
+        }
+        const explicit = this.explicitTopics.get(query.ws);
+        for (const topic of this.getEntityQueryTopics(
+            syncGroup,
+            entityName,
+            query.channel,
+        )) {
+            if (!explicit?.has(topic)) {
+                this.unsubscribeTopic(query.ws, topic);
+            }
+        }
+    }
+
+    private removeEntityQuery(query: EntityQuerySubscription): void {
+        this.entityQueries.delete(query.id);
+        for (const entityName of Array.from(query.entities.keys())) {
+            this.removeEntityQueryMatch(query, entityName);
+        }
+    }
+
+    // Subscribe query subscriptions to an entity the change shows matching, before it is published.
+    // Returns the matches the change ends, to release once it has been delivered to them.
+    private matchEntityQueries(
+        payload: EntityNotificationPayload,
+    ): Array<{ query: EntityQuerySubscription; entityName: string }> {
+        const leaving: Array<{
+            query: EntityQuerySubscription;
+            entityName: string;
+        }> = [];
+        if (!payload.entityName || this.entityQueries.size === 0) {
+            return leaving;
+        }
+        const entityName = payload.entityName;
+        const isDelete =
+            payload.operation ===
+            Communication.WebSocket.DatabaseOperation.DELETE;
+        const metadataKey =
+            payload.resource === "entity_metadata"
+                ? payload.metadataKey
+                : undefined;
+
+        for (const query of this.entityQueries.values()) {
+            const fieldsMatch =
+                matchesEntityFields(
+                    query.selector,
+                    entityName,
+                    payload.syncGroup,
+                ) && this.canRead(query.agentId, payload.syncGroup);
+            const metadataMatch =
+                metadataKey === undefined
+                    ? undefined
+                    : matchesMetadataRow(
+                          query.selector,
+                          metadataKey,
+                          isDelete
+                              ? null
+                              : (payload.data as Record<string, unknown>),
+                      );
+            const matchedSyncGroup = query.entities.get(entityName);
+
+            if (matchedSyncGroup === undefined) {
+                // Metadata predicates only match on a change to their key
+                const joins =
+                    fieldsMatch &&
+                    !isDelete &&
+                    (query.selector.metadata ? metadataMatch === true : true);
+                if (joins) {
+                    this.addEntityQueryMatch(
+                        query,
+                        entityName,
+                        payload.syncGroup,
+                    );
+                }
+                continue;
+            }
+
+            const stays =
+                fieldsMatch &&
+                metadataMatch !== false &&
+                !(isDelete && payload.resource === "entity");
+            if (!stays) {
+                leaving.push({ query, entityName });
+            } else if (matchedSyncGroup !== payload.syncGroup) {
+                // The entity moved sync group, and its topics with it
+                this.removeEntityQueryMatch(query, entityName);
+                this.addEntityQueryMatch(query, entityName, payload.syncGroup);
+            }
+        }
+        return leaving;
+    }
+
+    private releaseEntityQueryMatches(
+        leaving: Array<{ query: EntityQuerySubscription; entityName: string }>,
+    ): void {
+        for (const { query, entityName } of leaving) {
+            this.removeEntityQueryMatch(query, entityName);
+        }
+    }
+
+    // Channel ACL a delivery on the channel is filtered by, if the channel has rules
+    private getDeliveryChannelAcl(
+        syncGroup: string,
+        channel: string | null,
+    ): { syncGroup: string; channel: string } | undefined {
+        return channel !== null && this.hasChannelAcl(syncGroup, channel)
+            ? { syncGroup, channel }
+            : undefined;
+    }
+
+    private publishEntityChange(payload: EntityNotificationPayload): number {
+        if (!payload.entityName || !this.server) {
+            return 0;
+        }
+
+        const messageData = {
+            type: Communication.WebSocket.MessageType.ENTITY_DELIVERY,
+            timestamp: Date.now(),
+            requestId: payload.entityName,
+            errorMessage: null,
+            entityName: payload.entityName,
+            operation: payload.operation,
+            syncGroup: payload.syncGroup,
+            channel: payload.channel ?? null,
+            data: payload.data,
+        };
+
+        const parsed =
+            Communication.WebSocket.Z.EntityDelivery.safeParse(messageData);
+        if (!parsed.success) {
+            return 0;
+        }
+
+        const seq = ++this.deliverySeq;
+        const message = new EncodedWsMessage({ ...parsed.data, seq });
+        const payloadChannel = payload.channel ?? null;
+        const channelAcl = this.getDeliveryChannelAcl(
+            payload.syncGroup,
+            payloadChannel,
+        );
+
+        // Always publish to the "all channels" topic
+        const allChannelsTopic = this.getEntityTopic(
+            payload.syncGroup,
+            payload.entityName,
+        );
+        let delivered = this.publishSequenced(
+            allChannelsTopic,
+            seq,
+            message,
+            undefined,
+            channelAcl,
+        );
+
+        // If a specific channel is provided, also publish to the channel-specific topic
+        if (payloadChannel !== null && payloadChannel !== undefined) {
+            const channelTopic = this.getEntityTopic(
+                payload.syncGroup,
+                payload.entityName,
+                payloadChannel,
+            );
+            delivered += this.publishSequenced(
+                channelTopic,
+                seq,
+                message,
+                undefined,
+                channelAcl,
+            );
+        }
+
+        return delivered;
+    }
+
+    private async publishEntityMetadataChange(
+        payload: EntityNotificationPayload,
+    ): Promise<number> {
+        if (!payload.entityName || !payload.metadataKey || !this.server) {
+            return 0;
+        }
+
+        // Logical replication already includes the latest row data, so rely on the payload directly
+        let fullData = payload.data;
+
+        if (payload.resource === "entity_metadata") {
+            const ensuredData =
+                (fullData as {
+                    ro__group__sync?: string;
+                    ro__group__channel?: string | null;
+                }) || {};
+            fullData = {
+                ...(fullData ?? {}),
+                ro__group__sync:
+                    ensuredData.ro__group__sync ?? payload.syncGroup,
+                ro__group__channel:
+                    ensuredData.ro__group__channel ?? payload.channel ?? null,
+            };
+        }
+
+        const messageData = {
+            type: Communication.WebSocket.MessageType.ENTITY_METADATA_DELIVERY,
+            timestamp: Date.now(),
+            requestId: `${payload.entityName}:${payload.metadataKey}`,
+            errorMessage: null,
+            entityName: payload.entityName,
+            metadataKey: payload.metadataKey,
+            operation: payload.operation,
+            syncGroup: payload.syncGroup,
+            channel: payload.channel ?? null,
+            data: fullData,
+        };
+
+        const parsed =
+            Communication.WebSocket.Z.EntityMetadataDelivery.safeParse(
+                messageData,
+            );
+        if (!parsed.success) {
+            return 0;
+        }
+
+        const seq = ++this.deliverySeq;
+        const message = new EncodedWsMessage({ ...parsed.data, seq });
+        const payloadChannel = payload.channel ?? null;
+
+        // Record published time
+        payload.publishedTime = performance.now();
+
+        const topics = [
+            // Always publish to the "all channels" topic
+            this.getMetadataTopic(
+                payload.syncGroup,
+                payload.entityName,
+                payload.metadataKey,
+            ),
+            // Also publish to the generic "all metadata" topic for this entity
+            this.getMetadataTopic(
+                payload.syncGroup,
+                payload.entityName,
+                "__ALL__",
+            ),
+        ];
+
+        // If a specific channel is provided, also publish to the channel-specific topic
+        if (payloadChannel !== null && payloadChannel !== undefined) {
+            topics.push(
+                this.getMetadataTopic(
+                    payload.syncGroup,
+                    payload.entityName,
+                    payload.metadataKey,
+                    payloadChannel,
+                ),
+                // And the generic channel-specific topic
+                this.getMetadataTopic(
+                    payload.syncGroup,
+                    payload.entityName,
+                    "__ALL__",
+                    payloadChannel,
+                ),
+            );
+        }
+
+        const deltaMessage = this.buildMetadataDeltaDelivery(
+            payload,
+            fullData as Record<string, unknown>,
+            topics,
+            seq,
+        );
+
+        const channelAcl = this.getDeliveryChannelAcl(
+            payload.syncGroup,
+            payloadChannel,
+        );
+        let delivered = 0;
+        for (const topic of topics) {
+            delivered += this.publishSequenced(
+                topic,
+                seq,
+                message,
+                deltaMessage,
+                channelAcl,
+            );
+        }
+
+        return delivered;
+    }
+
+    // Diff against the row last sent to delta-mode subscribers and advance the key's version
+    private buildMetadataDeltaDelivery(
+        payload: EntityNotificationPayload,
+        row: Record<string, unknown>,
+        topics: string[],
+        seq: number,
+    ): EncodedWsMessage | undefined {
+        const stateKey = `${payload.entityName}:${payload.metadataKey}`;
+        if (!this.hasMetadataDeltaSubscribers(topics)) {
+            // Nobody is applying deltas, so the next delta subscriber starts from a full row
+            this.metadataDeltaStates.delete(stateKey);
+            return undefined;
+        }
+
+        const state = this.metadataDeltaStates.get(stateKey);
+        const isDelete =
+            payload.operation ===
+            Communication.WebSocket.DatabaseOperation.DELETE;
+        const base = {
+            type: WsProtocol.MessageType.ENTITY_METADATA_DELTA_DELIVERY,
+            timestamp: Date.now(),
+            requestId: stateKey,
+            errorMessage: null,
+            entityName: payload.entityName,
+            metadataKey: payload.metadataKey,
+            operation: payload.operation,
+            syncGroup: payload.syncGroup,
+            channel: payload.channel ?? null,
+            seq,
+            version: (state?.version ?? 0) + 1,
+        };
+        const messageData =
+            state && !isDelete
+                ? { ...base, full: false, ...diffMetadataRow(state.row, row) }
+                : { ...base, full: true, data: row };
+
+        if (isDelete) {
+            this.metadataDeltaStates.delete(stateKey);
+        } else {
+            this.metadataDeltaStates.set(stateKey, {
+                version: base.version,
+                row,
+            });
+        }
+
+        const parsed =
+            WsProtocol.Z.EntityMetadataDeltaDelivery.safeParse(messageData);
+        if (!parsed.success) {
+            return undefined;
+        }
+        return new EncodedWsMessage(parsed.data);
+    }
+
+    private recordMetadataLatencyMetrics(
+        payload: EntityNotificationPayload,
+    ): void {
+        // Only track metrics for metadata updates
+        if (payload.resource !== "entity_metadata" || !payload.metadataKey) {
+            return;
+        }
+
+        // Extract pingId if this is a ping test
+        let pingId: number | undefined;
+        try {
+            const data = payload.data as {
+                metadata__jsonb?:
+                    | string
+                    | { pingId?: number; timestamp?: number };
+            };
+            if (data?.metadata__jsonb) {
+                const parsed =
+                    typeof data.metadata__jsonb === "string"
+                        ? JSON.parse(data.metadata__jsonb)
+                        : data.metadata__jsonb;
+                if (parsed && typeof parsed.pingId === "number") {
+                    pingId = parsed.pingId;
+                }
+            }
+        } catch {
+            // Ignore parsing errors
+        }
+
+        // Calculate latency stages
+        const replicationToQueued =
+            payload.replicationEventReceivedTime && payload.queuedTime
+                ? payload.queuedTime - payload.replicationEventReceivedTime
+                : undefined;
+        const queuedToFlushed =
+            payload.queuedTime && payload.flushedTime
+                ? payload.flushedTime - payload.queuedTime
+                : undefined;
+        const flushedToPublished =
+            payload.flushedTime && payload.publishedTime
+                ? payload.publishedTime - payload.flushedTime
+                : undefined;
+        const totalLatency =
+            payload.replicationEventReceivedTime && payload.publishedTime
+                ? payload.publishedTime - payload.replicationEventReceivedTime
+                : undefined;
+
+        // Record metrics
+        this.metricsCollector.recordMetadataLatency({
+            pingId,
+            entityName: payload.entityName,
+            metadataKey: payload.metadataKey,
+            replicationToQueued,
+            queuedToFlushed,
+            flushedToPublished,
+            totalLatency,
+        });
+    }
+
+    // Helper method to record endpoint metrics
+    private recordEndpointMetrics(
+        endpoint: string,
+        startTime: number,
+        requestSize: number,
+        responseSize: number,
+        success: boolean,
+    ) {
+        const duration = performance.now() - startTime;
+        this.metricsCollector.recordEndpoint(
+            endpoint,
+            duration,
+            requestSize,
+            responseSize,
+            success,
+        );
+    }
+
+    private mapDbOperationToCommunication(
+        operation?: DbNotificationOperation | string | null,
+    ): Communication.WebSocket.DatabaseOperation | null {
+        switch ((operation ?? "").toString().toLowerCase()) {
+            case "insert":
+                return Communication.WebSocket.DatabaseOperation.INSERT;
+            case "update":
+                return Communication.WebSocket.DatabaseOperation.UPDATE;
+            case "delete":
+                return Communication.WebSocket.DatabaseOperation.DELETE;
+            default:
+                return null;
+        }
+    }
+
+    // ACL Service instance
+    private aclService: AclService | null = null;
+
+    private CONNECTION_HEARTBEAT_INTERVAL = 500;
+    // Deliveries kept per session, and how long after a disconnect they can be resumed
+    private REPLAY_BUFFER_SIZE = 1024;
+    private REPLAY_RETENTION_MS = 30000;
+    // Managers announce themselves on the fanout bus and are forgotten after missing a few announcements
+    private FANOUT_HEARTBEAT_INTERVAL = 5000;
+    private FANOUT_PEER_TIMEOUT = 15000;
+    // How long an admin session list waits for the other managers, and the size of each part they send
+    private ADMIN_SESSIONS_TIMEOUT_MS = 2000;
+    private ADMIN_SESSIONS_PART_BYTES = 6000;
+    // Sockets one session may hold open; loaded from config.auth_config
+    private maxConnectionsPerSession = 4;
+    // Whether QUERY_REQUEST may run arbitrary SQL; loaded from config.auth_config
+    private allowRawQueries = true;
+    // statement_timeout of query transactions by agent role, 0 for none; loaded from config.auth_config
+    private queryStatementTimeouts = {
+        anon: 5000,
+        regular: 15000,
+        admin: 60000,
+    };
+    // Entity query subscriptions per socket, and entities a selector may match when subscribing
+    private ENTITY_QUERY_MAX_PER_SOCKET = 32;
+    private ENTITY_QUERY_MAX_INITIAL_MATCHES = 5000;
+    // Largest buffered query result (and page or chunk) in rows and bytes; larger results must be paged or streamed
+    private QUERY_MAX_ROWS = 10000;
+    private QUERY_MAX_BYTES = 8 * 1024 * 1024;
+    // Where a streamed result is cut off
+    private QUERY_STREAM_MAX_ROWS = 1000000;
+    private QUERY_STREAM_MAX_BYTES = 256 * 1024 * 1024;
+    private QUERY_DEFAULT_CHUNK_SIZE = 500;
+    // Cursors each hold a proxy connection, so they are few per socket, per agent and per manager,
+    // and close when left idle
+    private QUERY_CURSOR_MAX_PER_SOCKET = 4;
+    private QUERY_CURSOR_MAX_PER_AGENT = 8;
+    private QUERY_CURSOR_MAX_TOTAL = 32;
+    private QUERY_CURSOR_IDLE_MS = 30000;
+    // RPC handlers without a timeoutMs get the default; none may run longer than the maximum
+    private RPC_DEFAULT_TIMEOUT_MS = 5000;
+    private RPC_MAX_TIMEOUT_MS = 30000;
+    // Sockets with more than SLOW_CONSUMER_BUFFER_BYTES unsent get coalesced reflect deliveries until
+    // they drain to SLOW_CONSUMER_RESUME_BYTES
+    private SLOW_CONSUMER_CHECK_INTERVAL = 250;
+    // Refilled token buckets are dropped on this interval rather than when an agent disconnects
+    private RATE_LIMIT_BUCKET_EXPIRY_INTERVAL = 60000;
+    private SLOW_CONSUMER_BUFFER_BYTES = 1024 * 1024;
+    private SLOW_CONSUMER_RESUME_BYTES = 256 * 1024;
+    // Past these a slow consumer is closed; Bun drops sends beyond 16 MiB buffered anyway
+    private SLOW_CONSUMER_DISCONNECT_BYTES = 16 * 1024 * 1024;
+    private SLOW_CONSUMER_MAX_MS = 30000;
+    private SLOW_CONSUMER_MAX_PENDING = 10000;
+    private DEBUG =
+        serverConfiguration.VRCA_SERVER_SERVICE_WORLD_API_WS_MANAGER_DEBUG;
+    private SUPPRESS =
+        serverConfiguration.VRCA_SERVER_SERVICE_WORLD_API_WS_MANAGER_SUPPRESS;
+
+
+
+    // Wrapper helpers to the ACL service
+    private async warmAgentAcl(agentId: string) {
+        await this.aclService?.warmAgentAcl(agentId);
+        // Sync reflect subscriptions for all sessions of this agent
+        for (const session of this.activeSessions.values()) {
+            if (session.agentId === agentId) {
+                this.syncReflectSubscriptionsForSession(session);
+            }
+        }
+    }
+    private canRead(agentId: string, syncGroup: string): boolean {
+        return !!this.aclService?.canRead(agentId, syncGroup);
+    }
+    private canUpdate(agentId: string, syncGroup: string): boolean {
+        // Treat "update" as write permission required to publish into a sync group
+        return !!this.aclService?.canUpdate?.(agentId, syncGroup);
+    }
+
+    private canInsert(agentId: string, syncGroup: string): boolean {
+        return !!this.aclService?.canInsert?.(agentId, syncGroup);
+    }
+
+    private hasChannelAcl(syncGroup: string, channel: string): boolean {
+        const rules = this.channelAclRules.get(syncGroup);
+        return !!rules && isChannelRestricted(rules, channel);
+    }
+
+    // Channel ACLs only narrow the sync group permissions; callers check those separately
+    private canAccessChannel(
+        agentId: string,
+        syncGroup: string,
+        channel: string,
+        permission: ChannelPermission,
+    ): boolean {
+        const rules = this.channelAclRules.get(syncGroup);
+        if (!rules) {
+            return true;
+        }
+        return channelAllows(
+            rules,
+            channel,
+            agentId,
+            this.agentRoles.get(agentId) ?? [],
+            permission,
+        );
+    }
+
+    // Entity writes on a channel with ACL rules need publish access to it. Called inside the write's
+    // transaction, so the thrown error rolls the write back.
+    private async assertEntityChannelPublish(
+        agentId: string,
+        syncGroup: string,
+        channel: string | null,
+    ) {
+        if (channel === null) {
+            return;
+        }
+        await this.ensureAgentChannelRoles(agentId, syncGroup, channel);
+        if (!this.canAccessChannel(agentId, syncGroup, channel, "publish")) {
+            throw new Error(`Not authorized to publish on channel: ${channel}`);
+        }
+    }
+
+    // Metadata is delivered on its entity's channel, so writing it needs publish access there too
+    private async assertMetadataChannelPublish(
+        tx: SQL,
+        agentId: string,
+        entityName: string,
+    ) {
+        const [entity] = (await tx`
+            SELECT group__sync, group__channel
+            FROM entity.entities
+            WHERE general__entity_name = ${entityName}
+        `) as Array<{ group__sync: string; group__channel: string | null }>;
+        if (entity) {
+            await this.assertEntityChannelPublish(
+                agentId,
+                entity.group__sync,
+                entity.group__channel,
+            );
+        }
+    }
+
+    // Checks made before the warm callback loaded the agent's roles would ignore role rules
+    private async ensureAgentChannelRoles(
+        agentId: string,
+        syncGroup: string,
+        channel: string,
+    ) {
+        if (
+            this.hasChannelAcl(syncGroup, channel) &&
+            !this.agentRoles.has(agentId)
+        ) {
+            await this.loadAgentRoles(agentId);
+        }
+    }
+
+    // Role rules apply once the agent's profile is loaded; until then only rules naming the agent do
+    private async loadAgentRoles(agentId: string) {
+        if (!superUserSql) {
+            return;
+        }
+        try {
+            const [profile] = await superUserSql<
+                Array<{ auth__is_admin: boolean; auth__is_anon: boolean }>
+            >`
+                SELECT auth__is_admin, auth__is_anon
+                FROM auth.agent_profiles
+                WHERE general__agent_profile_id = ${agentId}::UUID
+            `;
+            if (profile) {
+                this.agentRoles.set(
+                    agentId,
+                    channelAclRolesOf({
+                        isAdmin: profile.auth__is_admin,
+                        isAnon: profile.auth__is_anon,
+                    }),
+                );
+            }
+        } catch (error) {
+            BunLogModule({
+                prefix: LOG_PREFIX,
+                message: "Failed to load agent roles",
+                error,
+                debug: this.DEBUG,
+                suppress: this.SUPPRESS,
+                type: "error",
+                data: { agentId },
+            });
+        }
+    }
+
+    // Run work on the proxy connection with the agent context set, so RLS applies
+    private async withAgentContext<T>(
+        agentId: string,
+        work: (tx: SQL) => Promise<T>,
+        // Transaction options, e.g. "isolation level repeatable read"
+        options = "",
+    ): Promise<T> {
+        if (!proxyUserSql) {
+            throw new Error("Database connection not available");
+        }
+        return (await proxyUserSql.begin(options, async (tx) => {
+            await tx`SELECT auth.set_agent_context_from_agent_id(${agentId}::UUID)`;
+            return await work(tx);
+        })) as T;
+    }
+
+    // Bounds the rest of the transaction's statements by the timeout of the agent's role
+    private async applyStatementTimeout(tx: SQL, agentId: string) {
+        if (!this.agentRoles.has(agentId)) {
+            await this.loadAgentRoles(agentId);
+        }
+        const roles = this.agentRoles.get(agentId) ?? [];
+        const timeoutMs = roles.includes("admin")
+            ? this.queryStatementTimeouts.admin
+            : roles.includes("anon")
+              ? this.queryStatementTimeouts.anon
+              : this.queryStatementTimeouts.regular;
+        if (timeoutMs > 0) {
+            await tx.unsafe(`SET LOCAL statement_timeout = ${timeoutMs}`);
+        }
+    }
+
+    // Registers the request while `work` runs so QUERY_CANCEL_REQUEST can reach its statements
+    private async trackQuery<T>(
+        ws: ServerWebSocket<WebSocketData>,
+        requestId: string,
+        work: (inFlight: InFlightQuery) => Promise<T>,
+    ): Promise<T> {
+        const key = `${ws.data.connectionId}:${requestId}`;
+        if (this.inFlightQueries.has(key)) {
+            throw new Error(`Request ${requestId} is already running`);
+        }
+        const inFlight: InFlightQuery = {
+            ws,
+            statement: null,
+            cancelled: false,
+        };
+        this.inFlightQueries.set(key, inFlight);
+        const startTime = performance.now();
+        let outcome: "ok" | "error" | "cancelled" | "timeout" = "ok";
+        try {
+            return await work(inFlight);
+        } catch (error) {
+            if (inFlight.cancelled) {
+                outcome = "cancelled";
+                throw new Error("Query cancelled");
+            }
+            outcome = "error";
+            if (
+                error instanceof Error &&
+                error.message.includes("statement timeout")
+            ) {
+                outcome = "timeout";
+                this.metricsCollector.recordQueryCancelled("timeout");
+            }
+            throw error;
+        } finally {
+            this.inFlightQueries.delete(key);
+            this.metricsCollector.recordQueryLatency(
+                performance.now() - startTime,
+                outcome,
+            );
+        }
+    }
+
+    // Runs one statement of a tracked request; cancelling the request cancels it on the backend
+    private async runTrackedStatement<T>(
+        inFlight: InFlightQuery | undefined,
+        statement: SQL.Query<T>,
+    ): Promise<T> {
+        if (!inFlight) {
+            return await statement;
+        }
+        if (inFlight.cancelled) {
+            throw new Error("Query cancelled");
+        }
+        inFlight.statement = statement;
+        try {
+            return await statement;
+        } finally {
+            inFlight.statement = null;
+        }
+    }
+
+    private cancelInFlightQuery(inFlight: InFlightQuery): boolean {
+        if (inFlight.cancelled) {
+            return false;
+        }
+        inFlight.cancelled = true;
+        inFlight.statement?.cancel();
+        this.metricsCollector.recordQueryCancelled("client");
+        return true;
+    }
+
+    // Declare `query` as a cursor on a dedicated proxy connection, in a transaction with the agent
+    // context set; the connection and the caller's query slot stay reserved until the cursor is closed
+    private async openQueryCursor(
+        ws: ServerWebSocket<WebSocketData>,
+        agentId: string,
+        query: string,
+        parameters: unknown[],
+        pageSize: number,
+    ): Promise<QueryCursor> {
+        if (!proxyUserSql) {
+            throw new Error("Database connection not available");
+        }
+        let owned = 0;
+        let ownedByAgent = 0;
+        const cursors = [
+            ...this.queryCursors.values(),
+            ...this.openingQueryCursors,
+        ];
+        for (const cursor of cursors) {
+            if (cursor.ws === ws) {
+                owned++;
+            }
+            if (cursor.agentId === agentId) {
+                ownedByAgent++;
+            }
+        }
+        if (owned >= this.QUERY_CURSOR_MAX_PER_SOCKET) {
+            throw new Error(
+                `Too many open query cursors (max ${this.QUERY_CURSOR_MAX_PER_SOCKET})`,
+            );
+        }
+        if (ownedByAgent >= this.QUERY_CURSOR_MAX_PER_AGENT) {
+            throw new Error(
+                `Too many open query cursors for this agent (max ${this.QUERY_CURSOR_MAX_PER_AGENT})`,
+            );
+        }
+        if (cursors.length >= this.QUERY_CURSOR_MAX_TOTAL) {
+            throw new Error("Too many open query cursors on this server");
+        }
+
+        const id = crypto.randomUUID();
+        // Counted while its connection is reserved, so concurrent opens cannot overshoot the caps
+        const opening = { ws, agentId };
+        this.openingQueryCursors.add(opening);
+        let connection: ReservedSQL;
+        try {
+            connection = await proxyUserSql.reserve();
+            try {
+                await connection`BEGIN`;
+                await connection`SELECT auth.set_agent_context_from_agent_id(${agentId}::UUID)`;
+                await this.applyStatementTimeout(connection, agentId);
+                await connection.unsafe(
+                    `DECLARE "${id}" NO SCROLL CURSOR FOR ${query.trim().replace(/;+$/, "")}`,
+                    parameters,
+                );
+            } catch (error) {
+                await connection`ROLLBACK`.catch(() => {});
+                connection.release();
+                throw error;
+            }
+        } finally {
+            this.openingQueryCursors.delete(opening);
+        }
+        this.rateLimiter.retainQuery(agentId);
+        const cursor: QueryCursor = {
+            id,
+            ws,
+            agentId,
+            connection,
+            pageSize,
+            idleTimer: null,
+            busy: false,
+            failed: false,
+        };
+        this.queryCursors.set(id, cursor);
+        this.touchQueryCursor(cursor);
+        return cursor;
+    }
+
+    private touchQueryCursor(cursor: QueryCursor) {
+        if (cursor.idleTimer) {
+            clearTimeout(cursor.idleTimer);
+        }
+        cursor.idleTimer = setTimeout(() => {
+            void this.closeQueryCursor(cursor);
+        }, this.QUERY_CURSOR_IDLE_MS);
+    }
+
+    // The next `count` rows; `done` once the result is exhausted
+    private async fetchQueryCursor(
+        cursor: QueryCursor,
+        count: number,
+        inFlight?: InFlightQuery,
+    ): Promise<{ rows: Record<string, unknown>[]; done: boolean }> {
+        if (cursor.busy) {
+            throw new Error("Query cursor is busy");
+        }
+        cursor.busy = true;
+        try {
+            const rows = (await this.runTrackedStatement(
+                inFlight,
+                cursor.connection.unsafe(
+                    `FETCH FORWARD ${count} FROM "${cursor.id}"`,
+                ),
+            )) as Record<string, unknown>[];
+            return { rows: Array.from(rows), done: rows.length < count };
+        } catch (error) {
+            cursor.failed = true;
+            throw error;
+        } finally {
+            cursor.busy = false;
+            this.touchQueryCursor(cursor);
+        }
+    }
+
+    // Ends the cursor's transaction and returns its connection to the pool
+    private async closeQueryCursor(cursor: QueryCursor) {
+        if (this.queryCursors.get(cursor.id) !== cursor) {
+            return;
+        }
+        this.queryCursors.delete(cursor.id);
+        this.rateLimiter.endQuery(cursor.agentId);
+        if (cursor.idleTimer) {
+            clearTimeout(cursor.idleTimer);
+        }
+        try {
+            await cursor.connection`COMMIT`;
+        } catch {
+            await cursor.connection`ROLLBACK`.catch(() => {});
+        } finally {
+            cursor.connection.release();
+        }
+    }
+
+    // Send the cursor's rows as QUERY_RESULT_CHUNK messages until it is exhausted, a stream cap is hit
+    // or the socket closes; the cursor is closed afterwards either way
+    private async streamQueryCursor(
+        cursor: QueryCursor,
+        requestId: string,
+        chunkSize: number,
+        inFlight?: InFlightQuery,
+    ): Promise<{ rowCount: number; truncated: boolean; bytes: number }> {
+        const ws = cursor.ws;
+        let rowCount = 0;
+        let bytes = 0;
+        let index = 0;
+        try {
+            while (this.queryCursors.get(cursor.id) === cursor) {
+                const count = Math.min(
+                    chunkSize,
+                    this.QUERY_STREAM_MAX_ROWS - rowCount,
+                );
+                if (count <= 0 || bytes >= this.QUERY_STREAM_MAX_BYTES) {
+                    return { rowCount, truncated: true, bytes };
+                }
+                // Let the socket drain rather than buffering the whole result in it
+                while (
+                    ws.readyState === WebSocket.OPEN &&
+                    ws.getBufferedAmount() > this.QUERY_MAX_BYTES
+                ) {
+                    await Bun.sleep(10);
+                }
+                const { rows, done } = await this.fetchQueryCursor(
+                    cursor,
+                    count,
+                    inFlight,
+                );
+                if (rows.length > 0) {
+                    bytes += this.sendMessage(
+                        ws,
+                        this.parseProtocolResponse(
+                            WsProtocol.Z.QueryResultChunk,
+                            {
+                                type: WsProtocol.MessageType.QUERY_RESULT_CHUNK,
+                                timestamp: Date.now(),
+                                requestId,
+                                errorMessage: null,
+                                index: index++,
+                                rows,
+                            },
+                        ),
+                    );
+                    rowCount += rows.length;
+                }
+                if (done) {
+                    return { rowCount, truncated: false, bytes };
+                }
+            }
+            throw new Error("Query stream stopped: connection closed");
+        } finally {
+            await this.closeQueryCursor(cursor);
+        }
+    }
+
+    // Paged or streamed QUERY_REQUEST; sends every message itself and returns the bytes sent
+    private async runCursorQuery(
+        ws: ServerWebSocket<WebSocketData>,
+        session: WorldSession<unknown>,
+        request: Communication.WebSocket.QueryRequestMessage,
+        options: WsProtocol.QueryRequestOptions,
+        inFlight?: InFlightQuery,
+    ): Promise<number> {
+        const size =
+            options.pageSize ??
+            options.chunkSize ??
+            this.QUERY_DEFAULT_CHUNK_SIZE;
+        if (size > this.QUERY_MAX_ROWS) {
+            throw new Error(
+                `${options.pageSize ? "pageSize" : "chunkSize"} must be at most ${this.QUERY_MAX_ROWS}`,
+            );
+        }
+        const cursor = await this.openQueryCursor(
+            ws,
+            session.agentId,
+            request.query,
+            request.parameters || [],
+            size,
+        );
+
+        let bytes = 0;
+        let result: Record<string, unknown>[] = [];
+        let extras: WsProtocol.QueryResponseExtras;
+        if (options.stream) {
+            const streamed = await this.streamQueryCursor(
+                cursor,
+                request.requestId,
+                size,
+                inFlight,
+            );
+            bytes += streamed.bytes;
+            extras = {
+                rowCount: streamed.rowCount,
+                truncated: streamed.truncated,
+            };
+        } else {
+            let page: Awaited<ReturnType<typeof this.fetchQueryCursor>>;
+            try {
+                page = await this.fetchQueryCursor(cursor, size, inFlight);
+            } catch (error) {
+                await this.closeQueryCursor(cursor);
+                throw error;
+            }
+            if (page.done) {
+                await this.closeQueryCursor(cursor);
+            }
+            result = page.rows;
+            extras = { cursor: page.done ? null : cursor.id };
+        }
+
+        const responseParsed =
+            Communication.WebSocket.Z.QueryResponse.safeParse({
+                type: Communication.WebSocket.MessageType.QUERY_RESPONSE,
+                timestamp: Date.now(),
+                requestId: request.requestId,
+                errorMessage: null,
+                result,
+            });
+        if (!responseParsed.success) {
+            throw new Error(
+                `Invalid query response format: ${responseParsed.error.message}`,
+            );
+        }
+        bytes += this.sendMessage(ws, { ...responseParsed.data, ...extras });
+        return bytes;
+    }
+
+    // Drops every entity, metadata and tick subscription of the socket, including entity query subscriptions
+    private dropSubscriptions(ws: ServerWebSocket<WebSocketData>): {
+        topics: number;
+        entityQueries: number;
+    } {
+        let entityQueries = 0;
+        for (const query of Array.from(this.entityQueries.values())) {
+            if (query.ws === ws) {
+                this.entityQueries.delete(query.id);
+                entityQueries++;
+            }
+        }
+        this.explicitTopics.delete(ws);
+        // Reflect topics are managed by syncReflectSubscriptionsForSession
+        const topics = this.getSubscribedTopics(ws).filter(
+            (topic) =>
+                this.isSequencedTopic(topic) ||
+                topic.startsWith(this.TICK_TOPIC_PREFIX),
+        );
+        for (const topic of topics) {
+            this.unsubscribeTopic(ws, topic);
+        }
+        return { topics: topics.length, entityQueries };
+    }
+
+    // #region Admin control
+
+    // Admin requests are authorized by auth.is_admin_agent(), evaluated as the caller
+    private async isAdminAgent(agentId: string): Promise<boolean> {
+        const [row] = await this.withAgentContext(
+            agentId,
+            (tx) =>
+                tx<Array<{ is_admin: boolean }>>`
+                    SELECT auth.is_admin_agent() AS is_admin
+                `,
+        );
+        return row?.is_admin === true;
+    }
+
+    private async requireAdmin(agentId: string) {
+        if (!(await this.isAdminAgent(agentId))) {
+            throw new Error("Admin access required");
+        }
+    }
+
+    private matchesAdminTarget(
+        session: WorldSession<unknown>,
+        target: AdminSessionTarget,
+    ): boolean {
+        return (
+            (target.sessionId === undefined ||
+                session.sessionId === target.sessionId) &&
+            (target.agentId === undefined ||
+                session.agentId === target.agentId) &&
+            (target.syncGroup === undefined ||
+                this.canRead(session.agentId, target.syncGroup))
+        );
+    }
+
+    private async listAdminSessions(
+        syncGroup?: string,
+    ): Promise<WsProtocol.AdminSession[]> {
+        const sessions = Array.from(this.activeSessions.values()).filter(
+            (session) => this.matchesAdminTarget(session, { syncGroup }),
+        );
+        const agentIds = Array.from(
+            new Set(sessions.map((session) => session.agentId)),
+        );
+        const profiles = new Map<
+            string,
+            {
+                profile__username: string | null;
+                auth__is_admin: boolean;
+                auth__is_anon: boolean;
+            }
+        >();
+        if (superUserSql && agentIds.length > 0) {
+            const rows = await superUserSql<
+                Array<{
+                    general__agent_profile_id: string;
+                    profile__username: string | null;
+                    auth__is_admin: boolean;
+                    auth__is_anon: boolean;
+                }>
+            >`
+                SELECT general__agent_profile_id, profile__username, auth__is_admin, auth__is_anon
+                FROM auth.agent_profiles
+                WHERE general__agent_profile_id = ANY(${superUserSql.array(agentIds, "UUID")})
+            `;
+            for (const row of rows) {
+                profiles.set(row.general__agent_profile_id, row);
+            }
+        }
+        return sessions.map((session) => {
+            const profile = profiles.get(session.agentId);
+            return {
+                sessionId: session.sessionId,
+                connectionId: session.connectionId,
+                instanceId: this.instanceId,
+                agentId: session.agentId,
+                username: profile?.profile__username ?? null,
+                isAdmin: profile?.auth__is_admin ?? false,
+                isAnon: profile?.auth__is_anon ?? false,
+                connectedAt: session.connectedAt,
+                syncGroups: Array.from(
+                    this.aclService?.getReadableSyncGroups(session.agentId) ??
+                        [],
+                ),
+            };
+        });
+    }
+
+    // This manager's sessions and those of every other manager that answers in time
+    private async gatherAdminSessions(syncGroup?: string): Promise<{
+        sessions: WsProtocol.AdminSession[];
+        unreachableInstances: string[];
+    }> {
+        const sessions = await this.listAdminSessions(syncGroup);
+        if (!this.fanoutBus || this.fanoutPeers.size === 0) {
+            return { sessions, unreachableInstances: [] };
+        }
+        const requestId = crypto.randomUUID();
+        const waiting = new Set(this.fanoutPeers.keys());
+        await new Promise<void>((resolve) => {
+            const timer = setTimeout(resolve, this.ADMIN_SESSIONS_TIMEOUT_MS);
+            this.adminSessionRequests.set(requestId, {
+                waiting,
+                sessions,
+                settle: () => {
+                    clearTimeout(timer);
+                    resolve();
+                },
+            });
+            void this.publishFanout({
+                type: "admin_sessions_request",
+                requestId,
+                syncGroup,
+            });
+        });
+        this.adminSessionRequests.delete(requestId);
+        return { sessions, unreachableInstances: Array.from(waiting) };
+    }
+
+    // Sends this manager's sessions to the manager gathering them, split to fit the fanout transport.
+    // Parts go out one after another so the last one, marked done, arrives last.
+    private async answerAdminSessions(
+        to: string,
+        requestId: string,
+        syncGroup?: string,
+    ) {
+        try {
+            const sessions = await this.listAdminSessions(syncGroup);
+            let part: WsProtocol.AdminSession[] = [];
+            let bytes = 0;
+            for (const session of sessions) {
+                const size = Buffer.byteLength(JSON.stringify(session));
+                if (
+                    part.length > 0 &&
+                    bytes + size > this.ADMIN_SESSIONS_PART_BYTES
+                ) {
+                    await this.publishFanout({
+                        type: "admin_sessions",
+                        requestId,
+                        to,
+                        sessions: part,
+                        done: false,
+                    });
+                    part = [];
+                    bytes = 0;
+                }
+                part.push(session);
+                bytes += size;
+            }
+            await this.publishFanout({
+                type: "admin_sessions",
+                requestId,
+                to,
+                sessions: part,
+                done: true,
+            });
+        } catch (error) {
+            BunLogModule({
+                prefix: LOG_PREFIX,
+                message: "Failed to answer admin session list",
+                error,
+                debug: this.DEBUG,
+                suppress: this.SUPPRESS,
+                type: "error",
+                data: { to, requestId },
+            });
+        }
+    }
+
+    // Closes the matching connections on this manager; returns how many were closed
+    private disconnectSessions(
+        target: AdminSessionTarget,
+        reason: string,
+    ): number {
+        let disconnected = 0;
+        for (const session of Array.from(this.activeSessions.values())) {
+            if (!this.matchesAdminTarget(session, target)) {
+                continue;
+            }
+            session.ws.close(WsProtocol.CloseCode.ADMIN_DISCONNECT, reason);
+            disconnected++;
+        }
+        return disconnected;
+    }
+
+    // Announcements ride the sync group's all-channels reflect topic, which every reader follows
+    private publishAnnouncement(
+        syncGroup: string,
+        message: string,
+        level: WsProtocol.AnnouncementLevel,
+    ) {
+        const announcement: WsProtocol.SystemAnnouncementMessage = {
+            type: WsProtocol.MessageType.SYSTEM_ANNOUNCEMENT,
+            timestamp: Date.now(),
+            requestId: "",
+            errorMessage: null,
+            syncGroup,
+            message,
+            level,
+        };
+        this.publishToTopic(
+            this.getReflectTopic(syncGroup),
+            new EncodedWsMessage(announcement),
+        );
+    }
+
+    // Drops the matching connections' subscriptions on this manager and sends them RESYNC_REQUIRED
+    private resyncSessions(
+        target: AdminSessionTarget,
+        reason: string | null,
+    ): number {
+        let resynced = 0;
+        for (const session of this.activeSessions.values()) {
+            if (!this.matchesAdminTarget(session, target)) {
+                continue;
+            }
+            const ws = session.ws as ServerWebSocket<WebSocketData>;
+            this.dropSubscriptions(ws);
+            this.sendMessage(ws, {
+                type: WsProtocol.MessageType.RESYNC_REQUIRED,
+                timestamp: Date.now(),
+                requestId: "",
+                errorMessage: null,
+                syncGroup: target.syncGroup ?? null,
+                reason,
+            } satisfies WsProtocol.ResyncRequiredMessage);
+            resynced++;
+        }
+        return resynced;
+    }
+
+    // The admin actions below apply on this manager and are forwarded to the others
+
+    private async adminDisconnect(params: {
+        sessionId?: string;
+        agentId?: string;
+        reason: string;
+        invalidate: boolean;
+    }): Promise<{ disconnected: number; invalidated: number }> {
+        if (params.sessionId === undefined && params.agentId === undefined) {
+            throw new Error("A sessionId or agentId is required");
+        }
+        const target = {
+            sessionId: params.sessionId,
+            agentId: params.agentId,
+        };
+        // Invalidated first, so a closed client cannot reconnect with the session in between
+        const invalidated = params.invalidate
+            ? await this.invalidateSessions(target)
+            : 0;
+        void this.publishFanout({
+            type: "admin_disconnect",
+            ...target,
+            reason: params.reason,
+        });
+        return {
+            disconnected: this.disconnectSessions(target, params.reason),
+            invalidated,
+        };
+    }
+
+    // Ends the matching active sessions in auth.agent_sessions; returns how many were ended
+    private async invalidateSessions(target: {
+        sessionId?: string;
+        agentId?: string;
+    }): Promise<number> {
+        if (!superUserSql) {
+            throw new Error("Database connection not available");
+        }
+        const rows = await superUserSql<Array<{ general__session_id: string }>>`
+            UPDATE auth.agent_sessions
+            SET session__is_active = false,
+                session__expires_at = NOW()
+            WHERE session__is_active = true
+              AND (${target.sessionId ?? null}::UUID IS NULL OR general__session_id = ${target.sessionId ?? null}::UUID)
+              AND (${target.agentId ?? null}::UUID IS NULL OR auth__agent_id = ${target.agentId ?? null}::UUID)
+            RETURNING general__session_id
+        `;
+        return rows.length;
+    }
+
+    private adminAnnounce(params: {
+        syncGroup: string;
+        message: string;
+        level: WsProtocol.AnnouncementLevel;
+    }) {
+        void this.publishFanout({ type: "admin_announce", ...params });
+        this.publishAnnouncement(
+            params.syncGroup,
+            params.message,
+            params.level,
+        );
+    }
+
+    private adminResync(params: {
+        syncGroup?: string;
+        sessionId?: string;
+        agentId?: string;
+        reason?: string;
+    }): number {
+        void this.publishFanout({ type: "admin_resync", ...params });
+        return this.resyncSessions(params, params.reason ?? null);
+    }
+
+    // The agent behind a REST request's bearer token and `provider`, or null when it does not authenticate
+    private async authenticateRestRequest(
+        req: Request,
+        url: URL,
+    ): Promise<string | null> {
+        const authorization = req.headers.get("authorization");
+        const token = authorization?.startsWith("Bearer ")
+            ? authorization.slice("Bearer ".length)
+            : url.searchParams.get("token");
+        const provider = url.searchParams.get("provider");
+        const sql = superUserSql;
+        if (!token || !provider || !sql) {
+            return null;
+        }
+        const jwtValidationResult = await validateJWT({
+            superUserSql: sql,
+            provider,
+            token,
+        });
+        if (!jwtValidationResult.isValid) {
+            return null;
+        }
+        const [session] = await sql<[{ agent_id: string | null }]>`
+            SELECT * FROM auth.validate_session_id(${jwtValidationResult.sessionId}::UUID) as agent_id
+        `;
+        return session?.agent_id ?? null;
+    }
+
+    // Routes under ADMIN_REST_PATH; answers { success, ... } like the WS responses' fields
+    private async handleAdminRestRequest(
+        req: Request,
+        url: URL,
+    ): Promise<Response> {
+        const agentId = await this.authenticateRestRequest(req, url);
+        if (!agentId) {
+            return Response.json(
+                { success: false, error: "Authentication required" },
+                { status: 401 },
+            );
+        }
+        if (!(await this.isAdminAgent(agentId))) {
+            return Response.json(
+                { success: false, error: "Admin access required" },
+                { status: 403 },
+            );
+        }
+
+        const route = `${req.method} ${url.pathname.slice(this.ADMIN_REST_PATH.length)}`;
+        const readParams = async <T>(schema: {
+            safeParse: (
+                data: unknown,
+            ) =>
+                | { success: true; data: T }
+                | { success: false; error: { message: string } };
+        }): Promise<T> => {
+            const parsed = schema.safeParse(
+                await req.json().catch(() => undefined),
+            );
+            if (!parsed.success) {
+                throw new Error(`Invalid request: ${parsed.error.message}`);
+            }
+            return parsed.data;
+        };
+
+        BunLogModule({
+            prefix: LOG_PREFIX,
+            message: `Admin REST request: ${route}`,
+            debug: this.DEBUG,
+            suppress: this.SUPPRESS,
+            type: "info",
+            data: { agentId },
+        });
+
+        try {
+            switch (route) {
+                case "GET /sessions": {
+                    const syncGroup =
+                        url.searchParams.get("syncGroup") ?? undefined;
+                    return Response.json({
+                        success: true,
+                        instanceId: this.instanceId,
+                        ...(await this.gatherAdminSessions(syncGroup)),
+                    });
+                }
+                case "POST /sessions/disconnect": {
+                    const params = await readParams(
+                        WsProtocol.Z.AdminDisconnectParams,
+                    );
+                    return Response.json({
+                        success: true,
+                        ...(await this.adminDisconnect(params)),
+                    });
+                }
+                case "POST /announce": {
+                    const params = await readParams(
+                        WsProtocol.Z.AdminAnnounceParams,
+                    );
+                    this.adminAnnounce(params);
+                    return Response.json({
+                        success: true,
+                        syncGroup: params.syncGroup,
+                    });
+                }
+                case "POST /resync": {
+                    const params = await readParams(
+                        WsProtocol.Z.AdminResyncParams,
+                    );
+                    return Response.json({
+                        success: true,
+                        resynced: this.adminResync(params),
+                    });
+                }
+                default:
+                    return Response.json(
+                        { success: false, error: "Not found" },
+                        { status: 404 },
+                    );
+            }
+        } catch (error) {
+            return Response.json(
+                {
+                    success: false,
+                    error:
+                        error instanceof Error ? error.message : String(error),
+                },
+                { status: 400 },
+            );
+        }
+    }
+
+    // #endregion
+
+    // #region Manager protocol requests
+
+    private async handleProtocolRequest(
+        ws: ServerWebSocket<WebSocketData>,
+        session: WorldSession<unknown>,
+        request: WsProtocol.RequestMessage,
+        requestSize: number,
+        receivedAt: number,
+    ) {
+        const startTime = performance.now();
+        let responseSize = 0;
+        let success = false;
+        let response: Record<string, unknown>;
+
+        const queryLimited = WsProtocol.isQueryLimitedRequestType(request.type);
+        if (queryLimited) {
+            const rateLimitRejection = this.rateLimiter.beginQuery(
+                session.agentId,
+            );
+            if (rateLimitRejection) {
+                responseSize = this.sendRateLimitExceeded(
+                    ws,
+                    request.requestId,
+                    request.type,
+                    rateLimitRejection,
+                );
+                this.recordEndpointMetrics(
+                    `WS_${request.type}`,
+                    startTime,
+                    requestSize,
+                    responseSize,
+                    false,
+                );
+                return;
+            }
+        }
+
+        try {
+            response = await this.executeProtocolRequest(session, request);
+            success =
+                response.type !==
+                WsProtocol.MessageType.RATE_LIMIT_EXCEEDED_RESPONSE;
+        } catch (error) {
+            const errorMessage =
+                error instanceof Error ? error.message : String(error);
+            response = this.buildProtocolErrorResponse(
+                session,
+                request,
+                errorMessage,
+            );
+            BunLogModule({
+                prefix: LOG_PREFIX,
+                message: `WS ${request.type} error`,
+                debug: this.DEBUG,
+                suppress: this.SUPPRESS,
+                type: "info",
+                data: {
+                    requestId: request.requestId,
+                    agentId: session.agentId,
+                    errorMessage,
+                },
+            });
+        } finally {
+            if (queryLimited) {
+                this.rateLimiter.endQuery(session.agentId);
+            }
+        }
+
+        try {
+            responseSize = this.sendMessage(ws, response);
+        } catch (error) {
+            success = false;
+            BunLogModule({
+                prefix: LOG_PREFIX,
+                message: `WS ${request.type} response could not be sent`,
+                debug: this.DEBUG,
+                suppress: this.SUPPRESS,
+                type: "error",
+                error,
+            });
+        }
+
+        BunLogModule({
+            prefix: LOG_PREFIX,
+            message: `WS ${request.type} handled`,
+            debug: this.DEBUG,
+            suppress: this.SUPPRESS,
+            type: "debug",
+            data: {
+                requestId: request.requestId,
+                success,
+                requestSize,
+                responseSize,
+                durationMs: performance.now() - receivedAt,
+            },
+        });
+
+        this.recordEndpointMetrics(
+            `WS_${request.type}`,
+            startTime,
+            requestSize,
+            responseSize,
+            success,
+        );
+    }
+
+    private async executeProtocolRequest(
+        session: WorldSession<unknown>,
+        request: WsProtocol.RequestMessage,
+    ): Promise<Record<string, unknown>> {
+        switch (request.type) {
+            case WsProtocol.MessageType.ENTITY_UPSERT_REQUEST:
+                return await this.handleEntityUpsert(session, request);
+            case WsProtocol.MessageType.ENTITY_DELETE_REQUEST:
+                return await this.handleEntityDelete(session, request);
+            case WsProtocol.MessageType.ENTITY_GET_REQUEST:
+                return await this.handleEntityGet(session, request);
+            case WsProtocol.MessageType.METADATA_SET_REQUEST:
+                return await this.handleMetadataSet(session, request);
+            case WsProtocol.MessageType.METADATA_DELETE_REQUEST:
+                return await this.handleMetadataDelete(session, request);
+            case WsProtocol.MessageType.METADATA_DELIVERY_MODE_REQUEST:
+                return this.handleMetadataDeliveryMode(session, request);
+            case WsProtocol.MessageType.METADATA_RESYNC_REQUEST:
+                return await this.handleMetadataResync(session, request);
+            case WsProtocol.MessageType.INTEREST_POSITION_UPDATE_REQUEST:
+                return await this.handleInterestPositionUpdate(
+                    session,
+                    request,
+                );
+            case WsProtocol.MessageType.SESSION_RESUME_REQUEST:
+                return await this.handleSessionResume(session, request);
+            case WsProtocol.MessageType.ENTITY_QUERY_SUBSCRIBE_REQUEST:
+                return await this.handleEntityQuerySubscribe(session, request);
+            case WsProtocol.MessageType.ENTITY_QUERY_UNSUBSCRIBE_REQUEST:
+                return this.handleEntityQueryUnsubscribe(session, request);
+            case WsProtocol.MessageType.SUBSCRIPTIONS_LIST_REQUEST:
+                return this.handleSubscriptionsList(session, request);
+            case WsProtocol.MessageType.UNSUBSCRIBE_ALL_REQUEST:
+                return this.handleUnsubscribeAll(session, request);
+            case WsProtocol.MessageType.NAMED_QUERY_REQUEST:
+                return await this.handleNamedQuery(session, request);
+            case WsProtocol.MessageType.QUERY_PAGE_REQUEST:
+                return await this.handleQueryPage(session, request);
+            case WsProtocol.MessageType.QUERY_CANCEL_REQUEST:
+                return this.handleQueryCancel(session, request);
+            case WsProtocol.MessageType.PRESENCE_UPDATE_REQUEST:
+                return this.handlePresenceUpdate(session, request);
+            case WsProtocol.MessageType.RPC_REQUEST:
+                return await this.handleRpc(session, request);
+            case WsProtocol.MessageType.TICK_SUBSCRIBE_REQUEST:
+                return this.handleTickSubscribe(session, request);
+            case WsProtocol.MessageType.CLOCK_SYNC_REQUEST:
+                return this.handleClockSync(request);
+            case WsProtocol.MessageType.ADMIN_SESSIONS_LIST_REQUEST:
+                return await this.handleAdminSessionsList(session, request);
+            case WsProtocol.MessageType.ADMIN_DISCONNECT_REQUEST:
+                return await this.handleAdminDisconnect(session, request);
+            case WsProtocol.MessageType.ADMIN_ANNOUNCE_REQUEST:
+                return await this.handleAdminAnnounce(session, request);
+            case WsProtocol.MessageType.ADMIN_RESYNC_REQUEST:
+                return await this.handleAdminResync(session, request);
         }
     }
 
-    private queueEntityChange(payload: EntityNotificationPayload) {
-        if (!payload.entityName) {
-            return;
+    private buildProtocolErrorResponse(
+        session: WorldSession<unknown>,
+        request: WsProtocol.RequestMessage,
+        errorMessage: string,
+    ): Record<string, unknown> {
+        const base = {
+            timestamp: Date.now(),
+            requestId: request.requestId,
+            errorMessage,
+        };
+        switch (request.type) {
+            case WsProtocol.MessageType.ENTITY_UPSERT_REQUEST:
+                return {
+                    ...base,
+                    type: WsProtocol.MessageType.ENTITY_UPSERT_RESPONSE,
+                    entityName: request.entityName,
+                    created: false,
+                    entity: null,
+                } satisfies WsProtocol.EntityUpsertResponseMessage;
+            case WsProtocol.MessageType.ENTITY_DELETE_REQUEST:
+                return {
+                    ...base,
+                    type: WsProtocol.MessageType.ENTITY_DELETE_RESPONSE,
+                    entityName: request.entityName,
+                    deleted: false,
+                } satisfies WsProtocol.EntityDeleteResponseMessage;
+            case WsProtocol.MessageType.ENTITY_GET_REQUEST:
+                return {
+                    ...base,
+                    type: WsProtocol.MessageType.ENTITY_GET_RESPONSE,
+                    entityName: request.entityName,
+                    entity: null,
+                    metadata: [],
+                } satisfies WsProtocol.EntityGetResponseMessage;
+            case WsProtocol.MessageType.METADATA_SET_REQUEST:
+                return {
+                    ...base,
+                    type: WsProtocol.MessageType.METADATA_SET_RESPONSE,
+                    entityName: request.entityName,
+                    metadataKey: request.metadataKey,
+                    metadata: null,
+                } satisfies WsProtocol.MetadataSetResponseMessage;
+            case WsProtocol.MessageType.METADATA_DELETE_REQUEST:
+                return {
+                    ...base,
+                    type: WsProtocol.MessageType.METADATA_DELETE_RESPONSE,
+                    entityName: request.entityName,
+                    metadataKey: request.metadataKey,
+                    deleted: false,
+                } satisfies WsProtocol.MetadataDeleteResponseMessage;
+            case WsProtocol.MessageType.METADATA_DELIVERY_MODE_REQUEST:
+                return {
+                    ...base,
+                    type: WsProtocol.MessageType
+                        .METADATA_DELIVERY_MODE_RESPONSE,
+                    mode: this.getMetadataDeliveryMode(session.ws),
+                } satisfies WsProtocol.MetadataDeliveryModeResponseMessage;
+            case WsProtocol.MessageType.METADATA_RESYNC_REQUEST:
+                return {
+                    ...base,
+                    type: WsProtocol.MessageType.METADATA_RESYNC_RESPONSE,
+                    entityName: request.entityName,
+                    metadata: [],
+                } satisfies WsProtocol.MetadataResyncResponseMessage;
+            case WsProtocol.MessageType.INTEREST_POSITION_UPDATE_REQUEST:
+                return {
+                    ...base,
+                    type: WsProtocol.MessageType
+                        .INTEREST_POSITION_UPDATE_RESPONSE,
+                    syncGroup: request.syncGroup,
+                    position: null,
+                    interestRadius: null,
+                } satisfies WsProtocol.InterestPositionUpdateResponseMessage;
+            case WsProtocol.MessageType.SESSION_RESUME_REQUEST:
+                return {
+                    ...base,
+                    type: WsProtocol.MessageType.SESSION_RESUME_RESPONSE,
+                    resumed: false,
+                    replayed: 0,
+                    lastSeq: this.deliverySeq,
+                    topics: [],
+                } satisfies WsProtocol.SessionResumeResponseMessage;
+            case WsProtocol.MessageType.ENTITY_QUERY_SUBSCRIBE_REQUEST:
+                return {
+                    ...base,
+                    type: WsProtocol.MessageType
+                        .ENTITY_QUERY_SUBSCRIBE_RESPONSE,
+                    subscriptionId: null,
+                    entityNames: [],
+                } satisfies WsProtocol.EntityQuerySubscribeResponseMessage;
+            case WsProtocol.MessageType.ENTITY_QUERY_UNSUBSCRIBE_REQUEST:
+                return {
+                    ...base,
+                    type: WsProtocol.MessageType
+                        .ENTITY_QUERY_UNSUBSCRIBE_RESPONSE,
+                    subscriptionId: request.subscriptionId,
+                    unsubscribed: false,
+                } satisfies WsProtocol.EntityQueryUnsubscribeResponseMessage;
+            case WsProtocol.MessageType.SUBSCRIPTIONS_LIST_REQUEST:
+                return {
+                    ...base,
+                    type: WsProtocol.MessageType.SUBSCRIPTIONS_LIST_RESPONSE,
+                    topics: [],
+                    entityQueries: [],
+                } satisfies WsProtocol.SubscriptionsListResponseMessage;
+            case WsProtocol.MessageType.UNSUBSCRIBE_ALL_REQUEST:
+                return {
+                    ...base,
+                    type: WsProtocol.MessageType.UNSUBSCRIBE_ALL_RESPONSE,
+                    topics: 0,
+                    entityQueries: 0,
+                } satisfies WsProtocol.UnsubscribeAllResponseMessage;
+            case WsProtocol.MessageType.NAMED_QUERY_REQUEST:
+                return {
+                    ...base,
+                    type: WsProtocol.MessageType.NAMED_QUERY_RESPONSE,
+                    name: request.name,
+                    result: [],
+                } satisfies WsProtocol.NamedQueryResponseMessage;
+            case WsProtocol.MessageType.QUERY_PAGE_REQUEST:
+                return {
+                    ...base,
+                    type: WsProtocol.MessageType.QUERY_PAGE_RESPONSE,
+                    // A failed fetch closes the cursor
+                    cursor: this.queryCursors.has(request.cursor)
+                        ? request.cursor
+                        : null,
+                    result: [],
+                } satisfies WsProtocol.QueryPageResponseMessage;
+            case WsProtocol.MessageType.QUERY_CANCEL_REQUEST:
+                return {
+                    ...base,
+                    type: WsProtocol.MessageType.QUERY_CANCEL_RESPONSE,
+                    targetRequestId: request.targetRequestId,
+                    cancelled: false,
+                } satisfies WsProtocol.QueryCancelResponseMessage;
+            case WsProtocol.MessageType.PRESENCE_UPDATE_REQUEST:
+                return {
+                    ...base,
+                    type: WsProtocol.MessageType.PRESENCE_UPDATE_RESPONSE,
+                    attributes: request.attributes,
+                } satisfies WsProtocol.PresenceUpdateResponseMessage;
+            case WsProtocol.MessageType.RPC_REQUEST:
+                return {
+                    ...base,
+                    type: WsProtocol.MessageType.RPC_RESPONSE,
+                    method: request.method,
+                    result: null,
+                } satisfies WsProtocol.RpcResponseMessage;
+            case WsProtocol.MessageType.TICK_SUBSCRIBE_REQUEST:
+                return {
+                    ...base,
+                    type: WsProtocol.MessageType.TICK_SUBSCRIBE_RESPONSE,
+                    syncGroup: request.syncGroup,
+                    subscribed: false,
+                    tick: this.reflectTickCounts.get(request.syncGroup) ?? 0,
+                    tickRateMs:
+                        this.reflectTickRateMs.get(request.syncGroup) ?? 0,
+                } satisfies WsProtocol.TickSubscribeResponseMessage;
+            case WsProtocol.MessageType.CLOCK_SYNC_REQUEST:
+                return {
+                    ...base,
+                    type: WsProtocol.MessageType.CLOCK_SYNC_RESPONSE,
+                    clientTime: request.clientTime,
+                    serverTime: Date.now(),
+                } satisfies WsProtocol.ClockSyncResponseMessage;
+            case WsProtocol.MessageType.ADMIN_SESSIONS_LIST_REQUEST:
+                return {
+                    ...base,
+                    type: WsProtocol.MessageType.ADMIN_SESSIONS_LIST_RESPONSE,
+                    instanceId: this.instanceId,
+                    sessions: [],
+                    unreachableInstances: [],
+                } satisfies WsProtocol.AdminSessionsListResponseMessage;
+            case WsProtocol.MessageType.ADMIN_DISCONNECT_REQUEST:
+                return {
+                    ...base,
+                    type: WsProtocol.MessageType.ADMIN_DISCONNECT_RESPONSE,
+                    disconnected: 0,
+                    invalidated: 0,
+                } satisfies WsProtocol.AdminDisconnectResponseMessage;
+            case WsProtocol.MessageType.ADMIN_ANNOUNCE_REQUEST:
+                return {
+                    ...base,
+                    type: WsProtocol.MessageType.ADMIN_ANNOUNCE_RESPONSE,
+                    syncGroup: request.syncGroup,
+                } satisfies WsProtocol.AdminAnnounceResponseMessage;
+            case WsProtocol.MessageType.ADMIN_RESYNC_REQUEST:
+                return {
+                    ...base,
+                    type: WsProtocol.MessageType.ADMIN_RESYNC_RESPONSE,
+                    resynced: 0,
+                } satisfies WsProtocol.AdminResyncResponseMessage;
         }
+    }
 
-        // Get or create sync group map
-        let syncGroupMap = this.entityQueues.get(payload.syncGroup);
-        if (!syncGroupMap) {
-            syncGroupMap = new Map();
-            this.entityQueues.set(payload.syncGroup, syncGroupMap);
+    private parseProtocolResponse<T>(
+        schema: {
+            safeParse: (
+                data: unknown,
+            ) =>
+                | { success: true; data: T }
+                | { success: false; error: { message: string } };
+        },
+        data: unknown,
+    ): T {
+        const parsed = schema.safeParse(data);
+        if (!parsed.success) {
+            throw new Error(`Invalid response format: ${parsed.error.message}`);
         }
+        return parsed.data;
+    }
 
-        // Coalesce: keep only the latest notification per entity (regardless of channel)
-        syncGroupMap.set(payload.entityName, [payload]);
+    private async handleEntityUpsert(
+        session: WorldSession<unknown>,
+        request: WsProtocol.EntityUpsertRequestMessage,
+    ): Promise<WsProtocol.EntityUpsertResponseMessage> {
+        const { entity, created } = await this.withAgentContext(
+            session.agentId,
+            async (tx) => {
+                if (request.onlyIfMissing) {
+                    const inserted = (await tx`
+                        INSERT INTO entity.entities (
+                            general__entity_name,
+                            group__sync,
+                            group__channel,
+                            group__load_priority,
+                            general__semantic_version,
+                            general__expiry__delete_since_updated_at_ms,
+                            general__expiry__delete_since_created_at_ms
+                        ) VALUES (
+                            ${request.entityName},
+                            COALESCE(${request.syncGroup ?? null}::TEXT, 'public.NORMAL'),
+                            ${request.channel ?? null}::TEXT,
+                            COALESCE(${request.loadPriority ?? null}::INTEGER, 1),
+                            COALESCE(${request.semanticVersion ?? null}::TEXT, '1.0.0'),
+                            ${request.expiryDeleteSinceUpdatedAtMs ?? null}::BIGINT,
+                            ${request.expiryDeleteSinceCreatedAtMs ?? null}::BIGINT
+                        )
+                        ON CONFLICT (general__entity_name) DO NOTHING
+                        RETURNING *
+                    `) as Array<Record<string, unknown>>;
+                    if (inserted.length > 0) {
+                        await this.assertEntityChannelPublish(
+                            session.agentId,
+                            inserted[0].group__sync as string,
+                            inserted[0].group__channel as string | null,
+                        );
+                        return { entity: inserted[0], created: true };
+                    }
+                    const existing = (await tx`
+                        SELECT *
+                        FROM entity.entities
+                        WHERE general__entity_name = ${request.entityName}
+                        LIMIT 1
+                    `) as Array<Record<string, unknown>>;
+                    return { entity: existing[0] ?? null, created: false };
+                }
+
+                // Moving an entity off a channel is a write on that channel too
+                const previous = (await tx`
+                    SELECT group__sync, group__channel
+                    FROM entity.entities
+                    WHERE general__entity_name = ${request.entityName}
+                `) as Array<{
+                    group__sync: string;
+                    group__channel: string | null;
+                }>;
+                if (previous.length > 0) {
+                    await this.assertEntityChannelPublish(
+                        session.agentId,
+                        previous[0].group__sync,
+                        previous[0].group__channel,
+                    );
+                }
+
+                // Only overwrite columns the caller actually provided; inserts fall back to column defaults
+                const rows = (await tx`
+                    INSERT INTO entity.entities (
+                        general__entity_name,
+                        group__sync,
+                        group__channel,
+                        group__load_priority,
+                        general__semantic_version,
+                        general__expiry__delete_since_updated_at_ms,
+                        general__expiry__delete_since_created_at_ms
+                    ) VALUES (
+                        ${request.entityName},
+                        COALESCE(${request.syncGroup ?? null}::TEXT, 'public.NORMAL'),
+                        ${request.channel ?? null}::TEXT,
+                        COALESCE(${request.loadPriority ?? null}::INTEGER, 1),
+                        COALESCE(${request.semanticVersion ?? null}::TEXT, '1.0.0'),
+                        ${request.expiryDeleteSinceUpdatedAtMs ?? null}::BIGINT,
+                        ${request.expiryDeleteSinceCreatedAtMs ?? null}::BIGINT
+                    )
+                    ON CONFLICT (general__entity_name) DO UPDATE SET
+                        group__sync = CASE WHEN ${request.syncGroup !== undefined}::BOOLEAN
+                            THEN EXCLUDED.group__sync ELSE entity.entities.group__sync END,
+                        group__channel = CASE WHEN ${request.channel !== undefined}::BOOLEAN
+                            THEN EXCLUDED.group__channel ELSE entity.entities.group__channel END,
+                        group__load_priority = CASE WHEN ${request.loadPriority !== undefined}::BOOLEAN
+                            THEN EXCLUDED.group__load_priority ELSE entity.entities.group__load_priority END,
+                        general__semantic_version = CASE WHEN ${request.semanticVersion !== undefined}::BOOLEAN
+                            THEN EXCLUDED.general__semantic_version ELSE entity.entities.general__semantic_version END,
+                        general__expiry__delete_since_updated_at_ms = CASE WHEN ${request.expiryDeleteSinceUpdatedAtMs !== undefined}::BOOLEAN
+                            THEN EXCLUDED.general__expiry__delete_since_updated_at_ms
+                            ELSE entity.entities.general__expiry__delete_since_updated_at_ms END,
+                        general__expiry__delete_since_created_at_ms = CASE WHEN ${request.expiryDeleteSinceCreatedAtMs !== undefined}::BOOLEAN
+                            THEN EXCLUDED.general__expiry__delete_since_created_at_ms
+                            ELSE entity.entities.general__expiry__delete_since_created_at_ms END
+                    RETURNING *, (xmax = 0) AS upsert__created
+                `) as Array<Record<string, unknown>>;
+                if (rows.length === 0) {
+                    throw new Error(
+                        `Not authorized to write entity: ${request.entityName}`,
+                    );
+                }
+                const { upsert__created, ...row } = rows[0];
+                await this.assertEntityChannelPublish(
+                    session.agentId,
+                    row.group__sync as string,
+                    row.group__channel as string | null,
+                );
+                return { entity: row, created: upsert__created === true };
+            },
+        );
+
+        return this.parseProtocolResponse(WsProtocol.Z.EntityUpsertResponse, {
+            type: WsProtocol.MessageType.ENTITY_UPSERT_RESPONSE,
+            timestamp: Date.now(),
+            requestId: request.requestId,
+            errorMessage: null,
+            entityName: request.entityName,
+            created,
+            entity,
+        });
     }
 
-    private queueEntityMetadataChange(payload: EntityNotificationPayload) {
-        if (!payload.entityName || !payload.metadataKey) {
-            return;
+    private async handleEntityDelete(
+        session: WorldSession<unknown>,
+        request: WsProtocol.EntityDeleteRequestMessage,
+    ): Promise<WsProtocol.EntityDeleteResponseMessage> {
+        const rows = await this.withAgentContext(
+            session.agentId,
+            async (tx) => {
+                const deleted = (await tx`
+                DELETE FROM entity.entities
+                WHERE general__entity_name = ${request.entityName}
+                RETURNING general__entity_name, group__sync, group__channel
+            `) as Array<{
+                    general__entity_name: string;
+                    group__sync: string;
+                    group__channel: string | null;
+                }>;
+                for (const row of deleted) {
+                    await this.assertEntityChannelPublish(
+                        session.agentId,
+                        row.group__sync,
+                        row.group__channel,
+                    );
+                }
+                return deleted;
+            },
+        );
+
+        let errorMessage: string | null = null;
+        if (rows.length === 0) {
+            // RLS hides rows the caller may not delete; telling that apart from a missing row would reveal them
+            errorMessage = `Entity not found or not authorized to delete: ${request.entityName}`;
         }
 
-        // Record queued time
-        payload.queuedTime = performance.now();
+        return this.parseProtocolResponse(WsProtocol.Z.EntityDeleteResponse, {
+            type: WsProtocol.MessageType.ENTITY_DELETE_RESPONSE,
+            timestamp: Date.now(),
+            requestId: request.requestId,
+            errorMessage,
+            entityName: request.entityName,
+            deleted: rows.length > 0,
+        });
+    }
 
-        // Get or create sync group map
-        let syncGroupMap = this.entityMetadataQueues.get(payload.syncGroup);
-        if (!syncGroupMap) {
-            syncGroupMap = new Map();
-            this.entityMetadataQueues.set(payload.syncGroup, syncGroupMap);
+    private async handleEntityGet(
+        session: WorldSession<unknown>,
+        request: WsProtocol.EntityGetRequestMessage,
+    ): Promise<WsProtocol.EntityGetResponseMessage> {
+        const { entity, metadata } = await this.withAgentContext(
+            session.agentId,
+            async (tx) => {
+                const entityRows = (await tx`
+                    SELECT *
+                    FROM entity.entities
+                    WHERE general__entity_name = ${request.entityName}
+                    LIMIT 1
+                `) as Array<Record<string, unknown>>;
+                const entityRow = entityRows[0] ?? null;
+
+                if (
+                    !entityRow ||
+                    !request.includeMetadata ||
+                    request.metadataKeys?.length === 0
+                ) {
+                    return { entity: entityRow, metadata: [] };
+                }
+
+                const metadataRows = (
+                    request.metadataKeys
+                        ? await tx`
+                            SELECT *
+                            FROM entity.entity_metadata
+                            WHERE general__entity_name = ${request.entityName}
+                              AND metadata__key IN ${tx(request.metadataKeys)}
+                        `
+                        : await tx`
+                            SELECT *
+                            FROM entity.entity_metadata
+                            WHERE general__entity_name = ${request.entityName}
+                        `
+                ) as Array<Record<string, unknown>>;
+                return { entity: entityRow, metadata: metadataRows };
+            },
+        );
+
+        return this.parseProtocolResponse(WsProtocol.Z.EntityGetResponse, {
+            type: WsProtocol.MessageType.ENTITY_GET_RESPONSE,
+            timestamp: Date.now(),
+            requestId: request.requestId,
+            errorMessage: entity ? null : "Entity not found",
+            entityName: request.entityName,
+            entity,
+            metadata,
+        });
+    }
+
+    private async handleMetadataSet(
+        session: WorldSession<unknown>,
+        request: WsProtocol.MetadataSetRequestMessage,
+    ): Promise<WsProtocol.MetadataSetResponseMessage> {
+        const valueType =
+            request.valueType ?? WsProtocol.MetadataValueType.JSONB;
+        const value = request.value;
+
+        // Exactly one typed column may be non-null (entity_metadata_one_value)
+        const columns = {
+            jsonb: null as string | null,
+            text: null as string | null,
+            int: null as number | null,
+            float: null as number | null,
+            bool: null as boolean | null,
+        };
+        switch (valueType) {
+            case WsProtocol.MetadataValueType.JSONB:
+                if (value === undefined) {
+                    throw new Error("value is required");
+                }
+                columns.jsonb = JSON.stringify(value);
+                break;
+            case WsProtocol.MetadataValueType.TEXT:
+                if (typeof value !== "string") {
+                    throw new Error("value must be a string for text metadata");
+                }
+                columns.text = value;
+                break;
+            case WsProtocol.MetadataValueType.INT:
+                if (typeof value !== "number" || !Number.isInteger(value)) {
+                    throw new Error(
+                        "value must be an integer for int metadata",
+                    );
+                }
+                columns.int = value;
+                break;
+            case WsProtocol.MetadataValueType.FLOAT:
+                if (typeof value !== "number" || !Number.isFinite(value)) {
+                    throw new Error(
+                        "value must be a number for float metadata",
+                    );
+                }
+                columns.float = value;
+                break;
+            case WsProtocol.MetadataValueType.BOOL:
+                if (typeof value !== "boolean") {
+                    throw new Error(
+                        "value must be a boolean for bool metadata",
+                    );
+                }
+                columns.bool = value;
+                break;
         }
 
-        // Get or create entity map
-        let entityMap = syncGroupMap.get(payload.entityName);
-        if (!entityMap) {
-            entityMap = new Map();
-            syncGroupMap.set(payload.entityName, entityMap);
+        const rows = await this.withAgentContext(
+            session.agentId,
+            async (tx) => {
+                const written = (await tx`
+                    INSERT INTO entity.entity_metadata (
+                        general__entity_name,
+                        metadata__key,
+                        metadata__jsonb,
+                        metadata__text,
+                        metadata__int,
+                        metadata__float,
+                        metadata__bool,
+                        general__expiry__delete_since_updated_at_ms,
+                        general__expiry__delete_since_created_at_ms
+                    ) VALUES (
+                        ${request.entityName},
+                        ${request.metadataKey},
+                        ${columns.jsonb}::JSONB,
+                        ${columns.text}::TEXT,
+                        ${columns.int}::BIGINT,
+                        ${columns.float}::DOUBLE PRECISION,
+                        ${columns.bool}::BOOLEAN,
+                        ${request.expiryDeleteSinceUpdatedAtMs ?? null}::BIGINT,
+                        ${request.expiryDeleteSinceCreatedAtMs ?? null}::BIGINT
+                    )
+                    ON CONFLICT (general__entity_name, metadata__key) DO UPDATE SET
+                        metadata__jsonb = EXCLUDED.metadata__jsonb,
+                        metadata__text = EXCLUDED.metadata__text,
+                        metadata__int = EXCLUDED.metadata__int,
+                        metadata__float = EXCLUDED.metadata__float,
+                        metadata__bool = EXCLUDED.metadata__bool,
+                        metadata__bytea = NULL,
+                        general__expiry__delete_since_updated_at_ms = CASE WHEN ${request.expiryDeleteSinceUpdatedAtMs !== undefined}::BOOLEAN
+                            THEN EXCLUDED.general__expiry__delete_since_updated_at_ms
+                            ELSE entity.entity_metadata.general__expiry__delete_since_updated_at_ms END,
+                        general__expiry__delete_since_created_at_ms = CASE WHEN ${request.expiryDeleteSinceCreatedAtMs !== undefined}::BOOLEAN
+                            THEN EXCLUDED.general__expiry__delete_since_created_at_ms
+                            ELSE entity.entity_metadata.general__expiry__delete_since_created_at_ms END
+                    RETURNING *
+                `) as Array<Record<string, unknown>>;
+                if (written.length > 0) {
+                    await this.assertMetadataChannelPublish(
+                        tx,
+                        session.agentId,
+                        request.entityName,
+                    );
+                }
+                return written;
+            },
+        );
+
+        if (rows.length === 0) {
+            throw new Error(
+                `Not authorized to write metadata ${request.metadataKey} on entity: ${request.entityName}`,
+            );
         }
 
-        // Coalesce: keep only the latest notification per entity+metadataKey (regardless of channel)
-        entityMap.set(payload.metadataKey, [payload]);
+        return this.parseProtocolResponse(WsProtocol.Z.MetadataSetResponse, {
+            type: WsProtocol.MessageType.METADATA_SET_RESPONSE,
+            timestamp: Date.now(),
+            requestId: request.requestId,
+            errorMessage: null,
+            entityName: request.entityName,
+            metadataKey: request.metadataKey,
+            metadata: rows[0],
+        });
     }
 
-    private publishEntityChange(payload: EntityNotificationPayload): number {
-        if (!payload.entityName || !this.server) {
-            return 0;
+    private async handleMetadataDelete(
+        session: WorldSession<unknown>,
+        request: WsProtocol.MetadataDeleteRequestMessage,
+    ): Promise<WsProtocol.MetadataDeleteResponseMessage> {
+        const rows = await this.withAgentContext(
+            session.agentId,
+            async (tx) => {
+                const deleted = (await tx`
+                DELETE FROM entity.entity_metadata
+                WHERE general__entity_name = ${request.entityName}
+                  AND metadata__key = ${request.metadataKey}
+                RETURNING metadata__key
+            `) as Array<{ metadata__key: string }>;
+                if (deleted.length > 0) {
+                    await this.assertMetadataChannelPublish(
+                        tx,
+                        session.agentId,
+                        request.entityName,
+                    );
+                }
+                return deleted;
+            },
+        );
+
+        let errorMessage: string | null = null;
+        if (rows.length === 0) {
+            errorMessage = `Metadata ${request.metadataKey} not found or not authorized to delete on entity: ${request.entityName}`;
         }
 
-        const messageData = {
-            type: Communication.WebSocket.MessageType.ENTITY_DELIVERY,
+        return this.parseProtocolResponse(WsProtocol.Z.MetadataDeleteResponse, {
+            type: WsProtocol.MessageType.METADATA_DELETE_RESPONSE,
             timestamp: Date.now(),
-            requestId: payload.entityName,
+            requestId: request.requestId,
+            errorMessage,
+            entityName: request.entityName,
+            metadataKey: request.metadataKey,
+            deleted: rows.length > 0,
+        });
+    }
+
+    private handleMetadataDeliveryMode(
+        session: WorldSession<unknown>,
+        request: WsProtocol.MetadataDeliveryModeRequestMessage,
+    ): WsProtocol.MetadataDeliveryModeResponseMessage {
+        this.setMetadataDeliveryMode(
+            session.ws as ServerWebSocket<WebSocketData>,
+            request.mode,
+        );
+
+        return this.parseProtocolResponse(
+            WsProtocol.Z.MetadataDeliveryModeResponse,
+            {
+                type: WsProtocol.MessageType.METADATA_DELIVERY_MODE_RESPONSE,
+                timestamp: Date.now(),
+                requestId: request.requestId,
+                errorMessage: null,
+                mode: request.mode,
+            },
+        );
+    }
+
+    private async handleMetadataResync(
+        session: WorldSession<unknown>,
+        request: WsProtocol.MetadataResyncRequestMessage,
+    ): Promise<WsProtocol.MetadataResyncResponseMessage> {
+        const rows =
+            request.metadataKeys?.length === 0
+                ? []
+                : await this.withAgentContext(
+                      session.agentId,
+                      async (tx) =>
+                          (request.metadataKeys
+                              ? await tx`
+                                    SELECT *
+                                    FROM entity.entity_metadata
+                                    WHERE general__entity_name = ${request.entityName}
+                                      AND metadata__key IN ${tx(request.metadataKeys)}
+                                `
+                              : await tx`
+                                    SELECT *
+                                    FROM entity.entity_metadata
+                                    WHERE general__entity_name = ${request.entityName}
+                                `) as Array<Record<string, unknown>>,
+                  );
+
+        return this.parseProtocolResponse(WsProtocol.Z.MetadataResyncResponse, {
+            type: WsProtocol.MessageType.METADATA_RESYNC_RESPONSE,
+            timestamp: Date.now(),
+            requestId: request.requestId,
             errorMessage: null,
-            entityName: payload.entityName,
-            operation: payload.operation,
-            syncGroup: payload.syncGroup,
-            channel: payload.channel ?? null,
-            data: payload.data,
-        };
+            entityName: request.entityName,
+            metadata: this.toVersionedMetadata(request.entityName, rows),
+        });
+    }
 
-        const parsed =
-            Communication.WebSocket.Z.EntityDelivery.safeParse(messageData);
-        if (!parsed.success) {
-            return 0;
+    // Prefer the row deltas were last computed against, so the version and data agree
+    private toVersionedMetadata(
+        entityName: string,
+        rows: Array<Record<string, unknown>>,
+    ) {
+        return rows.map((row) => {
+            const metadataKey = String(row.metadata__key);
+            const state = this.metadataDeltaStates.get(
+                `${entityName}:${metadataKey}`,
+            );
+            return {
+                metadataKey,
+                version: state?.version ?? 0,
+                data: state?.row ?? row,
+            };
+        });
+    }
+
+    // Read after the session's topics are subscribed, so every later change reaches it either
+    // in the snapshot or as a delivery with a seq above the snapshot's
+    private async buildEntityChannelSnapshot(
+        session: WorldSession<unknown>,
+        entityName: string,
+        channel: string | null,
+    ): Promise<WsProtocol.EntityChannelSnapshot> {
+        // Taken before reading: changes published up to here committed before the read began
+        const seq = this.deliverySeq;
+        const { entity, metadata } = await this.withAgentContext(
+            session.agentId,
+            async (tx) => {
+                const entityRows = (await tx`
+                    SELECT *
+                    FROM entity.entities
+                    WHERE general__entity_name = ${entityName}
+                    LIMIT 1
+                `) as Array<Record<string, unknown>>;
+                const metadataRows = (
+                    channel === null
+                        ? await tx`
+                            SELECT *
+                            FROM entity.entity_metadata
+                            WHERE general__entity_name = ${entityName}
+                        `
+                        : await tx`
+                            SELECT *
+                            FROM entity.entity_metadata
+                            WHERE general__entity_name = ${entityName}
+                              AND ro__group__channel = ${channel}
+                        `
+                ) as Array<Record<string, unknown>>;
+                return {
+                    entity: entityRows[0] ?? null,
+                    metadata: metadataRows,
+                };
+            },
+            // Entity and metadata must come from the same database snapshot
+            "isolation level repeatable read read only",
+        );
+
+        return this.parseProtocolResponse(WsProtocol.Z.EntityChannelSnapshot, {
+            seq,
+            entity,
+            metadata: this.toVersionedMetadata(entityName, metadata),
+        });
+    }
+
+    private async handleInterestPositionUpdate(
+        session: WorldSession<unknown>,
+        request: WsProtocol.InterestPositionUpdateRequestMessage,
+    ): Promise<WsProtocol.InterestPositionUpdateResponseMessage> {
+        if (!this.aclService?.isWarmed(session.agentId)) {
+            await this.warmAgentAcl(session.agentId).catch(() => {});
+        }
+        if (!this.canRead(session.agentId, request.syncGroup)) {
+            throw new Error(
+                `Not authorized to read sync group: ${request.syncGroup}`,
+            );
         }
 
-        const payloadJson = JSON.stringify(parsed.data);
-        const payloadChannel = payload.channel ?? null;
+        this.setInterestPosition(
+            request.syncGroup,
+            session.connectionId,
+            request.position,
+        );
 
-        // Always publish to the "all channels" topic
-        const allChannelsTopic = this.getEntityTopic(
-            payload.syncGroup,
-            payload.entityName,
+        return this.parseProtocolResponse(
+            WsProtocol.Z.InterestPositionUpdateResponse,
+            {
+                type: WsProtocol.MessageType.INTEREST_POSITION_UPDATE_RESPONSE,
+                timestamp: Date.now(),
+                requestId: request.requestId,
+                errorMessage: null,
+                syncGroup: request.syncGroup,
+                position: request.position,
+                interestRadius:
+                    this.reflectInterestConfigs.get(request.syncGroup)
+                        ?.radius ?? null,
+            },
         );
-        let delivered = this.server.publish(allChannelsTopic, payloadJson);
+    }
 
-        // If a specific channel is provided, also publish to the channel-specific topic
-        if (payloadChannel !== null && payloadChannel !== undefined) {
-            const channelTopic = this.getEntityTopic(
-                payload.syncGroup,
-                payload.entityName,
-                payloadChannel,
-            );
-            delivered += this.server.publish(channelTopic, payloadJson);
+    // Another connection of the same session can be resumed, but not one of a different session
+    private findDetachedReplay(
+        sessionId: string,
+        connectionId?: string,
+    ): SessionReplayState | undefined {
+        if (connectionId !== undefined) {
+            const state = this.detachedReplays.get(connectionId);
+            return state?.sessionId === sessionId ? state : undefined;
+        }
+        let latest: SessionReplayState | undefined;
+        for (const state of this.detachedReplays.values()) {
+            if (state.sessionId === sessionId) {
+                latest = state;
+            }
         }
+        return latest;
+    }
 
-        return delivered;
+    // Whether the agent may still read an entity or metadata topic. Sync group names hold no ':', but entity
+    // names, metadata keys and channels may, so every way of splitting off the channel has to pass.
+    private async canReadSequencedTopic(
+        agentId: string,
+        topic: string,
+    ): Promise<boolean> {
+        const isEntityTopic = topic.startsWith(this.ENTITY_TOPIC_PREFIX);
+        const [syncGroup, ...segments] = topic
+            .slice(
+                isEntityTopic
+                    ? this.ENTITY_TOPIC_PREFIX.length
+                    : this.METADATA_TOPIC_PREFIX.length,
+            )
+            .split(":");
+        if (!this.canRead(agentId, syncGroup)) {
+            return false;
+        }
+        // entity:<group>:<name>:<channel> and metadata:<group>:<name>:<key>:<channel>
+        for (let i = isEntityTopic ? 1 : 2; i < segments.length; i++) {
+            const channel = segments.slice(i).join(":");
+            if (channel === "*") {
+                continue;
+            }
+            await this.ensureAgentChannelRoles(agentId, syncGroup, channel);
+            if (!this.canAccessChannel(agentId, syncGroup, channel, "read")) {
+                return false;
+            }
+        }
+        return true;
     }
 
-    private async publishEntityMetadataChange(
-        payload: EntityNotificationPayload,
-    ): Promise<number> {
-        if (!payload.entityName || !payload.metadataKey || !this.server) {
-            return 0;
+    // Restore the previous socket's subscriptions and re-send what it missed
+    private async handleSessionResume(
+        session: WorldSession<unknown>,
+        request: WsProtocol.SessionResumeRequestMessage,
+    ): Promise<WsProtocol.SessionResumeResponseMessage> {
+        const ws = session.ws as ServerWebSocket<WebSocketData>;
+        if (!this.aclService?.isWarmed(session.agentId)) {
+            await this.warmAgentAcl(session.agentId).catch(() => {});
+        }
+        // Access may have been revoked while the session was away; topics it lost are not restored
+        const readable = new Set<string>();
+        for (const topic of this.findDetachedReplay(
+            session.sessionId,
+            request.connectionId,
+        )?.topics ?? []) {
+            if (await this.canReadSequencedTopic(session.agentId, topic)) {
+                readable.add(topic);
+            }
         }
 
-        // Logical replication already includes the latest row data, so rely on the payload directly
-        let fullData = payload.data;
+        // Looked up again, as the state may have expired or been resumed during the checks
+        const detached = this.findDetachedReplay(
+            session.sessionId,
+            request.connectionId,
+        );
+        const entries = detached?.buffer.since(request.lastSeq) ?? null;
+        if (detached) {
+            this.discardReplayState(detached);
+        }
 
-        if (payload.resource === "entity_metadata") {
-            const ensuredData =
-                (fullData as {
-                    ro__group__sync?: string;
-                    ro__group__channel?: string | null;
-                }) || {};
-            fullData = {
-                ...(fullData ?? {}),
-                ro__group__sync:
-                    ensuredData.ro__group__sync ?? payload.syncGroup,
-                ro__group__channel:
-                    ensuredData.ro__group__channel ?? payload.channel ?? null,
-            };
+        const topics: string[] = [];
+        let replayed = 0;
+        if (detached && entries) {
+            this.setMetadataDeliveryMode(
+                ws,
+                this.getMetadataDeliveryMode(detached.ws),
+            );
+            // The queries that matched them are gone, so the restored topics are held like explicit ones
+            for (const topic of detached.topics) {
+                if (!readable.has(topic)) {
+                    continue;
+                }
+                this.subscribeExplicitTopic(ws, topic);
+                topics.push(topic);
+            }
+
+            const codec = this.getWsCodec(ws);
+            const delta =
+                this.getMetadataDeliveryMode(ws) ===
+                WsProtocol.MetadataDeliveryMode.DELTA;
+            for (const entry of entries) {
+                if (!readable.has(entry.topic)) {
+                    continue;
+                }
+                const message =
+                    delta &&
+                    entry.deltaMessage &&
+                    entry.topic.startsWith(this.METADATA_TOPIC_PREFIX)
+                        ? entry.deltaMessage
+                        : entry.message;
+                ws.send(message.get(codec));
+                replayed++;
+            }
         }
 
-        const messageData = {
-            type: Communication.WebSocket.MessageType.ENTITY_METADATA_DELIVERY,
+        BunLogModule({
+            prefix: LOG_PREFIX,
+            message: "WS session resume",
+            debug: this.DEBUG,
+            suppress: this.SUPPRESS,
+            type: "debug",
+            data: {
+                sessionId: session.sessionId,
+                connectionId: session.connectionId,
+                resumedConnectionId: detached?.connectionId,
+                lastSeq: request.lastSeq,
+                resumed: entries !== null,
+                replayed,
+                topics: topics.length,
+            },
+        });
+
+        return this.parseProtocolResponse(WsProtocol.Z.SessionResumeResponse, {
+            type: WsProtocol.MessageType.SESSION_RESUME_RESPONSE,
             timestamp: Date.now(),
-            requestId: `${payload.entityName}:${payload.metadataKey}`,
+            requestId: request.requestId,
             errorMessage: null,
-            entityName: payload.entityName,
-            metadataKey: payload.metadataKey,
-            operation: payload.operation,
-            syncGroup: payload.syncGroup,
-            channel: payload.channel ?? null,
-            data: fullData,
+            resumed: entries !== null,
+            replayed,
+            lastSeq: this.deliverySeq,
+            topics,
+        });
+    }
+
+    private async handleEntityQuerySubscribe(
+        session: WorldSession<unknown>,
+        request: WsProtocol.EntityQuerySubscribeRequestMessage,
+    ): Promise<WsProtocol.EntityQuerySubscribeResponseMessage> {
+        const ws = session.ws as ServerWebSocket<WebSocketData>;
+        const owned = Array.from(this.entityQueries.values()).filter(
+            (query) => query.ws === ws,
+        ).length;
+        if (owned >= this.ENTITY_QUERY_MAX_PER_SOCKET) {
+            throw new Error(
+                `At most ${this.ENTITY_QUERY_MAX_PER_SOCKET} entity query subscriptions per connection`,
+            );
+        }
+
+        if (!this.aclService?.isWarmed(session.agentId)) {
+            await this.warmAgentAcl(session.agentId).catch(() => {});
+        }
+        const { selector } = request;
+        if (
+            selector.syncGroup !== undefined &&
+            !this.canRead(session.agentId, selector.syncGroup)
+        ) {
+            throw new Error(
+                `Not authorized to read sync group: ${selector.syncGroup}`,
+            );
+        }
+
+        // Registered before reading, so entities that start matching meanwhile are not missed
+        const query: EntityQuerySubscription = {
+            id: crypto.randomUUID(),
+            ws,
+            agentId: session.agentId,
+            selector,
+            channel: request.channel ?? null,
+            entities: new Map(),
         };
+        this.entityQueries.set(query.id, query);
 
-        const parsed =
-            Communication.WebSocket.Z.EntityMetadataDelivery.safeParse(
-                messageData,
+        let rows: Array<{ general__entity_name: string; group__sync: string }>;
+        try {
+            const prefixPattern =
+                selector.entityNamePrefix === undefined
+                    ? null
+                    : toLikePrefixPattern(selector.entityNamePrefix);
+            rows = await this.withAgentContext(
+                session.agentId,
+                async (tx) =>
+                    (await tx`
+                        SELECT e.general__entity_name, e.group__sync
+                        FROM entity.entities AS e
+                        WHERE (${prefixPattern}::TEXT IS NULL OR e.general__entity_name LIKE ${prefixPattern})
+                          AND (${selector.syncGroup ?? null}::TEXT IS NULL OR e.group__sync = ${selector.syncGroup ?? null})
+                          AND (${selector.metadata?.key ?? null}::TEXT IS NULL OR EXISTS (
+                              SELECT 1
+                              FROM entity.entity_metadata AS m
+                              WHERE m.general__entity_name = e.general__entity_name
+                                AND m.metadata__key = ${selector.metadata?.key ?? null}
+                                AND COALESCE(
+                                    m.metadata__jsonb,
+                                    to_jsonb(m.metadata__text),
+                                    to_jsonb(m.metadata__int),
+                                    to_jsonb(m.metadata__float),
+                                    to_jsonb(m.metadata__bool)
+                                ) = ${JSON.stringify(selector.metadata?.value ?? null)}::JSONB
+                          ))
+                        ORDER BY e.general__entity_name
+                        LIMIT ${this.ENTITY_QUERY_MAX_INITIAL_MATCHES + 1}
+                    `) as Array<{
+                        general__entity_name: string;
+                        group__sync: string;
+                    }>,
             );
-        if (!parsed.success) {
-            return 0;
+            if (rows.length > this.ENTITY_QUERY_MAX_INITIAL_MATCHES) {
+                throw new Error(
+                    `Selector matches more than ${this.ENTITY_QUERY_MAX_INITIAL_MATCHES} entities`,
+                );
+            }
+        } catch (error) {
+            this.removeEntityQuery(query);
+            throw error;
+        }
+        if (!this.entityQueries.has(query.id)) {
+            throw new Error("Connection closed");
         }
 
-        const payloadJson = JSON.stringify(parsed.data);
-        const payloadChannel = payload.channel ?? null;
+        for (const row of rows) {
+            if (
+                !query.entities.has(row.general__entity_name) &&
+                this.canRead(session.agentId, row.group__sync)
+            ) {
+                this.addEntityQueryMatch(
+                    query,
+                    row.general__entity_name,
+                    row.group__sync,
+                );
+            }
+        }
 
-        // Record published time
-        payload.publishedTime = performance.now();
+        return this.parseProtocolResponse(
+            WsProtocol.Z.EntityQuerySubscribeResponse,
+            {
+                type: WsProtocol.MessageType.ENTITY_QUERY_SUBSCRIBE_RESPONSE,
+                timestamp: Date.now(),
+                requestId: request.requestId,
+                errorMessage: null,
+                subscriptionId: query.id,
+                entityNames: Array.from(query.entities.keys()),
+            },
+        );
+    }
 
-        // Always publish to the "all channels" topic
-        const allChannelsTopic = this.getMetadataTopic(
-            payload.syncGroup,
-            payload.entityName,
-            payload.metadataKey,
+    private handleEntityQueryUnsubscribe(
+        session: WorldSession<unknown>,
+        request: WsProtocol.EntityQueryUnsubscribeRequestMessage,
+    ): WsProtocol.EntityQueryUnsubscribeResponseMessage {
+        const query = this.entityQueries.get(request.subscriptionId);
+        const owned = query !== undefined && query.ws === session.ws;
+        if (owned) {
+            this.removeEntityQuery(query);
+        }
+
+        return this.parseProtocolResponse(
+            WsProtocol.Z.EntityQueryUnsubscribeResponse,
+            {
+                type: WsProtocol.MessageType.ENTITY_QUERY_UNSUBSCRIBE_RESPONSE,
+                timestamp: Date.now(),
+                requestId: request.requestId,
+                errorMessage: owned ? null : "Subscription not found",
+                subscriptionId: request.subscriptionId,
+                unsubscribed: owned,
+            },
         );
-        let delivered = this.server.publish(allChannelsTopic, payloadJson);
+    }
 
-        // Also publish to the generic "all metadata" topic for this entity
-        const allMetadataTopic = this.getMetadataTopic(
-            payload.syncGroup,
-            payload.entityName,
-            "__ALL__",
+    private handleSubscriptionsList(
+        session: WorldSession<unknown>,
+        request: WsProtocol.SubscriptionsListRequestMessage,
+    ): WsProtocol.SubscriptionsListResponseMessage {
+        const ws = session.ws as ServerWebSocket<WebSocketData>;
+        const entityQueries = Array.from(this.entityQueries.values())
+            .filter((query) => query.ws === ws)
+            .map((query) => ({
+                subscriptionId: query.id,
+                selector: query.selector,
+                channel: query.channel,
+                entityCount: query.entities.size,
+            }));
+
+        return this.parseProtocolResponse(
+            WsProtocol.Z.SubscriptionsListResponse,
+            {
+                type: WsProtocol.MessageType.SUBSCRIPTIONS_LIST_RESPONSE,
+                timestamp: Date.now(),
+                requestId: request.requestId,
+                errorMessage: null,
+                topics: this.getSubscribedTopics(ws).sort(),
+                entityQueries,
+            },
         );
-        delivered += this.server.publish(allMetadataTopic, payloadJson);
+    }
 
-        // If a specific channel is provided, also publish to the channel-specific topic
-        if (payloadChannel !== null && payloadChannel !== undefined) {
-            const channelTopic = this.getMetadataTopic(
-                payload.syncGroup,
-                payload.entityName,
-                payload.metadataKey,
-                payloadChannel,
-            );
-            delivered += this.server.publish(channelTopic, payloadJson);
+    private handleUnsubscribeAll(
+        session: WorldSession<unknown>,
+        request: WsProtocol.UnsubscribeAllRequestMessage,
+    ): WsProtocol.UnsubscribeAllResponseMessage {
+        const { topics, entityQueries } = this.dropSubscriptions(
+            session.ws as ServerWebSocket<WebSocketData>,
+        );
 
-            // And the generic channel-specific topic
-            const allMetadataChannelTopic = this.getMetadataTopic(
-                payload.syncGroup,
-                payload.entityName,
-                "__ALL__",
-                payloadChannel,
+        return this.parseProtocolResponse(WsProtocol.Z.UnsubscribeAllResponse, {
+            type: WsProtocol.MessageType.UNSUBSCRIBE_ALL_RESPONSE,
+            timestamp: Date.now(),
+            requestId: request.requestId,
+            errorMessage: null,
+            topics,
+            entityQueries,
+        });
+    }
+
+    private async handleNamedQuery(
+        session: WorldSession<unknown>,
+        request: WsProtocol.NamedQueryRequestMessage,
+    ): Promise<
+        | WsProtocol.NamedQueryResponseMessage
+        | WsProtocol.RateLimitExceededResponseMessage
+    > {
+        const query = this.namedQueries.get(request.name);
+        if (!query) {
+            throw new Error(`Unknown query: ${request.name}`);
+        }
+        if (!this.agentRoles.has(session.agentId)) {
+            await this.loadAgentRoles(session.agentId);
+        }
+        if (
+            !canRunNamedQuery(
+                query,
+                session.agentId,
+                this.agentRoles.get(session.agentId) ?? [],
+            )
+        ) {
+            throw new Error(`Not authorized to run query: ${request.name}`);
+        }
+        const values = bindNamedQueryArgs(query, request.args);
+
+        const rateLimitRejection = this.rateLimiter.beginQuery(session.agentId);
+        if (rateLimitRejection) {
+            return this.rateLimitExceededResponse(
+                request.requestId,
+                request.type,
+                rateLimitRejection,
             );
-            delivered += this.server.publish(
-                allMetadataChannelTopic,
-                payloadJson,
+        }
+        try {
+            const result = await this.trackQuery(
+                session.ws as ServerWebSocket<WebSocketData>,
+                request.requestId,
+                (inFlight) =>
+                    this.withAgentContext(
+                        session.agentId,
+                        async (tx) => {
+                            await this.applyStatementTimeout(
+                                tx,
+                                session.agentId,
+                            );
+                            return await this.runTrackedStatement(
+                                inFlight,
+                                tx.unsafe(query.sql, values),
+                            );
+                        },
+                        query.readOnly ? "read only" : "",
+                    ),
             );
+            if (result.length > this.QUERY_MAX_ROWS) {
+                throw new Error(
+                    `Query returned more than ${this.QUERY_MAX_ROWS} rows`,
+                );
+            }
+            return this.parseProtocolResponse(WsProtocol.Z.NamedQueryResponse, {
+                type: WsProtocol.MessageType.NAMED_QUERY_RESPONSE,
+                timestamp: Date.now(),
+                requestId: request.requestId,
+                errorMessage: null,
+                name: query.name,
+                result,
+            });
+        } finally {
+            this.rateLimiter.endQuery(session.agentId);
         }
-
-        return delivered;
     }
 
-    private recordMetadataLatencyMetrics(
-        payload: EntityNotificationPayload,
-    ): void {
-        // Only track metrics for metadata updates
-        if (payload.resource !== "entity_metadata" || !payload.metadataKey) {
-            return;
+    private async handleQueryPage(
+        session: WorldSession<unknown>,
+        request: WsProtocol.QueryPageRequestMessage,
+    ): Promise<
+        | WsProtocol.QueryPageResponseMessage
+        | WsProtocol.RateLimitExceededResponseMessage
+    > {
+        const cursor = this.queryCursors.get(request.cursor);
+        if (!cursor || cursor.ws !== session.ws) {
+            throw new Error(`Unknown query cursor: ${request.cursor}`);
+        }
+        const respond = (open: boolean, result: Record<string, unknown>[]) =>
+            this.parseProtocolResponse(WsProtocol.Z.QueryPageResponse, {
+                type: WsProtocol.MessageType.QUERY_PAGE_RESPONSE,
+                timestamp: Date.now(),
+                requestId: request.requestId,
+                errorMessage: null,
+                cursor: open ? cursor.id : null,
+                result,
+            });
+        if (request.close) {
+            await this.closeQueryCursor(cursor);
+            return respond(false, []);
+        }
+        const pageSize = request.pageSize ?? cursor.pageSize;
+        if (pageSize > this.QUERY_MAX_ROWS) {
+            throw new Error(`pageSize must be at most ${this.QUERY_MAX_ROWS}`);
         }
 
-        // Extract pingId if this is a ping test
-        let pingId: number | undefined;
+        // The open cursor already holds a concurrent query slot
+        const rateLimitRejection = this.rateLimiter.checkQueryRate(
+            session.agentId,
+        );
+        if (rateLimitRejection) {
+            return this.rateLimitExceededResponse(
+                request.requestId,
+                request.type,
+                rateLimitRejection,
+            );
+        }
         try {
-            const data = payload.data as {
-                metadata__jsonb?:
-                    | string
-                    | { pingId?: number; timestamp?: number };
-            };
-            if (data?.metadata__jsonb) {
-                const parsed =
-                    typeof data.metadata__jsonb === "string"
-                        ? JSON.parse(data.metadata__jsonb)
-                        : data.metadata__jsonb;
-                if (parsed && typeof parsed.pingId === "number") {
-                    pingId = parsed.pingId;
-                }
+            const { rows, done } = await this.trackQuery(
+                cursor.ws,
+                request.requestId,
+                (inFlight) => this.fetchQueryCursor(cursor, pageSize, inFlight),
+            );
+            if (done) {
+                await this.closeQueryCursor(cursor);
             }
-        } catch {
-            // Ignore parsing errors
+            return respond(!done, rows);
+        } catch (error) {
+            // Only a failed FETCH spoils the cursor; e.g. a reused requestId is rejected before fetching
+            if (cursor.failed) {
+                await this.closeQueryCursor(cursor);
+            }
+            throw error;
         }
-
-        // Calculate latency stages
-        const replicationToQueued =
-            payload.replicationEventReceivedTime && payload.queuedTime
-                ? payload.queuedTime - payload.replicationEventReceivedTime
-                : undefined;
-        const queuedToFlushed =
-            payload.queuedTime && payload.flushedTime
-                ? payload.flushedTime - payload.queuedTime
-                : undefined;
-        const flushedToPublished =
-            payload.flushedTime && payload.publishedTime
-                ? payload.publishedTime - payload.flushedTime
-                : undefined;
-        const totalLatency =
-            payload.replicationEventReceivedTime && payload.publishedTime
-                ? payload.publishedTime - payload.replicationEventReceivedTime
-                : undefined;
-
-        // Record metrics
-        this.metricsCollector.recordMetadataLatency({
-            pingId,
-            entityName: payload.entityName,
-            metadataKey: payload.metadataKey,
-            replicationToQueued,
-            queuedToFlushed,
-            flushedToPublished,
-            totalLatency,
-        });
     }
 
-    // Helper method to record endpoint metrics
-    private recordEndpointMetrics(
-        endpoint: string,
-        startTime: number,
-        requestSize: number,
-        responseSize: number,
-        success: boolean,
-    ) {
-        const duration = performance.now() - startTime;
-        this.metricsCollector.recordEndpoint(
-            endpoint,
-            duration,
-            requestSize,
-            responseSize,
-            success,
+    private handleQueryCancel(
+        session: WorldSession<unknown>,
+        request: WsProtocol.QueryCancelRequestMessage,
+    ): WsProtocol.QueryCancelResponseMessage {
+        const inFlight = this.inFlightQueries.get(
+            `${session.connectionId}:${request.targetRequestId}`,
         );
+        const cancelled =
+            !!inFlight &&
+            inFlight.ws === session.ws &&
+            this.cancelInFlightQuery(inFlight);
+        return this.parseProtocolResponse(WsProtocol.Z.QueryCancelResponse, {
+            type: WsProtocol.MessageType.QUERY_CANCEL_RESPONSE,
+            timestamp: Date.now(),
+            requestId: request.requestId,
+            errorMessage: null,
+            targetRequestId: request.targetRequestId,
+            cancelled,
+        });
     }
 
-    private mapDbOperationToCommunication(
-        operation?: DbNotificationOperation | string | null,
-    ): Communication.WebSocket.DatabaseOperation | null {
-        switch ((operation ?? "").toString().toLowerCase()) {
-            case "insert":
-                return Communication.WebSocket.DatabaseOperation.INSERT;
-            case "update":
-                return Communication.WebSocket.DatabaseOperation.UPDATE;
-            case "delete":
-                return Communication.WebSocket.DatabaseOperation.DELETE;
-            default:
-                return null;
+    private handlePresenceUpdate(
+        session: WorldSession<unknown>,
+        request: WsProtocol.PresenceUpdateRequestMessage,
+    ): WsProtocol.PresenceUpdateResponseMessage {
+        this.presenceAttributes.set(session.sessionId, request.attributes);
+        for (const connection of this.getSessionConnections(
+            session.sessionId,
+        )) {
+            for (const syncGroup of this.presence.groupsOf(
+                connection.connectionId,
+            )) {
+                this.announcePresence(
+                    syncGroup,
+                    {
+                        connectionId: connection.connectionId,
+                        sessionId: connection.sessionId,
+                        agentId: connection.agentId,
+                        instanceId: this.instanceId,
+                    },
+                    request.attributes,
+                );
+                void this.publishFanout({
+                    type: "presence_join",
+                    syncGroup,
+                    connectionId: connection.connectionId,
+                    sessionId: connection.sessionId,
+                    agentId: connection.agentId,
+                    attributes: request.attributes,
+                });
+            }
         }
+        return this.parseProtocolResponse(WsProtocol.Z.PresenceUpdateResponse, {
+            type: WsProtocol.MessageType.PRESENCE_UPDATE_RESPONSE,
+            timestamp: Date.now(),
+            requestId: request.requestId,
+            errorMessage: null,
+            attributes: request.attributes,
+        });
     }
 
-    // ACL Service instance
-    private aclService: AclService | null = null;
-
-    private CONNECTION_HEARTBEAT_INTERVAL = 500;
-    private DEBUG =
-        serverConfiguration.VRCA_SERVER_SERVICE_WORLD_API_WS_MANAGER_DEBUG;
-    private SUPPRESS =
-        serverConfiguration.VRCA_SERVER_SERVICE_WORLD_API_WS_MANAGER_SUPPRESS;
-
+    private async handleRpc(
+        session: WorldSession<unknown>,
+        request: WsProtocol.RpcRequestMessage,
+    ): Promise<
+        | WsProtocol.RpcResponseMessage
+        | WsProtocol.RateLimitExceededResponseMessage
+    > {
+        const handler = this.rpcHandlers.find(
+            request.method,
+            request.syncGroup,
+        );
+        if (!handler) {
+            throw new Error(
+                `Unknown RPC method in ${request.syncGroup}: ${request.method}`,
+            );
+        }
+        if (!this.canRead(session.agentId, request.syncGroup)) {
+            throw new Error(
+                `Not authorized for sync group: ${request.syncGroup}`,
+            );
+        }
+        const bound = handler.bind(request.params);
+        if (!bound.success) {
+            throw new Error(
+                `Invalid params for ${request.method}: ${bound.error}`,
+            );
+        }
 
+        const rateLimitRejection = this.rateLimiter.beginQuery(session.agentId);
+        if (rateLimitRejection) {
+            return this.rateLimitExceededResponse(
+                request.requestId,
+                request.type,
+                rateLimitRejection,
+            );
+        }
+        const timeoutMs = Math.min(
+            handler.timeoutMs ?? this.RPC_DEFAULT_TIMEOUT_MS,
+            this.RPC_MAX_TIMEOUT_MS,
+        );
+        const deadline = Date.now() + timeoutMs;
+        const controller = new AbortController();
+        const context: RpcContext = {
+            agentId: session.agentId,
+            sessionId: session.sessionId,
+            connectionId: session.connectionId,
+            syncGroup: request.syncGroup,
+            signal: controller.signal,
+            withAgentContext: (work, options) => {
+                const remainingMs = Math.ceil(deadline - Date.now());
+                if (controller.signal.aborted || remainingMs <= 0) {
+                    return Promise.reject(
+                        new Error(`RPC ${request.method} timed out`),
+                    );
+                }
+                return this.withAgentContext(
+                    session.agentId,
+                    async (tx) => {
+                        // Work still running at the deadline is rolled back
+                        await tx.unsafe(
+                            `SET LOCAL statement_timeout = ${remainingMs}`,
+                        );
+                        return await work(tx);
+                    },
+                    options,
+                );
+            },
+        };
+        let timer: Timer | undefined;
+        // Also catches handlers that throw before returning their promise
+        const running = (async () => bound.call(context))();
+        try {
+            const result = await Promise.race([
+                running,
+                new Promise<never>((_, reject) => {
+                    timer = setTimeout(() => {
+                        controller.abort();
+                        reject(
+                            new Error(
+                                `RPC ${request.method} timed out after ${timeoutMs} ms`,
+                            ),
+                        );
+                    }, timeoutMs);
+                }),
+            ]);
+            const parsedResult = handler.result.safeParse(result);
+            if (!parsedResult.success) {
+                throw new Error(
+                    `Invalid result from ${request.method}: ${parsedResult.error.message}`,
+                );
+            }
+            return this.parseProtocolResponse(WsProtocol.Z.RpcResponse, {
+                type: WsProtocol.MessageType.RPC_RESPONSE,
+                timestamp: Date.now(),
+                requestId: request.requestId,
+                errorMessage: null,
+                method: request.method,
+                result: parsedResult.data,
+            });
+        } finally {
+            clearTimeout(timer);
+            // A timed-out handler may still be running; it keeps its query slot until it settles
+            void running
+                .catch(() => {})
+                .finally(() => this.rateLimiter.endQuery(session.agentId));
+        }
+    }
 
-    // Wrapper helpers to the ACL service
-    private async warmAgentAcl(agentId: string) {
-        await this.aclService?.warmAgentAcl(agentId);
-        // Sync reflect subscriptions for all sessions of this agent
-        for (const session of this.activeSessions.values()) {
-            if (session.agentId === agentId) {
-                this.syncReflectSubscriptionsForSession(session);
+    private handleTickSubscribe(
+        session: WorldSession<unknown>,
+        request: WsProtocol.TickSubscribeRequestMessage,
+    ): WsProtocol.TickSubscribeResponseMessage {
+        const ws = session.ws as ServerWebSocket<WebSocketData>;
+        const topic = this.getTickTopic(request.syncGroup);
+        const tickRateMs = this.reflectTickRateMs.get(request.syncGroup);
+        if (request.subscribe) {
+            if (!this.canRead(session.agentId, request.syncGroup)) {
+                throw new Error(
+                    `Not authorized for sync group: ${request.syncGroup}`,
+                );
+            }
+            if (tickRateMs === undefined) {
+                throw new Error(
+                    `Sync group does not tick: ${request.syncGroup}`,
+                );
             }
+            this.subscribeTopic(ws, topic);
+        } else {
+            this.unsubscribeTopic(ws, topic);
         }
+        return this.parseProtocolResponse(WsProtocol.Z.TickSubscribeResponse, {
+            type: WsProtocol.MessageType.TICK_SUBSCRIBE_RESPONSE,
+            timestamp: Date.now(),
+            requestId: request.requestId,
+            errorMessage: null,
+            syncGroup: request.syncGroup,
+            subscribed: request.subscribe,
+            tick: this.reflectTickCounts.get(request.syncGroup) ?? 0,
+            tickRateMs: tickRateMs ?? 0,
+        });
     }
-    private canRead(agentId: string, syncGroup: string): boolean {
-        return !!this.aclService?.canRead(agentId, syncGroup);
+
+    private handleClockSync(
+        request: WsProtocol.ClockSyncRequestMessage,
+    ): WsProtocol.ClockSyncResponseMessage {
+        const serverTime = Date.now();
+        return {
+            type: WsProtocol.MessageType.CLOCK_SYNC_RESPONSE,
+            timestamp: serverTime,
+            requestId: request.requestId,
+            errorMessage: null,
+            clientTime: request.clientTime,
+            serverTime,
+        };
     }
-    private canUpdate(agentId: string, syncGroup: string): boolean {
-        // Treat "update" as write permission required to publish into a sync group
-        return !!this.aclService?.canUpdate?.(agentId, syncGroup);
+
+    private async handleAdminSessionsList(
+        session: WorldSession<unknown>,
+        request: WsProtocol.AdminSessionsListRequestMessage,
+    ): Promise<WsProtocol.AdminSessionsListResponseMessage> {
+        await this.requireAdmin(session.agentId);
+        return this.parseProtocolResponse(
+            WsProtocol.Z.AdminSessionsListResponse,
+            {
+                type: WsProtocol.MessageType.ADMIN_SESSIONS_LIST_RESPONSE,
+                timestamp: Date.now(),
+                requestId: request.requestId,
+                errorMessage: null,
+                instanceId: this.instanceId,
+                ...(await this.gatherAdminSessions(request.syncGroup)),
+            },
+        );
     }
 
-    private canInsert(agentId: string, syncGroup: string): boolean {
-        return !!this.aclService?.canInsert?.(agentId, syncGroup);
+    private async handleAdminDisconnect(
+        session: WorldSession<unknown>,
+        request: WsProtocol.AdminDisconnectRequestMessage,
+    ): Promise<WsProtocol.AdminDisconnectResponseMessage> {
+        await this.requireAdmin(session.agentId);
+        return this.parseProtocolResponse(
+            WsProtocol.Z.AdminDisconnectResponse,
+            {
+                type: WsProtocol.MessageType.ADMIN_DISCONNECT_RESPONSE,
+                timestamp: Date.now(),
+                requestId: request.requestId,
+                errorMessage: null,
+                ...(await this.adminDisconnect(request)),
+            },
+        );
+    }
+
+    private async handleAdminAnnounce(
+        session: WorldSession<unknown>,
+        request: WsProtocol.AdminAnnounceRequestMessage,
+    ): Promise<WsProtocol.AdminAnnounceResponseMessage> {
+        await this.requireAdmin(session.agentId);
+        this.adminAnnounce({
+            syncGroup: request.syncGroup,
+            message: request.message,
+            level: request.level,
+        });
+        return this.parseProtocolResponse(WsProtocol.Z.AdminAnnounceResponse, {
+            type: WsProtocol.MessageType.ADMIN_ANNOUNCE_RESPONSE,
+            timestamp: Date.now(),
+            requestId: request.requestId,
+            errorMessage: null,
+            syncGroup: request.syncGroup,
+        });
     }
 
+    private async handleAdminResync(
+        session: WorldSession<unknown>,
+        request: WsProtocol.AdminResyncRequestMessage,
+    ): Promise<WsProtocol.AdminResyncResponseMessage> {
+        await this.requireAdmin(session.agentId);
+        return this.parseProtocolResponse(WsProtocol.Z.AdminResyncResponse, {
+            type: WsProtocol.MessageType.ADMIN_RESYNC_RESPONSE,
+            timestamp: Date.now(),
+            requestId: request.requestId,
+            errorMessage: null,
+            resynced: this.adminResync({
+                syncGroup: request.syncGroup,
+                sessionId: request.sessionId,
+                agentId: request.agentId,
+                reason: request.reason,
+            }),
+        });
+    }
+
+    // #endregion
+
     async initialize() {
         BunLogModule({
             prefix: LOG_PREFIX,
@@ -1386,6 +6445,8 @@ export class WorldApiWsManager {
                 });
                 this.unregisterAclWarmCallback =
                     this.aclService.registerWarmCallback((agentId) => {
+                        // Also runs when the role change listener re-warms the agent
+                        void this.loadAgentRoles(agentId);
                         // Sync reflect subscriptions for all sessions of this agent
                         for (const session of this.activeSessions.values()) {
                             if (session.agentId === agentId) {
@@ -1399,7 +6460,15 @@ export class WorldApiWsManager {
             }
             // Start reflect tick loops to flush queued reflect messages per sync group
             await this.startReflectTickLoops();
+            await this.startSyncGroupChangeListener();
             await this.startEntityNotificationListeners();
+            await this.startRateLimitConfigListener();
+            await this.startAuthConfigListener();
+            await this.startChannelAclListener();
+            await this.startNamedQueryListener();
+            await this.startTickStateListener();
+            await this.loadRpcHandlers();
+            await this.startFanout();
         } catch (error) {
             BunLogModule({
                 prefix: LOG_PREFIX,
@@ -1617,19 +6686,8 @@ export class WorldApiWsManager {
                             return this.addCorsHeaders(response, req);
                         }
 
-                        const existingSession = this.activeSessions.get(
-                            jwtValidationResult.sessionId,
-                        );
-                        if (existingSession) {
-                            const response = Response.json(
-                                Communication.REST.Endpoint.WS_UPGRADE_VALIDATE.createError(
-                                    Communication.REST.E_ErrorCode
-                                        .WS_UPGRADE_SESSION_ALREADY_CONNECTED,
-                                    `Session ${jwtValidationResult.sessionId} is already connected`,
-                                ),
-                            );
-                            return this.addCorsHeaders(response, req);
-                        }
+                        // An already connected session is not an error: it may hold several sockets, and the
+                        // oldest makes way once the connection limit is reached
 
                         const okResponse = Response.json(
                             Communication.REST.Endpoint.WS_UPGRADE_VALIDATE.createSuccess(
@@ -1647,6 +6705,28 @@ export class WorldApiWsManager {
                         return this.addCorsHeaders(okResponse, req);
                     }
 
+                    if (url.pathname.startsWith(this.ADMIN_REST_PATH)) {
+                        const response = await this.handleAdminRestRequest(
+                            req,
+                            url,
+                        );
+                        return this.addCorsHeaders(response, req);
+                    }
+
+                    if (url.pathname === METRICS_PATH && req.method === "GET") {
+                        const requestIP =
+                            req.headers.get("x-forwarded-for")?.split(",")[0] ||
+                            server.requestIP(req)?.address ||
+                            "";
+                        if (
+                            !isLocalhostIP(requestIP) &&
+                            !isDockerInternalIP(requestIP)
+                        ) {
+                            return new Response("Forbidden", { status: 403 });
+                        }
+                        return this.renderMetrics();
+                    }
+
                     // Handle stats (moved to official REST endpoint)
                     if (
                         url.pathname.startsWith(
@@ -1747,6 +6827,15 @@ export class WorldApiWsManager {
                             : 60;
                         const activityMetrics =
                             this.metricsCollector.getActivityMetrics(windowSec);
+                        const topicLimitParam =
+                            url.searchParams.get("topicLimit");
+                        const topicLimit = topicLimitParam
+                            ? Math.max(
+                                  0,
+                                  Math.min(1000, Number(topicLimitParam) || 0),
+                              )
+                            : 100;
+                        const topicCounts = this.getTopicSubscriberCounts();
                         const systemMetrics =
                             this.metricsCollector.getSystemMetrics(
                                 !!superUserSql && !!proxyUserSql,
@@ -1826,6 +6915,43 @@ export class WorldApiWsManager {
                                 activity: activityMetrics,
                                 metadataLatency:
                                     this.metricsCollector.getMetadataLatencyMetrics(),
+                                rateLimits:
+                                    this.metricsCollector.getRateLimitMetrics(),
+                                queryCancellations:
+                                    this.metricsCollector.getQueryCancellationMetrics(),
+                                presence: {
+                                    members: this.presence.count(),
+                                },
+                                slowConsumers: {
+                                    current: this.slowConsumers.size,
+                                    ...this.metricsCollector.getSlowConsumerMetrics(),
+                                },
+                                heartbeat: {
+                                    intervalMs:
+                                        this.CONNECTION_HEARTBEAT_INTERVAL,
+                                    ...this.metricsCollector.getHeartbeatMetrics(),
+                                },
+                                fanout: {
+                                    instanceId: this.instanceId,
+                                    bus:
+                                        this.fanoutBus?.constructor.name ??
+                                        null,
+                                    peers: this.fanoutPeers.size,
+                                    ...this.fanoutStats,
+                                },
+                                subscriptions: {
+                                    topics: topicCounts.size,
+                                    total: Array.from(
+                                        topicCounts.values(),
+                                    ).reduce((sum, count) => sum + count, 0),
+                                    entityQueries: this.entityQueries.size,
+                                    // Most subscribed topics first
+                                    byTopic: Object.fromEntries(
+                                        Array.from(topicCounts.entries())
+                                            .sort((a, b) => b[1] - a[1])
+                                            .slice(0, topicLimit),
+                                    ),
+                                },
                             }),
                         );
 
@@ -1873,6 +6999,12 @@ export class WorldApiWsManager {
                         const url = new URL(req.url);
                         const token = url.searchParams.get("token");
                         const provider = url.searchParams.get("provider");
+                        const codec = parseWsCodec(
+                            url.searchParams.get("codec"),
+                        );
+                        // Sent by a reconnecting client to take over its previous connection
+                        const requestedConnectionId =
+                            url.searchParams.get("connectionId");
 
                         BunLogModule({
                             prefix: LOG_PREFIX,
@@ -1884,9 +7016,28 @@ export class WorldApiWsManager {
                                 pathname: url.pathname,
                                 hasToken: !!token,
                                 hasProvider: !!provider,
+                                codec,
                             },
                         });
 
+                        // Reject unknown wire codecs before doing any auth work
+                        if (!codec) {
+                            return new Response(
+                                `Unsupported codec: ${url.searchParams.get("codec")}`,
+                                {
+                                    status: 400,
+                                },
+                            );
+                        }
+                        if (
+                            requestedConnectionId !== null &&
+                            !CONNECTION_ID_PATTERN.test(requestedConnectionId)
+                        ) {
+                            return new Response("Invalid connectionId", {
+                                status: 400,
+                            });
+                        }
+
                         // Handle missing token first
                         if (!token) {
                             BunLogModule({
@@ -1984,26 +7135,50 @@ export class WorldApiWsManager {
                             });
                         }
 
-                        // Enforce hard limit: only one active WebSocket per session
-                        const existingSession = this.activeSessions.get(
-                            jwtValidationResult.sessionId,
-                        );
+                        const connectionId =
+                            requestedConnectionId ?? crypto.randomUUID();
+                        const existingSession =
+                            this.activeSessions.get(connectionId);
+                        if (
+                            existingSession &&
+                            existingSession.sessionId !==
+                                jwtValidationResult.sessionId
+                        ) {
+                            return new Response(
+                                "Connection belongs to another session",
+                                {
+                                    status: 409,
+                                },
+                            );
+                        }
+
                         if (existingSession) {
+                            // A reconnect often arrives before the previous socket's close is noticed,
+                            // so the new socket replaces it
                             BunLogModule({
                                 prefix: LOG_PREFIX,
                                 message:
-                                    "Rejecting WebSocket upgrade: session already connected",
+                                    "Replacing existing WebSocket for reconnecting connection",
                                 debug: this.DEBUG,
                                 suppress: this.SUPPRESS,
                                 type: "info",
                                 data: {
                                     sessionId: jwtValidationResult.sessionId,
                                     agentId: jwtValidationResult.agentId,
+                                    connectionId,
                                 },
                             });
-                            return new Response("Session already connected", {
-                                status: 409, // Conflict - resource already exists
-                            });
+                            existingSession.ws.close(
+                                1000,
+                                "Session reconnected",
+                            );
+                        } else {
+                            // At the limit the oldest connections make way, so a reconnect that lost
+                            // its connection id is not locked out by its own stale socket
+                            this.closeExcessSessionConnections(
+                                jwtValidationResult.sessionId,
+                                1,
+                            );
                         }
 
                         // Only attempt upgrade if validation passes
@@ -2013,6 +7188,10 @@ export class WorldApiWsManager {
                                 token,
                                 agentId: jwtValidationResult.agentId,
                                 sessionId: jwtValidationResult.sessionId,
+                                connectionId,
+                                codec,
+                                metadataDelivery:
+                                    WsProtocol.MetadataDeliveryMode.FULL,
                             },
                         });
                         const upgradeAttemptMs =
@@ -2049,6 +7228,7 @@ export class WorldApiWsManager {
                             data: {
                                 agentId: jwtValidationResult.agentId,
                                 sessionId: jwtValidationResult.sessionId,
+                                codec,
                                 jwtMs,
                                 sessionMs,
                                 upgradeAttemptMs,
@@ -2107,9 +7287,10 @@ export class WorldApiWsManager {
             websocket: {
                 message: async (
                     ws: ServerWebSocket<WebSocketData>,
-                    message: string,
+                    message: string | Buffer,
                 ) => {
                     const receivedAt = performance.now();
+                    const messageBytes = getEncodedByteLength(message);
                     BunLogModule({
                         prefix: LOG_PREFIX,
                         message: "WS message received",
@@ -2117,7 +7298,7 @@ export class WorldApiWsManager {
                         debug: this.DEBUG,
                         type: "debug",
                         data: {
-                            bytes: new TextEncoder().encode(message).length,
+                            bytes: messageBytes,
                             sessionId: ws.data.sessionId,
                             agentId: ws.data.agentId,
                         },
@@ -2137,13 +7318,14 @@ export class WorldApiWsManager {
                     try {
                         // Session validation
                         const sessionToken = this.tokenMap.get(ws);
-                        const sessionId = this.wsToSessionMap.get(ws);
-                        const session = sessionId
-                            ? this.activeSessions.get(sessionId)
+                        const connectionId = this.wsToConnectionMap.get(ws);
+                        const session = connectionId
+                            ? this.activeSessions.get(connectionId)
                             : undefined;
 
-                        // Parse message
-                        data = JSON.parse(
+                        // Parse message (text frames are JSON, binary frames use the negotiated codec)
+                        data = decodeWsMessage(
+                            this.getWsCodec(ws),
                             message,
                         ) as Communication.WebSocket.Message;
 
@@ -2160,11 +7342,15 @@ export class WorldApiWsManager {
                             },
                         });
 
-                        // Zod-validate incoming WS message
-                        const parsed =
-                            Communication.WebSocket.Z.AnyMessage.safeParse(
-                                data,
-                            );
+                        // Zod-validate incoming WS message (manager-side protocol requests have their own schemas)
+                        const isProtocolRequest = WsProtocol.isRequestType(
+                            data?.type,
+                        );
+                        const parsed = isProtocolRequest
+                            ? WsProtocol.Z.AnyRequest.safeParse(data)
+                            : Communication.WebSocket.Z.AnyMessage.safeParse(
+                                  data,
+                              );
                         if (!parsed.success) {
                             const requestId = data?.requestId ?? "";
                             const errorMessageData = {
@@ -2179,7 +7365,7 @@ export class WorldApiWsManager {
                                     errorMessageData,
                                 );
                             if (errorParsed.success) {
-                                ws.send(JSON.stringify(errorParsed.data));
+                                this.sendMessage(ws, errorParsed.data);
                             }
                             BunLogModule({
                                 prefix: LOG_PREFIX,
@@ -2195,7 +7381,7 @@ export class WorldApiWsManager {
                             return;
                         }
 
-                        if (!sessionToken || !sessionId || !session) {
+                        if (!sessionToken || !connectionId || !session) {
                             const errorMessageData = {
                                 type: Communication.WebSocket.MessageType
                                     .GENERAL_ERROR_RESPONSE,
@@ -2208,7 +7394,7 @@ export class WorldApiWsManager {
                                     errorMessageData,
                                 );
                             if (errorParsed.success) {
-                                ws.send(JSON.stringify(errorParsed.data));
+                                this.sendMessage(ws, errorParsed.data);
                             }
                             ws.close(1000, "Invalid session");
                             BunLogModule({
@@ -2225,6 +7411,17 @@ export class WorldApiWsManager {
                             return;
                         }
 
+                        if (isProtocolRequest) {
+                            await this.handleProtocolRequest(
+                                ws,
+                                session,
+                                parsed.data as WsProtocol.RequestMessage,
+                                messageBytes,
+                                receivedAt,
+                            );
+                            return;
+                        }
+
                         // Handle different message types
                         switch (data.type) {
                             case Communication.WebSocket.MessageType
@@ -2234,68 +7431,193 @@ export class WorldApiWsManager {
 
                                 // Metrics tracking
                                 const startTime = performance.now();
-                                const requestSize = new TextEncoder().encode(
-                                    message,
-                                ).length;
+                                const requestSize = messageBytes;
                                 let responseSize = 0;
                                 let success = false;
 
-                                try {
-                                    await proxyUserSql?.begin(async (tx) => {
-                                        // First set agent context
-                                        await tx`SELECT auth.set_agent_context_from_agent_id(${session.agentId}::UUID)`;
+                                if (!this.allowRawQueries) {
+                                    const disabledResponseParsed =
+                                        Communication.WebSocket.Z.QueryResponse.safeParse(
+                                            {
+                                                type: Communication.WebSocket
+                                                    .MessageType.QUERY_RESPONSE,
+                                                timestamp: Date.now(),
+                                                requestId:
+                                                    typedRequest.requestId,
+                                                errorMessage:
+                                                    "Raw SQL queries are disabled; use NAMED_QUERY_REQUEST",
+                                                result: [],
+                                            },
+                                        );
+                                    if (disabledResponseParsed.success) {
+                                        responseSize = this.sendMessage(
+                                            ws,
+                                            disabledResponseParsed.data,
+                                        );
+                                    }
+                                    this.recordEndpointMetrics(
+                                        "WS_QUERY_REQUEST",
+                                        startTime,
+                                        requestSize,
+                                        responseSize,
+                                        false,
+                                    );
+                                    break;
+                                }
+
+                                const rateLimitRejection =
+                                    this.rateLimiter.beginQuery(
+                                        session.agentId,
+                                    );
+                                if (rateLimitRejection) {
+                                    responseSize = this.sendRateLimitExceeded(
+                                        ws,
+                                        typedRequest.requestId,
+                                        typedRequest.type,
+                                        rateLimitRejection,
+                                    );
+                                    this.recordEndpointMetrics(
+                                        "WS_QUERY_REQUEST",
+                                        startTime,
+                                        requestSize,
+                                        responseSize,
+                                        false,
+                                    );
+                                    break;
+                                }
 
-                                        const results = await tx.unsafe(
-                                            typedRequest.query,
-                                            typedRequest.parameters || [],
+                                try {
+                                    const queryOptions =
+                                        WsProtocol.Z.QueryRequestOptions.safeParse(
+                                            data,
+                                        );
+                                    if (!queryOptions.success) {
+                                        throw new Error(
+                                            queryOptions.error.issues[0]
+                                                ?.message ??
+                                                "Invalid query options",
                                         );
+                                    }
+                                    await this.trackQuery(
+                                        ws,
+                                        typedRequest.requestId,
+                                        async (inFlight) => {
+                                            if (
+                                                queryOptions.data.pageSize !==
+                                                    undefined ||
+                                                queryOptions.data.stream
+                                            ) {
+                                                responseSize =
+                                                    await this.runCursorQuery(
+                                                        ws,
+                                                        session,
+                                                        typedRequest,
+                                                        queryOptions.data,
+                                                        inFlight,
+                                                    );
+                                                success = true;
+                                            } else {
+                                                await proxyUserSql?.begin(
+                                                    async (tx) => {
+                                                        // First set agent context
+                                                        await tx`SELECT auth.set_agent_context_from_agent_id(${session.agentId}::UUID)`;
+                                                        await this.applyStatementTimeout(
+                                                            tx,
+                                                            session.agentId,
+                                                        );
 
-                                        const responseData = {
-                                            type: Communication.WebSocket
-                                                .MessageType.QUERY_RESPONSE,
-                                            timestamp: Date.now(),
-                                            requestId: typedRequest.requestId,
-                                            errorMessage:
-                                                typedRequest.errorMessage,
-                                            result: results,
-                                        };
+                                                        const results =
+                                                            await this.runTrackedStatement(
+                                                                inFlight,
+                                                                tx.unsafe(
+                                                                    typedRequest.query,
+                                                                    typedRequest.parameters ||
+                                                                        [],
+                                                                ),
+                                                            );
+                                                        if (
+                                                            results.length >
+                                                            this.QUERY_MAX_ROWS
+                                                        ) {
+                                                            throw new Error(
+                                                                `Query returned more than ${this.QUERY_MAX_ROWS} rows; use pageSize or stream`,
+                                                            );
+                                                        }
 
-                                        const responseParsed =
-                                            Communication.WebSocket.Z.QueryResponse.safeParse(
-                                                responseData,
-                                            );
-                                        if (!responseParsed.success) {
-                                            throw new Error(
-                                                `Invalid query response format: ${responseParsed.error.message}`,
-                                            );
-                                        }
+                                                        const responseData = {
+                                                            type: Communication
+                                                                .WebSocket
+                                                                .MessageType
+                                                                .QUERY_RESPONSE,
+                                                            timestamp:
+                                                                Date.now(),
+                                                            requestId:
+                                                                typedRequest.requestId,
+                                                            errorMessage:
+                                                                typedRequest.errorMessage,
+                                                            result: results,
+                                                        };
+
+                                                        const responseParsed =
+                                                            Communication.WebSocket.Z.QueryResponse.safeParse(
+                                                                responseData,
+                                                            );
+                                                        if (
+                                                            !responseParsed.success
+                                                        ) {
+                                                            throw new Error(
+                                                                `Invalid query response format: ${responseParsed.error.message}`,
+                                                            );
+                                                        }
 
-                                        const responseString = JSON.stringify(
-                                            responseParsed.data,
-                                        );
-                                        responseSize = new TextEncoder().encode(
-                                            responseString,
-                                        ).length;
-                                        success = true;
-
-                                        ws.send(responseString);
-                                        BunLogModule({
-                                            prefix: LOG_PREFIX,
-                                            message: "WS QUERY_REQUEST handled",
-                                            debug: this.DEBUG,
-                                            suppress: this.SUPPRESS,
-                                            type: "debug",
-                                            data: {
-                                                requestId:
-                                                    typedRequest.requestId,
-                                                durationMs:
-                                                    performance.now() -
-                                                    receivedAt,
-                                                requestSize,
-                                                responseSize,
-                                            },
-                                        });
-                                    });
+                                                        // Checked before sending; failing here rolls the transaction back
+                                                        const encoded =
+                                                            encodeWsMessage(
+                                                                this.getWsCodec(
+                                                                    ws,
+                                                                ),
+                                                                responseParsed.data,
+                                                            );
+                                                        if (
+                                                            getEncodedByteLength(
+                                                                encoded,
+                                                            ) >
+                                                            this.QUERY_MAX_BYTES
+                                                        ) {
+                                                            throw new Error(
+                                                                `Query result exceeds ${this.QUERY_MAX_BYTES} bytes; use pageSize or stream`,
+                                                            );
+                                                        }
+                                                        ws.send(encoded);
+                                                        responseSize =
+                                                            getEncodedByteLength(
+                                                                encoded,
+                                                            );
+                                                        success = true;
+
+                                                        BunLogModule({
+                                                            prefix: LOG_PREFIX,
+                                                            message:
+                                                                "WS QUERY_REQUEST handled",
+                                                            debug: this.DEBUG,
+                                                            suppress:
+                                                                this.SUPPRESS,
+                                                            type: "debug",
+                                                            data: {
+                                                                requestId:
+                                                                    typedRequest.requestId,
+                                                                durationMs:
+                                                                    performance.now() -
+                                                                    receivedAt,
+                                                                requestSize,
+                                                                responseSize,
+                                                            },
+                                                        });
+                                                    },
+                                                );
+                                            }
+                                        },
+                                    );
                                 } catch (error) {
                                     // Improved error handling with more structured information
                                     const errorMessage =
@@ -2335,15 +7657,12 @@ export class WorldApiWsManager {
                                         );
                                     }
 
-                                    const errorResponseString = JSON.stringify(
+                                    responseSize = this.sendMessage(
+                                        ws,
                                         errorResponseParsed.data,
                                     );
-                                    responseSize = new TextEncoder().encode(
-                                        errorResponseString,
-                                    ).length;
                                     success = false;
 
-                                    ws.send(errorResponseString);
                                     BunLogModule({
                                         prefix: LOG_PREFIX,
                                         message: "WS QUERY_REQUEST error",
@@ -2360,6 +7679,7 @@ export class WorldApiWsManager {
                                         },
                                     });
                                 } finally {
+                                    this.rateLimiter.endQuery(session.agentId);
                                     // Record metrics
                                     this.recordEndpointMetrics(
                                         "WS_QUERY_REQUEST",
@@ -2378,9 +7698,7 @@ export class WorldApiWsManager {
                                     data as Communication.WebSocket.EntityChannelSubscribeRequestMessage;
 
                                 const startTime = performance.now();
-                                const requestSize = new TextEncoder().encode(
-                                    message,
-                                ).length;
+                                const requestSize = messageBytes;
                                 let responseSize = 0;
                                 let success = false;
                                 const entityName =
@@ -2390,6 +7708,27 @@ export class WorldApiWsManager {
                                         ? null
                                         : typedRequest.channel?.trim() || null;
 
+                                const rateLimitRejection =
+                                    this.rateLimiter.beginQuery(
+                                        session.agentId,
+                                    );
+                                if (rateLimitRejection) {
+                                    responseSize = this.sendRateLimitExceeded(
+                                        ws,
+                                        typedRequest.requestId,
+                                        typedRequest.type,
+                                        rateLimitRejection,
+                                    );
+                                    this.recordEndpointMetrics(
+                                        "WS_ENTITY_CHANNEL_SUBSCRIBE_REQUEST",
+                                        startTime,
+                                        requestSize,
+                                        responseSize,
+                                        false,
+                                    );
+                                    break;
+                                }
+
                                 try {
                                     if (!entityName) {
                                         throw new Error(
@@ -2397,6 +7736,16 @@ export class WorldApiWsManager {
                                         );
                                     }
 
+                                    const subscribeOptions =
+                                        WsProtocol.Z.EntityChannelSubscribeOptions.safeParse(
+                                            data,
+                                        );
+                                    if (!subscribeOptions.success) {
+                                        throw new Error(
+                                            "snapshot must be a boolean",
+                                        );
+                                    }
+
                                     if (
                                         !this.aclService?.isWarmed(
                                             session.agentId,
@@ -2415,9 +7764,12 @@ export class WorldApiWsManager {
                                     }
 
                                     const entityResult = await superUserSql<
-                                        Array<{ group__sync: string }>
+                                        Array<{
+                                            group__sync: string;
+                                            group__channel: string | null;
+                                        }>
                                     >`
-                                        SELECT group__sync
+                                        SELECT group__sync, group__channel
                                         FROM entity.entities
                                         WHERE general__entity_name = ${entityName}
                                         LIMIT 1
@@ -2428,6 +7780,10 @@ export class WorldApiWsManager {
                                             `Entity not found: ${entityName}`,
                                         );
                                     }
+                                    // Without a channel the entity's own channel decides, as its deliveries carry it
+                                    const aclChannel =
+                                        channel ??
+                                        entityResult[0].group__channel;
 
                                     const syncGroup =
                                         entityResult[0].group__sync;
@@ -2443,6 +7799,26 @@ export class WorldApiWsManager {
                                             `Not authorized to read sync group: ${syncGroup}`,
                                         );
                                     }
+                                    if (aclChannel !== null) {
+                                        await this.ensureAgentChannelRoles(
+                                            session.agentId,
+                                            syncGroup,
+                                            aclChannel,
+                                        );
+                                    }
+                                    if (
+                                        aclChannel !== null &&
+                                        !this.canAccessChannel(
+                                            session.agentId,
+                                            syncGroup,
+                                            aclChannel,
+                                            "read",
+                                        )
+                                    ) {
+                                        throw new Error(
+                                            `Not authorized to read channel: ${aclChannel}`,
+                                        );
+                                    }
 
                                     // Subscribe to entity topics
                                     const ws =
@@ -2460,7 +7836,10 @@ export class WorldApiWsManager {
                                                 syncGroup,
                                                 entityName,
                                             );
-                                        ws.subscribe(allChannelsTopic);
+                                        this.subscribeExplicitTopic(
+                                            ws,
+                                            allChannelsTopic,
+                                        );
 
                                         // Also subscribe to all metadata "all channels" topics for this entity
                                         // We subscribe to the generic "__ALL__" metadata topic for each sync group used by this entity's metadata
@@ -2499,7 +7878,8 @@ export class WorldApiWsManager {
                                                         entityName,
                                                         "__ALL__",
                                                     );
-                                                ws.subscribe(
+                                                this.subscribeExplicitTopic(
+                                                    ws,
                                                     metadataAllChannelsTopic,
                                                 );
                                             }
@@ -2512,7 +7892,10 @@ export class WorldApiWsManager {
                                                 entityName,
                                                 channel,
                                             );
-                                        ws.subscribe(channelTopic);
+                                        this.subscribeExplicitTopic(
+                                            ws,
+                                            channelTopic,
+                                        );
 
                                         // Also subscribe to channel-specific metadata topics
                                         const metadataSyncGroupsResult =
@@ -2549,13 +7932,23 @@ export class WorldApiWsManager {
                                                         "__ALL__",
                                                         channel,
                                                     );
-                                                ws.subscribe(
+                                                this.subscribeExplicitTopic(
+                                                    ws,
                                                     metadataChannelTopic,
                                                 );
                                             }
                                         }
                                     }
 
+                                    const snapshot = subscribeOptions.data
+                                        .snapshot
+                                        ? await this.buildEntityChannelSnapshot(
+                                              session,
+                                              entityName,
+                                              channel,
+                                          )
+                                        : undefined;
+
                                     const responseData = {
                                         type: Communication.WebSocket
                                             .MessageType
@@ -2578,16 +7971,17 @@ export class WorldApiWsManager {
                                         );
                                     }
 
-                                    const responseString = JSON.stringify(
-                                        responseParsed.data,
+                                    responseSize = this.sendMessage(
+                                        ws,
+                                        snapshot
+                                            ? {
+                                                  ...responseParsed.data,
+                                                  snapshot,
+                                              }
+                                            : responseParsed.data,
                                     );
-                                    responseSize = new TextEncoder().encode(
-                                        responseString,
-                                    ).length;
                                     success = true;
 
-                                    ws.send(responseString);
-
                                     BunLogModule({
                                         prefix: LOG_PREFIX,
                                         message:
@@ -2626,13 +8020,10 @@ export class WorldApiWsManager {
                                             errorResponse,
                                         );
                                     if (errorParsed.success) {
-                                        const errorString = JSON.stringify(
+                                        responseSize = this.sendMessage(
+                                            ws,
                                             errorParsed.data,
                                         );
-                                        responseSize = new TextEncoder().encode(
-                                            errorString,
-                                        ).length;
-                                        ws.send(errorString);
                                     }
 
                                     BunLogModule({
@@ -2650,6 +8041,7 @@ export class WorldApiWsManager {
                                         },
                                     });
                                 } finally {
+                                    this.rateLimiter.endQuery(session.agentId);
                                     this.recordEndpointMetrics(
                                         "WS_ENTITY_CHANNEL_SUBSCRIBE_REQUEST",
                                         startTime,
@@ -2668,9 +8060,7 @@ export class WorldApiWsManager {
                                     data as Communication.WebSocket.EntityChannelUnsubscribeRequestMessage;
 
                                 const startTime = performance.now();
-                                const requestSize = new TextEncoder().encode(
-                                    message,
-                                ).length;
+                                const requestSize = messageBytes;
                                 let responseSize = 0;
                                 let removed = false;
                                 const entityName =
@@ -2686,15 +8076,8 @@ export class WorldApiWsManager {
                                     // WebSocket doesn't support unsubscription
                                     removed = false;
                                 } else {
-                                    // Get current subscriptions from Bun's native getter
-                                    const subscriptions =
-                                        (
-                                            ws as unknown as {
-                                                subscriptions?: string[];
-                                            }
-                                        ).subscriptions || [];
                                     const currentSubscriptions = new Set(
-                                        subscriptions,
+                                        this.getSubscribedTopics(ws),
                                     );
 
                                     // Get the entity's syncGroup from the database
@@ -2728,7 +8111,8 @@ export class WorldApiWsManager {
                                                             allChannelsTopic,
                                                         )
                                                     ) {
-                                                        ws.unsubscribe(
+                                                        this.unsubscribeExplicitTopic(
+                                                            ws,
                                                             allChannelsTopic,
                                                         );
                                                         removed = true;
@@ -2761,7 +8145,8 @@ export class WorldApiWsManager {
                                                                 metadataAllChannelsTopic,
                                                             )
                                                         ) {
-                                                            ws.unsubscribe(
+                                                            this.unsubscribeExplicitTopic(
+                                                                ws,
                                                                 metadataAllChannelsTopic,
                                                             );
                                                         }
@@ -2779,7 +8164,8 @@ export class WorldApiWsManager {
                                                             channelTopic,
                                                         )
                                                     ) {
-                                                        ws.unsubscribe(
+                                                        this.unsubscribeExplicitTopic(
+                                                            ws,
                                                             channelTopic,
                                                         );
                                                         removed = true;
@@ -2813,7 +8199,8 @@ export class WorldApiWsManager {
                                                                 metadataChannelTopic,
                                                             )
                                                         ) {
-                                                            ws.unsubscribe(
+                                                            this.unsubscribeExplicitTopic(
+                                                                ws,
                                                                 metadataChannelTopic,
                                                             );
                                                         }
@@ -2847,7 +8234,8 @@ export class WorldApiWsManager {
                                                         `:${channel}`,
                                                     )
                                                 ) {
-                                                    ws.unsubscribe(
+                                                    this.unsubscribeExplicitTopic(
+                                                        ws,
                                                         subscription,
                                                     );
                                                     removed = true;
@@ -2875,13 +8263,10 @@ export class WorldApiWsManager {
                                         responseData,
                                     );
                                 if (responseParsed.success) {
-                                    const responseString = JSON.stringify(
+                                    responseSize = this.sendMessage(
+                                        ws,
                                         responseParsed.data,
                                     );
-                                    responseSize = new TextEncoder().encode(
-                                        responseString,
-                                    ).length;
-                                    ws.send(responseString);
                                 }
 
                                 BunLogModule({
@@ -2918,14 +8303,20 @@ export class WorldApiWsManager {
 
                                 // Metrics tracking
                                 const startTime = performance.now();
-                                const messageSize = new TextEncoder().encode(
-                                    message,
-                                ).length;
+                                const messageSize = messageBytes;
 
                                 // basic validation
                                 const syncGroup = (req.syncGroup || "").trim();
                                 const channel = (req.channel || "").trim();
-                                if (!syncGroup || !channel) {
+                                const targetsParsed =
+                                    WsProtocol.Z.ReflectPublishTargets.safeParse(
+                                        data,
+                                    );
+                                if (
+                                    !syncGroup ||
+                                    !channel ||
+                                    !targetsParsed.success
+                                ) {
                                     const endTime = performance.now();
                                     const duration = endTime - startTime;
                                     this.metricsCollector.recordReflect(
@@ -2940,7 +8331,9 @@ export class WorldApiWsManager {
                                         timestamp: Date.now(),
                                         requestId: req.requestId,
                                         errorMessage:
-                                            "Missing syncGroup or channel",
+                                            !syncGroup || !channel
+                                                ? "Missing syncGroup or channel"
+                                                : "Invalid reflect targets",
                                         syncGroup,
                                         channel,
                                         delivered: 0,
@@ -2950,8 +8343,9 @@ export class WorldApiWsManager {
                                             errorAckData,
                                         );
                                     if (errorAckParsed.success) {
-                                        ws.send(
-                                            JSON.stringify(errorAckParsed.data),
+                                        this.sendMessage(
+                                            ws,
+                                            errorAckParsed.data,
                                         );
                                     }
                                     BunLogModule({
@@ -2981,13 +8375,27 @@ export class WorldApiWsManager {
                                 }
 
                                 // authorize: sender must be able to write (update or insert) the target group
-                                if (
-                                    !this.canUpdate(
+                                const canWriteGroup =
+                                    this.canUpdate(
                                         session.agentId,
                                         syncGroup,
-                                    ) &&
-                                    !this.canInsert(session.agentId, syncGroup)
-                                ) {
+                                    ) ||
+                                    this.canInsert(session.agentId, syncGroup);
+                                // ...and publish on the channel when channel ACLs cover it
+                                if (canWriteGroup) {
+                                    await this.ensureAgentChannelRoles(
+                                        session.agentId,
+                                        syncGroup,
+                                        channel,
+                                    );
+                                }
+                                const canPublishChannel = this.canAccessChannel(
+                                    session.agentId,
+                                    syncGroup,
+                                    channel,
+                                    "publish",
+                                );
+                                if (!canWriteGroup || !canPublishChannel) {
                                     const endTime = performance.now();
                                     const duration = endTime - startTime;
                                     this.metricsCollector.recordReflect(
@@ -3001,8 +8409,9 @@ export class WorldApiWsManager {
                                             .MessageType.REFLECT_ACK_RESPONSE,
                                         timestamp: Date.now(),
                                         requestId: req.requestId,
-                                        errorMessage:
-                                            "Not authorized (update or insert required)",
+                                        errorMessage: canWriteGroup
+                                            ? `Not authorized to publish on channel: ${channel}`
+                                            : "Not authorized (update or insert required)",
                                         syncGroup,
                                         channel,
                                         delivered: 0,
@@ -3012,16 +8421,16 @@ export class WorldApiWsManager {
                                             unauthorizedAckData,
                                         );
                                     if (unauthorizedAckParsed.success) {
-                                        ws.send(
-                                            JSON.stringify(
-                                                unauthorizedAckParsed.data,
-                                            ),
+                                        this.sendMessage(
+                                            ws,
+                                            unauthorizedAckParsed.data,
                                         );
                                     }
                                     BunLogModule({
                                         prefix: LOG_PREFIX,
-                                        message:
-                                            "WS REFLECT_PUBLISH_REQUEST unauthorized - update or insert required",
+                                        message: canWriteGroup
+                                            ? "WS REFLECT_PUBLISH_REQUEST unauthorized - channel publish required"
+                                            : "WS REFLECT_PUBLISH_REQUEST unauthorized - update or insert required",
                                         debug: this.DEBUG,
                                         suppress: this.SUPPRESS,
                                         type: "info",
@@ -3035,6 +8444,36 @@ export class WorldApiWsManager {
                                     break;
                                 }
 
+                                const rateLimitRejection =
+                                    this.rateLimiter.checkReflect(
+                                        session.agentId,
+                                        syncGroup,
+                                        messageSize,
+                                    );
+                                if (rateLimitRejection) {
+                                    this.metricsCollector.recordReflect(
+                                        performance.now() - startTime,
+                                        messageSize,
+                                        0, // delivered
+                                        false, // acknowledged
+                                    );
+                                    const responseSize =
+                                        this.sendRateLimitExceeded(
+                                            ws,
+                                            req.requestId,
+                                            req.type,
+                                            rateLimitRejection,
+                                        );
+                                    this.recordEndpointMetrics(
+                                        "WS_REFLECT_PUBLISH_REQUEST",
+                                        startTime,
+                                        messageSize,
+                                        responseSize,
+                                        false,
+                                    );
+                                    break;
+                                }
+
                                 // enqueue for tick-gated fanout
                                 // let delivered = 0; // not used in fire-and-forget path
                                 const deliveryData = {
@@ -3058,8 +8497,31 @@ export class WorldApiWsManager {
                                         `Invalid delivery message format: ${deliveryParsed.error.message}`,
                                     );
                                 }
-                                const delivery = deliveryParsed.data;
-                                const payloadStr = JSON.stringify(delivery);
+                                // Lets receivers address a reply to the publishing connection
+                                const delivery = {
+                                    ...deliveryParsed.data,
+                                    fromConnectionId: session.connectionId,
+                                };
+
+                                // A payload position moves the sender; payloads without one are placed at the sender's last position
+                                const payloadPosition = parseInterestPosition(
+                                    (req.payload as { position?: unknown })
+                                        ?.position,
+                                );
+                                if (payloadPosition) {
+                                    this.setInterestPosition(
+                                        syncGroup,
+                                        session.connectionId,
+                                        payloadPosition,
+                                    );
+                                }
+                                const interestPosition =
+                                    this.reflectInterestConfigs.has(syncGroup)
+                                        ? (payloadPosition ??
+                                          this.interestPositions
+                                              .get(syncGroup)
+                                              ?.get(session.connectionId))
+                                        : undefined;
 
                                 // Record pusher activity for this publish
                                 this.metricsCollector.recordPusher(
@@ -3068,15 +8530,45 @@ export class WorldApiWsManager {
                                     channel,
                                 );
 
+                                // Either target list makes this a unicast/multicast publish
+                                const {
+                                    targetSessionIds,
+                                    targetConnectionIds,
+                                } = targetsParsed.data;
+                                const targets =
+                                    targetSessionIds || targetConnectionIds
+                                        ? targetsParsed.data
+                                        : undefined;
+
                                 this.enqueueReflect(
                                     syncGroup,
                                     channel,
-                                    session.sessionId,
-                                    payloadStr,
+                                    session.connectionId,
+                                    delivery,
                                     req.requestAcknowledgement
                                         ? req.requestId
                                         : undefined,
+                                    interestPosition,
+                                    targets,
                                 );
+                                // Peers only need targeted publishes they may hold recipients for
+                                if (
+                                    !targets ||
+                                    targetSessionIds?.length ||
+                                    targetConnectionIds?.some(
+                                        (id) => !this.activeSessions.has(id),
+                                    )
+                                ) {
+                                    void this.publishFanout({
+                                        type: "reflect",
+                                        syncGroup,
+                                        channel,
+                                        fromConnectionId: session.connectionId,
+                                        delivery,
+                                        position: interestPosition,
+                                        targets,
+                                    });
+                                }
 
                                 // Record endpoint metrics using request size; response size depends on ack
                                 const responseSize = 0; // ack sent after flush
@@ -3123,10 +8615,9 @@ export class WorldApiWsManager {
                                         unsupportedErrorData,
                                     );
                                 if (unsupportedErrorParsed.success) {
-                                    session.ws.send(
-                                        JSON.stringify(
-                                            unsupportedErrorParsed.data,
-                                        ),
+                                    this.sendMessage(
+                                        session.ws,
+                                        unsupportedErrorParsed.data,
                                     );
                                 }
                                 BunLogModule({
@@ -3173,6 +8664,7 @@ export class WorldApiWsManager {
                         data: {
                             agentId: sessionData.agentId,
                             sessionId: sessionData.sessionId,
+                            connectionId: sessionData.connectionId,
                             readyState: ws.readyState,
                         },
                     });
@@ -3181,10 +8673,32 @@ export class WorldApiWsManager {
                         ws,
                         agentId: sessionData.agentId,
                         sessionId: sessionData.sessionId,
+                        connectionId: sessionData.connectionId,
+                        connectedAt: Date.now(),
                     };
 
-                    this.activeSessions.set(sessionData.sessionId, session);
-                    this.wsToSessionMap.set(ws, sessionData.sessionId);
+                    // The socket being replaced may not have reported its close yet
+                    const replacedSession = this.activeSessions.get(
+                        sessionData.connectionId,
+                    );
+                    if (replacedSession && replacedSession.ws !== ws) {
+                        this.wsToConnectionMap.delete(replacedSession.ws);
+                        this.detachReplayState(
+                            replacedSession.ws as ServerWebSocket<WebSocketData>,
+                        );
+                    }
+
+                    // Re-inserted so the map stays ordered oldest connection first
+                    this.activeSessions.delete(sessionData.connectionId);
+                    this.activeSessions.set(sessionData.connectionId, session);
+                    this.attachReplayState(ws);
+                    void this.publishFanout({
+                        type: "session_connected",
+                        sessionId: sessionData.sessionId,
+                        connectionId: sessionData.connectionId,
+                        connectedAt: session.connectedAt,
+                    });
+                    this.wsToConnectionMap.set(ws, sessionData.connectionId);
                     this.tokenMap.set(
                         ws,
                         (ws as ServerWebSocket<WebSocketData>).data.token,
@@ -3218,7 +8732,15 @@ export class WorldApiWsManager {
                             sessionInfoData,
                         );
                     if (sessionInfoParsed.success) {
-                        ws.send(JSON.stringify(sessionInfoParsed.data));
+                        this.sendMessage(ws, {
+                            ...sessionInfoParsed.data,
+                            connectionId: sessionData.connectionId,
+                        });
+                    }
+                },
+                drain: (ws: ServerWebSocket<WebSocketData>) => {
+                    if (this.slowConsumers.has(ws)) {
+                        this.checkSlowConsumer(ws);
                     }
                 },
                 close: (
@@ -3226,11 +8748,66 @@ export class WorldApiWsManager {
                     code: number,
                     reason: string,
                 ) => {
-                    const session = this.activeSessions.get(ws.data.sessionId);
-                    if (session) {
+                    const session = this.activeSessions.get(
+                        ws.data.connectionId,
+                    );
+                    // Matched topics stay with the replay state for SESSION_RESUME; the queries end here
+                    for (const query of this.entityQueries.values()) {
+                        if (query.ws === ws) {
+                            this.entityQueries.delete(query.id);
+                        }
+                    }
+                    for (const cursor of Array.from(
+                        this.queryCursors.values(),
+                    )) {
+                        if (cursor.ws === ws) {
+                            void this.closeQueryCursor(cursor);
+                        }
+                    }
+                    this.slowConsumers.delete(ws);
+                    this.explicitTopics.delete(ws);
+                    // Nobody is left to read the results
+                    for (const inFlight of this.inFlightQueries.values()) {
+                        if (inFlight.ws === ws) {
+                            this.cancelInFlightQuery(inFlight);
+                        }
+                    }
+                    // Skip cleanup when a reconnect has already replaced this socket
+                    if (session && session.ws === ws) {
                         // Clean up maps
-                        this.wsToSessionMap.delete(session.ws);
-                        this.activeSessions.delete(session.sessionId);
+                        this.wsToConnectionMap.delete(session.ws);
+                        this.activeSessions.delete(session.connectionId);
+                        this.detachReplayState(ws);
+                        this.clearInterestPositions(session.connectionId);
+                        this.dropRetainedReflects(
+                            (fromConnectionId) =>
+                                fromConnectionId === session.connectionId,
+                        );
+                        this.announcePresenceLeaves(
+                            this.presence.leave(
+                                (connectionId, instanceId) =>
+                                    connectionId === session.connectionId &&
+                                    instanceId === this.instanceId,
+                            ),
+                        );
+                        // Always announced, as peers count the connection against its session's limit
+                        void this.publishFanout({
+                            type: "connection_closed",
+                            connectionId: session.connectionId,
+                        });
+                        if (
+                            this.getSessionConnections(session.sessionId)
+                                .length === 0
+                        ) {
+                            this.presenceAttributes.delete(session.sessionId);
+                        }
+                        if (
+                            !Array.from(this.activeSessions.values()).some(
+                                (other) => other.agentId === session.agentId,
+                            )
+                        ) {
+                            this.agentRoles.delete(session.agentId);
+                        }
                         // Bun automatically handles unsubscription on close
                     }
 
@@ -3240,8 +8817,9 @@ export class WorldApiWsManager {
                         suppress: this.SUPPRESS,
                         prefix: LOG_PREFIX,
                         data: {
-                            sessionId: session?.sessionId,
-                            agentId: session?.agentId,
+                            sessionId: ws.data.sessionId,
+                            connectionId: ws.data.connectionId,
+                            agentId: ws.data.agentId,
                             code,
                             reason,
                         },
@@ -3256,7 +8834,24 @@ export class WorldApiWsManager {
         // #region Heartbeat Interval
 
         this.heartbeatInterval = setInterval(async () => {
-            const sessionsToCheck = Array.from(this.activeSessions.entries());
+            // A slow database must not stack heartbeats on top of each other
+            if (this.heartbeatInFlight) {
+                this.metricsCollector.recordHeartbeatSkipped();
+                return;
+            }
+            this.heartbeatInFlight = true;
+            const heartbeatStart = performance.now();
+            const sessionIds = Array.from(
+                new Set(
+                    Array.from(
+                        this.activeSessions.values(),
+                        (session) => session.sessionId,
+                    ),
+                ),
+            );
+            let queries = 0;
+            let closed = 0;
+            let success = true;
 
             // Record current system metrics periodically
             const currentMemory = process.memoryUsage();
@@ -3271,45 +8866,92 @@ export class WorldApiWsManager {
                 dbConnectionCount,
             );
 
-            // Process sessions in parallel
-            await Promise.all(
-                sessionsToCheck.map(async ([sessionId, session]) => {
+            try {
+                if (sessionIds.length > 0) {
                     if (!superUserSql) {
                         throw new Error(
                             "No super user database connection available",
                         );
                     }
 
-                    try {
-                        // Check session validity directly in database
-                        await superUserSql<[{ agent_id: string }]>`
-                                SELECT * FROM auth.validate_session_id(${sessionId}::UUID) as agent_id
-                            `;
-                        // Session is valid if no exception was thrown
-                    } catch (error) {
-                        // Session is invalid, close the connection
+                    // Validate every connected session in a single round-trip
+                    queries++;
+                    const invalidSessions = await superUserSql<
+                        { session_id: string }[]
+                    >`
+                        SELECT * FROM auth.find_invalid_session_ids(${superUserSql.array(sessionIds, "UUID")}) AS session_id
+                    `;
+
+                    for (const { session_id: sessionId } of invalidSessions) {
+                        const connections =
+                            this.getSessionConnections(sessionId);
+                        if (connections.length === 0) {
+                            continue;
+                        }
                         BunLogModule({
                             prefix: LOG_PREFIX,
                             message:
-                                "Session expired / invalid, closing WebSocket",
+                                "Session expired / invalid, closing WebSockets",
                             debug: this.DEBUG,
                             suppress: this.SUPPRESS,
                             type: "info",
                             data: {
                                 sessionId,
-                                agentId: session.agentId,
-                                error:
-                                    error instanceof Error
-                                        ? error.message
-                                        : String(error),
+                                agentId: connections[0].agentId,
+                                connections: connections.length,
                             },
                         });
-                        session.ws.close(1000, "Session expired");
+                        for (const session of connections) {
+                            session.ws.close(1000, "Session expired");
+                        }
+                        closed++;
                     }
-                }),
-            );
+                }
+            } catch (error) {
+                success = false;
+                BunLogModule({
+                    prefix: LOG_PREFIX,
+                    message: "Session heartbeat validation failed",
+                    error,
+                    debug: this.DEBUG,
+                    suppress: this.SUPPRESS,
+                    type: "error",
+                    data: {
+                        sessions: sessionIds.length,
+                    },
+                });
+            } finally {
+                this.metricsCollector.recordHeartbeat(
+                    performance.now() - heartbeatStart,
+                    sessionIds.length,
+                    queries,
+                    closed,
+                    success,
+                );
+                this.heartbeatInFlight = false;
+            }
         }, this.CONNECTION_HEARTBEAT_INTERVAL);
 
+        // #endregion
+
+        // #region Slow Consumer Check
+
+        this.slowConsumerInterval = setInterval(() => {
+            for (const session of this.activeSessions.values()) {
+                this.checkSlowConsumer(
+                    session.ws as ServerWebSocket<WebSocketData>,
+                );
+            }
+        }, this.SLOW_CONSUMER_CHECK_INTERVAL);
+
+        // #endregion
+
+        // #region Rate Limit Bucket Expiry
+
+        this.rateLimitExpiryInterval = setInterval(() => {
+            this.rateLimiter.expireIdleBuckets();
+        }, this.RATE_LIMIT_BUCKET_EXPIRY_INTERVAL);
+
         BunLogModule({
             message: "Bun WS World API Server running.",
             prefix: LOG_PREFIX,
@@ -3330,6 +8972,16 @@ export class WorldApiWsManager {
             if (this.heartbeatInterval) {
                 clearInterval(this.heartbeatInterval);
             }
+            if (this.slowConsumerInterval) {
+                clearInterval(this.slowConsumerInterval);
+            }
+            if (this.rateLimitExpiryInterval) {
+                clearInterval(this.rateLimitExpiryInterval);
+            }
+            if (this.fanoutHeartbeatInterval) {
+                clearInterval(this.fanoutHeartbeatInterval);
+            }
+            void this.fanoutBus?.stop();
             if (this.assetMaintenanceInterval) {
                 clearInterval(this.assetMaintenanceInterval);
             }
@@ -3339,6 +8991,11 @@ export class WorldApiWsManager {
             }
             this.reflectIntervals.clear();
 
+            for (const state of this.detachedReplays.values()) {
+                clearTimeout(state.expiryTimer);
+            }
+            this.detachedReplays.clear();
+
             for (const session of this.activeSessions.values()) {
                 session.ws.close(1000, "Server shutting down");
             }
@@ -11,8 +11,19 @@ import {
 } from "../../../../../sdk/vircadia-world-sdk-ts/schema/src/vircadia.schema.general";
 import { BunPostgresClientModule } from "../../../../../sdk/vircadia-world-sdk-ts/bun/src/module/vircadia.common.bun.postgres.module";
 import type { Server } from "bun";
+import {
+    Histogram,
+    LabeledCounter,
+    METRICS_PATH,
+    OpenMetricsWriter,
+} from "../../../../module/general.server.metrics";
+import {
+    isDockerInternalIP,
+    isLocalhostIP,
+} from "../../../../module/general.server.util";
 
 const LOG_PREFIX = "World State Manager";
+const SYNC_GROUPS_CHANGE_CHANNEL = "sync_groups_changed";
 
 export class WorldStateManager {
     private intervalIds: Map<string, Timer> = new Map();
@@ -25,6 +36,11 @@ export class WorldStateManager {
     private entityExpiryIntervalId: Timer | null = null;
     private metadataExpiryIntervalId: Timer | null = null;
     private entityConfig: Config.I_EntityConfig | null = null;
+    // Series for /metrics, labeled by sync_group
+    private tickDurationSeconds = new Histogram();
+    private tickDbDurationSeconds = new Histogram();
+    private tickDelays = new LabeledCounter();
+    private tickEntityStates = new LabeledCounter();
 
     async initialize() {
         try {
@@ -49,6 +65,20 @@ export class WorldStateManager {
                 fetch: async (req: Request, server: Server) => {
                     const url = new URL(req.url);
 
+                    if (url.pathname === METRICS_PATH && req.method === "GET") {
+                        const requestIP =
+                            req.headers.get("x-forwarded-for")?.split(",")[0] ||
+                            server.requestIP(req)?.address ||
+                            "";
+                        if (
+                            !isLocalhostIP(requestIP) &&
+                            !isDockerInternalIP(requestIP)
+                        ) {
+                            return new Response("Forbidden", { status: 403 });
+                        }
+                        return this.renderMetrics();
+                    }
+
                     // Handle stats
                     if (
                         url.pathname.startsWith(
@@ -204,6 +234,12 @@ export class WorldStateManager {
                 this.handleTickCapturedNotification(payload);
             });
 
+            // Start, stop or re-time tick loops when auth.sync_groups changes
+            await this.legacySuperSql`LISTEN sync_groups_changed`;
+            this.legacySuperSql.listen(SYNC_GROUPS_CHANGE_CHANNEL, () => {
+                this.reloadSyncGroups();
+            });
+
             // Start tick loops for each sync group, respecting enabled flag (default enabled if undefined)
             for (const [syncGroup, config] of this.syncGroups.entries()) {
                 if (config.server__tick__state__enabled === false) {
@@ -322,6 +358,117 @@ export class WorldStateManager {
         }
     }
 
+    // Reconcile tick loops with auth.sync_groups after a change notification
+    private async reloadSyncGroups(): Promise<void> {
+        if (!this.superUserSql) {
+            return;
+        }
+
+        try {
+            const syncGroupsData = await this.superUserSql<
+                Auth.SyncGroup.I_SyncGroup[]
+            >`
+                SELECT * FROM auth.sync_groups
+            `;
+            const latest = new Map<string, Auth.SyncGroup.I_SyncGroup>(
+                syncGroupsData.map((group) => [
+                    group.general__sync_group,
+                    group,
+                ]),
+            );
+
+            // Stop loops for deleted sync groups
+            for (const syncGroup of this.syncGroups.keys()) {
+                if (latest.has(syncGroup)) {
+                    continue;
+                }
+                this.stopTickLoop(syncGroup);
+                this.syncGroups.delete(syncGroup);
+                this.tickCounts.delete(syncGroup);
+                this.tickDurationSeconds.remove({ sync_group: syncGroup });
+                this.tickDbDurationSeconds.remove({ sync_group: syncGroup });
+                this.tickDelays.remove({ sync_group: syncGroup });
+                this.tickEntityStates.remove({ sync_group: syncGroup });
+                BunLogModule({
+                    message: `Stopped tick loop for deleted sync group: ${syncGroup}`,
+                    debug: serverConfiguration.VRCA_SERVER_DEBUG,
+                    suppress: serverConfiguration.VRCA_SERVER_SUPPRESS,
+                    type: "info",
+                    prefix: LOG_PREFIX,
+                });
+            }
+
+            for (const [syncGroup, config] of latest) {
+                const previous = this.syncGroups.get(syncGroup);
+                this.syncGroups.set(syncGroup, config);
+
+                const wasEnabled =
+                    !!previous &&
+                    previous.server__tick__state__enabled !== false;
+                const isEnabled = config.server__tick__state__enabled !== false;
+
+                if (wasEnabled && !isEnabled) {
+                    this.stopTickLoop(syncGroup);
+                    BunLogModule({
+                        message: `Stopped tick loop for sync group: ${syncGroup} (ticking disabled)`,
+                        debug: serverConfiguration.VRCA_SERVER_DEBUG,
+                        suppress: serverConfiguration.VRCA_SERVER_SUPPRESS,
+                        type: "info",
+                        prefix: LOG_PREFIX,
+                    });
+                } else if (!wasEnabled && isEnabled) {
+                    BunLogModule({
+                        message: `Started tick loop for sync group: ${syncGroup}`,
+                        debug: serverConfiguration.VRCA_SERVER_DEBUG,
+                        suppress: serverConfiguration.VRCA_SERVER_SUPPRESS,
+                        type: "info",
+                        prefix: LOG_PREFIX,
+                        data: {
+                            tickRateMs: config.server__tick__rate_ms,
+                        },
+                    });
+                    this.scheduleTick(syncGroup);
+                } else if (
+                    isEnabled &&
+                    previous?.server__tick__rate_ms !==
+                        config.server__tick__rate_ms
+                ) {
+                    BunLogModule({
+                        message: `Re-timed tick loop for sync group: ${syncGroup}`,
+                        debug: serverConfiguration.VRCA_SERVER_DEBUG,
+                        suppress: serverConfiguration.VRCA_SERVER_SUPPRESS,
+                        type: "info",
+                        prefix: LOG_PREFIX,
+                        data: {
+                            previousTickRateMs: previous?.server__tick__rate_ms,
+                            tickRateMs: config.server__tick__rate_ms,
+                        },
+                    });
+                    // Replaces the pending timer; a tick in progress picks up the new rate when it completes
+                    this.scheduleTick(syncGroup);
+                }
+            }
+        } catch (error) {
+            BunLogModule({
+                message: `Error reloading sync groups: ${error}`,
+                debug: serverConfiguration.VRCA_SERVER_DEBUG,
+                suppress: serverConfiguration.VRCA_SERVER_SUPPRESS,
+                type: "error",
+                prefix: LOG_PREFIX,
+            });
+        }
+    }
+
+    private stopTickLoop(syncGroup: string) {
+        const intervalId = this.intervalIds.get(syncGroup);
+        if (intervalId) {
+            clearTimeout(intervalId);
+            this.intervalIds.delete(syncGroup);
+        }
+        // A tick still in progress must not schedule another when it completes
+        this.pendingTicks.delete(syncGroup);
+    }
+
     private scheduleTick(syncGroup: string) {
         const config = this.syncGroups.get(syncGroup);
         if (!config) {
@@ -400,6 +547,69 @@ export class WorldStateManager {
         );
     }
 
+    // OpenMetrics exposition for METRICS_PATH
+    private renderMetrics(): Response {
+        const bySyncGroup = (values: Map<string, number>) =>
+            Array.from(values, ([syncGroup, value]) => ({
+                labels: { sync_group: syncGroup },
+                value,
+            }));
+
+        const writer = new OpenMetricsWriter("vircadia_state");
+        writer.processMetrics();
+        writer.gauge(
+            "database_connected",
+            "Whether the database connection is up",
+            this.superUserSql ? 1 : 0,
+        );
+        writer.gauge(
+            "tick_rate_seconds",
+            "Configured tick interval",
+            Array.from(this.syncGroups, ([syncGroup, group]) => ({
+                labels: { sync_group: syncGroup },
+                value: group.server__tick__rate_ms / 1000,
+            })),
+        );
+        writer.gauge(
+            "ticks_processing",
+            "Whether a tick is being captured",
+            Array.from(this.syncGroups.keys(), (syncGroup) => ({
+                labels: { sync_group: syncGroup },
+                value: this.processingTicks.has(syncGroup) ? 1 : 0,
+            })),
+        );
+        writer.gauge(
+            "ticks_pending",
+            "Whether a tick is waiting for the current one to finish",
+            Array.from(this.syncGroups.keys(), (syncGroup) => ({
+                labels: { sync_group: syncGroup },
+                value: this.pendingTicks.get(syncGroup) ? 1 : 0,
+            })),
+        );
+        writer.counter("ticks", "Ticks captured", bySyncGroup(this.tickCounts));
+        writer.counter(
+            "tick_delays",
+            "Ticks that took longer than the tick rate",
+            this.tickDelays.samples(),
+        );
+        writer.counter(
+            "tick_entity_states",
+            "Entity states captured by ticks",
+            this.tickEntityStates.samples(),
+        );
+        writer.histogram(
+            "tick_duration_seconds",
+            "Time to capture a tick",
+            this.tickDurationSeconds,
+        );
+        writer.histogram(
+            "tick_db_duration_seconds",
+            "Time spent in the tick capture transaction",
+            this.tickDbDurationSeconds,
+        );
+        return writer.toResponse();
+    }
+
     private async processTick(syncGroup: string) {
         // Record manager start time
         const managerStartTime = new Date();
@@ -465,6 +675,27 @@ export class WorldStateManager {
         const isRemotelyDbDelayed =
             result?.tick_data.tick__db__is_delayed || false;
 
+        const labels = { sync_group: syncGroup };
+        this.tickDurationSeconds.observe(
+            localTotalProcessingTime / 1000,
+            labels,
+        );
+        this.tickDbDurationSeconds.observe(
+            localDbProcessingTime / 1000,
+            labels,
+        );
+        if (
+            isLocallyTotalDelayed ||
+            isLocallyDbDelayed ||
+            isRemotelyDbDelayed
+        ) {
+            this.tickDelays.inc(labels);
+        }
+        this.tickEntityStates.inc(
+            labels,
+            result?.tick_data.tick__entity_states_processed ?? 0,
+        );
+
         BunLogModule({
             message: `Tick detected the following changes for sync group: ${syncGroup}`,
             data: {
@@ -943,6 +1174,17 @@ export class WorldStateManager {
                         });
                     },
                 );
+                this.legacySuperSql`UNLISTEN sync_groups_changed`.catch(
+                    (error: unknown) => {
+                        BunLogModule({
+                            message: `Error unlistening from sync group notifications: ${error}`,
+                            debug: serverConfiguration.VRCA_SERVER_DEBUG,
+                            suppress: serverConfiguration.VRCA_SERVER_SUPPRESS,
+                            type: "error",
+                            prefix: LOG_PREFIX,
+                        });
+                    },
+                );
             } catch (error) {
                 BunLogModule({
                     message: `Error attempting to unlisten: ${error}`,